@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { memo, useEffect, useRef, useState } from 'react';
 import { useSvgInteraction } from './useSvgInteraction';
 
 type SvgPageProps = {
@@ -13,8 +13,10 @@ type SvgPageProps = {
   onBlockClick: (pageIndex: number, localIndex: number) => void;
 };
 
-// Lazy-loaded SVG page component with intersection observer
-export function SvgPage({
+// Lazy-loaded SVG page component with intersection observer.
+// Memoized so an incremental render only touches the pages whose SVG changed; untouched pages
+// keep their DOM and the geometry measured by useSvgInteraction.
+export const SvgPage = memo(function SvgPage({
   svgContent,
   pageIndex,
   forceVisible,
@@ -174,4 +176,4 @@ export function SvgPage({
       )}
     </div>
   );
-}
+});
@@ -1,6 +1,7 @@
 import { useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Save, Undo2, Redo2, Settings, FilePlus2 } from 'lucide-react';
+import { ArrowLeft, Save, Undo2, Redo2, Settings, FilePlus2, CloudOff, RefreshCw, History } from 'lucide-react';
+import type { SaveStatus, SyncStatus } from '@/stores/useEditorStore';
 
 export type EditorMode = 'source' | 'visual';
 
@@ -12,7 +13,11 @@ interface EditorToolbarProps {
     onUndo: () => void;
     onRedo: () => void;
     onSave: () => void;
+    saveStatus?: SaveStatus;
+    syncStatus?: SyncStatus;
+    pendingSyncCount?: number;
     onOpenCoverModal: () => void;
+    onOpenHistory?: () => void;
     projectType: 'report' | 'cover' | 'template';
     showSettings: boolean;
     onToggleSettings: () => void;
@@ -27,7 +32,11 @@ export function EditorToolbar({
     onUndo,
     onRedo,
     onSave,
+    saveStatus,
+    syncStatus = 'online',
+    pendingSyncCount = 0,
     onOpenCoverModal,
+    onOpenHistory,
     projectType,
     showSettings,
     onToggleSettings,
@@ -105,6 +114,27 @@ export function EditorToolbar({
             </div>
 
             <div className="flex items-center gap-3 shrink-0">
+                {syncStatus === 'offline' ? (
+                    <span
+                        className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                        title="无法连接服务器，修改已保存在本地，恢复连接后自动同步"
+                    >
+                        <CloudOff size={14} />
+                        离线{pendingSyncCount > 0 ? ` · ${pendingSyncCount} 项待同步` : ''}
+                    </span>
+                ) : syncStatus === 'syncing' ? (
+                    <span className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+                        <RefreshCw size={14} className="animate-spin" />
+                        同步中…
+                    </span>
+                ) : pendingSyncCount > 0 ? (
+                    <span className="text-xs text-amber-600 dark:text-amber-400">{pendingSyncCount} 项待同步</span>
+                ) : null}
+                {saveStatus && (
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {saveStatus === 'saving' ? '保存中…' : '已保存'}
+                    </span>
+                )}
                 <button
                     onClick={onSave}
                     className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded text-xs font-semibold transition-colors"
@@ -124,6 +154,16 @@ export function EditorToolbar({
                     </button>
                 )}
 
+                {onOpenHistory && (
+                    <button
+                        onClick={onOpenHistory}
+                        className="p-2 rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                        title="版本历史"
+                    >
+                        <History size={16} />
+                    </button>
+                )}
+
                 <button
                     onClick={onToggleSettings}
                     className={`p-2 rounded border border-zinc-300 dark:border-zinc-600 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors ${showSettings ? 'bg-zinc-200 dark:bg-zinc-700' : 'bg-white dark:bg-zinc-900'}`}
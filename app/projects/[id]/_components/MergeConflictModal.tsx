@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { X, GitMerge } from 'lucide-react';
+import { blocksToTypst, countMergeConflicts, type BlockConflictChoice, type TypstBlock } from '@/lib/typst';
+import type { SaveConflict } from '@/stores/useEditorStore';
+
+interface MergeConflictModalProps {
+    conflict: SaveConflict | null;
+    onResolve: (choices: BlockConflictChoice[]) => void;
+    onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<BlockConflictChoice, string> = {
+    mine: '保留我的',
+    theirs: '采用对方的',
+    both: '两者都保留',
+};
+
+function BlockSnippets({ blocks, emptyText }: { blocks: TypstBlock[]; emptyText: string }) {
+    if (blocks.length === 0) {
+        return <div className="text-xs italic text-zinc-400 dark:text-zinc-500 px-2 py-1.5">{emptyText}</div>;
+    }
+    return (
+        <pre className="text-xs font-mono whitespace-pre-wrap break-all px-2 py-1.5 max-h-48 overflow-y-auto text-zinc-700 dark:text-zinc-300">
+            {blocks.map((b) => blocksToTypst([b])).join('\n\n')}
+        </pre>
+    );
+}
+
+export function MergeConflictModal({ conflict, onResolve, onCancel }: MergeConflictModalProps) {
+    const conflictCount = useMemo(() => (conflict ? countMergeConflicts(conflict.hunks) : 0), [conflict]);
+    const [choices, setChoices] = useState<BlockConflictChoice[]>([]);
+
+    if (!conflict) return null;
+
+    let conflictIndex = 0;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="w-full max-w-4xl mx-4 max-h-[85vh] flex flex-col bg-white dark:bg-zinc-900 rounded-xl shadow-2xl border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200 overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-100 dark:border-zinc-800">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 flex items-center gap-2">
+                        <GitMerge size={18} />
+                        保存冲突
+                    </h3>
+                    <button onClick={onCancel} className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="px-6 py-3 text-sm text-zinc-600 dark:text-zinc-400 border-b border-zinc-100 dark:border-zinc-800">
+                    该项目已于 {new Date(conflict.latest.updated_at).toLocaleString()} 在其他位置被保存。
+                    {conflictCount === 0
+                        ? '双方的修改互不冲突，已自动合并，确认后保存。'
+                        : `有 ${conflictCount} 处修改冲突，请逐一选择保留哪一方的内容。`}
+                </div>
+
+                {/* Hunks */}
+                <div className="flex-1 overflow-y-auto px-6 py-4 flex flex-col gap-3">
+                    {conflict.hunks.map((hunk, i) => {
+                        if (hunk.kind === 'clean') {
+                            return (
+                                <div key={i} className="text-xs text-zinc-400 dark:text-zinc-500 text-center">
+                                    · {hunk.blocks.length} 个块已合并 ·
+                                </div>
+                            );
+                        }
+
+                        const idx = conflictIndex++;
+                        const choice = choices[idx] ?? 'mine';
+                        return (
+                            <div key={i} className="border border-amber-300 dark:border-amber-700 rounded-lg overflow-hidden">
+                                <div className="flex items-center justify-between px-3 py-2 bg-amber-50 dark:bg-amber-900/20">
+                                    <span className="text-xs font-medium text-amber-800 dark:text-amber-200">冲突 {idx + 1}</span>
+                                    <div className="flex gap-1">
+                                        {(Object.keys(CHOICE_LABELS) as BlockConflictChoice[]).map((c) => (
+                                            <button
+                                                key={c}
+                                                type="button"
+                                                onClick={() => {
+                                                    const next = [...choices];
+                                                    next[idx] = c;
+                                                    setChoices(next);
+                                                }}
+                                                className={
+                                                    'text-xs px-2 py-1 rounded border transition-colors ' +
+                                                    (choice === c
+                                                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                                                        : 'border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800')
+                                                }
+                                            >
+                                                {CHOICE_LABELS[c]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-3 divide-x divide-zinc-200 dark:divide-zinc-800">
+                                    <div>
+                                        <div className="text-[11px] px-2 pt-1.5 text-zinc-500 dark:text-zinc-400">原始版本</div>
+                                        <BlockSnippets blocks={hunk.base} emptyText="（无）" />
+                                    </div>
+                                    <div className={choice !== 'theirs' ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''}>
+                                        <div className="text-[11px] px-2 pt-1.5 text-zinc-500 dark:text-zinc-400">我的修改</div>
+                                        <BlockSnippets blocks={hunk.mine} emptyText="（已删除）" />
+                                    </div>
+                                    <div className={choice !== 'mine' ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''}>
+                                        <div className="text-[11px] px-2 pt-1.5 text-zinc-500 dark:text-zinc-400">对方的修改</div>
+                                        <BlockSnippets blocks={hunk.theirs} emptyText="（已删除）" />
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Footer */}
+                <div className="px-6 py-4 border-t border-zinc-100 dark:border-zinc-800 flex items-center justify-end gap-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-3 py-1.5 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-sm"
+                    >
+                        稍后处理
+                    </button>
+                    <button
+                        onClick={() => onResolve(choices)}
+                        className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors text-sm"
+                    >
+                        合并并保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
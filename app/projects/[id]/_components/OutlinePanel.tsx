@@ -0,0 +1,160 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { ListTree, PanelLeftClose, Heading, Image as ImageIcon, Table2 } from 'lucide-react';
+import { buildDocumentOutline, type OutlineEntry, type TypstBlock } from '@/lib/typst';
+
+interface OutlinePanelProps {
+    blocks: TypstBlock[];
+    onNavigate: (blockIndex: number) => void;
+    // Move the section starting at `fromIndex` before the block at `toIndex` (`blocks.length` appends).
+    onMoveSection: (fromIndex: number, toIndex: number) => void;
+}
+
+const OUTLINE_OPEN_KEY = 'labflow_outline_open';
+
+// The open/closed choice is read from localStorage through useSyncExternalStore: the server render
+// and hydration use the default (open), and the stored choice is applied right after.
+const outlineOpenListeners = new Set<() => void>();
+
+function subscribeOutlineOpen(listener: () => void) {
+    outlineOpenListeners.add(listener);
+    window.addEventListener('storage', listener);
+    return () => {
+        outlineOpenListeners.delete(listener);
+        window.removeEventListener('storage', listener);
+    };
+}
+
+const readOutlineOpen = () => localStorage.getItem(OUTLINE_OPEN_KEY) !== '0';
+
+function writeOutlineOpen(open: boolean) {
+    localStorage.setItem(OUTLINE_OPEN_KEY, open ? '1' : '0');
+    outlineOpenListeners.forEach((listener) => listener());
+}
+
+const KIND_ICONS: Record<OutlineEntry['kind'], typeof Heading> = {
+    heading: Heading,
+    figure: ImageIcon,
+    table: Table2,
+};
+
+export function OutlinePanel({ blocks, onNavigate, onMoveSection }: OutlinePanelProps) {
+    const open = useSyncExternalStore(subscribeOutlineOpen, readOutlineOpen, () => true);
+    const [dragFrom, setDragFrom] = useState<number | null>(null);
+    // Block index the dragged section would be inserted before.
+    const [dropBefore, setDropBefore] = useState<number | null>(null);
+
+    const entries = useMemo(() => buildDocumentOutline(blocks), [blocks]);
+
+    const endDrag = () => {
+        setDragFrom(null);
+        setDropBefore(null);
+    };
+
+    const drop = (toIndex: number) => {
+        if (dragFrom !== null) onMoveSection(dragFrom, toIndex);
+        endDrag();
+    };
+
+    if (!open) {
+        return (
+            <div className="w-9 shrink-0 border-r border-zinc-200 dark:border-zinc-800 flex flex-col items-center pt-2">
+                <button
+                    type="button"
+                    onClick={() => writeOutlineOpen(true)}
+                    title="显示大纲"
+                    className="p-1.5 rounded text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 dark:text-zinc-400"
+                >
+                    <ListTree size={16} />
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-56 shrink-0 border-r border-zinc-200 dark:border-zinc-800 flex flex-col bg-white/60 dark:bg-zinc-900/40">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-100 dark:border-zinc-800">
+                <span className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 flex items-center gap-1.5">
+                    <ListTree size={14} />
+                    大纲
+                </span>
+                <button
+                    type="button"
+                    onClick={() => writeOutlineOpen(false)}
+                    title="收起大纲"
+                    className="p-1 rounded text-zinc-400 hover:text-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-800 dark:hover:text-zinc-200"
+                >
+                    <PanelLeftClose size={14} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto py-1">
+                {entries.length === 0 ? (
+                    <div className="px-3 py-2 text-xs text-zinc-500 dark:text-zinc-400">添加标题、图片或表格后会显示在这里。</div>
+                ) : (
+                    entries.map((entry) => {
+                        const Icon = KIND_ICONS[entry.kind];
+                        return (
+                            <div
+                                key={entry.blockId}
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    setDragFrom(entry.blockIndex);
+                                }}
+                                onDragOver={(e) => {
+                                    if (dragFrom === null) return;
+                                    e.preventDefault();
+                                    setDropBefore(entry.blockIndex);
+                                }}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    drop(entry.blockIndex);
+                                }}
+                                onDragEnd={endDrag}
+                                onClick={() => onNavigate(entry.blockIndex)}
+                                title={entry.kind === 'heading' ? '拖动可移动整个章节' : undefined}
+                                className={
+                                    'relative flex items-center gap-1.5 pr-2 py-1 text-xs cursor-pointer select-none transition-colors hover:bg-zinc-100 dark:hover:bg-zinc-800 ' +
+                                    (entry.kind === 'heading'
+                                        ? 'text-zinc-800 dark:text-zinc-200'
+                                        : 'text-zinc-500 dark:text-zinc-400') +
+                                    (dragFrom === entry.blockIndex ? ' opacity-50' : '')
+                                }
+                                style={{ paddingLeft: 8 + (entry.level - 1) * 12 }}
+                            >
+                                {dropBefore === entry.blockIndex && dragFrom !== entry.blockIndex && (
+                                    <div className="absolute -top-px left-0 right-0 h-0.5 bg-blue-500 rounded-full" />
+                                )}
+                                <Icon size={12} className="shrink-0 opacity-60" />
+                                <span className={'truncate ' + (entry.kind === 'heading' && entry.level === 1 ? 'font-medium' : '')}>
+                                    {entry.title}
+                                </span>
+                            </div>
+                        );
+                    })
+                )}
+                {/* Drop zone for moving a section to the end of the document */}
+                {dragFrom !== null && (
+                    <div
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropBefore(blocks.length);
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault();
+                            drop(blocks.length);
+                        }}
+                        className={
+                            'mx-2 mt-1 h-8 rounded border border-dashed text-[11px] flex items-center justify-center ' +
+                            (dropBefore === blocks.length
+                                ? 'border-blue-400 text-blue-500'
+                                : 'border-zinc-300 dark:border-zinc-700 text-zinc-400')
+                        }
+                    >
+                        移到文末
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
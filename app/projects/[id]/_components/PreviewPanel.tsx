@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import { Download, ChevronDown, FileText, Image as ImageIcon, FileCode } from 'lucide-react';
+import type { BlockDiagnostic } from '@/lib/typst';
 import { SvgPage } from '../SvgPage';
 import { PluginMenu } from './PluginMenu';
 import JSZip from 'jszip';
@@ -7,6 +8,8 @@ import { saveAs } from 'file-saver';
 
 interface PreviewPanelProps {
     error: string | null;
+    diagnostics: BlockDiagnostic[];
+    onJumpToDiagnostic: (diagnostic: BlockDiagnostic) => void;
     svgPages: string[];
     isRendering: boolean;
     activeAnchor: { pageIndex: number; localIndex: number } | null;
@@ -23,6 +26,8 @@ interface PreviewPanelProps {
 
 export function PreviewPanel({
     error,
+    diagnostics,
+    onJumpToDiagnostic,
     svgPages,
     isRendering,
     activeAnchor,
@@ -226,7 +231,18 @@ export function PreviewPanel({
                             <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
                             渲染错误
                         </p>
-                        <pre className="mt-3 text-xs text-red-600 dark:text-red-300 whitespace-pre-wrap font-mono bg-red-100/50 dark:bg-red-950/30 p-3 rounded-lg border border-red-200/50 dark:border-red-800/30">{error}</pre>
+                        {diagnostics.length > 0 ? (
+                            <DiagnosticList diagnostics={diagnostics} onJump={onJumpToDiagnostic} />
+                        ) : (
+                            <pre className="mt-3 text-xs text-red-600 dark:text-red-300 whitespace-pre-wrap font-mono bg-red-100/50 dark:bg-red-950/30 p-3 rounded-lg border border-red-200/50 dark:border-red-800/30">{error}</pre>
+                        )}
+                    </div>
+                )}
+
+                {!error && diagnostics.length > 0 && (
+                    <div className="p-3 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-xl max-w-2xl mx-auto mb-8">
+                        <p className="text-xs font-semibold text-amber-700 dark:text-amber-400">编译警告 ({diagnostics.length})</p>
+                        <DiagnosticList diagnostics={diagnostics} onJump={onJumpToDiagnostic} />
                     </div>
                 )}
 
@@ -239,7 +255,8 @@ export function PreviewPanel({
                                 pageIndex={index}
                                 forceVisible={activeAnchor?.pageIndex === index}
                                 activeLocalIndex={clickAnchor?.pageIndex === index ? clickAnchor.localIndex : null}
-                                highlightNonce={highlightNonce}
+                                // Only the clicked page needs the nonce; passing it everywhere would re-render every memoized page.
+                                highlightNonce={clickAnchor?.pageIndex === index ? highlightNonce : 0}
                                 registerPageRef={registerPageRef}
                                 onBlockClick={onBlockClick}
                             />
@@ -264,3 +281,43 @@ export function PreviewPanel({
         </div>
     );
 }
+
+function describeLocation(d: BlockDiagnostic): string {
+    const parts: string[] = [];
+    if (d.blockIndex !== null) parts.push(`第 ${d.blockIndex + 1} 块`);
+    if (d.line !== undefined) parts.push(`行 ${d.line}:${d.column ?? 1}`);
+    return parts.join(' · ');
+}
+
+// Clickable list of compile diagnostics; clicking jumps to the offending block or source line.
+function DiagnosticList({ diagnostics, onJump }: { diagnostics: BlockDiagnostic[]; onJump: (d: BlockDiagnostic) => void }) {
+    return (
+        <ul className="mt-3 space-y-1">
+            {diagnostics.map((d, i) => {
+                const location = describeLocation(d);
+                const canJump = d.blockIndex !== null || d.line !== undefined;
+                return (
+                    <li key={i}>
+                        <button
+                            type="button"
+                            disabled={!canJump}
+                            onClick={() => onJump(d)}
+                            className={
+                                'w-full text-left text-xs font-mono px-2 py-1.5 rounded border transition-colors disabled:cursor-default ' +
+                                (d.severity === 'error'
+                                    ? 'text-red-600 dark:text-red-300 bg-red-100/50 dark:bg-red-950/30 border-red-200/50 dark:border-red-800/30 enabled:hover:bg-red-100 dark:enabled:hover:bg-red-900/40'
+                                    : 'text-amber-700 dark:text-amber-300 bg-amber-100/50 dark:bg-amber-950/30 border-amber-200/50 dark:border-amber-800/30 enabled:hover:bg-amber-100 dark:enabled:hover:bg-amber-900/40')
+                            }
+                        >
+                            {location && <span className="mr-2 opacity-70">[{location}]</span>}
+                            {d.message}
+                            {d.hints.map((hint, j) => (
+                                <span key={j} className="block mt-0.5 opacity-70">提示：{hint}</span>
+                            ))}
+                        </button>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -1,6 +1,27 @@
 import { useEffect, useRef } from 'react';
 import { X } from 'lucide-react';
-import { DocumentSettings } from '@/lib/typst';
+import {
+    DocumentSettings,
+    EQUATION_NUMBERING_OPTIONS,
+    MAX_HEADING_NUMBERING_LEVELS,
+    TEMPLATE_VARIABLE_PRESETS,
+    TYPOGRAPHY_PRESETS,
+    TYPOGRAPHY_STYLE_KEYS,
+    detectHeadingNumberingPreset,
+    headingNumberingFromPreset,
+    isValidTemplateVariableKey,
+    normalizeTypstLength,
+    templatePlaceholder,
+    type HeadingNumberingPreset,
+    type PageNumberFormat,
+    type PageSettings,
+    type PaperSize,
+    type TemplateVariable,
+    type TemplateVariableType,
+    type TextStyle,
+    type TypographyStyleKey,
+} from '@/lib/typst';
+import type { RenderBackend } from '@/lib/typst-render';
 
 interface ProjectSettingsModalProps {
     show: boolean;
@@ -13,8 +34,85 @@ interface ProjectSettingsModalProps {
     hasCover?: boolean;
     coverFixedOnePage?: boolean;
     onCoverFixedOnePageChange?: (fixed: boolean) => void;
+    renderBackend?: RenderBackend;
+    onRenderBackendChange?: (backend: RenderBackend) => void;
+    // Blocks with their own font/size/line spacing, and the action clearing them.
+    styleOverrideCount?: number;
+    onResetStyleOverrides?: () => void;
 }
 
+const PAPER_OPTIONS: { value: PaperSize; label: string }[] = [
+    { value: 'a4', label: 'A4' },
+    { value: 'a5', label: 'A5' },
+    { value: 'iso-b5', label: 'B5' },
+    { value: 'us-letter', label: 'Letter' },
+];
+
+const PAGE_NUMBER_OPTIONS: { value: PageNumberFormat; label: string }[] = [
+    { value: 'none', label: '不显示' },
+    { value: '1', label: '1' },
+    { value: '- 1 -', label: '- 1 -' },
+    { value: '第 1 页', label: '第 1 页' },
+    { value: '1 / 1', label: '1 / 总页数' },
+    { value: 'i', label: 'i, ii, iii' },
+];
+
+const MARGIN_FIELDS: { key: 'marginTop' | 'marginBottom' | 'marginLeft' | 'marginRight'; label: string }[] = [
+    { key: 'marginTop', label: '上' },
+    { key: 'marginBottom', label: '下' },
+    { key: 'marginLeft', label: '左' },
+    { key: 'marginRight', label: '右' },
+];
+
+const HEADING_NUMBERING_OPTIONS: { value: HeadingNumberingPreset; label: string }[] = [
+    { value: 'none', label: '无' },
+    { value: 'chinese', label: '一、（一）' },
+    { value: 'decimal', label: '1.1' },
+    { value: 'custom', label: '自定义' },
+];
+
+const LEVEL_NAMES = ['一', '二', '三', '四', '五', '六'];
+
+const TEMPLATE_VARIABLE_TYPE_OPTIONS: { value: TemplateVariableType; label: string }[] = [
+    { value: 'text', label: '文本' },
+    { value: 'number', label: '编号' },
+    { value: 'date', label: '日期' },
+];
+
+const STYLE_LABELS: Record<TypographyStyleKey, string> = {
+    body: '正文',
+    heading1: '一级标题',
+    heading2: '二级标题',
+    heading3: '三级标题',
+    caption: '图表标题',
+    code: '代码',
+};
+
+const STYLE_FONT_OPTIONS = [
+    { value: '', label: '默认' },
+    { value: 'SimSun', label: '宋体' },
+    { value: 'SimHei', label: '黑体' },
+    { value: 'KaiTi', label: '楷体' },
+    { value: 'FangSong', label: '仿宋' },
+    { value: 'Times New Roman', label: 'Times' },
+];
+
+const STYLE_SIZE_OPTIONS = [
+    { value: '', label: '默认' },
+    { value: '8pt', label: '8pt' },
+    { value: '9pt', label: '小五' },
+    { value: '10.5pt', label: '五号' },
+    { value: '12pt', label: '小四' },
+    { value: '14pt', label: '四号' },
+    { value: '15pt', label: '小三' },
+    { value: '16pt', label: '三号' },
+    { value: '18pt', label: '小二' },
+    { value: '22pt', label: '二号' },
+];
+
+const INPUT_CLASS =
+    'px-2 py-1 text-sm rounded-md border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500';
+
 export function ProjectSettingsModal({
     show,
     onClose,
@@ -26,6 +124,10 @@ export function ProjectSettingsModal({
     hasCover,
     coverFixedOnePage,
     onCoverFixedOnePageChange,
+    renderBackend,
+    onRenderBackendChange,
+    styleOverrideCount = 0,
+    onResetStyleOverrides,
 }: ProjectSettingsModalProps) {
     const modalRef = useRef<HTMLDivElement>(null);
 
@@ -51,6 +153,31 @@ export function ProjectSettingsModal({
 
     if (!show) return null;
 
+    const page = docSettings.page;
+    const updatePage = (patch: Partial<PageSettings>) => onSettingsChange({ ...docSettings, page: { ...page, ...patch } });
+
+    const typography = docSettings.typography;
+    const updateStyle = (key: TypographyStyleKey, patch: Partial<TextStyle> & { lineSpacing?: number }) =>
+        onSettingsChange({ ...docSettings, typography: { ...typography, [key]: { ...typography[key], ...patch } } });
+    const activePreset = TYPOGRAPHY_PRESETS.find((p) => JSON.stringify(p.styles) === JSON.stringify(typography))?.id ?? '';
+
+    const headingNumbering = docSettings.headingNumbering;
+    const updateHeadingLevels = (levels: string[]) =>
+        onSettingsChange({ ...docSettings, headingNumbering: { preset: detectHeadingNumberingPreset(levels), levels } });
+
+    // Templates declare their variables here; reports created from them only fill in the values.
+    const variables = docSettings.templateVariables;
+    const declaring = projectType === 'template';
+    const updateVariables = (templateVariables: TemplateVariable[]) => onSettingsChange({ ...docSettings, templateVariables });
+    const updateVariable = (index: number, patch: Partial<TemplateVariable>) =>
+        updateVariables(variables.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+    const unusedPresets = TEMPLATE_VARIABLE_PRESETS.filter((p) => !variables.some((v) => v.key === p.key));
+    const addCustomVariable = () => {
+        let n = variables.length + 1;
+        while (variables.some((v) => v.key === `var${n}`)) n++;
+        updateVariables([...variables, { key: `var${n}`, label: '新变量', type: 'text', value: '' }]);
+    };
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
             <div
@@ -69,7 +196,7 @@ export function ProjectSettingsModal({
                 </div>
 
                 {/* Content */}
-                <div className="p-6 space-y-6">
+                <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
                     {/* Title */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">项目标题</label>
@@ -85,6 +212,89 @@ export function ProjectSettingsModal({
 
                     <div className="h-px bg-zinc-200 dark:bg-zinc-800" />
 
+                    {/* Template Variables */}
+                    {(declaring || variables.length > 0) && (
+                        <div className="space-y-3">
+                            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">模板变量</h3>
+                            {variables.map((v, i) => {
+                                const keyInvalid = !isValidTemplateVariableKey(v.key) || variables.some((o, j) => j !== i && o.key === v.key);
+                                return (
+                                    <div key={i} className="p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30 space-y-2">
+                                        {declaring ? (
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={v.label}
+                                                    onChange={(e) => updateVariable(i, { label: e.target.value })}
+                                                    placeholder="名称"
+                                                    className={`${INPUT_CLASS} flex-1 min-w-0`}
+                                                />
+                                                <input
+                                                    type="text"
+                                                    value={v.key}
+                                                    onChange={(e) => updateVariable(i, { key: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })}
+                                                    title="引用名：字母或下划线开头，仅含字母、数字、下划线"
+                                                    className={`${INPUT_CLASS} w-24 font-mono ${keyInvalid ? 'border-red-500' : ''}`}
+                                                />
+                                                <select
+                                                    value={v.type}
+                                                    onChange={(e) => updateVariable(i, { type: e.target.value as TemplateVariableType })}
+                                                    className={INPUT_CLASS}
+                                                >
+                                                    {TEMPLATE_VARIABLE_TYPE_OPTIONS.map((o) => (
+                                                        <option key={o.value} value={o.value}>{o.label}</option>
+                                                    ))}
+                                                </select>
+                                                <button
+                                                    onClick={() => updateVariables(variables.filter((_, j) => j !== i))}
+                                                    className="p-1 rounded text-zinc-400 hover:text-red-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                                                    title="删除变量"
+                                                >
+                                                    <X size={14} />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex items-center justify-between text-xs">
+                                                <span className="text-zinc-600 dark:text-zinc-400">{v.label}</span>
+                                                <code className="text-zinc-400">{templatePlaceholder(v.key)}</code>
+                                            </div>
+                                        )}
+                                        <input
+                                            type={v.type === 'date' ? 'date' : 'text'}
+                                            inputMode={v.type === 'number' ? 'numeric' : undefined}
+                                            value={v.value}
+                                            onChange={(e) => updateVariable(i, { value: e.target.value })}
+                                            placeholder={declaring ? '默认值（可留空）' : `填写${v.label}`}
+                                            className={`${INPUT_CLASS} w-full placeholder:text-zinc-400`}
+                                        />
+                                    </div>
+                                );
+                            })}
+                            {declaring && (
+                                <div className="flex flex-wrap gap-2">
+                                    {unusedPresets.map((p) => (
+                                        <button
+                                            key={p.key}
+                                            onClick={() => updateVariables([...variables, { ...p }])}
+                                            className="px-2 py-1 text-xs rounded-md border border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                                        >
+                                            + {p.label}
+                                        </button>
+                                    ))}
+                                    <button onClick={addCustomVariable} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                                        + 自定义变量
+                                    </button>
+                                </div>
+                            )}
+                            <p className="text-[11px] text-zinc-400">
+                                在封面、段落、标题、信息栏或页眉页脚中输入 {'{{引用名}}'}（如 {templatePlaceholder('name')}）引用，预览和导出时替换为填写的值。
+                                {declaring && ' 从此模板创建报告时会要求填写这些变量。'}
+                            </p>
+                        </div>
+                    )}
+
+                    {(declaring || variables.length > 0) && <div className="h-px bg-zinc-200 dark:bg-zinc-800" />}
+
                     {/* Document Settings */}
                     <div className="space-y-4">
                         <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">文档排版</h3>
@@ -137,6 +347,290 @@ export function ProjectSettingsModal({
                         </div>
                     </div>
 
+                    {/* Document Styles */}
+                    <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">文档样式</h3>
+                            <select
+                                value={activePreset}
+                                onChange={(e) => {
+                                    const preset = TYPOGRAPHY_PRESETS.find((p) => p.id === e.target.value);
+                                    if (preset) onSettingsChange({ ...docSettings, typography: preset.styles });
+                                }}
+                                className={`${INPUT_CLASS} text-xs`}
+                                title="套用样式预设"
+                            >
+                                {!activePreset && <option value="">自定义</option>}
+                                {TYPOGRAPHY_PRESETS.map((p) => (
+                                    <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30 space-y-2">
+                            {TYPOGRAPHY_STYLE_KEYS.map((key) => (
+                                <div key={key} className="flex items-center gap-2">
+                                    <span className="text-xs text-zinc-500 w-16 shrink-0">{STYLE_LABELS[key]}</span>
+                                    <select
+                                        value={typography[key].font}
+                                        onChange={(e) => updateStyle(key, { font: e.target.value })}
+                                        className={`${INPUT_CLASS} text-xs flex-1 min-w-0`}
+                                    >
+                                        {STYLE_FONT_OPTIONS.map((o) => (
+                                            <option key={o.value} value={o.value}>{o.label}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        value={typography[key].size}
+                                        onChange={(e) => updateStyle(key, { size: e.target.value })}
+                                        className={`${INPUT_CLASS} text-xs w-20`}
+                                    >
+                                        {STYLE_SIZE_OPTIONS.map((o) => (
+                                            <option key={o.value} value={o.value}>{o.label}</option>
+                                        ))}
+                                    </select>
+                                    {key === 'body' ? (
+                                        <select
+                                            value={typography.body.lineSpacing}
+                                            onChange={(e) => updateStyle('body', { lineSpacing: Number(e.target.value) })}
+                                            className={`${INPUT_CLASS} text-xs w-20`}
+                                            title="行间距"
+                                        >
+                                            {[0.8, 0.9, 1, 1.2, 1.5, 2].map((v) => (
+                                                <option key={v} value={v}>{v.toFixed(1)} 倍</option>
+                                            ))}
+                                        </select>
+                                    ) : (
+                                        <span className="w-20" />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {typeof onResetStyleOverrides === 'function' && (
+                            <div className="flex items-center justify-between text-xs text-zinc-500">
+                                <span>
+                                    {styleOverrideCount > 0
+                                        ? `${styleOverrideCount} 个块设置了单独的字体/字号/行距`
+                                        : '所有块都跟随文档样式'}
+                                </span>
+                                <button
+                                    onClick={onResetStyleOverrides}
+                                    disabled={styleOverrideCount === 0}
+                                    className="px-2 py-1 rounded-md border border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    清除单独样式
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Heading Numbering */}
+                    {projectType !== 'cover' && (
+                        <div className="space-y-4">
+                            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">标题编号</h3>
+
+                            <div className="flex bg-zinc-200 dark:bg-zinc-800 p-1 rounded-lg w-fit">
+                                {HEADING_NUMBERING_OPTIONS.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => onSettingsChange({ ...docSettings, headingNumbering: headingNumberingFromPreset(value) })}
+                                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${headingNumbering.preset === value
+                                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                                                : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {headingNumbering.preset !== 'none' && (
+                                <div className="p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30 space-y-2">
+                                    {headingNumbering.levels.map((pattern, i) => (
+                                        <div key={i} className="flex items-center gap-2">
+                                            <span className="text-xs text-zinc-500 w-16 shrink-0">{LEVEL_NAMES[i]}级标题</span>
+                                            <input
+                                                type="text"
+                                                value={pattern}
+                                                onChange={(e) => updateHeadingLevels(headingNumbering.levels.map((p, j) => (j === i ? e.target.value : p)))}
+                                                placeholder="不编号"
+                                                className={`${INPUT_CLASS} flex-1 min-w-0 font-mono placeholder:text-zinc-400`}
+                                            />
+                                            {i === headingNumbering.levels.length - 1 && (
+                                                <button
+                                                    onClick={() => updateHeadingLevels(headingNumbering.levels.slice(0, -1))}
+                                                    className="p-1 rounded text-zinc-400 hover:text-red-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                                                    title="删除此级"
+                                                >
+                                                    <X size={14} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {headingNumbering.levels.length < MAX_HEADING_NUMBERING_LEVELS && (
+                                        <button
+                                            onClick={() => updateHeadingLevels([...headingNumbering.levels, '1.'])}
+                                            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                        >
+                                            + 添加级别
+                                        </button>
+                                    )}
+                                    <p className="text-[11px] text-zinc-400">
+                                        Typst 编号格式：1、a、i、一 等为计数符号，其余为原样文字；含多个计数符号（如 1.1）时同时显示上级编号。
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Equation Numbering */}
+                    {projectType !== 'cover' && (
+                        <div className="space-y-4">
+                            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">公式编号</h3>
+
+                            <div className="flex bg-zinc-200 dark:bg-zinc-800 p-1 rounded-lg w-fit">
+                                {EQUATION_NUMBERING_OPTIONS.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => onSettingsChange({ ...docSettings, equationNumbering: value })}
+                                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${docSettings.equationNumbering === value
+                                                ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                                                : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[11px] text-zinc-400">
+                                {docSettings.equationNumbering === 'none'
+                                    ? '关闭时只有带标签或单独设置了编号的公式才会编号。'
+                                    : '所有公式默认编号，可在公式块中改为逐行编号或不编号；(1.1)、(1-1) 按一级标题分章，并在每个一级标题处重新计数。'}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Page Setup */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">页面设置</h3>
+
+                        <div className="flex items-center justify-between p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30">
+                            <span className="text-sm text-zinc-600 dark:text-zinc-400">纸张</span>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={page.paper}
+                                    onChange={(e) => updatePage({ paper: e.target.value as PaperSize })}
+                                    className={INPUT_CLASS}
+                                >
+                                    {PAPER_OPTIONS.map((o) => (
+                                        <option key={o.value} value={o.value}>{o.label}</option>
+                                    ))}
+                                </select>
+                                <div className="flex bg-zinc-200 dark:bg-zinc-800 p-1 rounded-lg">
+                                    {([['portrait', '纵向'], ['landscape', '横向']] as const).map(([value, label]) => (
+                                        <button
+                                            key={value}
+                                            onClick={() => updatePage({ orientation: value })}
+                                            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${page.orientation === value
+                                                    ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                                                    : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'
+                                                }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30 space-y-2">
+                            <span className="text-sm text-zinc-600 dark:text-zinc-400">页边距</span>
+                            <div className="grid grid-cols-4 gap-2">
+                                {MARGIN_FIELDS.map(({ key, label }) => (
+                                    <label key={key} className="flex items-center gap-1 text-xs text-zinc-500">
+                                        {label}
+                                        {/* Committed on blur so half-typed lengths never reach the preview */}
+                                        <input
+                                            key={page[key]}
+                                            type="text"
+                                            defaultValue={page[key]}
+                                            onBlur={(e) => updatePage({ [key]: normalizeTypstLength(e.target.value, page[key]) })}
+                                            title="例如 2.5cm、20mm、72pt"
+                                            className={`${INPUT_CLASS} w-full min-w-0`}
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <label className="space-y-1">
+                                <span className="text-xs text-zinc-500">页眉</span>
+                                <input
+                                    type="text"
+                                    value={page.header}
+                                    onChange={(e) => updatePage({ header: e.target.value })}
+                                    placeholder="留空则不显示"
+                                    className={`${INPUT_CLASS} w-full placeholder:text-zinc-400`}
+                                />
+                            </label>
+                            <label className="space-y-1">
+                                <span className="text-xs text-zinc-500">页脚</span>
+                                <input
+                                    type="text"
+                                    value={page.footer}
+                                    onChange={(e) => updatePage({ footer: e.target.value })}
+                                    placeholder="留空则不显示"
+                                    className={`${INPUT_CLASS} w-full placeholder:text-zinc-400`}
+                                />
+                            </label>
+                        </div>
+
+                        <div className="flex items-center justify-between p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30">
+                            <span className="text-sm text-zinc-600 dark:text-zinc-400">页码</span>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={page.pageNumberFormat}
+                                    onChange={(e) => updatePage({ pageNumberFormat: e.target.value as PageNumberFormat })}
+                                    className={INPUT_CLASS}
+                                >
+                                    {PAGE_NUMBER_OPTIONS.map((o) => (
+                                        <option key={o.value} value={o.value}>{o.label}</option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center gap-1 text-xs text-zinc-500">
+                                    起始
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={page.pageNumberStart}
+                                        disabled={page.pageNumberFormat === 'none'}
+                                        onChange={(e) => {
+                                            const n = Number(e.target.value);
+                                            if (Number.isInteger(n) && n >= 1) updatePage({ pageNumberStart: n });
+                                        }}
+                                        className={`${INPUT_CLASS} w-16 disabled:opacity-50`}
+                                    />
+                                </label>
+                            </div>
+                        </div>
+
+                        {hasCover && (
+                            <label className="flex items-center gap-3 p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 cursor-pointer transition-colors group">
+                                <input
+                                    type="checkbox"
+                                    checked={page.coverWithoutNumber}
+                                    onChange={(e) => updatePage({ coverWithoutNumber: e.target.checked })}
+                                    className="w-4 h-4 rounded border-zinc-300 text-blue-600 focus:ring-blue-500 group-hover:border-blue-500 transition-colors"
+                                />
+                                <span className="text-sm text-zinc-600 dark:text-zinc-400" title="需开启「封面固定占据一页」">
+                                    封面页不显示页眉页脚和页码
+                                </span>
+                            </label>
+                        )}
+                    </div>
+
                     {/* View Options */}
                     <div className="space-y-4">
                         <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">视图选项</h3>
@@ -153,6 +647,26 @@ export function ProjectSettingsModal({
                             </div>
                         </label>
 
+                        {renderBackend && typeof onRenderBackendChange === 'function' && (
+                            <div className="flex items-center justify-between p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50/30 dark:bg-zinc-900/30">
+                                <span className="text-sm text-zinc-600 dark:text-zinc-400" title="仅对当前浏览器生效">预览渲染</span>
+                                <div className="flex bg-zinc-200 dark:bg-zinc-800 p-1 rounded-lg">
+                                    {([['wasm', '本地 (WASM)'], ['server', '服务器']] as const).map(([value, label]) => (
+                                        <button
+                                            key={value}
+                                            onClick={() => onRenderBackendChange(value)}
+                                            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${renderBackend === value
+                                                    ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 shadow-sm'
+                                                    : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'
+                                                }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {(projectType === 'report' || projectType === 'template') && hasCover && typeof onCoverFixedOnePageChange === 'function' && (
                             <label className="flex items-center justify-between p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 cursor-pointer transition-colors mt-2">
                                 <span className="text-sm text-zinc-600 dark:text-zinc-400">封面固定占据一页</span>
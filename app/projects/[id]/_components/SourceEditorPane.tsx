@@ -1,23 +1,91 @@
+import { useEffect, useMemo, useRef } from "react";
 import { useEditorStore } from "@/stores/useEditorStore";
 import { useShallow } from "zustand/react/shallow";
 
+const TEXT_CLASSES = "p-6 font-mono text-sm leading-relaxed whitespace-pre-wrap break-words";
+
 export function SourceEditorPane() {
-    const { code, setCode } = useEditorStore(
+    const { code, setCode, diagnostics, focusedDiagnostic } = useEditorStore(
         useShallow(s => ({
             code: s.code,
-            setCode: s.setCode
+            setCode: s.setCode,
+            diagnostics: s.diagnostics,
+            focusedDiagnostic: s.focusedDiagnostic,
         }))
     );
 
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const backdropRef = useRef<HTMLDivElement>(null);
+
+    const lines = useMemo(() => code.split("\n"), [code]);
+
+    // 1-based line -> worst severity reported on it
+    const lineSeverity = useMemo(() => {
+        const map = new Map<number, "error" | "warning">();
+        for (const d of diagnostics) {
+            if (d.line === undefined || map.get(d.line) === "error") continue;
+            map.set(d.line, d.severity);
+        }
+        return map;
+    }, [diagnostics]);
+
+    // Jump-to-error from the preview's diagnostic list: select the position and scroll it into view.
+    useEffect(() => {
+        const d = focusedDiagnostic?.diagnostic;
+        const textarea = textareaRef.current;
+        if (!d || d.line === undefined || !textarea) return;
+
+        const sourceLines = textarea.value.split("\n");
+        const lineIndex = Math.min(d.line, sourceLines.length) - 1;
+        let offset = 0;
+        for (let i = 0; i < lineIndex; i++) offset += sourceLines[i].length + 1;
+        offset += Math.min(Math.max(0, (d.column ?? 1) - 1), sourceLines[lineIndex]?.length ?? 0);
+
+        textarea.focus();
+        textarea.setSelectionRange(offset, offset);
+        const lineEl = backdropRef.current?.children[lineIndex] as HTMLElement | undefined;
+        if (lineEl) textarea.scrollTop = Math.max(0, lineEl.offsetTop - textarea.clientHeight / 3);
+    }, [focusedDiagnostic]);
+
     return (
-        <textarea
-            value={code}
-            onChange={(e) => {
-                setCode(e.target.value);
-            }}
-            className="flex-1 w-full p-6 font-mono text-sm text-zinc-900 dark:text-zinc-100 bg-transparent resize-none focus:outline-none leading-relaxed"
-            placeholder="Type your Typst code here..."
-            spellCheck={false}
-        />
+        <div className="relative flex-1 min-h-0">
+            {/* Line highlights for compile diagnostics, kept aligned with the textarea's scroll */}
+            <div
+                ref={backdropRef}
+                aria-hidden
+                className={`absolute inset-0 overflow-hidden pointer-events-none text-transparent ${TEXT_CLASSES}`}
+            >
+                {lines.map((line, i) => {
+                    const severity = lineSeverity.get(i + 1);
+                    return (
+                        <div
+                            key={i}
+                            className={
+                                severity === "error"
+                                    ? "bg-red-100 dark:bg-red-900/30"
+                                    : severity === "warning"
+                                        ? "bg-amber-100 dark:bg-amber-900/30"
+                                        : undefined
+                            }
+                        >
+                            {line || "\u200B"}
+                        </div>
+                    );
+                })}
+            </div>
+            <textarea
+                ref={textareaRef}
+                value={code}
+                onChange={(e) => {
+                    setCode(e.target.value);
+                }}
+                onScroll={(e) => {
+                    if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+                }}
+                className={`absolute inset-0 w-full h-full text-zinc-900 dark:text-zinc-100 bg-transparent resize-none focus:outline-none ${TEXT_CLASSES}`}
+                placeholder="Type your Typst code here..."
+                spellCheck={false}
+            />
+        </div>
     );
 }
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, History, Bookmark, RotateCcw } from 'lucide-react';
+import {
+    blocksToTypst,
+    diffBlockLists,
+    stripDocumentSettings,
+    typstToBlocks,
+    type BlockDiffRow,
+    type TypstBlock,
+} from '@/lib/typst';
+import {
+    listProjectVersions,
+    renameProjectVersion,
+    type ProjectVersion,
+    type ProjectVersionKind,
+} from '@/lib/version-history';
+
+interface VersionHistoryModalProps {
+    show: boolean;
+    onClose: () => void;
+    projectId: string;
+    // Current editor content (document settings included), offered as a diff target.
+    currentCode: string;
+    onCreateCheckpoint: (name: string) => Promise<void>;
+    onRestore: (version: ProjectVersion) => Promise<void>;
+}
+
+const KIND_LABELS: Record<ProjectVersionKind, string> = {
+    auto: '自动',
+    checkpoint: '检查点',
+    restore: '恢复',
+};
+
+const CURRENT = '__current__';
+
+function parseVersionBlocks(code: string): TypstBlock[] {
+    return typstToBlocks(stripDocumentSettings(code).code);
+}
+
+function Snippet({ block }: { block?: TypstBlock }) {
+    if (!block) return <div className="min-h-[1.5rem]" />;
+    return (
+        <pre className="text-xs font-mono whitespace-pre-wrap break-all px-2 py-1 text-zinc-700 dark:text-zinc-300">
+            {blocksToTypst([block])}
+        </pre>
+    );
+}
+
+const ROW_STYLES: Record<BlockDiffRow['kind'], [string, string]> = {
+    same: ['opacity-50', 'opacity-50'],
+    changed: ['bg-amber-50 dark:bg-amber-900/20', 'bg-amber-50 dark:bg-amber-900/20'],
+    removed: ['bg-red-50 dark:bg-red-900/20', ''],
+    added: ['', 'bg-green-50 dark:bg-green-900/20'],
+};
+
+export function VersionHistoryModal({
+    show,
+    onClose,
+    projectId,
+    currentCode,
+    onCreateCheckpoint,
+    onRestore,
+}: VersionHistoryModalProps) {
+    const [versions, setVersions] = useState<ProjectVersion[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareId, setCompareId] = useState<string>(CURRENT);
+    const [checkpointName, setCheckpointName] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            const list = await listProjectVersions(projectId);
+            setVersions(list);
+            setSelectedId((id) => id ?? list[0]?.id ?? null);
+        } catch (err) {
+            console.error('Failed to load version history', err);
+        }
+    }, [projectId]);
+
+    useEffect(() => {
+        if (!show) return;
+        let cancelled = false;
+        listProjectVersions(projectId)
+            .then((list) => {
+                if (cancelled) return;
+                setVersions(list);
+                setSelectedId((id) => id ?? list[0]?.id ?? null);
+            })
+            .catch((err) => console.error('Failed to load version history', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [show, projectId]);
+
+    const selected = versions.find((v) => v.id === selectedId) ?? null;
+    const compareCode = compareId === CURRENT ? currentCode : versions.find((v) => v.id === compareId)?.typst_code ?? '';
+
+    const rows = useMemo(
+        () => (selected ? diffBlockLists(parseVersionBlocks(selected.typst_code), parseVersionBlocks(compareCode)) : []),
+        [selected, compareCode]
+    );
+    const changedCount = rows.filter((r) => r.kind !== 'same').length;
+
+    if (!show) return null;
+
+    const run = async (fn: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await fn();
+            await refresh();
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="w-full max-w-6xl mx-4 h-[85vh] flex flex-col bg-white dark:bg-zinc-900 rounded-xl shadow-2xl border border-zinc-200 dark:border-zinc-800 animate-in zoom-in-95 duration-200 overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-100 dark:border-zinc-800">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 flex items-center gap-2">
+                        <History size={18} />
+                        版本历史
+                    </h3>
+                    <button onClick={onClose} className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Timeline */}
+                    <div className="w-72 shrink-0 border-r border-zinc-100 dark:border-zinc-800 flex flex-col">
+                        <div className="p-3 border-b border-zinc-100 dark:border-zinc-800 flex gap-2">
+                            <input
+                                type="text"
+                                value={checkpointName}
+                                onChange={(e) => setCheckpointName(e.target.value)}
+                                placeholder="检查点名称，如“助教批改前”"
+                                className="flex-1 min-w-0 text-xs px-2 py-1.5 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+                            />
+                            <button
+                                type="button"
+                                disabled={busy || !checkpointName.trim()}
+                                onClick={() => void run(async () => {
+                                    await onCreateCheckpoint(checkpointName);
+                                    setCheckpointName('');
+                                })}
+                                className="flex items-center gap-1 text-xs px-2 py-1.5 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                            >
+                                <Bookmark size={12} />
+                                创建
+                            </button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto">
+                            {versions.length === 0 ? (
+                                <div className="p-4 text-xs text-zinc-500 dark:text-zinc-400">暂无历史版本，保存后会自动记录。</div>
+                            ) : (
+                                versions.map((v) => (
+                                    <button
+                                        key={v.id}
+                                        type="button"
+                                        onClick={() => setSelectedId(v.id)}
+                                        className={
+                                            'w-full text-left px-3 py-2 border-b border-zinc-50 dark:border-zinc-800/50 transition-colors ' +
+                                            (v.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50')
+                                        }
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <span
+                                                className={
+                                                    'text-[10px] px-1.5 py-0.5 rounded ' +
+                                                    (v.kind === 'checkpoint'
+                                                        ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+                                                        : 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400')
+                                                }
+                                            >
+                                                {KIND_LABELS[v.kind]}
+                                            </span>
+                                            <span className="text-xs text-zinc-800 dark:text-zinc-200 truncate">{v.name || v.title}</span>
+                                        </div>
+                                        <div className="text-[11px] text-zinc-500 dark:text-zinc-400 mt-0.5">
+                                            {new Date(v.createdAt).toLocaleString()}
+                                        </div>
+                                    </button>
+                                ))
+                            )}
+                        </div>
+                        <div className="px-3 py-2 border-t border-zinc-100 dark:border-zinc-800 text-[11px] leading-relaxed text-zinc-500 dark:text-zinc-400">
+                            历史版本只保存在当前浏览器中，不会同步到服务器或其他设备；清除浏览器数据后将无法找回。
+                        </div>
+                    </div>
+
+                    {/* Diff */}
+                    <div className="flex-1 min-w-0 flex flex-col">
+                        {selected ? (
+                            <>
+                                <div className="px-4 py-2 border-b border-zinc-100 dark:border-zinc-800 flex items-center gap-2 flex-wrap">
+                                    <span className="text-xs text-zinc-600 dark:text-zinc-400">对比</span>
+                                    <select
+                                        value={compareId}
+                                        onChange={(e) => setCompareId(e.target.value)}
+                                        className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+                                    >
+                                        <option value={CURRENT}>当前编辑内容</option>
+                                        {versions.filter((v) => v.id !== selected.id).map((v) => (
+                                            <option key={v.id} value={v.id}>
+                                                {(v.name || KIND_LABELS[v.kind]) + ' · ' + new Date(v.createdAt).toLocaleString()}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <span className="text-xs text-zinc-500 dark:text-zinc-400">{changedCount} 处差异</span>
+                                    <div className="ml-auto flex gap-2">
+                                        {selected.kind === 'auto' && (
+                                            <button
+                                                type="button"
+                                                disabled={busy}
+                                                onClick={() => {
+                                                    const name = window.prompt('为此版本命名', '');
+                                                    if (name && name.trim()) void run(() => renameProjectVersion(selected.id, name.trim()));
+                                                }}
+                                                className="text-xs px-2 py-1 rounded border border-zinc-300 dark:border-zinc-600 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                                            >
+                                                命名
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            disabled={busy}
+                                            onClick={() => void run(() => onRestore(selected))}
+                                            className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                                        >
+                                            <RotateCcw size={12} />
+                                            恢复此版本
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 text-[11px] text-zinc-500 dark:text-zinc-400 border-b border-zinc-100 dark:border-zinc-800">
+                                    <div className="px-2 py-1">所选版本</div>
+                                    <div className="px-2 py-1 border-l border-zinc-100 dark:border-zinc-800">
+                                        {compareId === CURRENT ? '当前编辑内容' : '对比版本'}
+                                    </div>
+                                </div>
+                                <div className="flex-1 overflow-y-auto">
+                                    {rows.map((row, i) => {
+                                        const [leftStyle, rightStyle] = ROW_STYLES[row.kind];
+                                        return (
+                                            <div key={i} className="grid grid-cols-2 border-b border-zinc-50 dark:border-zinc-800/50">
+                                                <div className={leftStyle}>
+                                                    <Snippet block={row.kind === 'added' ? undefined : row.left} />
+                                                </div>
+                                                <div className={`border-l border-zinc-100 dark:border-zinc-800 ${rightStyle}`}>
+                                                    <Snippet block={row.kind === 'removed' ? undefined : row.right} />
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        ) : (
+                            <div className="flex-1 flex items-center justify-center text-sm text-zinc-500 dark:text-zinc-400">
+                                选择一个版本查看差异
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,4 +1,7 @@
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect, useMemo } from 'react';
+import { Users } from 'lucide-react';
+import type { CollabPresence } from '@/lib/collab';
+import type { TypstDiagnostic } from '@/lib/typst';
 import BlockEditor from '@/components/editor/BlockEditor';
 import { useEditorStore } from '@/stores/useEditorStore';
 import { useShallow } from 'zustand/react/shallow';
@@ -14,13 +17,44 @@ export function VisualEditorPane({
     onBlockClick,
     editorScrollRef,
 }: VisualEditorPaneProps) {
-    const { blocks, setBlocks } = useEditorStore(
+    const { blocks, setBlocks, collabStatus, collabPeers, setCollabFocus, diagnostics, focusedDiagnostic } = useEditorStore(
         useShallow((s) => ({
             blocks: s.blocks,
             setBlocks: s.setBlocks,
+            collabStatus: s.collabStatus,
+            collabPeers: s.collabPeers,
+            setCollabFocus: s.setCollabFocus,
+            diagnostics: s.diagnostics,
+            focusedDiagnostic: s.focusedDiagnostic,
         }))
     );
 
+    const diagnosticsByBlock = useMemo(() => {
+        const map: Record<string, TypstDiagnostic[]> = {};
+        for (const d of diagnostics) {
+            const block = d.blockIndex !== null ? blocks[d.blockIndex] : undefined;
+            if (block) (map[block.id] ??= []).push(d);
+        }
+        return map;
+    }, [blocks, diagnostics]);
+
+    // Jump-to-error from the preview's diagnostic list.
+    useEffect(() => {
+        const index = focusedDiagnostic?.diagnostic.blockIndex;
+        if (index == null) return;
+        const el = editorScrollRef.current?.querySelector(`[data-block-index="${index}"]`) as HTMLElement | null;
+        el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [focusedDiagnostic, editorScrollRef]);
+
+    const presenceByBlock = useMemo(() => {
+        const map: Record<string, CollabPresence[]> = {};
+        for (const peer of collabPeers) {
+            if (!peer.blockId) continue;
+            (map[peer.blockId] ??= []).push(peer);
+        }
+        return map;
+    }, [collabPeers]);
+
     const blankCursorRef = useRef(0);
 
     const findAnswerBlankIndexes = useCallback((): number[] => {
@@ -54,7 +88,7 @@ export function VisualEditorPane({
 
 
     return (
-        <div className="flex-1 overflow-y-auto bg-amber-50/10 dark:bg-zinc-950/50" ref={editorScrollRef}>
+        <div className="flex-1 min-w-0 overflow-y-auto bg-amber-50/10 dark:bg-zinc-950/50" ref={editorScrollRef}>
             {(() => {
                 const blanks = findAnswerBlankIndexes();
                 if (blanks.length === 0) return null;
@@ -73,11 +107,34 @@ export function VisualEditorPane({
                     </div>
                 );
             })()}
+            {collabStatus !== 'off' && (
+                <div className="sticky top-0 z-10 px-4 py-1.5 bg-white/90 dark:bg-zinc-900/90 border-b border-zinc-200 dark:border-zinc-800 flex items-center gap-2 backdrop-blur-sm">
+                    <Users size={14} className="text-zinc-500 dark:text-zinc-400" />
+                    <span className="text-xs text-zinc-600 dark:text-zinc-400">
+                        {collabStatus === 'connected' ? `协作中 · ${collabPeers.length + 1} 人在线` : '正在连接协作服务器…'}
+                    </span>
+                    <div className="flex -space-x-1">
+                        {collabPeers.map((peer) => (
+                            <span
+                                key={peer.clientId}
+                                title={peer.name}
+                                className="w-5 h-5 rounded-full border-2 border-white dark:border-zinc-900 text-[10px] text-white flex items-center justify-center"
+                                style={{ backgroundColor: peer.color }}
+                            >
+                                {peer.name.slice(0, 1).toUpperCase()}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
             <BlockEditor
                 blocks={blocks}
                 onChange={setBlocks}
                 projectId={projectId}
                 onBlockClick={onBlockClick}
+                presence={presenceByBlock}
+                diagnostics={diagnosticsByBlock}
+                onBlockFocus={setCollabFocus}
             />
         </div>
     );
@@ -5,11 +5,28 @@ import { useParams, useRouter } from 'next/navigation';
 
 import {
   blocksToTypst,
+  clearStyleOverrides,
+  countStyleOverrides,
   generateCjkStylePreamble,
+  generateDocumentPreamble,
+  injectDocumentSettings,
+  mapDiagnosticsToBlocks,
+  moveSection,
+  resolveTemplateSource,
+  shiftDiagnosticLines,
 } from '@/lib/typst';
 import { clearToken, getToken } from '@/lib/auth';
 import { useBidirectionalScrollSync } from '@/lib/bidirectional-scroll-sync';
 import { useEditorStore } from '@/stores/useEditorStore';
+import { WebSocketTransport, collabUserFromToken } from '@/lib/collab';
+import {
+  getRenderBackend,
+  renderTypstPages,
+  renderTypstPdf,
+  setRenderBackend,
+  TypstCompileError,
+  type RenderBackend,
+} from '@/lib/typst-render';
 import { useShallow } from 'zustand/react/shallow';
 
 // Import extracted components
@@ -19,15 +36,23 @@ import { PreviewPanel } from './_components/PreviewPanel';
 import { VisualEditorPane } from './_components/VisualEditorPane';
 import { SourceEditorPane } from './_components/SourceEditorPane';
 import { ProjectSettingsModal } from './_components/ProjectSettingsModal';
+import { MergeConflictModal } from './_components/MergeConflictModal';
+import { VersionHistoryModal } from './_components/VersionHistoryModal';
+import { OutlinePanel } from './_components/OutlinePanel';
 
+// Chart data conversion; the store uses it to redraw charts after table edits
+import '@/components/editor/BlockEditors/ChartBlockEditors/chartDataConverter';
 // Built-in plugins
 import '@/components/editor/plugins/ai-assistant/AiAssistantPlugin';
 import { pluginRegistry } from '@/components/editor/plugins/registry';
 import { GlobalDependencyExposer } from '@/components/editor/plugins/GlobalDependencyExposer';
 
-// In production/Docker we typically proxy /api/* through the same origin.
-// For local dev, set NEXT_PUBLIC_BACKEND_URL=http://localhost:8000.
-const BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
+// Real-time collaboration is enabled only when a sync server is configured.
+const COLLAB_WS_URL = process.env.NEXT_PUBLIC_COLLAB_WS_URL ?? '';
+// Quiet period after the last edit before the preview is recompiled.
+const PREVIEW_RENDER_DEBOUNCE_MS = 250;
+// Invisible marker placed before every block of the preview source; the SVG is searched for its fill.
+const PREVIEW_BLOCK_MARKER = '#place(dx: -50cm, rect(width: 1pt, height: 1pt, fill: rgb("000001")))';
 
 export default function ProjectEditorPage() {
   const router = useRouter();
@@ -43,6 +68,7 @@ export default function ProjectEditorPage() {
     docSettings,
     svgPages,
     error,
+    diagnostics,
     isRendering,
     showSettings,
     showCoverModal,
@@ -62,6 +88,17 @@ export default function ProjectEditorPage() {
     openCoverModal,
     insertCover,
     saveProject,
+    saveStatus,
+    saveConflict,
+    resolveSaveConflict,
+    dismissSaveConflict,
+    syncStatus,
+    pendingSyncCount,
+    saveLocalDraft,
+    syncPendingSaves,
+    setSyncStatus,
+    createCheckpoint,
+    restoreVersion,
     undo,
     redo,
     canUndo,
@@ -69,6 +106,8 @@ export default function ProjectEditorPage() {
     setError,
     setSvgPages,
     setIsRendering,
+    setDiagnostics,
+    focusDiagnostic,
     activePluginId,
     togglePlugin,
     setActivePluginId,
@@ -81,6 +120,7 @@ export default function ProjectEditorPage() {
       docSettings: s.docSettings,
       svgPages: s.svgPages,
       error: s.error,
+      diagnostics: s.diagnostics,
       isRendering: s.isRendering,
       saveStatus: s.saveStatus,
       showSettings: s.showSettings,
@@ -100,6 +140,16 @@ export default function ProjectEditorPage() {
       openCoverModal: s.openCoverModal,
       insertCover: s.insertCover,
       saveProject: s.saveProject,
+      saveConflict: s.saveConflict,
+      resolveSaveConflict: s.resolveSaveConflict,
+      dismissSaveConflict: s.dismissSaveConflict,
+      syncStatus: s.syncStatus,
+      pendingSyncCount: s.pendingSyncCount,
+      saveLocalDraft: s.saveLocalDraft,
+      syncPendingSaves: s.syncPendingSaves,
+      setSyncStatus: s.setSyncStatus,
+      createCheckpoint: s.createCheckpoint,
+      restoreVersion: s.restoreVersion,
       undo: s.undo,
       redo: s.redo,
       canUndo: s.canUndo,
@@ -107,6 +157,8 @@ export default function ProjectEditorPage() {
       setError: s.setError,
       setSvgPages: s.setSvgPages,
       setIsRendering: s.setIsRendering,
+      setDiagnostics: s.setDiagnostics,
+      focusDiagnostic: s.focusDiagnostic,
       activePluginId: s.activePluginId,
       togglePlugin: s.togglePlugin,
       setActivePluginId: s.setActivePluginId,
@@ -114,6 +166,8 @@ export default function ProjectEditorPage() {
   );
 
   const [editorWidthPercent, setEditorWidthPercent] = useState(50);
+  const [showHistory, setShowHistory] = useState(false);
+  const [renderBackend, setRenderBackendState] = useState<RenderBackend>(() => getRenderBackend());
   const [aiSidebarWidth, setAiSidebarWidth] = useState(400);
 
   const [isResizingEditor, setIsResizingEditor] = useState(false);
@@ -174,7 +228,7 @@ export default function ProjectEditorPage() {
     pageRefs.current[pageIndex] = el;
   }, []);
 
-  const { suppressEditorSync } = useBidirectionalScrollSync({
+  const { suppressEditorSync, scrollToBlock } = useBidirectionalScrollSync({
     mode,
     svgPages,
     blocksLength: blocks.length,
@@ -186,7 +240,18 @@ export default function ProjectEditorPage() {
 
   const buildRenderCodeForPreview = useCallback(() => {
     // Keep saved `code` clean. Only inject markers into the code sent to renderer.
-    if (mode !== 'visual') return code;
+    // Stored code leaves page setup, styles and numbering to the document rules, so source
+    // mode renders it under the same preamble as the visual preview and export.
+    // Diagnostics are shifted back by the preamble's lines to point into the editor. The stored
+    // code keeps `{{key}}` placeholders, so they are resolved here in the same blocks as the
+    // visual preview resolves them.
+    if (mode !== 'visual') {
+      const sourcePreamble = generateCjkStylePreamble() + generateDocumentPreamble(docSettings, blocks);
+      return {
+        code: sourcePreamble + resolveTemplateSource(code, docSettings.templateVariables),
+        lineOffset: sourcePreamble.split('\n').length - 1,
+      };
+    }
     // Use a box with baseline to keep marker and content together during page breaks.
     // The marker is placed at the start of the block content using place() inside the box.
     const wrapWithMarker = (content: string) => {
@@ -198,7 +263,7 @@ export default function ProjectEditorPage() {
       // Wrapping them in a container (#block[..]) would make #pagebreak() illegal.
       const isCoverContainer = trimmed.startsWith('/*LF_COVER_BEGIN:');
 
-      const markerCode = '#place(dx: -50cm, rect(width: 1pt, height: 1pt, fill: rgb("000001")))';
+      const markerCode = PREVIEW_BLOCK_MARKER;
 
       if (isCoverContainer) {
         // Cover containers cannot be wrapped, use simple approach
@@ -230,17 +295,19 @@ export default function ProjectEditorPage() {
       return `#block(width: 100%, breakable: true)[${markerCode}${content}]`;
     };
 
-    const markerLine = '#place(dx: -50cm, rect(width: 1pt, height: 1pt, fill: rgb("000001")))';
-    // Add CJK font styling preamble for bold/italic simulation
-    const preamble = generateCjkStylePreamble();
+    const markerLine = PREVIEW_BLOCK_MARKER;
+    // Add CJK font styling preamble for bold/italic simulation, then the document rules
+    const preamble = generateCjkStylePreamble() + generateDocumentPreamble(docSettings, blocks);
     // Add a trailing sentinel marker to properly bound the last block for highlight.
-    return (
-      preamble +
-      blocks
-        .map((b) => wrapWithMarker(blocksToTypst([b], { settings: docSettings, target: 'preview' })))
-        .join('\n\n') +
-      `\n\n${markerLine}`
-    );
+    return {
+      code:
+        preamble +
+        blocks
+          .map((b) => wrapWithMarker(blocksToTypst([b], { settings: docSettings, target: 'preview' })))
+          .join('\n\n') +
+        `\n\n${markerLine}`,
+      lineOffset: 0,
+    };
   }, [blocks, code, docSettings, mode]);
 
   // auth guard
@@ -257,6 +324,10 @@ export default function ProjectEditorPage() {
     (async () => {
       try {
         await loadProject(projectId);
+        if (!cancelled && COLLAB_WS_URL) {
+          const token = getToken();
+          useEditorStore.getState().startCollab(new WebSocketTransport(COLLAB_WS_URL, token), collabUserFromToken(token));
+        }
       } catch (err) {
         if (cancelled) return;
         const msg = err instanceof Error ? err.message : '加载项目失败';
@@ -275,10 +346,19 @@ export default function ProjectEditorPage() {
     };
   }, [loadProject, projectId, reset, router, setError]);
 
-  const renderTypst = useCallback(async (typstCode: string) => {
+  // Only the newest render may update the preview; older in-flight renders are aborted.
+  const renderAbortRef = useRef<AbortController | null>(null);
+
+  const renderTypst = useCallback(async (typstCode: string, lineOffset = 0) => {
+    renderAbortRef.current?.abort();
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+
     if (!typstCode.trim()) {
       setSvgPages([]);
       setError(null);
+      setDiagnostics([]);
+      setIsRendering(false);
       return;
     }
 
@@ -286,52 +366,36 @@ export default function ProjectEditorPage() {
     setError(null);
 
     try {
-      const token = getToken();
-      const response = await fetch(`${BASE_URL}/api/render-typst`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ code: typstCode }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData?.detail || 'Rendering failed');
-      }
-
-      const data = await response.json();
-      setSvgPages(data.pages || []);
+      const { pages, diagnostics } = await renderTypstPages(typstCode, renderBackend, controller.signal);
+      if (controller.signal.aborted) return;
+      setSvgPages(pages);
+      setDiagnostics(mapDiagnosticsToBlocks(shiftDiagnosticLines(diagnostics, lineOffset), typstCode, PREVIEW_BLOCK_MARKER));
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Unknown error');
+      // Source mode has no markers, so diagnostics keep only their line positions there.
+      setDiagnostics(
+        err instanceof TypstCompileError
+          ? mapDiagnosticsToBlocks(shiftDiagnosticLines(err.diagnostics, lineOffset), typstCode, PREVIEW_BLOCK_MARKER)
+          : []
+      );
     } finally {
-      setIsRendering(false);
+      if (renderAbortRef.current === controller) {
+        renderAbortRef.current = null;
+        setIsRendering(false);
+      }
     }
-  }, [setError, setIsRendering, setSvgPages]);
+  }, [renderBackend, setDiagnostics, setError, setIsRendering, setSvgPages]);
+
+  useEffect(() => () => renderAbortRef.current?.abort(), []);
 
   const downloadPdf = useCallback(async () => {
     // For export, we generate clean code without markers and without draft blocks (like vertical space guides)
-    const typstCode = generateCjkStylePreamble() + blocksToTypst(blocks, { settings: docSettings, target: 'export' });
+    const typstCode = generateCjkStylePreamble() + blocksToTypst(blocks, { settings: docSettings, target: 'export', preamble: true });
     if (!typstCode.trim()) return;
 
     try {
-      const token = getToken();
-      const response = await fetch(`${BASE_URL}/api/render-typst/pdf`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token ? { Authorization: `Bearer ${token}` } : {}),
-        },
-        body: JSON.stringify({ code: typstCode }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData?.detail || 'PDF 生成失败');
-      }
-
-      const blob = await response.blob();
+      const blob = await renderTypstPdf(typstCode, renderBackend);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -343,7 +407,7 @@ export default function ProjectEditorPage() {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     }
-  }, [blocks, docSettings, title, setError]);
+  }, [blocks, docSettings, renderBackend, title, setError]);
 
   // Handle block click and scroll to corresponding position in preview
   const handleBlockClick = useCallback((index: number) => {
@@ -406,14 +470,44 @@ export default function ProjectEditorPage() {
     return () => window.removeEventListener('keydown', onKeyDown);
   }, [redo, saveProject, undo]);
 
+  // Offline: replay queued saves when connectivity returns, and retry periodically.
+  useEffect(() => {
+    const onOnline = () => void syncPendingSaves();
+    const onOffline = () => setSyncStatus('offline');
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+
+    const timer = syncStatus === 'offline' ? setInterval(() => void syncPendingSaves(), 30000) : null;
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      if (timer) clearInterval(timer);
+    };
+  }, [setSyncStatus, syncPendingSaves, syncStatus]);
+
+  // While offline, keep a local copy of every edit so a refresh does not lose it.
+  useEffect(() => {
+    if (syncStatus !== 'offline') return;
+    const timer = setTimeout(() => void saveLocalDraft(), 1000);
+    return () => clearTimeout(timer);
+  }, [code, title, docSettings, saveLocalDraft, syncStatus]);
+
   // render debounce
   useEffect(() => {
     const timer = setTimeout(() => {
-      renderTypst(buildRenderCodeForPreview());
-    }, 100);
+      const { code: renderCode, lineOffset } = buildRenderCodeForPreview();
+      void renderTypst(renderCode, lineOffset);
+    }, PREVIEW_RENDER_DEBOUNCE_MS);
     return () => clearTimeout(timer);
   }, [buildRenderCodeForPreview, renderTypst]);
 
+  // Read through a ref so the click handler (and with it every memoized preview page) stays the
+  // same across renders.
+  const svgPagesRef = useRef(svgPages);
+  useEffect(() => {
+    svgPagesRef.current = svgPages;
+  }, [svgPages]);
+
   const handlePreviewClick = useCallback((pageIndex: number, localIndex: number) => {
     if (!editorScrollRef.current) return;
 
@@ -422,7 +516,7 @@ export default function ProjectEditorPage() {
 
     let globalIndex = 0;
     for (let i = 0; i < pageIndex; i++) {
-      const content = svgPages[i] || '';
+      const content = svgPagesRef.current[i] || '';
       const matches = content.match(/fill="#000001"/g);
       globalIndex += matches ? matches.length : 0;
     }
@@ -449,7 +543,7 @@ export default function ProjectEditorPage() {
         }, 200);
       }, 1000);
     }
-  }, [svgPages, suppressEditorSync]);
+  }, [suppressEditorSync]);
 
   return (
     <>
@@ -475,7 +569,11 @@ export default function ProjectEditorPage() {
                   onUndo={undo}
                   onRedo={redo}
                   onSave={() => void saveProject()}
+                  saveStatus={saveStatus}
+                  syncStatus={syncStatus}
+                  pendingSyncCount={pendingSyncCount}
                   onOpenCoverModal={() => void openCoverModal()}
+                  onOpenHistory={() => setShowHistory(true)}
                   projectType={projectType}
                   showSettings={showSettings}
                   onToggleSettings={() => setShowSettings(!showSettings)}
@@ -487,11 +585,21 @@ export default function ProjectEditorPage() {
             {mode === 'source' ? (
               <SourceEditorPane />
             ) : (
-              <VisualEditorPane
-                projectId={projectId}
-                onBlockClick={handleBlockClick}
-                editorScrollRef={editorScrollRef}
-              />
+              <div className="flex flex-1 min-h-0">
+                <OutlinePanel
+                  blocks={blocks}
+                  onNavigate={scrollToBlock}
+                  onMoveSection={(from, to) => {
+                    const next = moveSection(blocks, from, to);
+                    if (next !== blocks) setBlocks(next);
+                  }}
+                />
+                <VisualEditorPane
+                  projectId={projectId}
+                  onBlockClick={handleBlockClick}
+                  editorScrollRef={editorScrollRef}
+                />
+              </div>
             )}
           </div>
 
@@ -507,6 +615,8 @@ export default function ProjectEditorPage() {
           <div className="flex flex-col bg-zinc-50/50 dark:bg-zinc-900/50 backdrop-blur-sm" style={{ width: `${100 - editorWidthPercent}%` }}>
             <PreviewPanel
               error={error}
+              diagnostics={diagnostics}
+              onJumpToDiagnostic={focusDiagnostic}
               svgPages={svgPages}
               isRendering={isRendering}
               activeAnchor={activeAnchor}
@@ -568,6 +678,27 @@ export default function ProjectEditorPage() {
           covers={covers}
         />
 
+        {/* Save Conflict (three-way merge) Modal */}
+        <MergeConflictModal
+          key={saveConflict?.latest.updated_at ?? 'none'}
+          conflict={saveConflict}
+          onResolve={(choices) => void resolveSaveConflict(choices)}
+          onCancel={dismissSaveConflict}
+        />
+
+        {/* Version History Modal */}
+        <VersionHistoryModal
+          show={showHistory}
+          onClose={() => setShowHistory(false)}
+          projectId={projectId}
+          currentCode={showHistory ? injectDocumentSettings(code, docSettings) : ''}
+          onCreateCheckpoint={createCheckpoint}
+          onRestore={async (version) => {
+            await restoreVersion(version);
+            setShowHistory(false);
+          }}
+        />
+
         {/* Project Settings Modal */}
         <ProjectSettingsModal
           show={showSettings}
@@ -586,6 +717,13 @@ export default function ProjectEditorPage() {
             next[coverIndex] = { ...next[coverIndex], coverFixedOnePage: fixed };
             setBlocks(next);
           }}
+          renderBackend={renderBackend}
+          onRenderBackendChange={(backend) => {
+            setRenderBackend(backend);
+            setRenderBackendState(backend);
+          }}
+          styleOverrideCount={countStyleOverrides(blocks)}
+          onResetStyleOverrides={() => setBlocks(clearStyleOverrides(blocks))}
         />
 
       </div>
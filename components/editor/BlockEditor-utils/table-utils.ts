@@ -1,4 +1,11 @@
-import { TablePayload, TableCell } from './types';
+import type { CSSProperties } from 'react';
+import { normalizeTableColumnWidth, normalizeTableFill, normalizeTableStrokeSpec, normalizeTableStyle } from '@/lib/typst';
+import { TablePayload, TableCell, TableColumn, TableHAlign, TableStrokeSpec, TableVAlign } from './types';
+
+const asHAlign = (v: unknown): TableHAlign | undefined =>
+  v === 'left' || v === 'center' || v === 'right' ? v : undefined;
+const asVAlign = (v: unknown): TableVAlign | undefined =>
+  v === 'top' || v === 'horizon' || v === 'bottom' ? v : undefined;
 
 export const defaultTablePayload = (rows = 2, cols = 2): TablePayload => ({
   caption: '',
@@ -38,7 +45,7 @@ export const parseTablePayload = (content: string): TablePayload => {
     const cols = Math.max(1, Number(parsed['cols']) || (Array.isArray(firstRow) ? firstRow.length : 1));
 
     const caption = typeof parsed['caption'] === 'string' ? (parsed['caption'] as string) : '';
-    const style = parsed['style'] === 'three-line' ? 'three-line' : 'normal';
+    const style = normalizeTableStyle(parsed['style']);
 
     const cells: TableCell[][] = Array.from({ length: rows }, (_, r) => {
       const rowIn = Array.isArray((cellsValue as unknown[])[r]) ? ((cellsValue as unknown[])[r] as unknown[]) : [];
@@ -51,13 +58,38 @@ export const parseTablePayload = (content: string): TablePayload => {
             rowspan: rec['rowspan'] ? Number(rec['rowspan']) : undefined,
             colspan: rec['colspan'] ? Number(rec['colspan']) : undefined,
             hidden: !!rec['hidden'],
+            formula: typeof rec['formula'] === 'string' && rec['formula'] ? (rec['formula'] as string) : undefined,
+            align: asHAlign(rec['align']),
+            valign: asVAlign(rec['valign']),
+            fill: normalizeTableFill(rec['fill']),
           };
         }
         return { content: (cellIn ?? '').toString() };
       });
     });
 
-    return { caption, style, rows, cols, cells };
+    const precisionValue = parsed['columnPrecision'];
+    const columnPrecision = Array.isArray(precisionValue)
+      ? precisionValue.map((d) => (typeof d === 'number' && d >= 1 ? d : null))
+      : undefined;
+
+    const columnsValue = parsed['columns'];
+    const columns: TableColumn[] | undefined = Array.isArray(columnsValue)
+      ? columnsValue.map((col) => {
+        const rec: Record<string, unknown> = isRecord(col) ? col : {};
+        return {
+          width: normalizeTableColumnWidth(rec['width']) ?? undefined,
+          align: asHAlign(rec['align']),
+          valign: asVAlign(rec['valign']),
+        };
+      })
+      : undefined;
+    const headerRows = Math.max(0, Math.floor(Number(parsed['headerRows']) || 0));
+
+    const stroke = isRecord(parsed['stroke']) ? normalizeTableStrokeSpec(parsed['stroke']) : undefined;
+    const userStyle = typeof parsed['userStyle'] === 'string' && parsed['userStyle'] ? (parsed['userStyle'] as string) : undefined;
+
+    return { caption, style, rows, cols, cells, columnPrecision, columns, headerRows, stroke, userStyle };
   } catch {
     return defaultTablePayload();
   }
@@ -74,6 +106,10 @@ export const normalizeTablePayload = (p: TablePayload): TablePayload => {
       rowspan: p.cells?.[r]?.[c]?.rowspan,
       colspan: p.cells?.[r]?.[c]?.colspan,
       hidden: p.cells?.[r]?.[c]?.hidden,
+      formula: p.cells?.[r]?.[c]?.formula,
+      align: p.cells?.[r]?.[c]?.align,
+      valign: p.cells?.[r]?.[c]?.valign,
+      fill: p.cells?.[r]?.[c]?.fill,
     }))
   );
 
@@ -157,6 +193,15 @@ export const normalizeTablePayload = (p: TablePayload): TablePayload => {
     rows,
     cols,
     cells,
+    ...(p.columnPrecision?.some((d) => d)
+      ? { columnPrecision: Array.from({ length: cols }, (_, c) => p.columnPrecision?.[c] ?? null) }
+      : {}),
+    ...(p.columns?.some((col) => col && (col.width || col.align || col.valign))
+      ? { columns: Array.from({ length: cols }, (_, c) => ({ ...p.columns?.[c] })) }
+      : {}),
+    ...(p.headerRows ? { headerRows: Math.min(rows, p.headerRows) } : {}),
+    ...(p.stroke ? { stroke: p.stroke } : {}),
+    ...(p.userStyle ? { userStyle: p.userStyle } : {}),
   };
 };
 
@@ -196,6 +241,7 @@ export const mergeTableRect = (p: TablePayload, r1: number, c1: number, r2: numb
     }
   }
   master.content = parts.join('\n');
+  if (parts.length > 1) master.formula = undefined;
   master.rowspan = bottom - top + 1;
   master.colspan = right - left + 1;
   master.hidden = false;
@@ -205,6 +251,10 @@ export const mergeTableRect = (p: TablePayload, r1: number, c1: number, r2: numb
       if (r === top && c === left) continue;
       n.cells[r][c].hidden = true;
       n.cells[r][c].content = '';
+      n.cells[r][c].formula = undefined;
+      n.cells[r][c].fill = undefined;
+      n.cells[r][c].align = undefined;
+      n.cells[r][c].valign = undefined;
       n.cells[r][c].rowspan = undefined;
       n.cells[r][c].colspan = undefined;
     }
@@ -230,3 +280,40 @@ export const unmergeTableCell = (p: TablePayload, r: number, c: number): TablePa
   }
   return n;
 };
+
+const RULE_COLOR = '#71717a';
+// Faint guides where the style draws no line, so cells stay distinguishable while editing.
+const GUIDE_BORDER = '1px dashed rgba(161, 161, 170, 0.35)';
+
+const ruleCss = (width: number, guides: boolean) =>
+  width > 0 ? `${Math.max(1, Math.round(width * 1.33))}px solid ${RULE_COLOR}` : guides ? GUIDE_BORDER : 'none';
+
+/**
+ * Editor approximation of how a style draws the cell at (r, c): its four edges and row fill.
+ * `headerEnd` is the first body row.
+ */
+export const tableCellStyleCss = (
+  spec: TableStrokeSpec,
+  cell: { r: number; c: number; rs: number; cs: number },
+  size: { rows: number; cols: number; headerEnd: number },
+  guides = false
+): CSSProperties => {
+  const { r, c, rs, cs } = cell;
+  const { rows, cols, headerEnd } = size;
+  const hasHeaderRule = spec.header > 0 && headerEnd < rows;
+  const horizontal = (y: number) =>
+    y === 0 ? spec.top : y === rows ? spec.bottom : hasHeaderRule && y === headerEnd ? spec.header : spec.rows;
+  const vertical = (x: number) => (x === 0 ? spec.left : x === cols ? spec.right : spec.cols);
+  const fill = r < headerEnd
+    ? spec.headerFill
+    : spec.zebra && (r - headerEnd) % 2 === 1
+      ? spec.zebra
+      : undefined;
+  return {
+    borderTop: ruleCss(horizontal(r), guides),
+    borderBottom: ruleCss(horizontal(r + rs), guides),
+    borderLeft: ruleCss(vertical(c), guides),
+    borderRight: ruleCss(vertical(c + cs), guides),
+    backgroundColor: fill,
+  };
+};
@@ -9,13 +9,46 @@ export type InlineMathState = {
   displayMode?: boolean;
 };
 
-export type TableStyle = 'normal' | 'three-line';
+export type TableStyle =
+  | 'normal'
+  | 'three-line'
+  | 'booktabs'
+  | 'booktabs-rows'
+  | 'zebra'
+  | 'header-rule'
+  | 'plain'
+  | 'custom';
+
+export type TableStrokeSpec = {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  header: number;
+  rows: number;
+  cols: number;
+  headerFill?: string;
+  zebra?: string;
+};
+
+export type TableHAlign = 'left' | 'center' | 'right';
+export type TableVAlign = 'top' | 'horizon' | 'bottom';
+
+export type TableColumn = {
+  width?: string;
+  align?: TableHAlign;
+  valign?: TableVAlign;
+};
 
 export type TableCell = {
   content: string;
   rowspan?: number;
   colspan?: number;
   hidden?: boolean;
+  formula?: string;
+  align?: TableHAlign;
+  valign?: TableVAlign;
+  fill?: string;
 };
 
 export type TablePayload = {
@@ -24,4 +57,9 @@ export type TablePayload = {
   rows: number;
   cols: number;
   cells: TableCell[][];
+  columnPrecision?: (number | null)[];
+  columns?: TableColumn[];
+  headerRows?: number;
+  stroke?: TableStrokeSpec;
+  userStyle?: string;
 };
@@ -1,4 +1,5 @@
 import { latexToTypstMath, typstToLatexMath } from '@/lib/math-convert';
+import { unescapeTypstMarkup } from '@/lib/typst';
 
 export const INLINE_MATH_LATEX_MARKER = '/*LF_LATEX:';
 
@@ -613,10 +614,10 @@ export const typstInlineToHtml = (typst: string, opts?: { skipListDetection?: bo
 };
 
 export const typstInlineToPlainText = (typst: string): string => {
-  if (typeof document === 'undefined') return (typst ?? '').toString();
+  if (typeof document === 'undefined') return unescapeTypstMarkup((typst ?? '').toString());
   const div = document.createElement('div');
   div.innerHTML = typstInlineToHtml(typst ?? '');
-  return (div.textContent ?? '').replace(/\u00A0/g, ' ');
+  return unescapeTypstMarkup((div.textContent ?? '').replace(/\u00A0/g, ' '));
 };
 
 export const htmlToTypstInline = (root: HTMLElement): string => {
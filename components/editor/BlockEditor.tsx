@@ -1,6 +1,7 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import { TypstBlock, generateId, type TypstDiagnostic } from '@/lib/typst';
+import type { CollabPresence } from '@/lib/collab';
 import { getToken } from '@/lib/auth';
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import BlockItem from './BlockItem';
@@ -12,6 +13,11 @@ interface BlockEditorProps {
   onChange: (blocks: TypstBlock[]) => void;
   projectId: string;
   onBlockClick?: (index: number) => void;
+  // Collaborators currently editing each block (keyed by block id)
+  presence?: Record<string, CollabPresence[]>;
+  // Compile errors/warnings attributed to each block (keyed by block id)
+  diagnostics?: Record<string, TypstDiagnostic[]>;
+  onBlockFocus?: (blockId: string | null) => void;
 }
 
 type ChartType = 'scatter' | 'bar' | 'pie' | 'hbar';
@@ -24,13 +30,12 @@ type ChartRenderRequest = {
   data: Array<Record<string, unknown>>;
 };
 
-export default function BlockEditor({ blocks, onChange, projectId, onBlockClick }: BlockEditorProps) {
+export default function BlockEditor({ blocks, onChange, projectId, onBlockClick, presence, diagnostics, onBlockFocus }: BlockEditorProps) {
   const [draggingId, setDraggingId] = useState<string | null>(null);
   // Track drop position: which block and whether to insert before/after or inside (merge)
   type DropPosition = { targetId: string; position: 'before' | 'after' | 'inside' } | null;
   const [dropPosition, setDropPosition] = useState<DropPosition>(null);
   const suppressNextDragRef = useRef(false);
-  const nextBlockIdRef = useRef(1);
 
   // Use refs to hold latest values so callbacks don't need to depend on blocks/onChange
   const blocksRef = useRef(blocks);
@@ -94,10 +99,8 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
     // Case 2: Target is a normal block -> Create new composite row
     else {
       // Create new composite block
-      let nextId = '';
-      do {
-        nextId = `block-${nextBlockIdRef.current++}`;
-      } while (blocks.some((b) => b.id === nextId));
+      // Globally unique ids: collaborators may add blocks at the same time.
+      const nextId = generateId();
 
       const newCompositeBlock: TypstBlock = {
         id: nextId,
@@ -155,10 +158,7 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
 
   const addBlock = useCallback((afterId?: string) => {
     const currentBlocks = blocksRef.current;
-    let nextId = '';
-    do {
-      nextId = `block-${nextBlockIdRef.current++}`;
-    } while (currentBlocks.some((b) => b.id === nextId));
+    const nextId = generateId();
 
     const newBlock: TypstBlock = {
       id: nextId,
@@ -176,6 +176,14 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
     }
   }, []);
 
+  const insertBlocksAfter = useCallback((afterId: string, newBlocks: TypstBlock[]) => {
+    const currentBlocks = blocksRef.current;
+    const index = currentBlocks.findIndex(b => b.id === afterId);
+    const nextBlocks = [...currentBlocks];
+    nextBlocks.splice(index < 0 ? currentBlocks.length : index + 1, 0, ...newBlocks);
+    onChangeRef.current(nextBlocks);
+  }, []);
+
   type LastTableSelection = { blockId: string; r1: number; c1: number; r2: number; c2: number };
   const [lastTableSelection, setLastTableSelection] = useState<LastTableSelection | null>(null);
 
@@ -318,6 +326,10 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
           onMouseUpCapture={() => {
             suppressNextDragRef.current = false;
           }}
+          onFocusCapture={() => onBlockFocus?.(block.id)}
+          onBlurCapture={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onBlockFocus?.(null);
+          }}
           onDragStart={(e) => {
             if (block.type === 'cover') {
               e.preventDefault();
@@ -380,7 +392,22 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
             suppressNextDragRef.current = false;
           }}
           className={`relative ${draggingId === block.id ? 'opacity-50' : ''}`}
+          style={presence?.[block.id]?.length ? { boxShadow: `0 0 0 2px ${presence[block.id][0].color}`, borderRadius: 6 } : undefined}
         >
+          {/* Collaborators editing this block */}
+          {presence?.[block.id]?.length ? (
+            <div className="absolute -top-2.5 right-2 flex gap-1 z-10 pointer-events-none">
+              {presence[block.id].map((peer) => (
+                <span
+                  key={peer.clientId}
+                  className="px-1.5 py-0.5 rounded text-[10px] leading-none text-white shadow"
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {peer.name}
+                </span>
+              ))}
+            </div>
+          ) : null}
           {/* Insertion indicator line - before */}
           {dropPosition?.targetId === block.id && dropPosition.position === 'before' && (
             <div className="absolute -top-1 left-0 right-0 h-0.5 bg-blue-500 rounded-full z-10" />
@@ -402,6 +429,7 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
             onUpdate={(updates) => updateBlock(block.id, updates)}
             onDelete={() => deleteBlock(block.id)}
             onAddAfter={() => addBlock(block.id)}
+            onInsertAfter={(newBlocks) => insertBlocksAfter(block.id, newBlocks)}
             onMove={(dir) => moveBlock(block.id, dir)}
             onUploadImage={(file) => uploadImage(file, block.id)}
             onTableSelectionSnapshot={handleTableSelectionSnapshot}
@@ -412,6 +440,7 @@ export default function BlockEditor({ blocks, onChange, projectId, onBlockClick
             }}
             onClick={() => onBlockClick?.(index)}
             onMoveBlockToComposite={moveBlockToComposite}
+            diagnostics={diagnostics?.[block.id]}
           />
         </div>
       ))}
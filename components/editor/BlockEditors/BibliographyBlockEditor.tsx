@@ -0,0 +1,113 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  TypstBlock,
+  BIBLIOGRAPHY_STYLES,
+  countBibliographyBlocks,
+  parseBibtexEntries,
+  safeParseBibliographyPayload,
+  type BibliographyStyle,
+  type PersistedBibliographyPayload,
+} from '@/lib/typst';
+
+interface BibliographyBlockEditorProps {
+  block: TypstBlock;
+  onUpdate: (updates: Partial<TypstBlock>) => void;
+  /** Document blocks, used to warn about a second bibliography */
+  allBlocks?: TypstBlock[];
+}
+
+const ENTRY_TEMPLATE = `@article{key2024,
+  title   = {文章标题},
+  author  = {作者, 甲 and 作者, 乙},
+  journal = {期刊名称},
+  year    = {2024},
+  volume  = {1},
+  pages   = {1--10},
+}`;
+
+export default function BibliographyBlockEditor({ block, onUpdate, allBlocks = [] }: BibliographyBlockEditorProps) {
+  const payload = useMemo(() => safeParseBibliographyPayload(block.content ?? ''), [block.content]);
+  const entries = useMemo(() => parseBibtexEntries(payload.bibtex), [payload.bibtex]);
+
+  const updatePayload = (patch: Partial<PersistedBibliographyPayload>) => {
+    onUpdate({ content: JSON.stringify({ ...payload, ...patch }) });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {countBibliographyBlocks(allBlocks) > 1 && (
+        <div className="text-xs px-2 py-1.5 rounded border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+          文档中有多个参考文献块，Typst 只允许一个。请把条目合并到同一个块并删除其余的块。
+        </div>
+      )}
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400">标题</label>
+          <input
+            type="text"
+            value={payload.title}
+            onChange={(e) => updatePayload({ title: e.target.value })}
+            placeholder="参考文献"
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 w-32"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400">引用格式</label>
+          <select
+            value={payload.style}
+            onChange={(e) => updatePayload({ style: e.target.value as BibliographyStyle })}
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          >
+            {BIBLIOGRAPHY_STYLES.map((s) => (
+              <option key={s.value} value={s.value}>{s.label}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={payload.full}
+            onChange={(e) => updatePayload({ full: e.target.checked })}
+          />
+          列出未引用的条目
+        </label>
+        <button
+          type="button"
+          onClick={() => updatePayload({ bibtex: payload.bibtex.trim() ? `${payload.bibtex.trimEnd()}\n\n${ENTRY_TEMPLATE}` : ENTRY_TEMPLATE })}
+          className="ml-auto text-xs px-2 py-1 rounded border border-zinc-300 dark:border-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+        >
+          + 添加条目
+        </button>
+      </div>
+
+      {/* BibTeX 编辑器 */}
+      <textarea
+        value={payload.bibtex}
+        onChange={(e) => updatePayload({ bibtex: e.target.value })}
+        className="w-full p-2 font-mono text-xs border border-zinc-200 dark:border-zinc-700 rounded bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100 resize-y"
+        rows={Math.min(16, Math.max(4, payload.bibtex.split('\n').length))}
+        placeholder="粘贴 BibTeX 条目，例如从 Google Scholar / 知网导出的 @article{...}"
+        spellCheck={false}
+      />
+
+      {/* 已识别条目 */}
+      {entries.length > 0 ? (
+        <div className="flex flex-col gap-1">
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">已识别 {entries.length} 条文献，正文中使用 @键名 引用：</div>
+          {entries.map((entry) => (
+            <div key={entry.key} className="flex items-baseline gap-2 text-xs">
+              <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">@{entry.key}</span>
+              <span className="truncate text-zinc-700 dark:text-zinc-300">
+                {[entry.author, entry.title, entry.year].filter(Boolean).join('. ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : payload.bibtex.trim() ? (
+        <div className="text-xs text-amber-600 dark:text-amber-400">未识别到有效的 BibTeX 条目</div>
+      ) : null}
+    </div>
+  );
+}
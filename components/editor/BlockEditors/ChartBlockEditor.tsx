@@ -1,6 +1,7 @@
 'use client';
 
 import { TypstBlock } from '@/lib/typst';
+import type { FitKind } from '@/lib/curve-fit';
 import { useState } from 'react';
 import Image from 'next/image';
 import ScatterEditor from './ChartBlockEditors/ScatterEditor';
@@ -9,7 +10,7 @@ import HBarEditor from './ChartBlockEditors/HBarEditor';
 import PieEditor from './ChartBlockEditors/PieEditor';
 import { ChartType, ChartData } from './ChartBlockEditors/shared';
 import { safeParseChartContent } from './ChartBlockEditors/chartDataParser';
-import { convertChartToRenderRequest } from './ChartBlockEditors/chartDataConverter';
+import { convertChartToRenderRequest, resolveChartPlot } from './ChartBlockEditors/chartDataConverter';
 
 export type ChartRenderRequest = {
   chart_type: ChartType;
@@ -18,6 +19,18 @@ export type ChartRenderRequest = {
   y_label: string;
   legend: boolean;
   data: Array<Record<string, unknown>>;
+  // Scatter trendlines, drawn as lines through `points` with optional labels
+  fits?: ChartRenderFit[];
+};
+
+export type ChartRenderFit = {
+  series: string;
+  kind: FitKind;
+  coefficients: number[];
+  r2: number;
+  points: Array<{ x: number; y: number }>;
+  equation?: string;
+  r2_label?: string;
 };
 
 interface ChartBlockEditorProps {
@@ -27,6 +40,8 @@ interface ChartBlockEditorProps {
   onUpdate: (update: Partial<TypstBlock>) => void;
   lastTableSelection: { blockId: string; r1: number; c1: number; r2: number; c2: number } | null;
   onRenderChart: (payload: ChartRenderRequest) => Promise<string>;
+  /** Insert generated blocks (fit parameters) right after this chart */
+  onInsertAfter?: (blocks: TypstBlock[]) => void;
 }
 
 export { safeParseChartContent };
@@ -38,6 +53,7 @@ export default function ChartBlockEditor({
   onUpdate,
   lastTableSelection,
   onRenderChart,
+  onInsertAfter,
 }: ChartBlockEditorProps) {
   const [chartSelectionMode, setChartSelectionMode] = useState(false);
   const [chartPickAnchor, setChartPickAnchor] = useState<{ key: string; r: number; c: number } | null>(null);
@@ -46,6 +62,7 @@ export default function ChartBlockEditor({
 
   const updateChart = (partial: Partial<ChartData>) => {
     const next = { ...chart, ...partial };
+    next.plot = resolveChartPlot(next, allBlocks);
     onUpdate({ content: JSON.stringify(next) });
   };
 
@@ -82,6 +99,17 @@ export default function ChartBlockEditor({
           checked={!!chart.legend}
           onChange={(e) => updateChart({ legend: e.target.checked })}
         />
+
+        <label className="text-xs text-zinc-600 dark:text-zinc-400 ml-2">渲染</label>
+        <select
+          value={chart.renderer}
+          onChange={(e) => updateChart({ renderer: e.target.value as ChartData['renderer'] })}
+          className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          title="Typst 矢量图随文档重新排版并使用文档字体；图片需手动生成"
+        >
+          <option value="typst">Typst 矢量图</option>
+          <option value="image">图片（服务端生成）</option>
+        </select>
       </div>
 
       {/* 标题输入 */}
@@ -149,6 +177,7 @@ export default function ChartBlockEditor({
           setChartSelectionMode={setChartSelectionMode}
           chartPickAnchor={chartPickAnchor}
           setChartPickAnchor={setChartPickAnchor}
+          onInsertAfter={onInsertAfter}
         />
       )}
 
@@ -198,7 +227,9 @@ export default function ChartBlockEditor({
       )}
 
       {/* 预览图片 */}
-      {(chart.imageUrl ?? '').trim() ? (
+      {chart.renderer === 'typst' ? (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400">图表随文档以 Typst 矢量图形渲染，请在文档预览中查看。</div>
+      ) : (chart.imageUrl ?? '').trim() ? (
         <div className={`flex ${(block.align || 'center') === 'left' ? 'justify-start' :
             (block.align || 'center') === 'right' ? 'justify-end' : 'justify-center'
           }`}>
@@ -216,7 +247,7 @@ export default function ChartBlockEditor({
       )}
 
       {/* 对齐方式 */}
-      {(chart.imageUrl ?? '').trim() && (
+      {(chart.renderer === 'typst' || (chart.imageUrl ?? '').trim()) && (
         <div className="flex items-center gap-2">
           <label className="text-xs text-zinc-600 dark:text-zinc-400">对齐：</label>
           <div className="flex gap-1">
@@ -292,15 +323,17 @@ export default function ChartBlockEditor({
       </div>
 
       {/* 生成按钮 */}
-      <div className="flex gap-2">
-        <button
-          type="button"
-          onClick={handleRenderChartClick}
-          className="px-3 py-2 text-sm rounded bg-blue-500 hover:bg-blue-600 text-white"
-        >
-          生成/更新预览
-        </button>
-      </div>
+      {chart.renderer === 'image' && (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleRenderChartClick}
+            className="px-3 py-2 text-sm rounded bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            生成/更新预览
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import { TypstBlock, generateId } from '@/lib/typst';
+import { latexToTypstMath } from '@/lib/math-convert';
+import { CurveFitError, FIT_KINDS, MAX_POLYNOMIAL_DEGREE, fitEquation, formatR2, type CurveFit, type FitKind } from '@/lib/curve-fit';
 import { type MouseEvent as ReactMouseEvent, type ClipboardEvent as ReactClipboardEvent } from 'react';
 import { MousePointer2 } from 'lucide-react';
 import {
@@ -13,6 +15,7 @@ import {
   getTablePayloadById,
   getCellPlain,
 } from './shared';
+import { fitScatterSeries } from './chartDataConverter';
 
 interface ScatterEditorProps {
   chart: ChartData;
@@ -25,6 +28,7 @@ interface ScatterEditorProps {
   setChartSelectionMode: (mode: boolean | ((prev: boolean) => boolean)) => void;
   chartPickAnchor: { key: string; r: number; c: number } | null;
   setChartPickAnchor: (anchor: { key: string; r: number; c: number } | null) => void;
+  onInsertAfter?: (blocks: TypstBlock[]) => void;
 }
 
 export default function ScatterEditor({
@@ -38,6 +42,7 @@ export default function ScatterEditor({
   setChartSelectionMode,
   chartPickAnchor,
   setChartPickAnchor,
+  onInsertAfter,
 }: ScatterEditorProps) {
   const series = (chart.scatterSeries ?? []) as ScatterSeries[];
   const defaultSeries: ScatterSeries = {
@@ -309,6 +314,105 @@ export default function ScatterEditor({
     );
   };
 
+  const insertFitMath = (fit: CurveFit) => {
+    if (!onInsertAfter) return;
+    const mathLines = [fitEquation(fit, 'latex'), formatR2(fit.r2, 'latex')]
+      .map((latex) => ({ latex, typst: latexToTypstMath(latex) }));
+    onInsertAfter([{
+      id: generateId(),
+      type: 'math',
+      content: mathLines.map((l) => l.typst).join(' \\ '),
+      mathFormat: 'latex',
+      mathLatex: mathLines.map((l) => l.latex).join(' \\\\ '),
+      mathTypst: mathLines.map((l) => l.typst).join(' \\ '),
+      mathLines,
+    }]);
+  };
+
+  const renderFitControls = (s: ScatterSeries, idx: number) => {
+    let fit: CurveFit | null = null;
+    let fitError = '';
+    try {
+      fit = fitScatterSeries(s, allBlocks);
+    } catch (err) {
+      fitError = err instanceof CurveFitError ? err.message : '拟合失败';
+    }
+
+    return (
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="text-xs text-zinc-600 dark:text-zinc-400">拟合</span>
+          <select
+            value={s.fit?.kind ?? ''}
+            onChange={(e) => {
+              const kind = e.target.value as FitKind | '';
+              upsertSeries(idx, {
+                fit: kind
+                  ? { kind, degree: s.fit?.degree ?? 2, showEquation: s.fit?.showEquation ?? true, showR2: s.fit?.showR2 ?? true }
+                  : undefined,
+              });
+            }}
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          >
+            <option value="">无</option>
+            {FIT_KINDS.map((k) => (
+              <option key={k.id} value={k.id}>{k.name}</option>
+            ))}
+          </select>
+          {s.fit?.kind === 'polynomial' && (
+            <select
+              value={s.fit.degree ?? 2}
+              onChange={(e) => s.fit && upsertSeries(idx, { fit: { ...s.fit, degree: Number(e.target.value) } })}
+              className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+            >
+              {Array.from({ length: MAX_POLYNOMIAL_DEGREE - 1 }, (_, i) => i + 2).map((d) => (
+                <option key={d} value={d}>{d} 次</option>
+              ))}
+            </select>
+          )}
+          {s.fit && (
+            <>
+              <label className="text-xs flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={s.fit.showEquation !== false}
+                  onChange={(e) => s.fit && upsertSeries(idx, { fit: { ...s.fit, showEquation: e.target.checked } })}
+                />
+                显示方程
+              </label>
+              <label className="text-xs flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={s.fit.showR2 !== false}
+                  onChange={(e) => s.fit && upsertSeries(idx, { fit: { ...s.fit, showR2: e.target.checked } })}
+                />
+                显示 R²
+              </label>
+            </>
+          )}
+        </div>
+        {fitError ? (
+          <div className="text-[11px] text-red-600 dark:text-red-400">{fitError}</div>
+        ) : fit ? (
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-[11px] font-mono text-zinc-600 dark:text-zinc-400">
+              {fitEquation(fit, 'text')}，{formatR2(fit.r2, 'text')}
+            </span>
+            {onInsertAfter && (
+              <button
+                type="button"
+                onClick={() => fit && insertFitMath(fit)}
+                className="px-2 py-1 text-xs rounded border border-zinc-300 dark:border-zinc-600"
+                title="在图表下方插入拟合方程与 R² 公式块"
+              >
+                插入为公式
+              </button>
+            )}
+          </div>
+        ) : null}
+      </div>
+    );
+  };
   return (
     <div className="flex flex-col gap-3">
       {safeSeries.map((s, idx) => (
@@ -407,6 +511,8 @@ export default function ScatterEditor({
               ? renderManualAxisRow('y', s, idx)
               : renderAxisTableSelector('y', s, idx)}
           </div>
+
+          {renderFitControls(s, idx)}
         </div>
       ))}
 
@@ -1,11 +1,14 @@
-import { TypstBlock } from '@/lib/typst';
+import { TypstBlock, registerChartContentResolver, type PersistedChartPlot } from '@/lib/typst';
 import {
   ChartData,
+  ScatterSeries,
   TableSelection,
   getTablePayloadById,
   getCellPlain,
 } from './shared';
-import { ChartRenderRequest } from '../ChartBlockEditor';
+import { ChartRenderRequest, ChartRenderFit } from '../ChartBlockEditor';
+import { safeParseChartContent } from './chartDataParser';
+import { fitCurve, fitEquation, formatR2, rawCoefficients, sampleFit, type CurveFit, type FitPoint } from '@/lib/curve-fit';
 
 /**
  * 从表格选区读取向量数据
@@ -37,72 +40,118 @@ export function readVectorFromTableSelection(sel: TableSelection, allBlocks: Typ
 }
 
 /**
- * 转换散点图数据
+ * 读取散点图单个系列的有效数据点
  */
-export function convertScatterData(chart: ChartData, allBlocks: TypstBlock[]): Array<Record<string, unknown>> {
-  const data: Array<Record<string, unknown>> = [];
-  const series = chart.scatterSeries ?? [];
-
-  for (const s of series) {
-    const xSource = s.xSource ?? 'manual';
-    const ySource = s.ySource ?? 'manual';
-    const xCells = xSource === 'manual' ? (s.xRow ?? '').split('\t').map((x) => x.trim()).filter(Boolean) : [];
-    const yCells = ySource === 'manual' ? (s.yRow ?? '').split('\t').map((x) => x.trim()).filter(Boolean) : [];
+export function readScatterPoints(s: ScatterSeries, allBlocks: TypstBlock[]): FitPoint[] {
+  const xSource = s.xSource ?? 'manual';
+  const ySource = s.ySource ?? 'manual';
+  const xCells = xSource === 'manual' ? (s.xRow ?? '').split('\t').map((x) => x.trim()).filter(Boolean) : [];
+  const yCells = ySource === 'manual' ? (s.yRow ?? '').split('\t').map((x) => x.trim()).filter(Boolean) : [];
 
-    let xVals: string[] = [];
-    let yVals: string[] = [];
+  let xVals: string[] = [];
+  let yVals: string[] = [];
 
-    if (xSource === 'table' && s.xTableSelection) {
-      const payload = getTablePayloadById(s.xTableSelection.blockId, allBlocks);
-      if (payload) {
-        const sel = s.xTableSelection;
-        const top = Math.min(sel.r1, sel.r2);
-        const bottom = Math.max(sel.r1, sel.r2);
-        const left = Math.min(sel.c1, sel.c2);
-        const right = Math.max(sel.c1, sel.c2);
-        for (let r = top; r <= bottom; r++) {
-          for (let c = left; c <= right; c++) {
-            const val = getCellPlain(payload, r, c);
-            if (val) xVals.push(val);
-          }
+  if (xSource === 'table' && s.xTableSelection) {
+    const payload = getTablePayloadById(s.xTableSelection.blockId, allBlocks);
+    if (payload) {
+      const sel = s.xTableSelection;
+      const top = Math.min(sel.r1, sel.r2);
+      const bottom = Math.max(sel.r1, sel.r2);
+      const left = Math.min(sel.c1, sel.c2);
+      const right = Math.max(sel.c1, sel.c2);
+      for (let r = top; r <= bottom; r++) {
+        for (let c = left; c <= right; c++) {
+          const val = getCellPlain(payload, r, c);
+          if (val) xVals.push(val);
         }
       }
-    } else {
-      xVals = xCells;
     }
+  } else {
+    xVals = xCells;
+  }
 
-    if (ySource === 'table' && s.yTableSelection) {
-      const payload = getTablePayloadById(s.yTableSelection.blockId, allBlocks);
-      if (payload) {
-        const sel = s.yTableSelection;
-        const top = Math.min(sel.r1, sel.r2);
-        const bottom = Math.max(sel.r1, sel.r2);
-        const left = Math.min(sel.c1, sel.c2);
-        const right = Math.max(sel.c1, sel.c2);
-        for (let r = top; r <= bottom; r++) {
-          for (let c = left; c <= right; c++) {
-            const val = getCellPlain(payload, r, c);
-            if (val) yVals.push(val);
-          }
+  if (ySource === 'table' && s.yTableSelection) {
+    const payload = getTablePayloadById(s.yTableSelection.blockId, allBlocks);
+    if (payload) {
+      const sel = s.yTableSelection;
+      const top = Math.min(sel.r1, sel.r2);
+      const bottom = Math.max(sel.r1, sel.r2);
+      const left = Math.min(sel.c1, sel.c2);
+      const right = Math.max(sel.c1, sel.c2);
+      for (let r = top; r <= bottom; r++) {
+        for (let c = left; c <= right; c++) {
+          const val = getCellPlain(payload, r, c);
+          if (val) yVals.push(val);
         }
       }
-    } else {
-      yVals = yCells;
     }
+  } else {
+    yVals = yCells;
+  }
 
-    const len = Math.min(xVals.length, yVals.length);
-    for (let i = 0; i < len; i++) {
-      const x = parseFloat(xVals[i]);
-      const y = parseFloat(yVals[i]);
-      if (Number.isFinite(x) && Number.isFinite(y)) {
-        data.push({ x, y, series: s.name || '系列1' });
-      }
+  const points: FitPoint[] = [];
+  const len = Math.min(xVals.length, yVals.length);
+  for (let i = 0; i < len; i++) {
+    const x = parseFloat(xVals[i]);
+    const y = parseFloat(yVals[i]);
+    if (Number.isFinite(x) && Number.isFinite(y)) points.push({ x, y });
+  }
+  return points;
+}
+
+/**
+ * 转换散点图数据
+ */
+export function convertScatterData(chart: ChartData, allBlocks: TypstBlock[]): Array<Record<string, unknown>> {
+  const data: Array<Record<string, unknown>> = [];
+  const series = chart.scatterSeries ?? [];
+
+  for (const s of series) {
+    for (const { x, y } of readScatterPoints(s, allBlocks)) {
+      data.push({ x, y, series: s.name || '系列1' });
     }
   }
 
   return data;
 }
 
+/**
+ * 计算散点图系列的拟合结果（数据不满足拟合条件时抛出 CurveFitError）
+ */
+export function fitScatterSeries(s: ScatterSeries, allBlocks: TypstBlock[]): CurveFit | null {
+  if (!s.fit) return null;
+  return fitCurve(readScatterPoints(s, allBlocks), s.fit.kind, s.fit.degree);
+}
+
+/**
+ * 转换散点图拟合曲线：采样点 + 可选的方程 / R² 标注
+ */
+export function convertScatterFits(chart: ChartData, allBlocks: TypstBlock[]): ChartRenderFit[] {
+  const fits: ChartRenderFit[] = [];
+
+  for (const s of chart.scatterSeries ?? []) {
+    if (!s.fit) continue;
+    let fit: CurveFit | null;
+    try {
+      fit = fitScatterSeries(s, allBlocks);
+    } catch {
+      continue;
+    }
+    if (!fit) continue;
+    fits.push({
+      series: s.name || '系列1',
+      kind: fit.kind,
+      coefficients: rawCoefficients(fit),
+      r2: fit.r2,
+      points: sampleFit(fit),
+      ...(s.fit.showEquation ? { equation: fitEquation(fit, 'text') } : {}),
+      ...(s.fit.showR2 ? { r2_label: formatR2(fit.r2, 'text') } : {}),
+    });
+  }
+
+  return fits;
+}
+
 /**
  * 转换柱形图/条形图数据
  */
@@ -255,9 +304,11 @@ export function convertPieData(chart: ChartData, allBlocks: TypstBlock[]): Array
  */
 export function convertChartToRenderRequest(chart: ChartData, allBlocks: TypstBlock[]): ChartRenderRequest {
   let data: Array<Record<string, unknown>> = [];
+  let fits: ChartRenderFit[] = [];
 
   if (chart.chartType === 'scatter') {
     data = convertScatterData(chart, allBlocks);
+    fits = convertScatterFits(chart, allBlocks);
   } else if (chart.chartType === 'bar' || chart.chartType === 'hbar') {
     data = convertBarData(chart, allBlocks);
   } else if (chart.chartType === 'pie') {
@@ -271,5 +322,72 @@ export function convertChartToRenderRequest(chart: ChartData, allBlocks: TypstBl
     y_label: chart.yLabel,
     legend: chart.legend,
     data,
+    ...(fits.length > 0 ? { fits } : {}),
+  };
+}
+
+/**
+ * 将渲染请求整理为可直接绘制的数据（供 Typst 原生图表序列化使用）
+ */
+export function renderRequestToPlot(req: ChartRenderRequest): PersistedChartPlot {
+  if (req.chart_type === 'scatter') {
+    const names: string[] = [];
+    const points = new Map<string, Array<{ x: number; y: number }>>();
+    for (const row of req.data) {
+      const name = String(row.series ?? '');
+      if (!points.has(name)) {
+        names.push(name);
+        points.set(name, []);
+      }
+      points.get(name)!.push({ x: Number(row.x), y: Number(row.y) });
+    }
+    return {
+      series: names.map((name) => {
+        const fit = req.fits?.find((f) => f.series === name);
+        const label = fit ? [fit.equation, fit.r2_label].filter(Boolean).join('，') : '';
+        return {
+          name,
+          points: points.get(name) ?? [],
+          ...(fit ? { fit: { points: fit.points, ...(label ? { label } : {}) } } : {}),
+        };
+      }),
+    };
+  }
+
+  if (req.chart_type === 'pie') {
+    return { slices: req.data.map((row) => ({ label: String(row.label ?? ''), value: Number(row.value) })) };
+  }
+
+  const categories: string[] = [];
+  const bars: Array<{ name: string; values: Map<string, number> }> = [];
+  for (const row of req.data) {
+    const label = String(row.label ?? '');
+    const name = String(row.series ?? '');
+    if (!categories.includes(label)) categories.push(label);
+    let series = bars.find((b) => b.name === name);
+    if (!series) {
+      series = { name, values: new Map() };
+      bars.push(series);
+    }
+    series.values.set(label, Number(row.value));
+  }
+  return {
+    categories,
+    bars: bars.map((b) => ({ name: b.name, values: categories.map((c) => b.values.get(c) ?? null) })),
   };
 }
+
+/**
+ * 读取图表当前数据源，生成序列化所需的绘图数据
+ */
+export function resolveChartPlot(chart: ChartData, allBlocks: TypstBlock[]): PersistedChartPlot {
+  return renderRequestToPlot(convertChartToRenderRequest(chart, allBlocks));
+}
+
+/**
+ * 表格变化后由 store 通过 lib/typst 的 refreshChartPlots 重新计算图表数据（store 不直接依赖编辑器组件）
+ */
+registerChartContentResolver((content, allBlocks) => {
+  const chart = safeParseChartContent(content);
+  return JSON.stringify({ ...chart, plot: resolveChartPlot(chart, allBlocks) });
+});
@@ -3,11 +3,14 @@ import {
   ChartType,
   ChartData,
   ScatterSeries,
+  ScatterFit,
   BarSeries,
   PieRow,
   TableAxisMode,
   TableSelection,
 } from './shared';
+import { FIT_KINDS, MAX_POLYNOMIAL_DEGREE } from '@/lib/curve-fit';
+import { safeParseChartPlot } from '@/lib/typst';
 
 /**
  * 从 unknown 对象读取 TableSelection
@@ -29,6 +32,25 @@ export function readTableSelection(selUnknown: unknown): TableSelection | undefi
   return undefined;
 }
 
+/**
+ * 读取散点图系列的拟合设置
+ */
+export function readScatterFit(fitUnknown: unknown): ScatterFit | undefined {
+  if (!fitUnknown || typeof fitUnknown !== 'object') return undefined;
+
+  const fit = fitUnknown as Record<string, unknown>;
+  const kind = FIT_KINDS.find((k) => k.id === fit['kind'])?.id;
+  if (!kind) return undefined;
+
+  const degree = Math.round(Number(fit['degree']));
+  return {
+    kind,
+    degree: Number.isFinite(degree) ? Math.max(2, Math.min(MAX_POLYNOMIAL_DEGREE, degree)) : 2,
+    showEquation: fit['showEquation'] !== false,
+    showR2: fit['showR2'] !== false,
+  };
+}
+
 /**
  * 解析散点图系列数据
  */
@@ -72,7 +94,8 @@ export function parseScatterSeries(seriesUnknown: unknown): ScatterSeries[] {
 
       const finalXSource = xSource ?? legacySource;
       const finalYSource = ySource ?? legacySource;
-      return { name, xSource: finalXSource, ySource: finalYSource, xRow, yRow, xTableSelection: nextXSel, yTableSelection: nextYSel };
+      const fit = readScatterFit(it['fit']);
+      return { name, xSource: finalXSource, ySource: finalYSource, xRow, yRow, xTableSelection: nextXSel, yTableSelection: nextYSel, ...(fit ? { fit } : {}) };
     })
     .filter(Boolean) as ScatterSeries[];
 }
@@ -224,6 +247,7 @@ export function createDefaultChartData(): ChartData {
     pieAxisMode: 'cols',
     pieTableSelection: undefined,
     imageUrl: '',
+    renderer: 'typst',
   };
 }
 
@@ -289,6 +313,8 @@ export function safeParseChartContent(content: string): ChartData {
       pieAxisMode,
       pieTableSelection,
       imageUrl: typeof parsed['imageUrl'] === 'string' ? (parsed['imageUrl'] as string) : '',
+      renderer: parsed['renderer'] === 'image' ? 'image' : 'typst',
+      plot: safeParseChartPlot(parsed['plot']),
     };
   } catch {
     return createDefaultChartData();
@@ -1,5 +1,6 @@
 // 共享类型和工具函数
-import { TypstBlock } from '@/lib/typst';
+import { TypstBlock, type ChartRenderer, type PersistedChartPlot } from '@/lib/typst';
+import type { FitKind } from '@/lib/curve-fit';
 import { parseTablePayload, normalizeTablePayload } from '@/components/editor/BlockEditor-utils/table-utils';
 import { typstInlineToPlainText } from '@/components/editor/BlockEditor-utils/utils';
 
@@ -7,6 +8,13 @@ export type ChartType = 'scatter' | 'bar' | 'pie' | 'hbar';
 export type TableAxisMode = 'cols' | 'rows';
 export type TableSelection = { blockId: string; r1: number; c1: number; r2: number; c2: number };
 
+export interface ScatterFit {
+  kind: FitKind;
+  degree?: number;
+  showEquation?: boolean;
+  showR2?: boolean;
+}
+
 export interface ScatterSeries {
   name: string;
   xSource?: 'manual' | 'table';
@@ -15,6 +23,7 @@ export interface ScatterSeries {
   yRow?: string;
   xTableSelection?: TableSelection;
   yTableSelection?: TableSelection;
+  fit?: ScatterFit;
 }
 
 export interface BarSeries {
@@ -48,6 +57,9 @@ export interface ChartData {
   pieAxisMode: TableAxisMode;
   pieTableSelection?: TableSelection;
   imageUrl: string;
+  renderer: ChartRenderer;
+  // Resolved data drawn natively by the serializer; refreshed on every edit
+  plot?: PersistedChartPlot;
 }
 
 export const parseRow = (row: string | undefined) => (row ?? '').split('\t');
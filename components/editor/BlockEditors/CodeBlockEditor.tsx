@@ -1,35 +1,151 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import { useRef } from 'react';
+import { FileUp } from 'lucide-react';
+import {
+  TypstBlock,
+  TYPST_CODE_LANGUAGES,
+  codeLanguageFromFileName,
+  findCodeLanguage,
+  normalizeCodeLineRanges,
+  parseCodeLineRanges,
+} from '@/lib/typst';
+import { CodeTokenKind, splitTokenLines, tokenizeCode } from '@/lib/code-highlight';
 
 interface CodeBlockEditorProps {
   block: TypstBlock;
   onUpdate: (updates: Partial<TypstBlock>) => void;
 }
 
+const TOKEN_CLASS: Record<CodeTokenKind, string> = {
+  plain: 'text-zinc-900 dark:text-zinc-100',
+  keyword: 'text-purple-700 dark:text-purple-300',
+  string: 'text-green-700 dark:text-green-400',
+  comment: 'text-zinc-400 dark:text-zinc-500 italic',
+  number: 'text-orange-600 dark:text-orange-400',
+  function: 'text-blue-700 dark:text-blue-300',
+};
+
+const IMPORT_ACCEPT = TYPST_CODE_LANGUAGES.flatMap((l) => l.extensions.map((ext) => `.${ext}`)).join(',');
+
 export default function CodeBlockEditor({ block, onUpdate }: CodeBlockEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const language = block.language || 'python';
+  const knownLanguage = findCodeLanguage(language);
+  const content = block.content ?? '';
+  const lines = splitTokenLines(tokenizeCode(content, language));
+  const highlightSpec = block.codeHighlight ?? '';
+  const highlighted = new Set(parseCodeLineRanges(highlightSpec, lines.length) ?? []);
+  const highlightInvalid = parseCodeLineRanges(highlightSpec) === null;
+
+  // Source files replace the code and pick the language from the extension.
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = (await file.text()).replace(/\r\n?/g, '\n').replace(/\n$/, '');
+      onUpdate({
+        content: text,
+        language: codeLanguageFromFileName(file.name) ?? language,
+        ...(!(block.caption ?? '').trim() ? { caption: file.name } : {}),
+      });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '读取文件失败');
+    }
+  };
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
   return (
     <div className="flex flex-col gap-3">
-      {/* 语言选择器 */}
-      <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {/* 语言选择器 */}
         <label className="text-xs text-zinc-600 dark:text-zinc-400">语言</label>
+        <select
+          value={knownLanguage?.id ?? language}
+          onChange={(e) => onUpdate({ language: e.target.value })}
+          className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+        >
+          {!knownLanguage && <option value={language}>{language}</option>}
+          {TYPST_CODE_LANGUAGES.map((l) => (
+            <option key={l.id} value={l.id}>{l.name}</option>
+          ))}
+        </select>
+
+        <label className="text-xs flex items-center gap-1 text-zinc-600 dark:text-zinc-400">
+          <input
+            type="checkbox"
+            checked={!!block.codeLineNumbers}
+            onChange={(e) => onUpdate({ codeLineNumbers: e.target.checked || undefined })}
+          />
+          行号
+        </label>
+
+        <label className="text-xs text-zinc-600 dark:text-zinc-400">高亮行</label>
         <input
           type="text"
-          value={block.language || 'python'}
-          onChange={(e) => onUpdate({ language: e.target.value })}
-          placeholder="语言"
-          className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 w-32"
+          value={highlightSpec}
+          onChange={(e) => onUpdate({ codeHighlight: e.target.value || undefined })}
+          onBlur={() => onUpdate({ codeHighlight: normalizeCodeLineRanges(highlightSpec) || undefined })}
+          placeholder="如 2-4, 7"
+          className={`text-xs px-2 py-1 border rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 w-24 font-mono ${highlightInvalid ? 'border-red-400' : 'border-zinc-300 dark:border-zinc-600'}`}
+          title={highlightInvalid ? '格式应为 行号 或 起始-结束，用逗号分隔' : '高亮显示的行号范围'}
         />
+
+        <label className="ml-auto text-xs px-2 py-1 flex items-center gap-1 border border-zinc-300 dark:border-zinc-600 rounded cursor-pointer text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800">
+          <FileUp size={12} />
+          导入源文件
+          <input type="file" accept={IMPORT_ACCEPT} onChange={handleImport} className="hidden" />
+        </label>
       </div>
 
-      {/* 代码编辑器 */}
-      <textarea
-        value={block.content}
-        onChange={(e) => onUpdate({ content: e.target.value })}
-        className="w-full p-2 font-mono text-sm border border-zinc-200 dark:border-zinc-700 rounded bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100 resize-none"
-        rows={Math.max(3, block.content.split('\n').length)}
-        placeholder="输入代码..."
+      <input
+        type="text"
+        value={block.caption ?? ''}
+        onChange={(e) => onUpdate({ caption: e.target.value || undefined })}
+        placeholder="标题（可选，自动编号为「代码 n」）"
+        className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
       />
+
+      {/* 代码编辑器：透明输入层叠在高亮层之上 */}
+      <div className="flex font-mono text-sm leading-5 border border-zinc-200 dark:border-zinc-700 rounded bg-zinc-50 dark:bg-zinc-950 overflow-hidden">
+        {block.codeLineNumbers && (
+          <div aria-hidden className="py-2 pl-2 pr-1 text-right text-zinc-400 select-none border-r border-zinc-200 dark:border-zinc-700">
+            {lines.map((_, idx) => (
+              <div key={idx}>{idx + 1}</div>
+            ))}
+          </div>
+        )}
+        <div className="relative flex-1 min-w-0">
+          <pre
+            ref={highlightRef}
+            aria-hidden
+            className="absolute inset-0 m-0 py-2 overflow-hidden whitespace-pre pointer-events-none"
+          >
+            {lines.map((tokens, idx) => (
+              <div key={idx} className={`px-2 min-h-5 w-max min-w-full ${highlighted.has(idx + 1) ? 'bg-yellow-100 dark:bg-yellow-900/30' : ''}`}>
+                {tokens.map((t, j) => (
+                  <span key={j} className={TOKEN_CLASS[t.kind]}>{t.text}</span>
+                ))}
+              </div>
+            ))}
+          </pre>
+          <textarea
+            value={content}
+            onChange={(e) => onUpdate({ content: e.target.value })}
+            onScroll={syncScroll}
+            wrap="off"
+            spellCheck={false}
+            className="relative block w-full p-2 bg-transparent text-transparent caret-zinc-900 dark:caret-zinc-100 whitespace-pre resize-none overflow-x-auto outline-none placeholder:text-zinc-400"
+            rows={Math.max(3, lines.length)}
+            placeholder="输入代码..."
+          />
+        </div>
+      </div>
     </div>
   );
 }
@@ -150,11 +150,12 @@ export default function ImageBlockEditor({ block, onUpdate, onUploadImage, width
           placeholder="例如：实验装置示意图"
         />
         <select
-          value={block.captionFont || 'SimSun'}
-          onChange={(e) => onUpdate({ captionFont: e.target.value })}
+          value={block.captionFont || ''}
+          onChange={(e) => onUpdate({ captionFont: e.target.value || undefined })}
           className="w-24 p-2 text-sm border border-zinc-200 dark:border-zinc-700 rounded bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
           title="说明字体"
         >
+          <option value="">跟随文档</option>
           <option value="SimSun">宋体</option>
           <option value="KaiTi">楷体</option>
           <option value="SimHei">黑体</option>
@@ -1,8 +1,17 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import { useState } from 'react';
+import { MathNumbering, TypstBlock } from '@/lib/typst';
 import { latexToTypstMath, typstToLatexMath } from '@/lib/math-convert';
 import { Trash2, Plus } from 'lucide-react';
+import MathVisualEditor from './MathVisualEditor';
+
+const NUMBERING_OPTIONS: Array<{ value: MathNumbering | 'auto'; label: string; multiLineOnly?: boolean }> = [
+  { value: 'auto', label: '自动编号' },
+  { value: 'block', label: '整体编号' },
+  { value: 'line', label: '逐行编号', multiLineOnly: true },
+  { value: 'none', label: '不编号' },
+];
 
 interface MathBlockEditorProps {
   block: TypstBlock;
@@ -10,6 +19,31 @@ interface MathBlockEditorProps {
 }
 
 export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProps) {
+  // The visual editor produces LaTeX; Typst users start in the source view.
+  const [visual, setVisual] = useState((block.mathFormat ?? 'latex') === 'latex');
+  // Visual edits would replace hand-written Typst with converted LaTeX, so Typst blocks keep the text editor.
+  const typstFormat = block.mathFormat === 'typst';
+  const showVisual = visual && !typstFormat;
+  const [activeLine, setActiveLine] = useState(0);
+
+  const singleLatex = block.mathLatex ?? typstToLatexMath((block.mathTypst ?? block.content ?? '').trim());
+  const updateSingleLatex = (nextVal: string) => {
+    const typst = latexToTypstMath(nextVal);
+    onUpdate({
+      mathFormat: 'latex',
+      mathLatex: nextVal,
+      mathTypst: typst,
+      content: typst,
+    });
+  };
+  const updateLineLatex = (idx: number, latex: string) => {
+    const newLines = [...block.mathLines!];
+    newLines[idx] = { ...newLines[idx], latex, typst: latexToTypstMath(latex) };
+    onUpdate({ mathLines: newLines });
+  };
+
+  const perLine = !!block.mathLines && !block.mathBrace && block.mathNumbering === 'line';
+
   return (
     <div className="flex flex-col gap-2">
       <div className="flex items-center gap-2 flex-wrap">
@@ -53,6 +87,18 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
             Typst
           </button>
         </div>
+        <button
+          type="button"
+          onClick={() => setVisual(!visual)}
+          disabled={typstFormat}
+          className={`px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${showVisual
+              ? 'bg-blue-500 text-white'
+              : 'bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300'
+            }`}
+          title={typstFormat ? '可视化编辑生成 LaTeX，会覆盖手写的 Typst；请切换到 LaTeX 格式后使用' : '可视化编辑：用模板和符号面板构建公式，自动生成 LaTeX'}
+        >
+          可视化
+        </button>
         <button
           type="button"
           onClick={() => {
@@ -63,6 +109,8 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
               onUpdate({
                 mathLines: undefined,
                 mathBrace: undefined,
+                mathAlign: undefined,
+                mathNumbering: block.mathNumbering === 'line' ? undefined : block.mathNumbering,
                 mathLatex: combinedLatex,
                 mathTypst: combinedTypst,
                 content: combinedTypst,
@@ -144,6 +192,34 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
             {block.mathBrace ? '{ }' : '[ ]'}
           </button>
         )}
+        {block.mathLines && (
+          <button
+            type="button"
+            onClick={() => onUpdate({ mathAlign: block.mathAlign ? undefined : true })}
+            className={`px-2 py-1 text-xs rounded transition-colors ${block.mathAlign
+                ? 'bg-blue-500 text-white'
+                : 'bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300'
+              }`}
+            title="各行在第一个关系符（=、<、≈ 等）处对齐"
+          >
+            对齐 =
+          </button>
+        )}
+        <select
+          value={block.mathNumbering ?? 'auto'}
+          onChange={(e) => {
+            const value = e.target.value as MathNumbering | 'auto';
+            onUpdate({ mathNumbering: value === 'auto' ? undefined : value });
+          }}
+          className="px-2 py-1 text-xs rounded border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300"
+          title="自动：文档设置了公式编号或公式有标签时编号；编号格式在项目设置中选择"
+        >
+          {NUMBERING_OPTIONS.filter((o) => !o.multiLineOnly || (block.mathLines && !block.mathBrace) || o.value === block.mathNumbering).map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
       </div>
 
       {block.mathLines ? (
@@ -151,22 +227,47 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
           {block.mathLines.map((line, idx) => (
             <div key={idx} className="flex items-center gap-2">
               <span className="text-xs text-zinc-500 dark:text-zinc-400 w-6">{idx + 1}.</span>
-              <input
-                type="text"
-                value={(block.mathFormat ?? 'latex') === 'latex' ? line.latex : line.typst}
-                onChange={(e) => {
-                  const newLines = [...block.mathLines!];
-                  const fmt = block.mathFormat ?? 'latex';
-                  if (fmt === 'latex') {
-                    newLines[idx] = { latex: e.target.value, typst: latexToTypstMath(e.target.value) };
-                  } else {
-                    newLines[idx] = { latex: typstToLatexMath(e.target.value), typst: e.target.value };
-                  }
-                  onUpdate({ mathLines: newLines });
-                }}
-                className="flex-1 p-2 text-sm font-mono border border-zinc-200 dark:border-zinc-700 rounded bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100"
-                placeholder={(block.mathFormat ?? 'latex') === 'latex' ? '输入 LaTeX' : '输入 Typst'}
-              />
+              {showVisual ? (
+                <div className="flex-1 min-w-0">
+                  <MathVisualEditor
+                    latex={line.latex}
+                    onChange={(latex) => updateLineLatex(idx, latex)}
+                    onFocus={() => setActiveLine(idx)}
+                    showPalette={idx === Math.min(activeLine, block.mathLines!.length - 1)}
+                  />
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  value={(block.mathFormat ?? 'latex') === 'latex' ? line.latex : line.typst}
+                  onChange={(e) => {
+                    const newLines = [...block.mathLines!];
+                    const fmt = block.mathFormat ?? 'latex';
+                    if (fmt === 'latex') {
+                      newLines[idx] = { ...line, latex: e.target.value, typst: latexToTypstMath(e.target.value) };
+                    } else {
+                      newLines[idx] = { ...line, latex: typstToLatexMath(e.target.value), typst: e.target.value };
+                    }
+                    onUpdate({ mathLines: newLines });
+                  }}
+                  className="flex-1 p-2 text-sm font-mono border border-zinc-200 dark:border-zinc-700 rounded bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100"
+                  placeholder={(block.mathFormat ?? 'latex') === 'latex' ? '输入 LaTeX' : '输入 Typst'}
+                />
+              )}
+              {perLine && (
+                <label className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400 whitespace-nowrap" title="此行不占用公式编号">
+                  <input
+                    type="checkbox"
+                    checked={!!line.noNumber}
+                    onChange={(e) => {
+                      const newLines = [...block.mathLines!];
+                      newLines[idx] = { latex: line.latex, typst: line.typst, ...(e.target.checked ? { noNumber: true } : {}) };
+                      onUpdate({ mathLines: newLines });
+                    }}
+                  />
+                  不编号
+                </label>
+              )}
               <button
                 type="button"
                 onClick={() => {
@@ -192,24 +293,20 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
             添加一行
           </button>
         </div>
+      ) : showVisual ? (
+        <MathVisualEditor latex={singleLatex} onChange={updateSingleLatex} />
       ) : (
         <textarea
           value={
             (block.mathFormat ?? 'latex') === 'latex'
-              ? (block.mathLatex ?? typstToLatexMath((block.mathTypst ?? block.content ?? '').trim()))
+              ? singleLatex
               : (block.mathTypst ?? block.content ?? '')
           }
           onChange={(e) => {
             const nextVal = e.target.value;
             const fmt = block.mathFormat ?? 'latex';
             if (fmt === 'latex') {
-              const typst = latexToTypstMath(nextVal);
-              onUpdate({
-                mathFormat: 'latex',
-                mathLatex: nextVal,
-                mathTypst: typst,
-                content: typst,
-              });
+              updateSingleLatex(nextVal);
             } else {
               const latex = typstToLatexMath(nextVal);
               onUpdate({
@@ -226,7 +323,8 @@ export default function MathBlockEditor({ block, onUpdate }: MathBlockEditorProp
         />
       )}
       <div className="text-[11px] text-zinc-500 dark:text-zinc-400">
-        说明：两种格式会自动互相转换（目前为常用语法的最佳努力转换）。{block.mathLines && ' 多行模式支持方程组显示。'}
+        说明：两种格式会自动互相转换（目前为常用语法的最佳努力转换）。{block.mathLines && ' 多行模式支持方程组显示；逐行编号时每行单独编号，可勾选不编号的行。'}
+        {showVisual && ' 可视化模式下可直接键入字母数字，^ 上标、_ 下标、/ 分数，方向键或 Tab 在各输入框间移动。'}
       </div>
     </div>
   );
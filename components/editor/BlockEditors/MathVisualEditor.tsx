@@ -0,0 +1,348 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  MATH_SYMBOL_GROUPS,
+  MathCursor,
+  MathNode,
+  MathRow,
+  MathSlotPath,
+  MathStructNode,
+  MatrixEnv,
+  createMathNode,
+  deleteMathBackward,
+  extendMathMatrix,
+  findEnclosingMatrix,
+  getMathRow,
+  insertMathNode,
+  mathAtomDisplay,
+  mathRowToLatex,
+  moveMathCursor,
+  moveMathCursorVertical,
+  parseLatexMath,
+} from '@/lib/math-visual';
+
+interface MathVisualEditorProps {
+  latex: string;
+  onChange: (latex: string) => void;
+  onFocus?: () => void;
+  showPalette?: boolean;
+}
+
+type Template = { label: string; title: string; nodes: () => MathNode[] };
+
+const STRUCTURE_TEMPLATES: Template[] = [
+  { label: 'a/b', title: '分数', nodes: () => [createMathNode('frac')] },
+  { label: '√x', title: '平方根', nodes: () => [createMathNode('sqrt')] },
+  { label: 'ⁿ√x', title: 'n 次根', nodes: () => [createMathNode('root')] },
+  { label: 'xᵃ', title: '上标', nodes: () => [createMathNode('sup')] },
+  { label: 'xₐ', title: '下标', nodes: () => [createMathNode('sub')] },
+  { label: 'xₐᵇ', title: '上下标', nodes: () => [createMathNode('subsup')] },
+  { label: '( )', title: '括号', nodes: () => [createMathNode('delim')] },
+  { label: '| |', title: '绝对值', nodes: () => [createMathNode('delim', { left: '|', right: '|' })] },
+  { label: 'x⃗', title: '矢量', nodes: () => [createMathNode('accent', { command: '\\vec' })] },
+  { label: 'x̄', title: '平均值', nodes: () => [createMathNode('accent', { command: '\\bar' })] },
+  { label: 'x̂', title: '估计值', nodes: () => [createMathNode('accent', { command: '\\hat' })] },
+  { label: '∑ⁿ', title: '求和', nodes: () => [{ type: 'atom', latex: '\\sum' }, createMathNode('subsup')] },
+  { label: '∫ₐᵇ', title: '定积分', nodes: () => [{ type: 'atom', latex: '\\int' }, createMathNode('subsup')] },
+  { label: 'lim', title: '极限', nodes: () => [{ type: 'atom', latex: '\\lim' }, createMathNode('sub')] },
+  { label: '(⋮)', title: '矩阵 ( )', nodes: () => [createMathNode('matrix', { env: 'pmatrix' })] },
+  { label: '[⋮]', title: '矩阵 [ ]', nodes: () => [createMathNode('matrix', { env: 'bmatrix' })] },
+  { label: '|⋮|', title: '行列式', nodes: () => [createMathNode('matrix', { env: 'vmatrix' })] },
+  { label: '{⋮', title: '分段函数', nodes: () => [createMathNode('matrix', { env: 'cases' })] },
+];
+
+// Keys that are special characters in LaTeX and must be escaped when typed.
+const ESCAPED_KEYS: Record<string, string> = { '{': '\\{', '}': '\\}', '%': '\\%', '#': '\\#', '&': '\\&', '$': '\\$' };
+
+const ACCENT_GLYPHS: Record<string, string> = {
+  '\\vec': '→',
+  '\\hat': '^',
+  '\\widehat': '^',
+  '\\bar': '‾',
+  '\\dot': '˙',
+  '\\ddot': '¨',
+  '\\tilde': '~',
+  '\\widetilde': '~',
+};
+
+const MATRIX_BORDERS: Record<MatrixEnv, string> = {
+  pmatrix: 'border-x-2 rounded-[0.6em]',
+  bmatrix: 'border-x-2',
+  Bmatrix: 'border-x-2 rounded-[0.3em]',
+  vmatrix: 'border-x',
+  Vmatrix: 'border-x-[3px] border-double',
+  matrix: '',
+  cases: 'border-l-2 rounded-l-[0.6em]',
+};
+
+const samePath = (a: MathSlotPath, b: MathSlotPath) =>
+  a.length === b.length && a.every((step, i) => step.node === b[i].node && step.slot === b[i].slot);
+
+const endCursor = (root: MathRow): MathCursor => ({ path: [], index: root.length });
+
+function PaletteButton({ label, title, onClick }: { label: string; title: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      // Keep the focus (and the cursor) in the formula while clicking the palette.
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      className="min-w-7 px-1.5 py-0.5 text-sm rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-800 dark:text-zinc-200 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+    >
+      {label}
+    </button>
+  );
+}
+
+export default function MathVisualEditor({ latex, onChange, onFocus, showPalette = true }: MathVisualEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [source, setSource] = useState(latex);
+  const [root, setRoot] = useState<MathRow>(() => parseLatexMath(latex));
+  const [cursor, setCursor] = useState<MathCursor>(() => endCursor(parseLatexMath(latex)));
+  const [focused, setFocused] = useState(false);
+  const [symbolGroup, setSymbolGroup] = useState(0);
+
+  // Re-parse when the formula was changed outside this editor (text mode, line split...).
+  if (latex !== source) {
+    const parsed = parseLatexMath(latex);
+    setSource(latex);
+    setRoot(parsed);
+    setCursor(endCursor(parsed));
+  }
+
+  const commit = (nextRoot: MathRow, nextCursor: MathCursor) => {
+    const nextLatex = mathRowToLatex(nextRoot);
+    setRoot(nextRoot);
+    setCursor(nextCursor);
+    setSource(nextLatex);
+    if (nextLatex !== source) onChange(nextLatex);
+  };
+
+  const insertNodes = (nodes: MathNode[]) => {
+    let state = { root, cursor };
+    for (const node of nodes) state = insertMathNode(state.root, state.cursor, node);
+    commit(state.root, state.cursor);
+    containerRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.nativeEvent.isComposing) return;
+    const row = getMathRow(root, cursor.path);
+    let handled = true;
+    switch (e.key) {
+      case 'Backspace': {
+        const next = deleteMathBackward(root, cursor);
+        commit(next.root, next.cursor);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        setCursor(moveMathCursor(root, cursor, e.key === 'ArrowLeft' ? 'left' : 'right'));
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+        setCursor(moveMathCursorVertical(root, cursor, e.key === 'ArrowUp' ? 'up' : 'down'));
+        break;
+      case 'Tab':
+        // Next slot of the current structure, or out of it.
+        if (cursor.path.length === 0) handled = false;
+        else setCursor(moveMathCursor(root, { ...cursor, index: row.length }, 'right'));
+        break;
+      case 'Home':
+        setCursor({ ...cursor, index: 0 });
+        break;
+      case 'End':
+        setCursor({ ...cursor, index: row.length });
+        break;
+      case '^':
+        insertNodes([createMathNode('sup')]);
+        break;
+      case '_':
+        insertNodes([createMathNode('sub')]);
+        break;
+      case '/':
+        insertNodes([createMathNode('frac')]);
+        break;
+      case ' ':
+      case '\\':
+        break;
+      default:
+        if (e.key.length === 1) insertNodes([{ type: 'atom', latex: ESCAPED_KEYS[e.key] ?? e.key }]);
+        else handled = false;
+    }
+    if (handled) e.preventDefault();
+  };
+
+  const renderCursor = (key: string) => (
+    <span key={key} className="inline-block w-px h-[1.1em] -mx-px align-middle bg-blue-600 dark:bg-blue-400 animate-pulse" />
+  );
+
+  const renderRow = (row: MathRow, path: MathSlotPath, className = ''): React.ReactNode => {
+    const active = focused && samePath(path, cursor.path);
+    const items: React.ReactNode[] = [];
+    row.forEach((node, i) => {
+      if (active && cursor.index === i) items.push(renderCursor('cursor'));
+      items.push(
+        <span
+          key={i}
+          className={`inline-flex items-center ${node.type === 'sup' ? 'self-start' : node.type === 'sub' ? 'self-end' : ''}`}
+          onMouseDown={(e) => {
+            if (node.type !== 'atom') return;
+            e.preventDefault();
+            e.stopPropagation();
+            setCursor({ path, index: i + 1 });
+            containerRef.current?.focus();
+          }}
+        >
+          {renderNode(node, path, i)}
+        </span>
+      );
+    });
+    if (active && cursor.index === row.length) items.push(renderCursor('cursor'));
+    return (
+      <span
+        className={`inline-flex items-center min-h-[1.2em] ${row.length === 0 ? 'min-w-[0.8em] border border-dashed border-zinc-400 dark:border-zinc-500 rounded-sm' : ''} ${className}`}
+        onMouseDown={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setCursor({ path, index: row.length });
+          containerRef.current?.focus();
+        }}
+      >
+        {items}
+      </span>
+    );
+  };
+
+  const renderNode = (node: MathNode, parentPath: MathSlotPath, index: number): React.ReactNode => {
+    if (node.type === 'atom') {
+      const { text, upright } = mathAtomDisplay(node.latex);
+      return <span className={`px-[0.05em] ${upright ? '' : 'italic'} ${/^[=<>+\-]$|^\\/.test(node.latex) && text.length === 1 ? 'mx-[0.15em]' : ''}`}>{text}</span>;
+    }
+    const slot = (s: number, className = '') => renderRow((node as MathStructNode).slots[s] ?? [], [...parentPath, { node: index, slot: s }], className);
+    switch (node.type) {
+      case 'group':
+        return slot(0);
+      case 'frac':
+        return (
+          <span className="inline-flex flex-col items-center align-middle mx-[0.1em] text-[0.9em]">
+            {slot(0, 'px-[0.2em]')}
+            <span className="self-stretch border-t border-current" />
+            {slot(1, 'px-[0.2em]')}
+          </span>
+        );
+      case 'sqrt':
+      case 'root':
+        return (
+          <span className="inline-flex items-center">
+            {node.type === 'root' && <span className="text-[0.6em] self-start">{slot(0)}</span>}
+            <span className="text-[1.2em]">√</span>
+            <span className="border-t border-current">{slot(node.type === 'root' ? 1 : 0)}</span>
+          </span>
+        );
+      case 'sup':
+        return <span className="text-[0.7em] -mt-[0.3em]">{slot(0)}</span>;
+      case 'sub':
+        return <span className="text-[0.7em] -mb-[0.3em]">{slot(0)}</span>;
+      case 'subsup':
+        return (
+          <span className="inline-flex flex-col text-[0.7em] leading-none gap-[0.2em]">
+            {slot(1)}
+            {slot(0)}
+          </span>
+        );
+      case 'delim': {
+        const glyph = (d: string) => (d === '.' ? '' : mathAtomDisplay(d).text);
+        return (
+          <span className="inline-flex items-center">
+            <span className="text-[1.3em] font-light">{glyph(node.left)}</span>
+            {slot(0)}
+            <span className="text-[1.3em] font-light">{glyph(node.right)}</span>
+          </span>
+        );
+      }
+      case 'accent':
+        if (node.command === '\\overline' || node.command === '\\underline') {
+          return <span className={node.command === '\\overline' ? 'border-t border-current' : 'border-b border-current'}>{slot(0)}</span>;
+        }
+        return (
+          <span className="inline-flex flex-col items-center leading-none">
+            <span className="text-[0.7em] -mb-[0.2em]">{ACCENT_GLYPHS[node.command] ?? '^'}</span>
+            {slot(0)}
+          </span>
+        );
+      case 'matrix':
+        return (
+          <span
+            className={`inline-grid gap-x-[0.8em] gap-y-[0.2em] px-[0.4em] py-[0.1em] mx-[0.1em] border-current ${MATRIX_BORDERS[node.env]}`}
+            style={{ gridTemplateColumns: `repeat(${node.cols}, auto)` }}
+          >
+            {node.slots.map((_, s) => (
+              <span key={s} className="inline-flex justify-center">{slot(s)}</span>
+            ))}
+          </span>
+        );
+    }
+  };
+
+  const inMatrix = !!findEnclosingMatrix(root, cursor);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      {showPalette && (
+        <div className="flex flex-col gap-1 p-1.5 rounded border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-900/50">
+          <div className="flex flex-wrap gap-1">
+            {STRUCTURE_TEMPLATES.map((t) => <PaletteButton key={t.title} label={t.label} title={t.title} onClick={() => insertNodes(t.nodes())} />)}
+            {inMatrix && <PaletteButton label="+行" title="矩阵增加一行" onClick={() => commit(extendMathMatrix(root, cursor, 'row'), cursor)} />}
+            {inMatrix && <PaletteButton label="+列" title="矩阵增加一列" onClick={() => commit(extendMathMatrix(root, cursor, 'col'), cursor)} />}
+          </div>
+          <div className="flex gap-1">
+            {MATH_SYMBOL_GROUPS.map((g, i) => (
+              <button
+                key={g.name}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => setSymbolGroup(i)}
+                className={`px-2 py-0.5 text-xs rounded ${symbolGroup === i ? 'bg-blue-500 text-white' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700'}`}
+              >
+                {g.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {MATH_SYMBOL_GROUPS[symbolGroup].symbols.map((s) => (
+              <PaletteButton key={s.latex} label={s.display} title={s.latex} onClick={() => insertNodes([{ type: 'atom', latex: s.latex }])} />
+            ))}
+          </div>
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onFocus={() => {
+          setFocused(true);
+          onFocus?.();
+        }}
+        onBlur={() => setFocused(false)}
+        onMouseDown={(e) => {
+          // Clicking the empty area puts the cursor at the end of the formula.
+          if (e.target === e.currentTarget) {
+            e.preventDefault();
+            setCursor(endCursor(root));
+            containerRef.current?.focus();
+          }
+        }}
+        className={`min-h-12 px-3 py-2 flex items-center justify-center flex-wrap font-serif text-lg text-zinc-900 dark:text-zinc-100 border rounded bg-white dark:bg-zinc-950 cursor-text outline-none ${focused ? 'border-blue-400 ring-1 ring-blue-200 dark:ring-blue-900' : 'border-zinc-200 dark:border-zinc-700'}`}
+      >
+        {root.length === 0 && !focused ? (
+          <span className="text-sm font-sans text-zinc-400">点击此处输入公式，或使用上方的模板和符号</span>
+        ) : (
+          renderRow(root, [])
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,49 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import {
+  TABLE_STYLE_PRESETS,
+  TypstBlock,
+  applyTableFormulas,
+  generateId,
+  isTableFormula,
+  normalizeTableColumnWidth,
+  resolveTableStrokeSpec,
+  tableColumnLabel,
+  type UserTableStyle,
+} from '@/lib/typst';
 import { latexToTypstMath, typstToLatexMath } from '@/lib/math-convert';
-import { Bold, Italic, Strikethrough, Palette, Sigma, MousePointer2 } from 'lucide-react';
-import { useRef, useEffect, useCallback, type MouseEvent as ReactMouseEvent } from 'react';
+import {
+  TABLE_IMPORT_EXTENSIONS,
+  formatSheetRange,
+  parseSheetRange,
+  readTableFile,
+  sheetToTablePayload,
+  sheetUsedRange,
+  tablePayloadToSheet,
+  toDelimitedText,
+  writeXlsxWorkbook,
+  type SpreadsheetSheet,
+} from '@/lib/table-io';
+import { Bold, Italic, Strikethrough, Palette, Sigma, MousePointer2, Upload, Download } from 'lucide-react';
+import { useRef, useEffect, useCallback, useState, type MouseEvent as ReactMouseEvent } from 'react';
 import { useShallow } from 'zustand/react/shallow';
+import { saveAs } from 'file-saver';
 
 // Import types and utilities from separated modules
-import type { InlineMathFormat, InlineMathState, TableStyle, TablePayload } from '../BlockEditor-utils/types';
+import type {
+  InlineMathFormat,
+  InlineMathState,
+  TableStyle,
+  TableStrokeSpec,
+  TablePayload,
+  TableCell,
+  TableColumn,
+  TableHAlign,
+  TableVAlign,
+} from '../BlockEditor-utils/types';
 import {
   typstInlineToHtml,
+  typstInlineToPlainText,
   htmlToTypstInline,
   generateInlineMathId,
 } from '../BlockEditor-utils/utils';
@@ -20,21 +54,102 @@ import {
   flattenTableMerges,
   mergeTableRect,
   unmergeTableCell,
+  tableCellStyleCss,
 } from '../BlockEditor-utils/table-utils';
 
+import UncertaintyPanel from './UncertaintyPanel';
+import type { TableSelection } from './ChartBlockEditors/shared';
+
 import { useTableStore } from '@/stores/useTableStore';
+import { useEditorStore } from '@/stores/useEditorStore';
+
+// Larger imports make the cell grid sluggish; users can narrow the range instead.
+const MAX_IMPORT_CELLS = 5000;
+
+const H_ALIGN_OPTIONS: { value: TableHAlign; label: string }[] = [
+  { value: 'left', label: '左' },
+  { value: 'center', label: '中' },
+  { value: 'right', label: '右' },
+];
+
+const V_ALIGN_OPTIONS: { value: TableVAlign; label: string }[] = [
+  { value: 'top', label: '上' },
+  { value: 'horizon', label: '中' },
+  { value: 'bottom', label: '下' },
+];
+
+const CSS_VERTICAL_ALIGN: Record<TableVAlign, 'top' | 'middle' | 'bottom'> = {
+  top: 'top',
+  horizon: 'middle',
+  bottom: 'bottom',
+};
+
+const CELL_FILL_COLORS = ['#f2f2f2', '#d9d9d9', '#deebf7', '#e2efda', '#fff2cc', '#fce4d6'];
+
+const STROKE_FIELDS: { key: 'top' | 'bottom' | 'left' | 'right' | 'header' | 'rows' | 'cols'; label: string }[] = [
+  { key: 'top', label: '顶线' },
+  { key: 'header', label: '表头线' },
+  { key: 'bottom', label: '底线' },
+  { key: 'rows', label: '内横线' },
+  { key: 'left', label: '左边框' },
+  { key: 'right', label: '右边框' },
+  { key: 'cols', label: '内竖线' },
+];
+
+// Miniature 3x3 table drawn with a style, for the style gallery.
+function TableStylePreview({ spec }: { spec: TableStrokeSpec }) {
+  return (
+    <table className="w-full">
+      <tbody>
+        {[0, 1, 2].map((r) => (
+          <tr key={r}>
+            {[0, 1, 2].map((c) => (
+              <td
+                key={c}
+                className="h-3"
+                style={tableCellStyleCss(spec, { r, c, rs: 1, cs: 1 }, { rows: 3, cols: 3, headerEnd: 1 })}
+              />
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const SMALL_SELECT_CLASS =
+  'text-xs px-1.5 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300';
 
 interface TableBlockEditorProps {
   block: TypstBlock;
   onUpdate: (update: Partial<TypstBlock>) => void;
   onTableSelectionSnapshot: (snap: { blockId: string; r1: number; c1: number; r2: number; c2: number } | null) => void;
+  allBlocks: TypstBlock[];
+  lastTableSelection: TableSelection | null;
+  /** Insert generated blocks (uncertainty results) right after this table */
+  onInsertAfter?: (blocks: TypstBlock[]) => void;
 }
 
-export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnapshot }: TableBlockEditorProps) {
+export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnapshot, allBlocks, lastTableSelection, onInsertAfter }: TableBlockEditorProps) {
   const tableCellEditorRef = useRef<HTMLDivElement>(null);
   const tableColorPickerRef = useRef<HTMLDivElement>(null);
   const tableRowsInputRef = useRef<HTMLInputElement>(null);
   const tableColsInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Spreadsheet import: sheets read from the dropped/selected file, awaiting sheet + range choice.
+  const [importSheets, setImportSheets] = useState<SpreadsheetSheet[] | null>(null);
+  const [importSheetIndex, setImportSheetIndex] = useState(0);
+  const [importRange, setImportRange] = useState('');
+  const [importError, setImportError] = useState('');
+  const [isFileDragOver, setIsFileDragOver] = useState(false);
+  const [showStyleGallery, setShowStyleGallery] = useState(false);
+  const [newStyleName, setNewStyleName] = useState('');
+  const [showUncertainty, setShowUncertainty] = useState(false);
+
+  const { docSettings, setDocSettings } = useEditorStore(
+    useShallow((state) => ({ docSettings: state.docSettings, setDocSettings: state.setDocSettings }))
+  );
 
   // Connect to global store
   const {
@@ -87,9 +202,16 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
 
   const payload = normalizeTablePayload(parseTablePayload(block.content));
   const style = payload.style ?? 'normal';
+  const userStyles = docSettings.tableStyles ?? [];
+  const activeUserStyle = payload.userStyle ? userStyles.find((s) => s.id === payload.userStyle) : undefined;
+  const strokeSpec = resolveTableStrokeSpec(payload, userStyles);
+  const headerEnd = Math.max(1, payload.headerRows ?? 0);
+  const styleName = activeUserStyle?.name
+    ?? (style === 'custom' ? '自定义' : TABLE_STYLE_PRESETS.find((p) => p.id === style)?.name ?? '普通表格');
 
+  // Every write recomputes formula cells so dependent results stay live.
   const setPayload = (next: TablePayload) => {
-    onUpdate({ content: JSON.stringify(normalizeTablePayload(next)) });
+    onUpdate({ content: JSON.stringify(applyTableFormulas(normalizeTablePayload(next))) });
   };
 
   const syncTableCellFromDom = useCallback(() => {
@@ -99,8 +221,11 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
     const currentPayload = normalizeTablePayload(parseTablePayload(block.content));
     const cell = currentPayload.cells[pos.r]?.[pos.c];
     if (!cell || cell.hidden) return;
-    currentPayload.cells[pos.r][pos.c] = { ...cell, content: htmlToTypstInline(el) };
-    onUpdate({ content: JSON.stringify(currentPayload) });
+    const text = (el.textContent ?? '').replace(/\u200B/g, '').trim();
+    currentPayload.cells[pos.r][pos.c] = isTableFormula(text)
+      ? { ...cell, formula: text }
+      : { ...cell, content: htmlToTypstInline(el), formula: undefined };
+    onUpdate({ content: JSON.stringify(applyTableFormulas(currentPayload)) });
   }, [myActiveCell, block.content, onUpdate]);
 
   useEffect(() => {
@@ -117,6 +242,14 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
     const cell = currentPayload.cells[myActiveCell.r]?.[myActiveCell.c];
     if (!cell || cell.hidden) return;
 
+    // Formula cells are edited as their plain formula text, not the computed value.
+    if (cell.formula) {
+      if (tableCellEditorRef.current.textContent !== cell.formula) {
+        tableCellEditorRef.current.textContent = cell.formula;
+      }
+      return;
+    }
+
     const html = typstInlineToHtml(cell.content ?? '');
     if (tableCellEditorRef.current.innerHTML !== html) {
       tableCellEditorRef.current.innerHTML = html;
@@ -133,9 +266,13 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
     const resized = defaultTablePayload(nextRows, nextCols);
     resized.caption = flat.caption;
     resized.style = flat.style;
+    resized.columnPrecision = flat.columnPrecision?.slice(0, nextCols);
+    resized.columns = flat.columns?.slice(0, nextCols);
+    resized.headerRows = flat.headerRows;
     for (let r = 0; r < Math.min(nextRows, flat.rows); r++) {
       for (let c = 0; c < Math.min(nextCols, flat.cols); c++) {
-        resized.cells[r][c].content = flat.cells[r][c].content;
+        const { content, formula, align, valign, fill } = flat.cells[r][c];
+        resized.cells[r][c] = { content, formula, align, valign, fill };
       }
     }
     setPayload(resized);
@@ -146,6 +283,68 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
     setSelection({ r1: 0, c1: 0, r2: 0, c2: 0 });
   };
 
+  const chooseImportSheet = (sheets: SpreadsheetSheet[], index: number) => {
+    const used = sheetUsedRange(sheets[index]);
+    setImportSheetIndex(index);
+    setImportRange(used ? formatSheetRange(used) : '');
+  };
+
+  const loadImportFile = (file: File) => {
+    setImportError('');
+    readTableFile(file)
+      .then((sheets) => {
+        if (sheets.length === 0) throw new Error('文件中没有工作表');
+        setImportSheets(sheets);
+        chooseImportSheet(sheets, 0);
+      })
+      .catch((err: unknown) => {
+        setImportSheets(null);
+        setImportError(err instanceof Error ? err.message : '读取文件失败');
+      });
+  };
+
+  const applyImport = () => {
+    const sheet = importSheets?.[importSheetIndex];
+    if (!sheet) return;
+    const range = parseSheetRange(importRange);
+    if (!range) {
+      setImportError('区域格式应为 A1:C10');
+      return;
+    }
+    if ((range.r2 - range.r1 + 1) * (range.c2 - range.c1 + 1) > MAX_IMPORT_CELLS) {
+      setImportError(`区域过大（最多 ${MAX_IMPORT_CELLS} 个单元格），请缩小范围`);
+      return;
+    }
+    const imported = sheetToTablePayload(sheet, range);
+    setPayload({ ...imported, caption: payload.caption, style: payload.style });
+    if (tableRowsInputRef.current) tableRowsInputRef.current.value = String(imported.rows);
+    if (tableColsInputRef.current) tableColsInputRef.current.value = String(imported.cols);
+    setImportSheets(null);
+    setImportError('');
+    setActiveTable(block.id);
+    setActiveCell({ r: 0, c: 0 });
+    setSelection({ r1: 0, c1: 0, r2: 0, c2: 0 });
+  };
+
+  const exportTable = (format: 'csv' | 'xlsx') => {
+    const name = typstInlineToPlainText(payload.caption ?? '').trim() || '表格';
+    const sheet = tablePayloadToSheet(payload, name, typstInlineToPlainText);
+    if (format === 'csv') {
+      // BOM so Excel detects UTF-8 (Chinese text).
+      const csv = toDelimitedText(sheet.rows.map((row) => row.map((cell) => cell.value)));
+      saveAs(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), `${name}.csv`);
+      return;
+    }
+    writeXlsxWorkbook([sheet])
+      .then((bytes) => {
+        saveAs(
+          new Blob([bytes as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+          `${name}.xlsx`
+        );
+      })
+      .catch(() => setImportError('导出 XLSX 失败'));
+  };
+
   const inSel = (r: number, c: number) => {
     if (!mySelection) return false;
     const top = Math.min(mySelection.r1, mySelection.r2);
@@ -157,6 +356,66 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
 
   const active = myActiveCell ? payload.cells[myActiveCell.r]?.[myActiveCell.c] : null;
 
+  const columnAt = (c: number): TableColumn => payload.columns?.[c] ?? {};
+
+  const updateColumn = (col: number, patch: Partial<TableColumn>) => {
+    const columns = Array.from({ length: payload.cols }, (_, c) => ({ ...payload.columns?.[c] }));
+    columns[col] = { ...columns[col], ...patch };
+    setPayload({ ...payload, columns });
+  };
+
+  const updateActiveCell = (patch: Partial<TableCell>) => {
+    if (!myActiveCell || !active) return;
+    const cells = payload.cells.map((row) => [...row]);
+    cells[myActiveCell.r][myActiveCell.c] = { ...active, ...patch };
+    setPayload({ ...payload, cells });
+  };
+
+  const applyPresetStyle = (id: TableStyle) => {
+    setPayload({ ...payload, style: id, stroke: undefined, userStyle: undefined });
+  };
+
+  const applyUserStyle = (userStyle: UserTableStyle) => {
+    setPayload({ ...payload, style: 'custom', stroke: userStyle.spec, userStyle: userStyle.id });
+  };
+
+  const startCustomStyle = () => {
+    setPayload({ ...payload, style: 'custom', stroke: { ...strokeSpec }, userStyle: undefined });
+  };
+
+  // Edits a document style in place (every table using it follows), else this table's own spec.
+  const updateStrokeSpec = (patch: Partial<TableStrokeSpec>) => {
+    const spec = { ...strokeSpec, ...patch };
+    if (activeUserStyle) {
+      setDocSettings({
+        ...docSettings,
+        tableStyles: userStyles.map((s) => (s.id === activeUserStyle.id ? { ...s, spec } : s)),
+      });
+    }
+    setPayload({ ...payload, style: 'custom', stroke: spec });
+  };
+
+  const saveAsDocumentStyle = () => {
+    const name = newStyleName.trim();
+    if (!name) return;
+    const userStyle: UserTableStyle = { id: generateId(), name, spec: { ...strokeSpec } };
+    setDocSettings({ ...docSettings, tableStyles: [...userStyles, userStyle] });
+    applyUserStyle(userStyle);
+    setNewStyleName('');
+  };
+
+  // Tables still pointing at a deleted style fall back to their own copy of its spec.
+  const deleteDocumentStyle = (id: string) => {
+    setDocSettings({ ...docSettings, tableStyles: userStyles.filter((s) => s.id !== id) });
+    if (payload.userStyle === id) setPayload({ ...payload, userStyle: undefined });
+  };
+
+  const setColumnPrecision = (col: number, digits: number | null) => {
+    const columnPrecision = Array.from({ length: payload.cols }, (_, c) => payload.columnPrecision?.[c] ?? null);
+    columnPrecision[col] = digits;
+    setPayload({ ...payload, columnPrecision });
+  };
+
   const applyFormatToTableCell = (format: 'bold' | 'italic' | 'strike' | 'color', color?: string) => {
     const editor = tableCellEditorRef.current;
     if (!editor) return;
@@ -282,7 +541,25 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
   }, [isActive, myShowColorPicker, setShowColorPicker]);
 
   return (
-    <div className="flex flex-col gap-3">
+    <div
+      className={`flex flex-col gap-3 ${isFileDragOver ? 'outline-2 outline-dashed outline-blue-400 rounded' : ''}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsFileDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFileDragOver(false);
+      }}
+      onDrop={(e) => {
+        const file = e.dataTransfer.files?.[0];
+        setIsFileDragOver(false);
+        if (!file) return;
+        e.preventDefault();
+        e.stopPropagation();
+        loadImportFile(file);
+      }}
+    >
       <div className="flex items-center gap-2 flex-wrap">
         <span className="text-xs text-zinc-600 dark:text-zinc-400">表格标题</span>
         <input
@@ -325,16 +602,48 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
         </button>
 
         <span className="text-xs text-zinc-600 dark:text-zinc-400 ml-2">样式</span>
+        <button
+          type="button"
+          onClick={() => {
+            if (activeBlockId !== block.id) setActiveTable(block.id);
+            setShowStyleGallery(!showStyleGallery);
+          }}
+          className={`text-xs px-2 py-2 border rounded ${showStyleGallery
+            ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-300'
+            : 'border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300'
+            }`}
+        >
+          {styleName} ▾
+        </button>
+
+        <span className="text-xs text-zinc-600 dark:text-zinc-400 ml-2">表头</span>
         <select
-          value={style}
-          onChange={(e) => setPayload({ ...payload, style: (e.target.value as TableStyle) })}
+          value={payload.headerRows ?? 0}
+          onChange={(e) => setPayload({ ...payload, headerRows: Number(e.target.value) })}
           onClick={() => { if (activeBlockId !== block.id) setActiveTable(block.id); }}
           className="text-xs px-2 py-2 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          title="跨页时在每页顶部重复的表头行数"
         >
-          <option value="normal">普通表格</option>
-          <option value="three-line">三线表</option>
+          <option value={0}>不重复</option>
+          {[1, 2, 3].filter((n) => n <= payload.rows).map((n) => (
+            <option key={n} value={n}>前 {n} 行跨页重复</option>
+          ))}
         </select>
 
+        {onInsertAfter && (
+          <button
+            type="button"
+            onClick={() => setShowUncertainty(!showUncertainty)}
+            className={`text-xs px-2 py-2 border rounded ${showUncertainty
+              ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-300'
+              : 'border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300'
+              }`}
+            title="由表格中的测量值计算导出量及其不确定度"
+          >
+            误差传递
+          </button>
+        )}
+
         <button
           type="button"
           onClick={() => {
@@ -380,25 +689,278 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
         </button>
       </div>
 
-      <div className="overflow-x-auto">
-        <table
-          className={`mx-auto ${style === 'three-line'
-            ? 'border-t border-b border-zinc-300 dark:border-zinc-600'
-            : 'border border-zinc-200 dark:border-zinc-700'
-            }`}
+      {showUncertainty && onInsertAfter && (
+        <UncertaintyPanel
+          allBlocks={allBlocks}
+          lastTableSelection={lastTableSelection}
+          onInsert={onInsertAfter}
+          onClose={() => setShowUncertainty(false)}
+        />
+      )}
+
+      {showStyleGallery && (
+        <div className="flex flex-col gap-2 p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-950">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {TABLE_STYLE_PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => applyPresetStyle(preset.id)}
+                className={`flex flex-col gap-1 p-1.5 rounded border bg-white dark:bg-zinc-900 ${style === preset.id && !payload.userStyle
+                  ? 'border-blue-500 ring-1 ring-blue-500'
+                  : 'border-zinc-200 dark:border-zinc-700 hover:border-blue-300'
+                  }`}
+              >
+                <TableStylePreview spec={preset.spec} />
+                <span className="text-[11px] text-zinc-600 dark:text-zinc-400 truncate">{preset.name}</span>
+              </button>
+            ))}
+            {userStyles.map((userStyle) => (
+              <div
+                key={userStyle.id}
+                className={`relative flex flex-col gap-1 p-1.5 rounded border bg-white dark:bg-zinc-900 cursor-pointer ${payload.userStyle === userStyle.id
+                  ? 'border-blue-500 ring-1 ring-blue-500'
+                  : 'border-zinc-200 dark:border-zinc-700 hover:border-blue-300'
+                  }`}
+                onClick={() => applyUserStyle(userStyle)}
+                title="文档样式"
+              >
+                <TableStylePreview spec={userStyle.spec} />
+                <span className="text-[11px] text-zinc-600 dark:text-zinc-400 truncate pr-3">{userStyle.name}</span>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteDocumentStyle(userStyle.id);
+                  }}
+                  className="absolute bottom-1 right-1 text-[11px] leading-none text-zinc-400 hover:text-red-500"
+                  title="删除文档样式"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={startCustomStyle}
+              className={`flex flex-col gap-1 p-1.5 rounded border bg-white dark:bg-zinc-900 ${style === 'custom' && !activeUserStyle
+                ? 'border-blue-500 ring-1 ring-blue-500'
+                : 'border-zinc-200 dark:border-zinc-700 hover:border-blue-300'
+                }`}
+              title="以当前样式为基础自定义线条"
+            >
+              <TableStylePreview spec={strokeSpec} />
+              <span className="text-[11px] text-zinc-600 dark:text-zinc-400 truncate">自定义…</span>
+            </button>
+          </div>
+
+          {style === 'custom' && (
+            <div className="flex flex-col gap-2 pt-2 border-t border-zinc-200 dark:border-zinc-700 text-xs text-zinc-600 dark:text-zinc-400">
+              {activeUserStyle && (
+                <div className="text-[11px] text-blue-600 dark:text-blue-400">
+                  正在编辑文档样式「{activeUserStyle.name}」，修改会应用到所有使用它的表格。
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                {STROKE_FIELDS.map((field) => (
+                  <label key={field.key} className="flex items-center gap-1">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      step={0.1}
+                      value={strokeSpec[field.key]}
+                      onChange={(e) => updateStrokeSpec({ [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                      className={`w-14 ${SMALL_SELECT_CLASS}`}
+                    />
+                    pt
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={!!strokeSpec.headerFill}
+                    onChange={(e) => updateStrokeSpec({ headerFill: e.target.checked ? '#d9d9d9' : undefined })}
+                  />
+                  表头底色
+                </label>
+                {strokeSpec.headerFill && (
+                  <input
+                    type="color"
+                    value={strokeSpec.headerFill}
+                    onChange={(e) => updateStrokeSpec({ headerFill: e.target.value })}
+                    className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  />
+                )}
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={!!strokeSpec.zebra}
+                    onChange={(e) => updateStrokeSpec({ zebra: e.target.checked ? '#f2f2f2' : undefined })}
+                  />
+                  隔行底色
+                </label>
+                {strokeSpec.zebra && (
+                  <input
+                    type="color"
+                    value={strokeSpec.zebra}
+                    onChange={(e) => updateStrokeSpec({ zebra: e.target.value })}
+                    className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  />
+                )}
+              </div>
+              {!activeUserStyle && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newStyleName}
+                    onChange={(e) => setNewStyleName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveAsDocumentStyle(); }}
+                    placeholder="样式名称"
+                    className={`w-32 ${SMALL_SELECT_CLASS}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={saveAsDocumentStyle}
+                    disabled={!newStyleName.trim()}
+                    className="px-3 py-1 text-xs rounded bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white"
+                  >
+                    保存为文档样式
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={TABLE_IMPORT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) loadImportFile(file);
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-2 text-xs rounded flex items-center gap-1 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300"
+          title="导入 CSV / TSV / XLSX（也可直接把文件拖到表格上）"
         >
+          <Upload size={14} />
+          导入
+        </button>
+        <button
+          type="button"
+          onClick={() => exportTable('csv')}
+          className="px-3 py-2 text-xs rounded flex items-center gap-1 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300"
+        >
+          <Download size={14} />
+          导出 CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => exportTable('xlsx')}
+          className="px-3 py-2 text-xs rounded flex items-center gap-1 bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300"
+        >
+          <Download size={14} />
+          导出 XLSX
+        </button>
+        {importError && <span className="text-xs text-red-500">{importError}</span>}
+      </div>
+
+      {importSheets && (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
+          {importSheets.length > 1 && (
+            <>
+              <span className="text-xs text-zinc-600 dark:text-zinc-400">工作表</span>
+              <select
+                value={importSheetIndex}
+                onChange={(e) => chooseImportSheet(importSheets, Number(e.target.value))}
+                className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+              >
+                {importSheets.map((s, i) => (
+                  <option key={i} value={i}>{s.name}</option>
+                ))}
+              </select>
+            </>
+          )}
+          <span className="text-xs text-zinc-600 dark:text-zinc-400">区域</span>
+          <input
+            type="text"
+            value={importRange}
+            onChange={(e) => setImportRange(e.target.value)}
+            placeholder="A1:C10"
+            className="w-28 text-xs px-2 py-1 font-mono border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          />
+          <button
+            type="button"
+            onClick={applyImport}
+            className="px-3 py-1 text-xs rounded bg-blue-500 hover:bg-blue-600 text-white"
+            title="用所选区域替换当前表格内容"
+          >
+            导入
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setImportSheets(null);
+              setImportError('');
+            }}
+            className="px-3 py-1 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300"
+          >
+            取消
+          </button>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="mx-auto">
+          {/* Column letters / row numbers for formula references, plus per-column significant digits */}
+          {isActive && (
+            <thead>
+              <tr className="text-[11px] text-zinc-500 dark:text-zinc-400 bg-zinc-50 dark:bg-zinc-900">
+                <th />
+                {Array.from({ length: payload.cols }, (_, c) => (
+                  <th key={c} className="px-2 py-1 font-normal">
+                    <div className="flex items-center justify-center gap-1">
+                      <span className="font-mono">{tableColumnLabel(c)}</span>
+                      <select
+                        value={payload.columnPrecision?.[c] ?? ''}
+                        onChange={(e) => setColumnPrecision(c, e.target.value ? Number(e.target.value) : null)}
+                        className="text-[11px] px-1 py-0.5 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+                        title="公式结果的有效数字"
+                      >
+                        <option value="">自动</option>
+                        {[1, 2, 3, 4, 5, 6, 7, 8].map((d) => (
+                          <option key={d} value={d}>{d} 位有效数字</option>
+                        ))}
+                      </select>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+          )}
           <tbody>
             {Array.from({ length: payload.rows }, (_, r) => (
-              <tr
-                key={r}
-                className={
-                  style === 'three-line' && r === 0
-                    ? 'border-b border-zinc-300 dark:border-zinc-600'
-                    : style === 'normal'
-                      ? 'border-b border-zinc-200 dark:border-zinc-700 last:border-b-0'
-                      : ''
-                }
-              >
+              <tr key={r}>
+                {isActive && (
+                  <td
+                    className={`px-1.5 text-[11px] font-mono bg-zinc-50 dark:bg-zinc-900 text-center select-none ${r < (payload.headerRows ?? 0) ? 'text-blue-500' : 'text-zinc-500 dark:text-zinc-400'}`}
+                    title={r < (payload.headerRows ?? 0) ? '表头行' : undefined}
+                  >
+                    {r + 1}
+                  </td>
+                )}
                 {Array.from({ length: payload.cols }, (_, c) => {
                   const cell = payload.cells[r][c];
                   if (cell.hidden) return null;
@@ -406,11 +968,24 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
                   const cs = Math.max(1, Number(cell.colspan || 1));
                   const selected = inSel(r, c);
                   const activeNow = myActiveCell?.r === r && myActiveCell?.c === c;
+                  const column = columnAt(c);
+                  const ruleCss = tableCellStyleCss(
+                    strokeSpec,
+                    { r, c, rs, cs },
+                    { rows: payload.rows, cols: payload.cols, headerEnd },
+                    true
+                  );
                   return (
                     <td
                       key={c}
                       rowSpan={rs}
                       colSpan={cs}
+                      style={{
+                        ...ruleCss,
+                        textAlign: cell.align ?? column.align ?? 'left',
+                        verticalAlign: CSS_VERTICAL_ALIGN[cell.valign ?? column.valign ?? 'horizon'],
+                        backgroundColor: selected && !activeNow ? undefined : cell.fill ?? ruleCss.backgroundColor,
+                      }}
                       onMouseDown={(e) => {
                         e.preventDefault();
 
@@ -447,10 +1022,7 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
                           setIsEditingCell(false);
                         }
                       }}
-                      className={`${style === 'normal'
-                        ? 'border-r border-zinc-200 dark:border-zinc-700 last:border-r-0'
-                        : ''
-                        } p-2 align-top min-w-[120px] ${activeNow
+                      className={`p-2 min-w-[120px] ${activeNow
                           ? 'outline outline-2 outline-blue-400'
                           : selected
                             ? 'bg-blue-50 dark:bg-blue-900/10'
@@ -458,7 +1030,8 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
                         } cursor-pointer`}
                     >
                       <div
-                        className="text-sm whitespace-pre-wrap [&_ul]:list-disc [&_ul]:pl-6 [&_ul]:my-0 [&_ol]:list-decimal [&_ol]:pl-6 [&_ol]:my-0 [&_li]:my-0"
+                        title={cell.formula}
+                        className={`text-sm whitespace-pre-wrap ${cell.formula ? 'text-blue-700 dark:text-blue-300' : ''} [&_ul]:list-disc [&_ul]:pl-6 [&_ul]:my-0 [&_ol]:list-decimal [&_ol]:pl-6 [&_ol]:my-0 [&_li]:my-0`}
                         dangerouslySetInnerHTML={{ __html: typstInlineToHtml(cell.content ?? '') }}
                       />
                     </td>
@@ -545,6 +1118,97 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
             </div>
           </div>
 
+          <div className="flex flex-wrap items-center gap-2 mb-2 pb-2 border-b border-zinc-200 dark:border-zinc-700 text-xs text-zinc-600 dark:text-zinc-400">
+            <span className="font-medium">{tableColumnLabel(myActiveCell.c)} 列</span>
+            <span>宽度</span>
+            <input
+              key={`${myActiveCell.c}-${columnAt(myActiveCell.c).width ?? ''}`}
+              type="text"
+              defaultValue={columnAt(myActiveCell.c).width ?? ''}
+              placeholder="1fr"
+              title="auto、2fr、30pt 或 25%"
+              onBlur={(e) => {
+                const raw = e.target.value.trim();
+                const width = normalizeTableColumnWidth(raw);
+                if (!raw) updateColumn(myActiveCell.c, { width: undefined });
+                else if (width) updateColumn(myActiveCell.c, { width });
+                else e.target.value = columnAt(myActiveCell.c).width ?? '';
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={`w-16 font-mono ${SMALL_SELECT_CLASS}`}
+            />
+            <select
+              value={columnAt(myActiveCell.c).align ?? 'left'}
+              onChange={(e) => updateColumn(myActiveCell.c, { align: e.target.value as TableHAlign })}
+              className={SMALL_SELECT_CLASS}
+              title="列水平对齐"
+            >
+              {H_ALIGN_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>水平{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={columnAt(myActiveCell.c).valign ?? 'horizon'}
+              onChange={(e) => updateColumn(myActiveCell.c, { valign: e.target.value as TableVAlign })}
+              className={SMALL_SELECT_CLASS}
+              title="列垂直对齐"
+            >
+              {V_ALIGN_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>垂直{o.label}</option>
+              ))}
+            </select>
+
+            <span className="font-medium ml-3">单元格</span>
+            <select
+              value={active.align ?? ''}
+              onChange={(e) => updateActiveCell({ align: (e.target.value || undefined) as TableHAlign | undefined })}
+              className={SMALL_SELECT_CLASS}
+              title="单元格水平对齐"
+            >
+              <option value="">水平跟随列</option>
+              {H_ALIGN_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>水平{o.label}</option>
+              ))}
+            </select>
+            <select
+              value={active.valign ?? ''}
+              onChange={(e) => updateActiveCell({ valign: (e.target.value || undefined) as TableVAlign | undefined })}
+              className={SMALL_SELECT_CLASS}
+              title="单元格垂直对齐"
+            >
+              <option value="">垂直跟随列</option>
+              {V_ALIGN_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>垂直{o.label}</option>
+              ))}
+            </select>
+            <span>底色</span>
+            <button
+              type="button"
+              onClick={() => updateActiveCell({ fill: undefined })}
+              className={`w-5 h-5 rounded border text-[10px] leading-none ${!active.fill ? 'border-blue-500' : 'border-zinc-300 dark:border-zinc-600'}`}
+              title="无底色"
+            >
+              ∅
+            </button>
+            {CELL_FILL_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => updateActiveCell({ fill: color })}
+                className={`w-5 h-5 rounded border ${active.fill === color ? 'border-blue-500 ring-1 ring-blue-500' : 'border-zinc-300 dark:border-zinc-600'}`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+            <input
+              type="color"
+              value={active.fill ?? '#ffffff'}
+              onChange={(e) => updateActiveCell({ fill: e.target.value })}
+              className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+              title="自定义底色"
+            />
+          </div>
+
           <div
             ref={tableCellEditorRef}
             contentEditable
@@ -667,7 +1331,7 @@ export default function TableBlockEditor({ block, onUpdate, onTableSelectionSnap
       }
 
       <div className="text-[11px] text-zinc-500 dark:text-zinc-400">
-        说明：先选中单元格。默认可用 Shift+点击框选矩形区域后点&quot;合并&quot;。也可开启&quot;选区模式&quot;：点击一次设起点，再点击一次设终点完成框选；再次点击将重新开始框选。三线表为无竖线样式。
+        说明：先选中单元格。默认可用 Shift+点击框选矩形区域后点&quot;合并&quot;。也可开启&quot;选区模式&quot;：点击一次设起点，再点击一次设终点完成框选；再次点击将重新开始框选。点&quot;样式&quot;可从样式库选择三线表、Booktabs、斑马纹等，或自定义线条并保存为文档样式。以 = 开头输入公式，如 =AVERAGE(B2:B6)、=B2*C2（支持 SUM、AVERAGE、MIN、MAX、COUNT、STDEV、SQRT、ABS、ROUND、POWER 等）。
       </div>
 
       {/* 宽度滑块（放在最下方） */}
@@ -1,8 +1,8 @@
 'use client';
 
-import { TypstBlock } from '@/lib/typst';
+import { TypstBlock, collectBibliographyEntries, collectLabelledBlocks } from '@/lib/typst';
 import { latexToTypstMath, typstToLatexMath } from '@/lib/math-convert';
-import { useRef, useState, useEffect, type MouseEvent as ReactMouseEvent } from 'react';
+import { useMemo, useRef, useState, useEffect, type MouseEvent as ReactMouseEvent } from 'react';
 
 // Import types and utilities from separated modules
 import type { InlineMathFormat, InlineMathState } from '../BlockEditor-utils/types';
@@ -19,15 +19,20 @@ import InlineMathEditor from './text/InlineMathEditor';
 interface TextBlockEditorProps {
   block: TypstBlock;
   onUpdate: (updates: Partial<TypstBlock>) => void;
+  /** Document blocks, used to list cross-reference targets and bibliography entries */
+  allBlocks?: TypstBlock[];
 }
 
-export default function TextBlockEditor({ block, onUpdate }: TextBlockEditorProps) {
+export default function TextBlockEditor({ block, onUpdate, allBlocks }: TextBlockEditorProps) {
   const paragraphEditorRef = useRef<HTMLDivElement>(null);
   const colorPickerRef = useRef<HTMLDivElement>(null);
   const [isEditingParagraph, setIsEditingParagraph] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [activeInlineMath, setActiveInlineMath] = useState<InlineMathState | null>(null);
 
+  const referenceTargets = useMemo(() => collectLabelledBlocks(allBlocks ?? []), [allBlocks]);
+  const citationEntries = useMemo(() => collectBibliographyEntries(allBlocks ?? []), [allBlocks]);
+
   // Debounce timer for reducing state update frequency during typing
   const syncDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -290,6 +295,35 @@ export default function TextBlockEditor({ block, onUpdate }: TextBlockEditorProp
     syncParagraphFromDom();
   };
 
+  const insertReference = (label: string) => {
+    const editor = paragraphEditorRef.current;
+    if (!editor) return;
+    editor.focus();
+
+    const sel = window.getSelection();
+    if (!sel) return;
+    let range: Range;
+    if (sel.rangeCount > 0 && editor.contains(sel.getRangeAt(0).commonAncestorContainer)) {
+      range = sel.getRangeAt(0);
+    } else {
+      // No caret inside the editor yet: append at the end.
+      range = document.createRange();
+      range.selectNodeContents(editor);
+      range.collapse(false);
+    }
+
+    // Trailing space terminates the reference; CJK characters are valid label characters in Typst.
+    const ref = document.createTextNode(`@${label} `);
+    range.deleteContents();
+    range.insertNode(ref);
+    range.setStartAfter(ref);
+    range.collapse(true);
+    sel.removeAllRanges();
+    sel.addRange(range);
+
+    syncParagraphFromDom();
+  };
+
   // Handle paste: detect $$...$$ patterns and convert to inline math pills
   const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
     const text = e.clipboardData.getData('text/plain');
@@ -366,6 +400,9 @@ export default function TextBlockEditor({ block, onUpdate }: TextBlockEditorProp
         applyFormat={applyFormat}
         applyList={applyList}
         insertInlineMath={insertInlineMath}
+        referenceTargets={referenceTargets}
+        citationEntries={citationEntries}
+        insertReference={insertReference}
         showColorPicker={showColorPicker}
         setShowColorPicker={setShowColorPicker}
         colorPickerRef={colorPickerRef}
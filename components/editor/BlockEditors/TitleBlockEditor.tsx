@@ -224,10 +224,11 @@ export default function TitleBlockEditor({ block, onUpdate }: TitleBlockEditorPr
 
         <label className="text-xs text-zinc-600 dark:text-zinc-400">字体</label>
         <select
-          value={block.font ?? 'SimSun'}
-          onChange={(e) => onUpdate({ font: e.target.value })}
+          value={block.font ?? ''}
+          onChange={(e) => onUpdate({ font: e.target.value || undefined })}
           className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
         >
+          <option value="">跟随文档样式</option>
           <option value="SimSun">宋体</option>
           <option value="SimHei">黑体</option>
           <option value="KaiTi">楷体</option>
@@ -274,6 +275,18 @@ export default function TitleBlockEditor({ block, onUpdate }: TitleBlockEditorPr
             </svg>
           </button>
         </div>
+
+        <div className="w-px h-4 bg-zinc-300 dark:bg-zinc-600 mx-1"></div>
+
+        <label className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400 cursor-pointer" title="此标题不参与文档标题编号">
+          <input
+            type="checkbox"
+            checked={!!block.unnumbered}
+            onChange={(e) => onUpdate({ unnumbered: e.target.checked || undefined })}
+            className="w-3.5 h-3.5"
+          />
+          不编号
+        </label>
       </div>
 
       {/* 格式工具栏 - 移到文本框上方 */}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  TypstBlock,
+  buildDocumentOutline,
+  safeParseTocPayload,
+  type PersistedTocPayload,
+} from '@/lib/typst';
+
+interface TocBlockEditorProps {
+  block: TypstBlock;
+  onUpdate: (updates: Partial<TypstBlock>) => void;
+  allBlocks: TypstBlock[];
+}
+
+const INDENT_OPTIONS = [
+  { value: 'auto', label: '自动' },
+  { value: '1em', label: '1em' },
+  { value: '2em', label: '2em' },
+  { value: '0em', label: '不缩进' },
+];
+
+export default function TocBlockEditor({ block, onUpdate, allBlocks }: TocBlockEditorProps) {
+  const payload = useMemo(() => safeParseTocPayload(block.content ?? ''), [block.content]);
+
+  // Live preview: the headings Typst will list with the current depth.
+  const headings = useMemo(
+    () => buildDocumentOutline(allBlocks).filter((e) => e.kind === 'heading' && e.level <= payload.depth),
+    [allBlocks, payload.depth]
+  );
+
+  const updatePayload = (patch: Partial<PersistedTocPayload>) => {
+    onUpdate({ content: JSON.stringify({ ...payload, ...patch }) });
+  };
+
+  const indentStep = payload.indent === 'auto' ? 1 : parseFloat(payload.indent) || 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400">标题</label>
+          <input
+            type="text"
+            value={payload.title}
+            onChange={(e) => updatePayload({ title: e.target.value })}
+            placeholder="留空则不显示标题"
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 w-32"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400">层级</label>
+          <select
+            value={payload.depth}
+            onChange={(e) => updatePayload({ depth: Number(e.target.value) })}
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          >
+            {[1, 2, 3, 4, 5, 6].map((d) => (
+              <option key={d} value={d}>{d} 级</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400">缩进</label>
+          <select
+            value={INDENT_OPTIONS.some((o) => o.value === payload.indent) ? payload.indent : 'auto'}
+            onChange={(e) => updatePayload({ indent: e.target.value })}
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+          >
+            {INDENT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* 目录预览 */}
+      <div className="p-3 rounded border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-950">
+        {payload.title.trim() && (
+          <div className="text-sm font-semibold text-zinc-800 dark:text-zinc-200 mb-2">{payload.title.trim()}</div>
+        )}
+        {headings.length > 0 ? (
+          <div className="flex flex-col gap-1">
+            {headings.map((h) => (
+              <div
+                key={h.blockId}
+                className="flex items-baseline gap-2 text-xs text-zinc-700 dark:text-zinc-300"
+                style={{ paddingLeft: `${(h.level - 1) * indentStep}em` }}
+              >
+                <span className="truncate">{h.title}</span>
+                <span className="flex-1 border-b border-dotted border-zinc-300 dark:border-zinc-600" />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">文档中还没有标题，添加标题后目录会自动生成。</div>
+        )}
+      </div>
+    </div>
+  );
+}
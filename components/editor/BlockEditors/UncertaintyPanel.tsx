@@ -0,0 +1,314 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  TypstBlock,
+  generateId,
+  parseTableNumber,
+  tableColumnLabel,
+} from '@/lib/typst';
+import { latexToTypstMath } from '@/lib/math-convert';
+import {
+  UncertaintyFormulaError,
+  formatMeasurement,
+  formulaVariables,
+  parseUncertaintyFormula,
+  propagateUncertainty,
+  propagationLatex,
+  variableLatex,
+  type UncertaintyExpr,
+} from '@/lib/uncertainty';
+import { defaultTablePayload, normalizeTablePayload } from '../BlockEditor-utils/table-utils';
+import { getCellPlain, getTablePayloadById, type TableSelection } from './ChartBlockEditors/shared';
+
+interface UncertaintyPanelProps {
+  allBlocks: TypstBlock[];
+  lastTableSelection: TableSelection | null;
+  onInsert: (blocks: TypstBlock[]) => void;
+  onClose: () => void;
+}
+
+type VariableInput = {
+  values?: TableSelection;
+  uncertaintySource: 'const' | 'table';
+  uncertaintyConst: string;
+  uncertaintySelection?: TableSelection;
+};
+
+const EMPTY_INPUT: VariableInput = { uncertaintySource: 'const', uncertaintyConst: '' };
+
+const INPUT_CLASS =
+  'text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300';
+
+const selectionLabel = (sel: TableSelection | undefined) => {
+  if (!sel) return '未选择';
+  const top = Math.min(sel.r1, sel.r2);
+  const bottom = Math.max(sel.r1, sel.r2);
+  const left = Math.min(sel.c1, sel.c2);
+  const right = Math.max(sel.c1, sel.c2);
+  return `${tableColumnLabel(left)}${top + 1}:${tableColumnLabel(right)}${bottom + 1}`;
+};
+
+// Cell texts of a selection in reading order (a column or row of measurements).
+const readSelection = (sel: TableSelection, allBlocks: TypstBlock[]): string[] => {
+  const payload = getTablePayloadById(sel.blockId, allBlocks);
+  if (!payload) return [];
+  const out: string[] = [];
+  for (let r = Math.min(sel.r1, sel.r2); r <= Math.max(sel.r1, sel.r2); r++) {
+    for (let c = Math.min(sel.c1, sel.c2); c <= Math.max(sel.c1, sel.c2); c++) {
+      if (payload.cells?.[r]?.[c]?.hidden) continue;
+      out.push(getCellPlain(payload, r, c));
+    }
+  }
+  return out;
+};
+
+const inlineMath = (latex: string) => `$${latexToTypstMath(latex)}$`;
+
+type ComputedRow = {
+  inputs: Record<string, { value: string; uncertainty: string }>;
+  value: number;
+  uncertainty: number;
+};
+
+// Per-row value and propagated uncertainty, or the first problem found in the inputs.
+function computeRows(
+  expr: UncertaintyExpr | null,
+  variables: string[],
+  inputs: Record<string, VariableInput>,
+  allBlocks: TypstBlock[]
+): { rows: ComputedRow[]; error: string } {
+  if (!expr || variables.length === 0) return { rows: [], error: '' };
+  const columns: Record<string, { values: string[]; uncertainties: string[] | string }> = {};
+  let count = -1;
+  for (const name of variables) {
+    const input = inputs[name] ?? EMPTY_INPUT;
+    if (!input.values) return { rows: [], error: `请为 ${name} 选择测量值所在的表格区域` };
+    const values = readSelection(input.values, allBlocks);
+    const uncertainties = input.uncertaintySource === 'table' && input.uncertaintySelection
+      ? readSelection(input.uncertaintySelection, allBlocks)
+      : input.uncertaintyConst.trim();
+    if (count >= 0 && values.length !== count) return { rows: [], error: '各变量选区的数据个数不一致' };
+    if (Array.isArray(uncertainties) && uncertainties.length !== values.length) {
+      return { rows: [], error: `${name} 的不确定度个数与测量值个数不一致` };
+    }
+    count = values.length;
+    columns[name] = { values, uncertainties };
+  }
+
+  const rows: ComputedRow[] = [];
+  for (let i = 0; i < count; i++) {
+    const values: Record<string, number> = {};
+    const uncertainties: Record<string, number> = {};
+    const rowInputs: ComputedRow['inputs'] = {};
+    for (const name of variables) {
+      const col = columns[name];
+      const valueText = col.values[i];
+      const uText = Array.isArray(col.uncertainties) ? col.uncertainties[i] : col.uncertainties;
+      const value = parseTableNumber(valueText);
+      const u = uText ? parseTableNumber(uText) : 0;
+      if (value === null) return { rows: [], error: `${name} 的第 ${i + 1} 个数据「${valueText}」不是数值` };
+      if (u === null) return { rows: [], error: `${name} 的第 ${i + 1} 个不确定度「${uText}」不是数值` };
+      values[name] = value;
+      uncertainties[name] = Math.abs(u);
+      rowInputs[name] = { value: valueText, uncertainty: uText || '0' };
+    }
+    const result = propagateUncertainty(expr, values, uncertainties);
+    if (!Number.isFinite(result.value)) return { rows: [], error: `第 ${i + 1} 组数据代入公式后无法计算结果` };
+    if (!Number.isFinite(result.uncertainty)) {
+      return { rows: [], error: `第 ${i + 1} 组数据处公式不可导（如 sqrt(x) 在 x = 0 处），无法传递不确定度` };
+    }
+    rows.push({ inputs: rowInputs, value: result.value, uncertainty: result.uncertainty });
+  }
+  return { rows, error: '' };
+}
+
+export default function UncertaintyPanel({ allBlocks, lastTableSelection, onInsert, onClose }: UncertaintyPanelProps) {
+  const [formula, setFormula] = useState('');
+  const [resultName, setResultName] = useState('y');
+  const [inputs, setInputs] = useState<Record<string, VariableInput>>({});
+
+  const parsed = useMemo(() => {
+    if (!formula.trim()) return { expr: null, error: '' };
+    try {
+      return { expr: parseUncertaintyFormula(formula), error: '' };
+    } catch (err) {
+      return { expr: null, error: err instanceof UncertaintyFormulaError ? err.message : '公式无法解析' };
+    }
+  }, [formula]);
+
+  const expr = parsed.expr;
+  const variables = useMemo(() => (expr ? formulaVariables(expr) : []), [expr]);
+
+  const computed = useMemo(() => computeRows(expr, variables, inputs, allBlocks), [expr, variables, inputs, allBlocks]);
+
+  const updateInput = (name: string, patch: Partial<VariableInput>) => {
+    setInputs((prev) => ({ ...prev, [name]: { ...(prev[name] ?? EMPTY_INPUT), ...patch } }));
+  };
+
+  const uncertainVariables = variables.filter((name) => {
+    const input = inputs[name] ?? EMPTY_INPUT;
+    return input.uncertaintySource === 'table' ? !!input.uncertaintySelection : !!input.uncertaintyConst.trim() && parseTableNumber(input.uncertaintyConst) !== 0;
+  });
+
+  const insertResults = () => {
+    if (!expr || computed.rows.length === 0) return;
+    const name = resultName.trim() || 'y';
+
+    const header = [
+      '序号',
+      ...variables.flatMap((v) => uncertainVariables.includes(v)
+        ? [inlineMath(variableLatex(v)), inlineMath(`u_{${variableLatex(v)}}`)]
+        : [inlineMath(variableLatex(v))]),
+      inlineMath(variableLatex(name)),
+      inlineMath(`u_{${variableLatex(name)}}`),
+    ];
+    const body = computed.rows.map((row, i) => {
+      const result = formatMeasurement(row.value, row.uncertainty);
+      return [
+        String(i + 1),
+        ...variables.flatMap((v) => uncertainVariables.includes(v)
+          ? [row.inputs[v].value, row.inputs[v].uncertainty]
+          : [row.inputs[v].value]),
+        result.value,
+        result.uncertainty,
+      ];
+    });
+    const grid = [header, ...body];
+    const table = defaultTablePayload(grid.length, header.length);
+    table.caption = `${name} 的不确定度计算结果`;
+    table.style = 'three-line';
+    table.cells = grid.map((row) => row.map((content) => ({ content })));
+
+    const lines = propagationLatex(name, expr, uncertainVariables)
+      .map((latex) => ({ latex, typst: latexToTypstMath(latex) }));
+
+    onInsert([
+      { id: generateId(), type: 'table', content: JSON.stringify(normalizeTablePayload(table)) },
+      {
+        id: generateId(),
+        type: 'math',
+        content: lines.map((l) => l.typst).join(' \\ '),
+        mathFormat: 'latex',
+        mathLatex: lines.map((l) => l.latex).join(' \\\\ '),
+        mathTypst: lines.map((l) => l.typst).join(' \\ '),
+        mathLines: lines,
+      },
+    ]);
+    onClose();
+  };
+
+  const renderSelectionPicker = (sel: TableSelection | undefined, onPick: (sel: TableSelection) => void) => (
+    <span className="flex items-center gap-1">
+      <span className="text-[11px] font-mono text-zinc-500 dark:text-zinc-400 min-w-[4.5rem]">{selectionLabel(sel)}</span>
+      <button
+        type="button"
+        onClick={() => lastTableSelection && onPick(lastTableSelection)}
+        disabled={!lastTableSelection}
+        className="px-2 py-1 text-xs rounded border border-zinc-300 dark:border-zinc-600 disabled:opacity-40"
+        title={lastTableSelection ? '使用最近一次在表格块中框选的区域' : '请先在任意表格块中框选一块区域'}
+      >
+        使用最近选区
+      </button>
+    </span>
+  );
+
+  const error = parsed.error || computed.error;
+
+  return (
+    <div className="flex flex-col gap-2 p-2 rounded border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-950">
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="text-xs text-zinc-600 dark:text-zinc-400">结果</label>
+        <input
+          type="text"
+          value={resultName}
+          onChange={(e) => setResultName(e.target.value)}
+          className={`${INPUT_CLASS} w-16 font-mono`}
+          title="结果量的符号，如 rho、g"
+        />
+        <span className="text-xs text-zinc-600 dark:text-zinc-400">=</span>
+        <input
+          type="text"
+          value={formula}
+          onChange={(e) => setFormula(e.target.value)}
+          placeholder="如 m / (pi * r^2 * h)"
+          className={`${INPUT_CLASS} flex-1 min-w-[12rem] font-mono`}
+        />
+      </div>
+
+      {variables.length > 0 && (
+        <div className="flex flex-col gap-1">
+          {variables.map((name) => {
+            const input = inputs[name] ?? EMPTY_INPUT;
+            return (
+              <div key={name} className="flex items-center gap-2 flex-wrap text-xs text-zinc-600 dark:text-zinc-400">
+                <span className="w-12 font-mono text-zinc-800 dark:text-zinc-200">{name}</span>
+                <span>测量值</span>
+                {renderSelectionPicker(input.values, (sel) => updateInput(name, { values: sel }))}
+                <span className="ml-2">不确定度</span>
+                <select
+                  value={input.uncertaintySource}
+                  onChange={(e) => updateInput(name, { uncertaintySource: e.target.value as VariableInput['uncertaintySource'] })}
+                  className={INPUT_CLASS}
+                >
+                  <option value="const">统一值</option>
+                  <option value="table">表格区域</option>
+                </select>
+                {input.uncertaintySource === 'const' ? (
+                  <input
+                    type="text"
+                    value={input.uncertaintyConst}
+                    onChange={(e) => updateInput(name, { uncertaintyConst: e.target.value })}
+                    placeholder="留空视为精确值"
+                    className={`${INPUT_CLASS} w-28`}
+                  />
+                ) : (
+                  renderSelectionPicker(input.uncertaintySelection, (sel) => updateInput(name, { uncertaintySelection: sel }))
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error ? (
+        <div className="text-xs text-red-600 dark:text-red-400">{error}</div>
+      ) : computed.rows.length > 0 ? (
+        <div className="flex flex-col gap-0.5 text-xs font-mono text-zinc-700 dark:text-zinc-300">
+          {computed.rows.slice(0, 5).map((row, i) => {
+            const result = formatMeasurement(row.value, row.uncertainty);
+            return (
+              <div key={i}>
+                {resultName.trim() || 'y'}<sub>{i + 1}</sub> = {result.value} ± {result.uncertainty}
+              </div>
+            );
+          })}
+          {computed.rows.length > 5 && <div className="text-zinc-500">…共 {computed.rows.length} 组</div>}
+        </div>
+      ) : (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+          输入公式后，为每个变量框选测量值所在的列，并填写不确定度（统一值或逐行的表格区域）。
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={insertResults}
+          disabled={!!error || computed.rows.length === 0}
+          className="px-3 py-1.5 text-xs rounded bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40"
+          title="在表格下方插入结果表格与误差传递公式"
+        >
+          插入结果
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1.5 text-xs rounded bg-zinc-200 dark:bg-zinc-700 hover:bg-zinc-300 dark:hover:bg-zinc-600 text-zinc-700 dark:text-zinc-300"
+        >
+          关闭
+        </button>
+      </div>
+    </div>
+  );
+}
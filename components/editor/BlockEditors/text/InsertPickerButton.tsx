@@ -0,0 +1,63 @@
+import { ReactNode, useState } from 'react';
+
+export type InsertPickerItem = {
+    key: string;
+    badge: string;
+    value: string;
+    description: string;
+};
+
+interface InsertPickerButtonProps {
+    icon: ReactNode;
+    title: string;
+    emptyText: string;
+    items: InsertPickerItem[];
+    onPick: (value: string) => void;
+}
+
+/**
+ * Toolbar button with a dropdown list, used to insert `@label` references and `@key` citations.
+ */
+export default function InsertPickerButton({ icon, title, emptyText, items, onPick }: InsertPickerButtonProps) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div className="relative" onMouseLeave={() => setOpen(false)}>
+            <button
+                type="button"
+                onMouseDown={(e) => {
+                    e.preventDefault();
+                    setOpen(!open);
+                }}
+                className="p-1.5 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded transition-colors"
+                title={title}
+            >
+                {icon}
+            </button>
+            {open && (
+                <div className="absolute top-full left-0 mt-1 py-1 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded shadow-lg z-50 w-64 max-h-64 overflow-y-auto">
+                    {items.length === 0 ? (
+                        <div className="px-3 py-2 text-xs text-zinc-500 dark:text-zinc-400">{emptyText}</div>
+                    ) : (
+                        items.map((item) => (
+                            <button
+                                key={item.key}
+                                type="button"
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    onPick(item.value);
+                                    setOpen(false);
+                                }}
+                                className="w-full text-left px-3 py-1.5 text-xs hover:bg-zinc-100 dark:hover:bg-zinc-700 flex items-center gap-2"
+                            >
+                                <span className="shrink-0 text-zinc-500 dark:text-zinc-400">{item.badge}</span>
+                                <span className="font-mono text-blue-600 dark:text-blue-400 shrink-0">@{item.value}</span>
+                                <span className="truncate text-zinc-600 dark:text-zinc-300">{item.description}</span>
+                            </button>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
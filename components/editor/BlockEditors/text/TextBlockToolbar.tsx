@@ -1,6 +1,14 @@
-import { TypstBlock } from '@/lib/typst';
-import { Bold, Italic, Strikethrough, Sigma, Palette, Underline } from 'lucide-react';
+import { TypstBlock, type BibtexEntry, type LabelledBlockRef } from '@/lib/typst';
+import { Bold, Italic, Strikethrough, Sigma, Palette, Underline, AtSign, BookOpen } from 'lucide-react';
 import { RefObject } from 'react';
+import InsertPickerButton from './InsertPickerButton';
+
+const REFERENCE_TYPE_NAMES: Partial<Record<TypstBlock['type'], string>> = {
+    image: '图',
+    chart: '图',
+    table: '表',
+    math: '式',
+};
 
 interface TextBlockToolbarProps {
     block: TypstBlock;
@@ -8,6 +16,10 @@ interface TextBlockToolbarProps {
     applyFormat: (fmt: 'bold' | 'italic' | 'strike' | 'underline' | 'color', color?: string) => void;
     applyList: (kind: 'ordered' | 'bullet') => void;
     insertInlineMath: () => void;
+    referenceTargets: LabelledBlockRef[];
+    citationEntries: BibtexEntry[];
+    /** Inserts `@value` at the caret; shared by cross-references and citations */
+    insertReference: (label: string) => void;
     showColorPicker: boolean;
     setShowColorPicker: (show: boolean) => void;
     colorPickerRef: RefObject<HTMLDivElement | null>;
@@ -19,6 +31,9 @@ export default function TextBlockToolbar({
     applyFormat,
     applyList,
     insertInlineMath,
+    referenceTargets,
+    citationEntries,
+    insertReference,
     showColorPicker,
     setShowColorPicker,
     colorPickerRef
@@ -102,6 +117,30 @@ export default function TextBlockToolbar({
             >
                 <Sigma size={16} />
             </button>
+            <InsertPickerButton
+                icon={<AtSign size={16} />}
+                title="插入引用"
+                emptyText="暂无可引用的块，请先为图片、表格、图表或公式设置引用标签"
+                items={referenceTargets.map((target) => ({
+                    key: target.blockId,
+                    badge: REFERENCE_TYPE_NAMES[target.type] ?? '块',
+                    value: target.label,
+                    description: target.description,
+                }))}
+                onPick={insertReference}
+            />
+            <InsertPickerButton
+                icon={<BookOpen size={16} />}
+                title="插入文献引用"
+                emptyText="暂无文献，请先添加参考文献块并填写 BibTeX"
+                items={citationEntries.map((entry) => ({
+                    key: entry.key,
+                    badge: entry.year || '文献',
+                    value: entry.key,
+                    description: entry.title || entry.author,
+                }))}
+                onPick={insertReference}
+            />
             <div className="relative" ref={colorPickerRef}>
                 <button
                     type="button"
@@ -147,7 +186,7 @@ export default function TextBlockToolbar({
                     className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
                     title="段落行间距"
                 >
-                    <option value="">默认</option>
+                    <option value="">跟随文档</option>
                     <option value="0.8">0.8</option>
                     <option value="0.9">0.9</option>
                     <option value="1">1.0</option>
@@ -160,11 +199,12 @@ export default function TextBlockToolbar({
             <div className="flex items-center gap-2 ml-2">
                 <span className="text-xs text-zinc-600 dark:text-zinc-400">字体</span>
                 <select
-                    value={block.font ?? 'SimSun'}
-                    onChange={(e) => onUpdate({ font: e.target.value })}
+                    value={block.font ?? ''}
+                    onChange={(e) => onUpdate({ font: e.target.value || undefined })}
                     className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
                     title="段落字体"
                 >
+                    <option value="">跟随文档样式</option>
                     <option value="SimSun">宋体</option>
                     <option value="SimHei">黑体</option>
                     <option value="KaiTi">楷体</option>
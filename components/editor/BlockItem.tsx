@@ -2,7 +2,7 @@
 
 import React from 'react';
 
-import { TypstBlock, BlockType } from '@/lib/typst';
+import { TypstBlock, BlockType, isLabelableBlock, normalizeTypstLabel, defaultBibliographyPayload, defaultTocPayload, countBibliographyBlocks, type TypstDiagnostic } from '@/lib/typst';
 import { Trash2, Plus, ChevronUp, ChevronDown, ChevronRight } from 'lucide-react';
 import TitleBlockEditor from './BlockEditors/TitleBlockEditor';
 import TextBlockEditor from './BlockEditors/TextBlockEditor';
@@ -13,6 +13,8 @@ import MathBlockEditor from './BlockEditors/MathBlockEditor';
 import ChartBlockEditor, { type ChartRenderRequest } from './BlockEditors/ChartBlockEditor';
 import VerticalSpaceBlockEditor from './BlockEditors/VerticalSpaceBlockEditor';
 import InputFieldBlockEditor from './BlockEditors/InputFieldBlockEditor';
+import BibliographyBlockEditor from './BlockEditors/BibliographyBlockEditor';
+import TocBlockEditor from './BlockEditors/TocBlockEditor';
 import CompositeRowItem from './CompositeRowItem';
 
 import {
@@ -39,21 +41,53 @@ interface BlockItemProps {
   imageWidthUnit?: 'percent' | 'pt';
   /** Callback to move existing block(s) into a composite row */
   onMoveBlockToComposite?: (compositeBlockId: string, blockIdToMove: string | string[]) => void;
+  /** Compile errors/warnings located in this block's generated source */
+  diagnostics?: TypstDiagnostic[];
+  /** Insert new blocks right after this one (e.g. results generated from a table) */
+  onInsertAfter?: (blocks: TypstBlock[]) => void;
 }
 
-const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlocks, availableTables, onUpdate, onDelete, onAddAfter, onMove, onUploadImage, onTableSelectionSnapshot, lastTableSelection, onRenderChart, onClick, imageWidthUnit = 'percent', onMoveBlockToComposite }: BlockItemProps) {
+// Compile errors/warnings reported for a block, shown above its toolbar.
+function DiagnosticNotes({ diagnostics }: { diagnostics?: TypstDiagnostic[] }) {
+  if (!diagnostics?.length) return null;
+  return (
+    <div className="mb-2 space-y-0.5">
+      {diagnostics.map((d, i) => (
+        <div
+          key={i}
+          className={
+            "text-[11px] font-mono px-2 py-1 rounded " +
+            (d.severity === 'error'
+              ? "bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-300"
+              : "bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300")
+          }
+        >
+          {d.severity === 'error' ? '错误' : '警告'}：{d.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlocks, availableTables, onUpdate, onDelete, onAddAfter, onMove, onUploadImage, onTableSelectionSnapshot, lastTableSelection, onRenderChart, onClick, imageWidthUnit = 'percent', onMoveBlockToComposite, diagnostics, onInsertAfter }: BlockItemProps) {
 
   const effectiveText = (block.content ?? '').replace(/\u200B/g, '').trim();
   const isAnswerBlank = block.type === 'paragraph' && !!block.placeholder && effectiveText.length === 0;
+  const diagnosticRing = !diagnostics?.length
+    ? ''
+    : diagnostics.some((d) => d.severity === 'error')
+      ? ' ring-2 ring-red-400 dark:ring-red-600'
+      : ' ring-2 ring-amber-300 dark:ring-amber-600';
 
   if (block.type === 'cover') {
     const collapsed = block.uiCollapsed !== false;
     const children = Array.isArray(block.children) ? block.children : [];
     return (
       <div
-        className="group relative border rounded-lg p-3 cursor-pointer transition-colors duration-200 border-zinc-200 dark:border-zinc-700 hover:border-zinc-400 dark:hover:border-zinc-500 bg-white dark:bg-zinc-900"
+        className={"group relative border rounded-lg p-3 cursor-pointer transition-colors duration-200 border-zinc-200 dark:border-zinc-700 hover:border-zinc-400 dark:hover:border-zinc-500 bg-white dark:bg-zinc-900" + diagnosticRing}
         onClick={onClick}
       >
+        <DiagnosticNotes diagnostics={diagnostics} />
         <div className="flex items-center gap-2 mb-2">
           <button
             type="button"
@@ -176,10 +210,13 @@ const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlo
         "group relative border rounded-lg p-3 cursor-pointer transition-colors duration-200 " +
         (isAnswerBlank
           ? "border-dashed border-2 border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 hover:border-blue-300 dark:hover:border-blue-700"
-          : "border-zinc-200 dark:border-zinc-700 hover:border-zinc-400 dark:hover:border-zinc-500 bg-white dark:bg-zinc-900")
+          : "border-zinc-200 dark:border-zinc-700 hover:border-zinc-400 dark:hover:border-zinc-500 bg-white dark:bg-zinc-900") +
+        diagnosticRing
       }
       onClick={onClick}
     >
+      {/* 编译诊断 */}
+      <DiagnosticNotes diagnostics={diagnostics} />
       {/* 工具栏 */}
       <div className="flex items-center gap-2 mb-2 flex-wrap">
         <select
@@ -240,6 +277,20 @@ const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlo
               });
               return;
             }
+            if (nextType === 'bibliography' && block.type !== 'bibliography') {
+              onUpdate({
+                type: nextType,
+                content: JSON.stringify(defaultBibliographyPayload()),
+              });
+              return;
+            }
+            if (nextType === 'toc' && block.type !== 'toc') {
+              onUpdate({
+                type: nextType,
+                content: JSON.stringify(defaultTocPayload()),
+              });
+              return;
+            }
             if (nextType === 'composite_row' && block.type !== 'composite_row') {
               onUpdate({
                 type: nextType,
@@ -263,6 +314,14 @@ const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlo
           <option value="vertical_space">空白行</option>
           <option value="input_field">输入</option>
           <option value="composite_row">复合行</option>
+          <option
+            value="bibliography"
+            disabled={block.type !== 'bibliography' && countBibliographyBlocks(allBlocks) > 0}
+            title="文档只能有一个参考文献块"
+          >
+            参考文献
+          </option>
+          <option value="toc">目录</option>
         </select>
 
         {(block.type === 'paragraph') && (
@@ -288,6 +347,17 @@ const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlo
           </select>
         )}
 
+        {isLabelableBlock(block) && (
+          <input
+            type="text"
+            value={block.label ?? ''}
+            onChange={(e) => onUpdate({ label: normalizeTypstLabel(e.target.value) || undefined })}
+            placeholder="引用标签"
+            className="text-xs px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 w-28 font-mono"
+            title="引用标签 (正文中使用 @标签 引用)"
+          />
+        )}
+
         <div className="ml-auto flex gap-1">
           <button
             onClick={() => onMove('up')}
@@ -326,21 +396,33 @@ const BlockItem = React.memo(function BlockItem({ block, isFirst, isLast, allBlo
           availableTables={availableTables}
           onRenderChart={onRenderChart}
           lastTableSelection={lastTableSelection}
+          onInsertAfter={onInsertAfter}
         />
       ) : block.type === 'image' ? (
         <ImageBlockEditor block={block} onUpdate={onUpdate} onUploadImage={onUploadImage} widthUnit={imageWidthUnit} />
       ) : block.type === 'math' ? (
         <MathBlockEditor block={block} onUpdate={onUpdate} />
       ) : block.type === 'table' ? (
-        <TableBlockEditor block={block} onUpdate={onUpdate} onTableSelectionSnapshot={onTableSelectionSnapshot} />
+        <TableBlockEditor
+          block={block}
+          onUpdate={onUpdate}
+          onTableSelectionSnapshot={onTableSelectionSnapshot}
+          allBlocks={allBlocks}
+          lastTableSelection={lastTableSelection}
+          onInsertAfter={onInsertAfter}
+        />
       ) : block.type === 'heading' ? (
         <TitleBlockEditor block={block} onUpdate={onUpdate} />
       ) : block.type === 'paragraph' || block.type === 'list' ? (
-        <TextBlockEditor block={block} onUpdate={onUpdate} />
+        <TextBlockEditor block={block} onUpdate={onUpdate} allBlocks={allBlocks} />
       ) : block.type === 'vertical_space' ? (
         <VerticalSpaceBlockEditor block={block} onUpdate={onUpdate} />
       ) : block.type === 'input_field' ? (
         <InputFieldBlockEditor block={block} onUpdate={onUpdate} />
+      ) : block.type === 'bibliography' ? (
+        <BibliographyBlockEditor block={block} onUpdate={onUpdate} allBlocks={allBlocks} />
+      ) : block.type === 'toc' ? (
+        <TocBlockEditor block={block} onUpdate={onUpdate} allBlocks={allBlocks} />
       ) : (
         <input
           type="text"
@@ -376,6 +458,8 @@ function getTypeName(type: BlockType): string {
     input_field: '输入',
     cover: '封面',
     composite_row: '复合行',
+    bibliography: '参考文献',
+    toc: '目录',
   };
   return names[type] || '内容';
 }
@@ -3,15 +3,28 @@ import { useRouter } from 'next/navigation';
 import { X, FileText, ArrowLeft } from 'lucide-react';
 import { useWorkspaceStore } from '@/stores/useWorkspaceStore';
 import { listProjects, Project } from '@/lib/api';
+import { fillTemplateVariables, stripDocumentSettings, type TemplateVariable } from '@/lib/typst';
+
+// Local calendar date as YYYY-MM-DD, the value format of <input type="date">.
+function todayIso(): string {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const INPUT_CLASS =
+    'w-full px-4 py-2.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all';
 
 export default function TemplateSelectionModal() {
     const router = useRouter();
-    const { showTemplateModal, setShowTemplateModal, createProject } = useWorkspaceStore();
+    const { showTemplateModal, setShowTemplateModal, createProject, updateProject } = useWorkspaceStore();
     const [templates, setTemplates] = useState<Project[]>([]);
     const [loadingTemplates, setLoadingTemplates] = useState(false);
     const [creatingFromTemplate, setCreatingFromTemplate] = useState(false);
     const [selectedTemplate, setSelectedTemplate] = useState<Project | null>(null);
     const [newProjectName, setNewProjectName] = useState('');
+    // Variables the selected template declares, and the values entered for the new report.
+    const [variables, setVariables] = useState<TemplateVariable[]>([]);
+    const [variableValues, setVariableValues] = useState<Record<string, string>>({});
 
     useEffect(() => {
         if (showTemplateModal) {
@@ -74,7 +87,7 @@ export default function TemplateSelectionModal() {
                                     value={newProjectName}
                                     onChange={(e) => setNewProjectName(e.target.value)}
                                     placeholder="请输入项目名称"
-                                    className="w-full px-4 py-2.5 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-950 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all"
+                                    className={INPUT_CLASS}
                                     onKeyDown={(e) => {
                                         if (e.key === 'Enter' && newProjectName.trim()) {
                                             // Handle create
@@ -84,6 +97,29 @@ export default function TemplateSelectionModal() {
                                 />
                             </div>
 
+                            {variables.length > 0 && (
+                                <div className="space-y-3">
+                                    <div className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                        填写模板信息
+                                        <span className="ml-2 text-xs font-normal text-zinc-400">将填入封面、信息栏和页眉页脚，之后可在项目设置中修改</span>
+                                    </div>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                        {variables.map((v) => (
+                                            <label key={v.key} className="block">
+                                                <span className="block text-xs text-zinc-500 dark:text-zinc-400 mb-1">{v.label}</span>
+                                                <input
+                                                    type={v.type === 'date' ? 'date' : 'text'}
+                                                    inputMode={v.type === 'number' ? 'numeric' : undefined}
+                                                    value={variableValues[v.key] ?? ''}
+                                                    onChange={(e) => setVariableValues({ ...variableValues, [v.key]: e.target.value })}
+                                                    className={INPUT_CLASS}
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800/30 flex items-start gap-3">
                                 <div className="p-2 bg-blue-100 dark:bg-blue-800/50 rounded-lg text-blue-600 dark:text-blue-300 shrink-0">
                                     <FileText size={20} />
@@ -113,6 +149,14 @@ export default function TemplateSelectionModal() {
                                         setCreatingFromTemplate(true);
                                         try {
                                             const p = await createProject(newProjectName.trim(), 'report', selectedTemplate.id);
+                                            if (variables.length > 0) {
+                                                // The project already exists, so a failed fill is reported and the report still opens.
+                                                try {
+                                                    await updateProject(p.id, { typst_code: fillTemplateVariables(p.typst_code ?? '', variableValues) });
+                                                } catch (err) {
+                                                    alert('项目已创建，但模板信息保存失败，请在项目设置中重新填写: ' + (err instanceof Error ? err.message : '未知错误'));
+                                                }
+                                            }
                                             setShowTemplateModal(false);
                                             setSelectedTemplate(null);
                                             router.push(`/projects/${p.id}`);
@@ -160,6 +204,12 @@ export default function TemplateSelectionModal() {
                                             onClick={() => {
                                                 setSelectedTemplate(t);
                                                 setNewProjectName(t.title); // Default name is template title
+                                                const declared = stripDocumentSettings(t.typst_code ?? '').settings.templateVariables;
+                                                setVariables(declared);
+                                                // Template values act as defaults; dates default to today.
+                                                setVariableValues(Object.fromEntries(
+                                                    declared.map((v) => [v.key, v.value || (v.type === 'date' ? todayIso() : '')])
+                                                ));
                                             }}
                                             className="group p-4 border border-zinc-200 dark:border-zinc-800 rounded-xl hover:border-blue-500 hover:shadow-md cursor-pointer transition-all bg-white dark:bg-zinc-900 flex items-start gap-4"
                                         >
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { splitTokenLines, tokenizeCode } from '../code-highlight';
+
+const kinds = (code: string, language: string) =>
+  tokenizeCode(code, language).filter((t) => t.kind !== 'plain').map((t) => [t.kind, t.text]);
+
+describe('tokenizeCode', () => {
+  it('reproduces the input exactly', () => {
+    const src = 'def f(x):\n    """doc\n    string"""\n    return x * 2.5e-3  # note\n';
+    expect(tokenizeCode(src, 'python').map((t) => t.text).join('')).toBe(src);
+  });
+
+  it('highlights python keywords, calls, strings, numbers and comments', () => {
+    expect(kinds('def f(x):\n    return print("a#b", 10)  # c', 'python')).toEqual([
+      ['keyword', 'def'],
+      ['function', 'f'],
+      ['keyword', 'return'],
+      ['function', 'print'],
+      ['string', '"a#b"'],
+      ['number', '10'],
+      ['comment', '# c'],
+    ]);
+  });
+
+  it('handles C preprocessor lines and block comments', () => {
+    expect(kinds('#include <stdio.h>\n/* a\nb */ int x = 0x1F;', 'c')).toEqual([
+      ['keyword', '#include'],
+      ['comment', '/* a\nb */'],
+      ['keyword', 'int'],
+      ['number', '0x1F'],
+    ]);
+  });
+
+  it('tells MATLAB transposes from strings', () => {
+    expect(kinds("y = x' + A'; s = 'hi'; % done", 'm')).toEqual([
+      ['string', "'hi'"],
+      ['comment', '% done'],
+    ]);
+  });
+
+  it('falls back to plain text for unknown languages', () => {
+    expect(tokenizeCode('a "b" # c', 'brainfuck')).toEqual([{ kind: 'plain', text: 'a "b" # c' }]);
+  });
+});
+
+describe('splitTokenLines', () => {
+  it('splits multi-line tokens into per-line tokens', () => {
+    const lines = splitTokenLines(tokenizeCode('/* a\nb */\n\nx', 'c'));
+    expect(lines).toEqual([
+      [{ kind: 'comment', text: '/* a' }],
+      [{ kind: 'comment', text: 'b */' }],
+      [],
+      [{ kind: 'plain', text: 'x' }],
+    ]);
+  });
+});
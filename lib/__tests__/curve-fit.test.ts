@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fitCurve,
+  evaluateFit,
+  sampleFit,
+  fitEquation,
+  formatR2,
+  rawCoefficients,
+  CurveFitError,
+  type FitKind,
+} from '../curve-fit';
+
+const pointsOf = (xs: number[], f: (x: number) => number) => xs.map((x) => ({ x, y: f(x) }));
+const unscaled = (kind: FitKind, coefficients: number[]) => ({ kind, coefficients, mean: 0, scale: 1 });
+
+describe('fitCurve', () => {
+  it('recovers an exact line', () => {
+    const fit = fitCurve(pointsOf([1, 2, 3, 4], (x) => 2.5 * x + 1), 'linear');
+    const [intercept, slope] = rawCoefficients(fit);
+    expect(intercept).toBeCloseTo(1);
+    expect(slope).toBeCloseTo(2.5);
+    expect(fit.r2).toBeCloseTo(1);
+    expect(fit.xMin).toBe(1);
+    expect(fit.xMax).toBe(4);
+  });
+
+  it('fits polynomials of the requested degree', () => {
+    const fit = fitCurve(pointsOf([100, 101, 102, 103, 104], (x) => 0.5 * x * x - 3 * x + 2), 'polynomial', 2);
+    expect(fit.coefficients).toHaveLength(3);
+    expect(evaluateFit(fit, 105)).toBeCloseTo(0.5 * 105 * 105 - 3 * 105 + 2, 4);
+    expect(fit.r2).toBeCloseTo(1);
+  });
+
+  it('fits data at very small and very large x magnitudes', () => {
+    const tiny = fitCurve(pointsOf([1e-7, 2e-7, 3e-7, 4e-7, 5e-7], (x) => 3e6 * x + 2), 'linear');
+    expect(rawCoefficients(tiny)[0]).toBeCloseTo(2);
+    expect(rawCoefficients(tiny)[1] / 3e6).toBeCloseTo(1);
+    expect(tiny.r2).toBeCloseTo(1);
+
+    const cubic = (t: number) => 2e-9 * t ** 3 - 1e-5 * t ** 2 + 0.01 * t + 3;
+    const ms = fitCurve(pointsOf([1000, 2500, 4000, 5500, 7000, 8500], cubic), 'polynomial', 3);
+    expect(evaluateFit(ms, 6000) / cubic(6000)).toBeCloseTo(1, 6);
+    expect(ms.r2).toBeCloseTo(1);
+
+    // Around 1e9 the raw powers of x cancel to nothing; the fit is evaluated in scaled units.
+    const x0 = 1e9;
+    const parabola = (x: number) => 0.02 * (x - x0) ** 2 + 0.5;
+    const far = fitCurve(pointsOf([-2, -1, 0, 1, 2, 3, 4].map((d) => x0 + d), parabola), 'polynomial', 2);
+    expect(far.r2).toBeCloseTo(1, 9);
+    expect(evaluateFit(far, x0 + 5)).toBeCloseTo(parabola(x0 + 5), 6);
+    expect(evaluateFit(far, x0)).toBeCloseTo(0.5, 6);
+  });
+
+  it('fits exponential and logarithmic curves', () => {
+    const exp = fitCurve(pointsOf([0, 1, 2, 3], (x) => 3 * Math.exp(0.4 * x)), 'exponential');
+    expect(rawCoefficients(exp)[0]).toBeCloseTo(3);
+    expect(rawCoefficients(exp)[1]).toBeCloseTo(0.4);
+    expect(evaluateFit(exp, 5)).toBeCloseTo(3 * Math.exp(2));
+    const log = fitCurve(pointsOf([1, 2, 4, 8], (x) => 1 + 2 * Math.log(x)), 'logarithmic');
+    expect(rawCoefficients(log)[0]).toBeCloseTo(1);
+    expect(rawCoefficients(log)[1]).toBeCloseTo(2);
+    expect(evaluateFit(log, 16)).toBeCloseTo(1 + 2 * Math.log(16));
+  });
+
+  it('reports R² below 1 for noisy data', () => {
+    const fit = fitCurve([{ x: 1, y: 1 }, { x: 2, y: 3 }, { x: 3, y: 2 }, { x: 4, y: 5 }], 'linear');
+    expect(fit.r2).toBeGreaterThan(0);
+    expect(fit.r2).toBeLessThan(1);
+  });
+
+  it('rejects data the model cannot take', () => {
+    expect(() => fitCurve([{ x: 1, y: 1 }], 'linear')).toThrow(CurveFitError);
+    expect(() => fitCurve(pointsOf([1, 2, 3], (x) => x - 2), 'exponential')).toThrow(CurveFitError);
+    expect(() => fitCurve(pointsOf([0, 1, 2], (x) => x), 'logarithmic')).toThrow(CurveFitError);
+    expect(() => fitCurve(pointsOf([1, 1, 1], (x) => x), 'linear')).toThrow(CurveFitError);
+  });
+});
+
+describe('sampleFit', () => {
+  it('uses the end points for lines and samples curves', () => {
+    const line = fitCurve(pointsOf([0, 2], (x) => x), 'linear');
+    expect(sampleFit(line)).toHaveLength(2);
+    const curve = fitCurve(pointsOf([1, 2, 3], (x) => x * x), 'polynomial', 2);
+    const pts = sampleFit(curve, 5);
+    expect(pts.map((p) => p.x)).toEqual([1, 1.5, 2, 2.5, 3]);
+    expect(pts[1].y).toBeCloseTo(2.25);
+  });
+});
+
+describe('fitEquation', () => {
+  it('formats each model', () => {
+    expect(fitEquation(unscaled('linear', [1, 2.5]))).toBe('y = 2.5 x + 1');
+    expect(fitEquation(unscaled('linear', [-1, 2.5]), 'text')).toBe('y = 2.5x - 1');
+    expect(fitEquation(unscaled('polynomial', [2, -3, 0.5]))).toBe('y = 0.5 x^{2} - 3 x + 2');
+    expect(fitEquation(unscaled('polynomial', [0, 1, -1]), 'text')).toBe('y = -x^2 + x');
+    expect(fitEquation(unscaled('exponential', [3, -0.4]))).toBe('y = 3 e^{-0.4 x}');
+    expect(fitEquation(unscaled('logarithmic', [1, 2]))).toBe('y = 1 + 2 \\ln x');
+    expect(fitEquation(unscaled('linear', [0, 0.000012345]))).toBe('y = 1.235 \\times 10^{-5} x');
+  });
+
+  it('formats R²', () => {
+    expect(formatR2(0.998712)).toBe('R^{2} = 0.9987');
+    expect(formatR2(0.5, 'text')).toBe('R² = 0.5000');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MathCursor,
+  createMathNode,
+  deleteMathBackward,
+  extendMathMatrix,
+  getMathRow,
+  insertMathNode,
+  mathAtomDisplay,
+  mathRowToLatex,
+  moveMathCursor,
+  moveMathCursorVertical,
+  parseLatexMath,
+} from '../math-visual';
+
+const roundTrip = (latex: string) => mathRowToLatex(parseLatexMath(latex));
+
+describe('parseLatexMath / mathRowToLatex', () => {
+  it('round-trips the structures the editor builds', () => {
+    expect(roundTrip('\\frac{a+b}{2}')).toBe('\\frac{a+b}{2}');
+    expect(roundTrip('\\sqrt[3]{x}+\\sqrt{y}')).toBe('\\sqrt[3]{x}+\\sqrt{y}');
+    expect(roundTrip('x^{2}+y_i')).toBe('x^{2}+y_{i}');
+    expect(roundTrip('\\sum_{i=1}^{n} x_{i}')).toBe('\\sum_{i=1}^{n}x_{i}');
+    expect(roundTrip('\\left( \\frac{1}{2} \\right)')).toBe('\\left(\\frac{1}{2}\\right)');
+    expect(roundTrip('\\vec{F}=m\\vec{a}')).toBe('\\vec{F}=m\\vec{a}');
+    expect(roundTrip('\\alpha x')).toBe('\\alpha x');
+  });
+
+  it('parses matrices into row-major cells', () => {
+    const [m] = parseLatexMath('\\begin{bmatrix} a & b \\\\ c & d \\\\ \\end{bmatrix}');
+    expect(m).toMatchObject({ type: 'matrix', env: 'bmatrix', cols: 2 });
+    expect(m.type === 'matrix' && m.slots.map(mathRowToLatex)).toEqual(['a', 'b', 'c', 'd']);
+    expect(mathRowToLatex([m])).toBe('\\begin{bmatrix} a & b \\\\ c & d \\end{bmatrix}');
+  });
+
+  it('keeps text commands and unknown environments verbatim', () => {
+    expect(parseLatexMath('\\text{kg}')).toEqual([{ type: 'atom', latex: '\\text{kg}' }]);
+    expect(roundTrip('\\begin{aligned} a &= b \\end{aligned}')).toBe('\\begin{aligned} a &= b \\end{aligned}');
+    expect(roundTrip('a}b')).toBe('a}b');
+  });
+});
+
+describe('cursor editing', () => {
+  it('inserts structures and moves into their slots', () => {
+    let root = parseLatexMath('x');
+    let cursor: MathCursor = { path: [], index: 1 };
+    ({ root, cursor } = insertMathNode(root, cursor, createMathNode('sup')));
+    expect(cursor).toEqual({ path: [{ node: 1, slot: 0 }], index: 0 });
+    ({ root, cursor } = insertMathNode(root, cursor, { type: 'atom', latex: '2' }));
+    expect(mathRowToLatex(root)).toBe('x^{2}');
+    cursor = moveMathCursor(root, cursor, 'right');
+    expect(cursor).toEqual({ path: [], index: 2 });
+  });
+
+  it('moves between fraction slots and deletes empty structures', () => {
+    let root = parseLatexMath('\\frac{1}{}');
+    let cursor: MathCursor = { path: [{ node: 0, slot: 0 }], index: 1 };
+    cursor = moveMathCursorVertical(root, cursor, 'down');
+    expect(cursor).toEqual({ path: [{ node: 0, slot: 1 }], index: 0 });
+    ({ root, cursor } = deleteMathBackward(root, cursor));
+    expect(cursor).toEqual({ path: [], index: 0 });
+    expect(mathRowToLatex(root)).toBe('\\frac{1}{}');
+
+    root = parseLatexMath('a\\sqrt{}');
+    ({ root, cursor } = deleteMathBackward(root, { path: [{ node: 1, slot: 0 }], index: 0 }));
+    expect(mathRowToLatex(root)).toBe('a');
+    expect(cursor).toEqual({ path: [], index: 1 });
+  });
+
+  it('grows the matrix around the cursor', () => {
+    const root = parseLatexMath('\\begin{pmatrix} a & b \\end{pmatrix}');
+    const cursor: MathCursor = { path: [{ node: 0, slot: 1 }], index: 1 };
+    const wider = extendMathMatrix(root, cursor, 'col');
+    expect(mathRowToLatex(wider)).toBe('\\begin{pmatrix} a & b &  \\end{pmatrix}');
+    const taller = extendMathMatrix(root, cursor, 'row');
+    expect(mathRowToLatex(taller)).toBe('\\begin{pmatrix} a & b \\\\  &  \\end{pmatrix}');
+    expect(getMathRow(taller, [{ node: 0, slot: 3 }])).toEqual([]);
+  });
+});
+
+describe('mathAtomDisplay', () => {
+  it('maps commands to glyphs', () => {
+    expect(mathAtomDisplay('\\alpha')).toEqual({ text: 'α', upright: false });
+    expect(mathAtomDisplay('\\Omega')).toEqual({ text: 'Ω', upright: true });
+    expect(mathAtomDisplay('\\sin')).toEqual({ text: 'sin', upright: true });
+    expect(mathAtomDisplay('x')).toEqual({ text: 'x', upright: false });
+    expect(mathAtomDisplay('\\mathrm{d}')).toEqual({ text: 'd', upright: true });
+  });
+});
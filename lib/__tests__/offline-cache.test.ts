@@ -0,0 +1,135 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Project } from '../api';
+
+vi.mock('../api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../api')>()),
+  getProject: vi.fn(),
+  updateProject: vi.fn(),
+}));
+
+const api = await import('../api');
+const {
+  cacheProject,
+  getCachedProject,
+  getQueuedUpdate,
+  listQueuedUpdates,
+  queueProjectUpdate,
+  removeQueuedUpdate,
+} = await import('../offline-cache');
+const { useEditorStore } = await import('@/stores/useEditorStore');
+
+const getProject = vi.mocked(api.getProject);
+const updateProject = vi.mocked(api.updateProject);
+
+const project = (id: string, typst_code: string, updated_at: string): Project => ({
+  id,
+  title: `Project ${id}`,
+  type: 'report',
+  typst_code,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at,
+});
+
+const unreachable = () => new TypeError('Failed to fetch');
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  for (const entry of await listQueuedUpdates()) await removeQueuedUpdate(entry.projectId);
+  useEditorStore.getState().reset();
+});
+
+describe('offline queue', () => {
+  it('keeps one entry per project, replays oldest first and leaves newer saves queued', async () => {
+    const now = vi.spyOn(Date, 'now');
+    now.mockReturnValue(100);
+    await queueProjectUpdate({ projectId: 'b', title: 'B', typst_code: 'b1' });
+    now.mockReturnValue(200);
+    await queueProjectUpdate({ projectId: 'a', title: 'A', typst_code: 'a1' });
+    now.mockReturnValue(300);
+    await queueProjectUpdate({ projectId: 'b', title: 'B', typst_code: 'b2' });
+    now.mockRestore();
+
+    expect((await listQueuedUpdates()).map((e) => [e.projectId, e.typst_code])).toEqual([
+      ['a', 'a1'],
+      ['b', 'b2'],
+    ]);
+
+    await removeQueuedUpdate('b', 100);
+    expect((await getQueuedUpdate('b'))?.typst_code).toBe('b2');
+    await removeQueuedUpdate('b', 300);
+    expect(await getQueuedUpdate('b')).toBeNull();
+  });
+});
+
+describe('editor store offline handling', () => {
+  it('opens the cached copy when the backend is unreachable', async () => {
+    await cacheProject(project('p-cached', '= Cached', '2026-02-01T00:00:00Z'));
+    getProject.mockRejectedValue(unreachable());
+
+    await useEditorStore.getState().loadProject('p-cached');
+    const state = useEditorStore.getState();
+    expect(state.syncStatus).toBe('offline');
+    expect(state.code).toBe('= Cached');
+    expect(state.savedRevision?.updatedAt).toBe('2026-02-01T00:00:00Z');
+  });
+
+  it('opens queued edits on top of the revision they were based on', async () => {
+    await cacheProject(project('p-queued', '= Base', 'rev-1'));
+    await queueProjectUpdate({ projectId: 'p-queued', title: 'Edited', typst_code: '= Mine', base_updated_at: 'rev-1' });
+    getProject.mockRejectedValue(unreachable());
+
+    await useEditorStore.getState().loadProject('p-queued');
+    const state = useEditorStore.getState();
+    expect(state.title).toBe('Edited');
+    expect(state.code).toBe('= Mine');
+    expect(state.savedRevision).toEqual({ updatedAt: 'rev-1', code: '= Base' });
+    expect(state.pendingSyncCount).toBe(1);
+  });
+
+  it('replays queued saves in order and stops at the first network failure', async () => {
+    const now = vi.spyOn(Date, 'now');
+    now.mockReturnValue(1);
+    await queueProjectUpdate({ projectId: 'x', title: 'X', typst_code: 'x', base_updated_at: 'x-1' });
+    now.mockReturnValue(2);
+    await queueProjectUpdate({ projectId: 'y', title: 'Y', typst_code: 'y', base_updated_at: 'y-1' });
+    now.mockReturnValue(3);
+    await queueProjectUpdate({ projectId: 'z', title: 'Z', typst_code: 'z', base_updated_at: 'z-1' });
+    now.mockRestore();
+
+    updateProject
+      .mockResolvedValueOnce(project('x', 'x', 'x-2'))
+      .mockRejectedValueOnce(unreachable());
+
+    await useEditorStore.getState().syncPendingSaves();
+    expect(updateProject.mock.calls.map(([id, updates]) => [id, updates.base_updated_at])).toEqual([
+      ['x', 'x-1'],
+      ['y', 'y-1'],
+    ]);
+    expect(useEditorStore.getState().syncStatus).toBe('offline');
+    expect((await listQueuedUpdates()).map((e) => e.projectId)).toEqual(['y', 'z']);
+    expect((await getCachedProject('x'))?.updated_at).toBe('x-2');
+
+    updateProject.mockImplementation(async (id) => project(id, id, `${id}-2`));
+    await useEditorStore.getState().syncPendingSaves();
+    expect(useEditorStore.getState()).toMatchObject({ syncStatus: 'online', pendingSyncCount: 0 });
+    expect(await listQueuedUpdates()).toEqual([]);
+  });
+
+  it('opens the merge dialog when a replayed save conflicts', async () => {
+    await cacheProject(project('p-conflict', '= Base\n\nShared', 'rev-1'));
+    await queueProjectUpdate({ projectId: 'p-conflict', title: 'T', typst_code: '= Mine\n\nShared', base_updated_at: 'rev-1' });
+    const theirs = project('p-conflict', '= Theirs\n\nShared', 'rev-2');
+    getProject.mockResolvedValue(theirs);
+    updateProject.mockRejectedValue(new api.ProjectConflictError(theirs));
+
+    await useEditorStore.getState().loadProject('p-conflict');
+    await vi.waitFor(() => expect(useEditorStore.getState().saveConflict).not.toBeNull());
+
+    const { saveConflict } = useEditorStore.getState();
+    expect(saveConflict?.latest.updated_at).toBe('rev-2');
+    expect(saveConflict?.hunks.some((h) => h.kind === 'conflict')).toBe(true);
+    expect(updateProject.mock.calls[0][1].base_updated_at).toBe('rev-1');
+    expect(await getQueuedUpdate('p-conflict')).not.toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { NodeCompiler } from '@myriaddreamin/typst-ts-node-compiler';
+import {
+  parseDelimitedText,
+  toDelimitedText,
+  parseSheetRange,
+  formatSheetRange,
+  sheetUsedRange,
+  sheetToTablePayload,
+  tablePayloadToSheet,
+  readXlsxWorkbook,
+  writeXlsxWorkbook,
+  type SpreadsheetSheet,
+} from '../table-io';
+import { blocksToTypst } from '../typst/serialize';
+import { unescapeTypstMarkup, type PersistedTablePayload } from '../typst';
+
+const sheetOf = (rows: string[][], merges: SpreadsheetSheet['merges'] = []): SpreadsheetSheet => ({
+  name: 'Data',
+  rows: rows.map((row) => row.map((value) => ({ value }))),
+  merges,
+});
+
+describe('CSV / TSV', () => {
+  it('parses quoted fields and detects the delimiter', () => {
+    expect(parseDelimitedText('a,"b,c","say ""hi"""\r\n1,2,"line\nbreak"\n\n')).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['1', '2', 'line\nbreak'],
+    ]);
+    expect(parseDelimitedText('x\ty\n1\t2')).toEqual([['x', 'y'], ['1', '2']]);
+    expect(parseDelimitedText('x;y\n1,5;2')).toEqual([['x', 'y'], ['1,5', '2']]);
+  });
+
+  it('round-trips through toDelimitedText', () => {
+    const rows = [['a', 'b,c'], ['"q"', 'x\ny']];
+    expect(parseDelimitedText(toDelimitedText(rows))).toEqual(rows);
+  });
+});
+
+describe('Sheet <-> table payload', () => {
+  it('parses and formats ranges', () => {
+    expect(parseSheetRange('c5:b2')).toEqual({ r1: 1, c1: 1, r2: 4, c2: 2 });
+    expect(parseSheetRange('B3')).toEqual({ r1: 2, c1: 1, r2: 2, c2: 1 });
+    expect(parseSheetRange('oops')).toBeNull();
+    expect(formatSheetRange({ r1: 0, c1: 0, r2: 9, c2: 27 })).toBe('A1:AB10');
+    expect(sheetUsedRange(sheetOf([['', ''], ['', 'x']]))).toEqual({ r1: 1, c1: 1, r2: 1, c2: 1 });
+  });
+
+  it('maps merges to rowspan/colspan, clipped to the range', () => {
+    const sheet = sheetOf(
+      [
+        ['组', '', 'x'],
+        ['a', 'b', 'c'],
+        ['d', 'e', 'f'],
+      ],
+      [{ r1: 0, c1: 0, r2: 0, c2: 1 }, { r1: 1, c1: 2, r2: 2, c2: 2 }]
+    );
+    const payload = sheetToTablePayload(sheet, { r1: 0, c1: 0, r2: 2, c2: 2 });
+    expect(payload.cells[0][0]).toMatchObject({ content: '组', colspan: 2 });
+    expect(payload.cells[0][1]).toMatchObject({ hidden: true });
+    expect(payload.cells[1][2]).toMatchObject({ content: 'c', rowspan: 2 });
+
+    const clipped = sheetToTablePayload(sheet, { r1: 0, c1: 1, r2: 1, c2: 2 });
+    expect(clipped.cells[0][0]).toEqual({ content: '' });
+    expect(clipped.cells[1][1]).toEqual({ content: 'c' });
+  });
+
+  it('keeps supported formulas and imports the cached value of the rest', () => {
+    const sheet: SpreadsheetSheet = {
+      name: 'Data',
+      rows: [
+        [{ value: '2' }, { value: '100' }, { value: '6', formula: 'A1*3' }],
+        [{ value: '2', formula: 'LOG10(B1)' }, { value: 'yes', formula: 'IF(A1>1,"yes","no")' }, { value: '7', formula: 'Sheet2!A1' }],
+        [{ value: '2100', formula: 'A1&B1' }, { value: '8', formula: 'SUM(A1:D1)' }, { value: '' }],
+      ],
+      merges: [],
+    };
+    const payload = sheetToTablePayload(sheet, { r1: 0, c1: 0, r2: 2, c2: 2 });
+    expect(payload.cells[0][2]).toEqual({ content: '6', formula: '=A1*3' });
+    expect(payload.cells[1][0]).toEqual({ content: '2', formula: '=LOG10(B1)' });
+    expect(payload.cells[1].slice(1)).toEqual([{ content: 'yes' }, { content: '7' }]);
+    expect(payload.cells[2].slice(0, 2)).toEqual([{ content: '2100' }, { content: '8' }]);
+  });
+
+  it('imports cell text as literal Typst markup', () => {
+    const values = ['$5', 'me@lab.org', 'a_b*c', '#x [y] <z>', 'C:\\dir', 'a//b /* c', '`k` ~'];
+    const payload = sheetToTablePayload(sheetOf([values]), { r1: 0, c1: 0, r2: 0, c2: values.length - 1 });
+    const code = blocksToTypst([{ id: 't', type: 'table', content: JSON.stringify(payload) }]);
+
+    const compiler = NodeCompiler.create();
+    const result = compiler.compile({
+      mainFileContent: [
+        '#let plain(it) = if it.has("text") { it.text } else if it.has("children") { it.children.map(plain).join() } else if it.func() == [ ].func() { " " } else { "" }',
+        '#show table.cell: it => [#metadata(plain(it.body)) <cell>#it]',
+        code,
+      ].join('\n'),
+    });
+    expect(result.takeDiagnostics()?.shortDiagnostics.map((d) => d.message) ?? []).toEqual([]);
+    expect(compiler.query(result.result!, { selector: '<cell>' }).map((m: { value: string }) => m.value)).toEqual(values);
+
+    expect(tablePayloadToSheet(payload, 'T', unescapeTypstMarkup).rows[0].map((cell) => cell.value)).toEqual(values);
+  });
+
+  it('exports computed values, formulas and merges', () => {
+    const payload: PersistedTablePayload = {
+      rows: 2,
+      cols: 2,
+      cells: [
+        [{ content: '*T*', colspan: 2 }, { content: '', hidden: true }],
+        [{ content: '2' }, { content: '', formula: '=A2*3' }],
+      ],
+    };
+    const sheet = tablePayloadToSheet(payload, 'T', (s) => s.replace(/\*/g, ''));
+    expect(sheet.rows[0][0].value).toBe('T');
+    expect(sheet.rows[1][1]).toEqual({ value: '6', formula: 'A2*3' });
+    expect(sheet.merges).toEqual([{ r1: 0, c1: 0, r2: 0, c2: 1 }]);
+  });
+});
+
+describe('XLSX', () => {
+  it('round-trips values, formulas and merges', async () => {
+    const sheet: SpreadsheetSheet = {
+      name: '数据',
+      rows: [
+        [{ value: '温度 <°C>' }, { value: '' }, { value: 'R & S' }],
+        [{ value: '20.5' }, { value: '3' }, { value: '61.5', formula: 'A2*B2' }],
+      ],
+      merges: [{ r1: 0, c1: 0, r2: 0, c2: 1 }],
+    };
+    const [back] = await readXlsxWorkbook(await writeXlsxWorkbook([sheet]));
+    expect(back.name).toBe('数据');
+    expect(back.rows).toEqual(sheet.rows);
+    expect(back.merges).toEqual(sheet.merges);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initOptions } from '@myriaddreamin/typst.ts';
+import type { TypstWorkerRequest, TypstWorkerResponse } from '../typst-render';
+
+// Fake typst.ts compiler and renderer for the worker tests.
+const { compiler, renderer } = vi.hoisted(() => ({
+  compiler: {
+    init: vi.fn(),
+    mapShadow: vi.fn(),
+    addSource: vi.fn(),
+    compile: vi.fn(),
+  },
+  renderer: {
+    init: vi.fn(),
+    runWithSession: vi.fn((_opts: unknown, fn: (session: unknown) => unknown) => fn({})),
+    retrievePagesInfoFromSession: vi.fn(() => [
+      { pageOffset: 0, width: 100, height: 150 },
+      { pageOffset: 150, width: 100, height: 150 },
+    ]),
+    renderSvg: vi.fn(async () => '<svg viewBox="0 0 100 300" width="100" height="300"><g/></svg>'),
+  },
+}));
+
+vi.mock('@myriaddreamin/typst.ts', () => ({
+  createTypstCompiler: () => compiler,
+  createTypstRenderer: () => renderer,
+  initOptions: { loadFonts: vi.fn(), withAccessModel: vi.fn(), withPackageRegistry: vi.fn() },
+  FetchPackageRegistry: class {},
+  MemoryAccessModel: class {},
+}));
+
+// Stand-in for the browser Worker: records requests and lets tests answer them.
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  sent: TypstWorkerRequest[] = [];
+  onmessage: ((e: { data: TypstWorkerResponse }) => void) | null = null;
+  onerror: ((e: { message: string }) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(msg: TypstWorkerRequest) {
+    this.sent.push(msg);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(res: TypstWorkerResponse) {
+    this.onmessage?.({ data: res });
+  }
+}
+
+const serverFetch = vi.fn();
+
+async function loadRender() {
+  vi.resetModules();
+  return import('../typst-render');
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  FakeWorker.instances = [];
+  serverFetch.mockReset();
+  serverFetch.mockImplementation(async () => new Response(JSON.stringify({ pages: ['<svg>server</svg>'] })));
+  vi.stubGlobal('Worker', FakeWorker);
+  vi.stubGlobal('fetch', serverFetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('renderTypstPages', () => {
+  it('compiles in the worker with self-hosted assets', async () => {
+    const { renderTypstPages } = await loadRender();
+    const result = renderTypstPages('= Hi', 'wasm');
+    const w = FakeWorker.instances[0];
+    expect(w.sent[0]).toMatchObject({ kind: 'svg', code: '= Hi', assetBase: '/typst', fontAssetBase: '/typst/fonts' });
+
+    const warning = { severity: 'warning' as const, message: 'unused', hints: [] };
+    w.reply({ id: w.sent[0].id, ok: true, kind: 'svg', pages: ['<svg/>'], diagnostics: [warning] });
+    expect(await result).toEqual({ pages: ['<svg/>'], diagnostics: [warning] });
+    expect(serverFetch).not.toHaveBeenCalled();
+  });
+
+  it('reports document errors without falling back', async () => {
+    const { renderTypstPages, TypstCompileError } = await loadRender();
+    const result = renderTypstPages('#foo', 'wasm');
+    const w = FakeWorker.instances[0];
+    const diagnostics = [{ severity: 'error' as const, message: 'unknown variable: foo', line: 1, column: 2, hints: [] }];
+    w.reply({ id: w.sent[0].id, ok: false, error: 'error (1:2): unknown variable: foo', diagnostics });
+
+    const err = await result.catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(TypstCompileError);
+    expect((err as InstanceType<typeof TypstCompileError>).diagnostics).toEqual(diagnostics);
+    expect(serverFetch).not.toHaveBeenCalled();
+  });
+
+  it('cancels a queued request on abort and ignores its late reply', async () => {
+    const { renderTypstPages } = await loadRender();
+    const controller = new AbortController();
+    const result = renderTypstPages('= Old', 'wasm', controller.signal);
+    const w = FakeWorker.instances[0];
+    const { id } = w.sent[0];
+
+    controller.abort(new DOMException('superseded', 'AbortError'));
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(w.sent[1]).toEqual({ id, kind: 'cancel' });
+
+    w.reply({ id, ok: true, kind: 'svg', pages: ['<svg/>'], diagnostics: [] });
+    await expect(renderTypstPages('= x', 'wasm', AbortSignal.abort())).rejects.toBeDefined();
+    expect(w.sent).toHaveLength(2);
+  });
+
+  it('falls back to the server for good once the compiler fails to load', async () => {
+    const { renderTypstPages } = await loadRender();
+    const result = renderTypstPages('= Hi', 'wasm');
+    const w = FakeWorker.instances[0];
+    w.reply({ id: w.sent[0].id, ok: false, error: 'wasm fetch failed', fatal: true });
+
+    expect((await result).pages).toEqual(['<svg>server</svg>']);
+    expect(serverFetch.mock.calls[0][0]).toBe('/api/render-typst');
+
+    await renderTypstPages('= Again', 'wasm');
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(w.sent).toHaveLength(1);
+    expect(serverFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the server when the worker crashes mid-request', async () => {
+    const { renderTypstPages } = await loadRender();
+    const result = renderTypstPages('= Hi', 'wasm');
+    const w = FakeWorker.instances[0];
+    w.onerror?.({ message: 'boom' });
+
+    expect((await result).pages).toEqual(['<svg>server</svg>']);
+    expect(w.terminated).toBe(true);
+  });
+
+  it('uses the server when the server backend is chosen', async () => {
+    const { renderTypstPages } = await loadRender();
+    expect((await renderTypstPages('= Hi', 'server')).pages).toEqual(['<svg>server</svg>']);
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+});
+
+describe('diffSvgPages', () => {
+  it('keeps the previous list when nothing changed', async () => {
+    const { diffSvgPages } = await loadRender();
+    const prev = ['<svg>1</svg>', '<svg>2</svg>'];
+    const result = diffSvgPages(prev, ['<svg>1</svg>', '<svg>2</svg>']);
+    expect(result.pages).toBe(prev);
+    expect(result.changed).toEqual([]);
+  });
+
+  it('lists edited, added and removed pages', async () => {
+    const { diffSvgPages } = await loadRender();
+    const next = ['<svg>1</svg>', '<svg>2*</svg>', '<svg>3</svg>'];
+    expect(diffSvgPages(['<svg>1</svg>', '<svg>2</svg>'], next)).toEqual({ pages: next, changed: [1, 2] });
+    expect(diffSvgPages(next, ['<svg>1</svg>']).changed).toEqual([1, 2]);
+    expect(diffSvgPages([], []).changed).toEqual([]);
+  });
+});
+
+describe('typst worker', () => {
+  const posted: TypstWorkerResponse[] = [];
+
+  async function loadWorker() {
+    vi.resetModules();
+    vi.stubGlobal('postMessage', (res: TypstWorkerResponse) => posted.push(res));
+    await import('../typst-render.worker');
+    return (req: TypstWorkerRequest) => self.onmessage?.({ data: req } as MessageEvent);
+  }
+
+  const request = (id: number, code = '= Hi'): TypstWorkerRequest => ({
+    id,
+    kind: 'svg',
+    code,
+    baseUrl: 'http://backend',
+    token: null,
+    assetBase: '/typst',
+    fontAssetBase: '/typst/fonts',
+  });
+
+  beforeEach(() => {
+    posted.length = 0;
+    compiler.init.mockReset().mockResolvedValue(undefined);
+    compiler.addSource.mockReset();
+    compiler.mapShadow.mockReset();
+    compiler.compile.mockReset().mockResolvedValue({ result: new Uint8Array([1]), diagnostics: [] });
+  });
+
+  it('answers with one cropped SVG per page', async () => {
+    const send = await loadWorker();
+    send(request(1));
+    await vi.waitFor(() => expect(posted).toHaveLength(1));
+
+    const [res] = posted;
+    expect(res).toMatchObject({ id: 1, ok: true, kind: 'svg' });
+    const pages = res.ok && res.kind === 'svg' ? res.pages : [];
+    expect(pages[1]).toMatch(/^<svg viewBox="0 150 100 150" width="100" height="150">/);
+    expect(compiler.init.mock.calls[0][0].getModule()).toBe('/typst/typst-ts-web-compiler/pkg/typst_ts_web_compiler_bg.wasm');
+    const [fonts, fontOptions] = vi.mocked(initOptions.loadFonts).mock.calls[0];
+    expect(fonts).toContain('/typst/fonts/NotoSerifSC_400Regular.ttf');
+    expect(fontOptions).toEqual({ assets: false });
+  });
+
+  it('revalidates mapped images so a re-upload to the same path is picked up', async () => {
+    const send = await loadWorker();
+    const image = (body: number, etag: string) => new Response(new Uint8Array([body]), { headers: { ETag: etag } });
+    serverFetch
+      .mockResolvedValueOnce(image(1, '"v1"'))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }))
+      .mockResolvedValueOnce(image(2, '"v2"'));
+
+    for (let id = 1; id <= 3; id++) {
+      send(request(id, '#image("/static/plot.png")'));
+      await vi.waitFor(() => expect(posted).toHaveLength(id));
+    }
+
+    expect(serverFetch.mock.calls.map(([url, init]) => [url, init.headers['If-None-Match']])).toEqual([
+      ['http://backend/static/plot.png', undefined],
+      ['http://backend/static/plot.png', '"v1"'],
+      ['http://backend/static/plot.png', '"v1"'],
+    ]);
+    expect(compiler.mapShadow.mock.calls).toEqual([
+      ['/static/plot.png', new Uint8Array([1])],
+      ['/static/plot.png', new Uint8Array([2])],
+    ]);
+  });
+
+  it('runs requests in order and skips cancelled ones', async () => {
+    const send = await loadWorker();
+    send(request(1, 'a'));
+    send(request(2, 'b'));
+    send(request(3, 'c'));
+    send({ id: 2, kind: 'cancel' });
+    await vi.waitFor(() => expect(posted).toHaveLength(2));
+    await flush();
+
+    expect(posted.map((r) => r.id)).toEqual([1, 3]);
+    expect(compiler.addSource.mock.calls.map((c) => c[1])).toEqual(['a', 'c']);
+  });
+
+  it('returns diagnostics for document errors and flags load failures as fatal', async () => {
+    let send = await loadWorker();
+    compiler.compile.mockResolvedValueOnce({
+      diagnostics: [{ severity: 'Error', range: '2:4-2:8', message: 'unknown variable: foo', hints: [] }],
+    });
+    send(request(1));
+    await vi.waitFor(() => expect(posted).toHaveLength(1));
+    expect(posted[0]).toMatchObject({
+      ok: false,
+      error: 'error (3:5): unknown variable: foo',
+      diagnostics: [{ severity: 'error', line: 3, column: 5 }],
+    });
+    expect(posted[0]).not.toHaveProperty('fatal', true);
+
+    send = await loadWorker();
+    compiler.init.mockRejectedValueOnce(new Error('wasm fetch failed'));
+    send(request(2));
+    await vi.waitFor(() => expect(posted).toHaveLength(2));
+    expect(posted[1]).toMatchObject({ id: 2, ok: false, error: 'wasm fetch failed', fatal: true });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseUncertaintyFormula,
+  formulaVariables,
+  evaluateFormula,
+  propagateUncertainty,
+  formatMeasurement,
+  formulaToLatex,
+  propagationLatex,
+  variableLatex,
+  UncertaintyFormulaError,
+} from '../uncertainty';
+
+describe('parseUncertaintyFormula', () => {
+  it('evaluates with precedence, powers and functions', () => {
+    const expr = parseUncertaintyFormula('m / (pi * r^2 * h)');
+    expect(formulaVariables(expr)).toEqual(['m', 'r', 'h']);
+    expect(evaluateFormula(expr, { m: Math.PI * 8, r: 2, h: 2 })).toBeCloseTo(1);
+    expect(evaluateFormula(parseUncertaintyFormula('-2^2 + sqrt(9)'), {})).toBe(-1);
+    expect(evaluateFormula(parseUncertaintyFormula('2 ** 3'), {})).toBe(8);
+  });
+
+  it('supports implicit multiplication', () => {
+    expect(evaluateFormula(parseUncertaintyFormula('2pi r'), { r: 1 })).toBeCloseTo(2 * Math.PI);
+    expect(evaluateFormula(parseUncertaintyFormula('2(a + 1)'), { a: 2 })).toBe(6);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseUncertaintyFormula('')).toThrow(UncertaintyFormulaError);
+    expect(() => parseUncertaintyFormula('(a + b')).toThrow(UncertaintyFormulaError);
+    expect(() => parseUncertaintyFormula('a $ b')).toThrow(UncertaintyFormulaError);
+    expect(() => evaluateFormula(parseUncertaintyFormula('a + b'), { a: 1 })).toThrow(UncertaintyFormulaError);
+  });
+});
+
+describe('propagateUncertainty', () => {
+  it('matches the analytic result for a product', () => {
+    const expr = parseUncertaintyFormula('a * b');
+    const res = propagateUncertainty(expr, { a: 2, b: 3 }, { a: 0.1, b: 0.2 });
+    expect(res.value).toBe(6);
+    expect(res.partials.a).toBeCloseTo(3);
+    expect(res.partials.b).toBeCloseTo(2);
+    expect(res.uncertainty).toBeCloseTo(Math.sqrt(0.3 ** 2 + 0.4 ** 2));
+  });
+
+  it('treats variables without an uncertainty as exact', () => {
+    const res = propagateUncertainty(parseUncertaintyFormula('x^2 / k'), { x: 3, k: 2 }, { x: 0.1 });
+    expect(res.uncertainty).toBeCloseTo(0.3);
+  });
+
+  it('reports an undefined derivative as NaN instead of zero', () => {
+    const expr = parseUncertaintyFormula('sqrt(x) + k');
+    expect(propagateUncertainty(expr, { x: 0, k: 1 }, { x: 0.1 }).uncertainty).toBeNaN();
+    expect(propagateUncertainty(expr, { x: 0, k: 1 }, { k: 0.1 }).uncertainty).toBeCloseTo(0.1);
+  });
+});
+
+describe('formatMeasurement', () => {
+  it('rounds the value to the decimal place of the uncertainty', () => {
+    expect(formatMeasurement(12.3456, 0.0234)).toEqual({ value: '12.346', uncertainty: '0.023' });
+    expect(formatMeasurement(9.81234, 0.0996)).toEqual({ value: '9.81', uncertainty: '0.10' });
+    expect(formatMeasurement(12345, 234)).toEqual({ value: '12350', uncertainty: '230' });
+    expect(formatMeasurement(1.5, 0.26, 1)).toEqual({ value: '1.5', uncertainty: '0.3' });
+  });
+
+  it('falls back when there is no uncertainty', () => {
+    expect(formatMeasurement(2.5, 0)).toEqual({ value: '2.5', uncertainty: '0' });
+  });
+
+  it('marks values that could not be computed', () => {
+    expect(formatMeasurement(1, NaN)).toEqual({ value: '1', uncertainty: '—' });
+    expect(formatMeasurement(2, Infinity)).toEqual({ value: '2', uncertainty: '—' });
+    expect(formatMeasurement(NaN, 0.1)).toEqual({ value: '—', uncertainty: '—' });
+  });
+});
+
+describe('LaTeX output', () => {
+  it('renders names, fractions and powers', () => {
+    expect(variableLatex('rho')).toBe('\\rho');
+    expect(variableLatex('m1')).toBe('m_{1}');
+    expect(variableLatex('v_0')).toBe('v_{0}');
+    expect(formulaToLatex(parseUncertaintyFormula('m / (pi * r^2 * h)'))).toBe('\\frac{m}{\\pi r^{2} h}');
+    expect(formulaToLatex(parseUncertaintyFormula('(a + b)^2 - (c - d)'))).toBe(
+      '\\left(a + b\\right)^{2} - \\left(c - d\\right)'
+    );
+    expect(formulaToLatex(parseUncertaintyFormula('2 * 3'))).toBe('2 \\times 3');
+  });
+
+  it('builds the propagation formula over the uncertain variables', () => {
+    const expr = parseUncertaintyFormula('m / V');
+    expect(propagationLatex('rho', expr, ['m', 'V'])).toEqual([
+      '\\rho = \\frac{m}{V}',
+      'u_{\\rho} = \\sqrt{\\left(\\frac{\\partial \\rho}{\\partial m} u_{m}\\right)^{2} + \\left(\\frac{\\partial \\rho}{\\partial V} u_{V}\\right)^{2}}',
+    ]);
+  });
+});
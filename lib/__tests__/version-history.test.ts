@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Project } from '../api';
+
+vi.mock('../api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../api')>()),
+  updateProject: vi.fn(),
+}));
+
+const api = await import('../api');
+const { listProjectVersions, recordProjectVersion, renameProjectVersion } = await import('../version-history');
+const { useEditorStore } = await import('@/stores/useEditorStore');
+
+const updateProject = vi.mocked(api.updateProject);
+
+let clock = 0;
+beforeEach(() => {
+  vi.spyOn(Date, 'now').mockImplementation(() => ++clock);
+});
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const auto = (projectId: string, typst_code: string) =>
+  recordProjectVersion({ projectId, kind: 'auto', name: '', title: 'T', typst_code });
+
+describe('version history', () => {
+  it('skips unchanged snapshots and prunes the oldest automatic ones', async () => {
+    await recordProjectVersion({ projectId: 'p', kind: 'checkpoint', name: '初稿', title: 'T', typst_code: 'v0' });
+    for (let i = 1; i <= 100; i++) await auto('p', `v${i}`);
+    expect(await auto('p', 'v100')).toBeNull();
+
+    const named = (await listProjectVersions('p')).find((v) => v.typst_code === 'v1');
+    await renameProjectVersion(named!.id, '保留');
+    await auto('p', 'v101');
+    await auto('p', 'v102');
+
+    const versions = await listProjectVersions('p');
+    const autos = versions.filter((v) => v.kind === 'auto');
+    expect(autos).toHaveLength(100);
+    expect(autos[0].typst_code).toBe('v102');
+    expect(autos.at(-1)?.typst_code).toBe('v3');
+    expect(versions.filter((v) => v.kind === 'checkpoint').map((v) => v.name)).toEqual(['保留', '初稿']);
+    expect(await listProjectVersions('other')).toEqual([]);
+  });
+
+  it('restores a version as a new timeline entry and saves it', async () => {
+    updateProject.mockImplementation(async (id, updates) => ({
+      id,
+      title: updates.title ?? '',
+      type: 'report',
+      typst_code: updates.typst_code ?? '',
+      created_at: '',
+      updated_at: 'rev-2',
+    } satisfies Project));
+    useEditorStore.setState({ projectId: 'r', title: 'Now', code: '= Now' });
+
+    const old = await recordProjectVersion({ projectId: 'r', kind: 'checkpoint', name: '提交前', title: 'Old', typst_code: '= Old' });
+    await useEditorStore.getState().restoreVersion(old!);
+
+    const state = useEditorStore.getState();
+    expect(state).toMatchObject({ title: 'Old', code: '= Old' });
+    expect(state.blocks.map((b) => b.content)).toEqual(['Old']);
+    expect(updateProject).toHaveBeenCalledWith('r', expect.objectContaining({ title: 'Old' }));
+
+    // The save's automatic snapshot matches the restore entry, so it is skipped.
+    const versions = await listProjectVersions('r');
+    expect(versions.map((v) => v.kind)).toEqual(['restore', 'checkpoint']);
+    expect(versions[0].name).toBe('恢复自「提交前」');
+  });
+});
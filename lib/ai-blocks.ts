@@ -1,4 +1,15 @@
-import { type DocumentSettings, defaultDocumentSettings, type TypstBlock } from '@/lib/typst';
+import {
+  type DocumentSettings,
+  type MathLine,
+  defaultDocumentSettings,
+  normalizeEquationNumbering,
+  normalizeHeadingNumbering,
+  normalizePageSettings,
+  normalizeTemplateVariables,
+  normalizeTypographyStyles,
+  normalizeUserTableStyles,
+  type TypstBlock,
+} from '@/lib/typst';
 import { latexToTypstMath } from './math-convert';
 
 export type AiBlocksResponse = {
@@ -69,6 +80,12 @@ function normalizeSettings(raw: unknown): DocumentSettings {
       imageCaptionPosition === 'above' || imageCaptionPosition === 'below' ? imageCaptionPosition : base.imageCaptionPosition,
     verticalSpaceVisible: typeof verticalSpaceVisible === 'boolean' ? verticalSpaceVisible : base.verticalSpaceVisible,
     fontSize: typeof fontSize === 'string' && fontSize.trim() ? fontSize : base.fontSize,
+    page: normalizePageSettings(raw.page),
+    headingNumbering: normalizeHeadingNumbering(raw.headingNumbering),
+    equationNumbering: normalizeEquationNumbering(raw.equationNumbering),
+    typography: normalizeTypographyStyles(raw.typography),
+    tableStyles: normalizeUserTableStyles(raw.tableStyles),
+    templateVariables: normalizeTemplateVariables(raw.templateVariables),
   };
 }
 
@@ -257,6 +274,9 @@ function normalizeBlockMany(raw: unknown, getNextId: () => string, projectId: st
   const mathLatex = asString(raw.mathLatex);
   const mathTypst = asString(raw.mathTypst);
   const mathBrace = typeof raw.mathBrace === 'boolean' ? raw.mathBrace : undefined;
+  const mathNumbering =
+    raw.mathNumbering === 'block' || raw.mathNumbering === 'line' || raw.mathNumbering === 'none' ? raw.mathNumbering : undefined;
+  const mathAlign = typeof raw.mathAlign === 'boolean' ? raw.mathAlign : undefined;
 
   const mathLines = Array.isArray(raw.mathLines)
     ? raw.mathLines
@@ -264,9 +284,9 @@ function normalizeBlockMany(raw: unknown, getNextId: () => string, projectId: st
         if (!isObject(x)) return null;
         const latex = asString(x.latex) ?? '';
         const typst = asString(x.typst) ?? '';
-        return { latex, typst };
+        return x.noNumber === true ? { latex, typst, noNumber: true } : { latex, typst };
       })
-      .filter((x): x is { latex: string; typst: string } => !!x)
+      .filter((x): x is MathLine => !!x)
     : undefined;
 
   // Friendly payload formats (recommended): tablePayload / chartPayload.
@@ -376,11 +396,14 @@ function normalizeBlockMany(raw: unknown, getNextId: () => string, projectId: st
 
     if (mathLines) {
       out.mathLines = mathLines.map(line => ({
+        ...line,
         latex: line.latex,
         typst: line.typst || (line.latex ? latexToTypstMath(line.latex) : '')
       }));
     }
     if (typeof mathBrace === 'boolean') out.mathBrace = mathBrace;
+    if (mathNumbering) out.mathNumbering = mathNumbering;
+    if (typeof mathAlign === 'boolean') out.mathAlign = mathAlign;
   }
 
   return [out];
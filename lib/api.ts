@@ -5,6 +5,14 @@ import { streamChat, type AiStreamEvent } from './stream';
 // For local dev, set NEXT_PUBLIC_BACKEND_URL=http://localhost:8000.
 const BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
 
+// Error thrown for non-2xx responses; keeps the HTTP status so callers can special-case it.
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
   const token = getToken();
 
@@ -31,7 +39,7 @@ async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
     } catch {
       // ignore
     }
-    throw new Error(detail);
+    throw new ApiError(detail, res.status);
   }
 
   // 204 No Content (or empty body) should not be parsed as JSON.
@@ -116,11 +124,33 @@ export async function getProject(id: string): Promise<Project> {
   return request<Project>(`/api/projects/${id}`);
 }
 
-export async function updateProject(id: string, updates: { title?: string; typst_code?: string; type?: string }): Promise<Project> {
-  return request<Project>(`/api/projects/${id}`, {
-    method: 'PUT',
-    body: JSON.stringify(updates),
-  });
+// The project changed on the server since the revision the save was based on.
+export class ProjectConflictError extends Error {
+  constructor(public latest: Project) {
+    super('项目已在其他位置被修改');
+    this.name = 'ProjectConflictError';
+  }
+}
+
+/**
+ * Save project fields. When `base_updated_at` is given the server rejects the save with 409 unless
+ * its copy still has that revision; that surfaces as a ProjectConflictError carrying the latest copy.
+ */
+export async function updateProject(
+  id: string,
+  updates: { title?: string; typst_code?: string; type?: string; base_updated_at?: string }
+): Promise<Project> {
+  try {
+    return await request<Project>(`/api/projects/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 409) {
+      throw new ProjectConflictError(await getProject(id));
+    }
+    throw err;
+  }
 }
 
 export async function deleteProject(id: string): Promise<void> {
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 
 type EditorMode = 'source' | 'visual';
 
@@ -297,10 +297,42 @@ export function useBidirectionalScrollSync({
   // Expose a function to suppress editor-to-preview sync temporarily
   // This is useful when the user clicks on the preview and we don't want
   // the resulting editor scroll to trigger a preview scroll back.
-  const suppressEditorSync = (durationMs: number = 500) => {
+  // Stable across renders so click handlers built on it keep memoized preview pages intact.
+  const suppressEditorSync = useCallback((durationMs: number = 500) => {
     const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
     ignoreEditorUntilRef.current = now + durationMs;
+  }, []);
+
+  // Scroll both panes to a block (outline navigation). Both scroll listeners are muted
+  // briefly so the programmatic scrolls do not bounce back and forth.
+  const scrollToBlock = (index: number) => {
+    const previewEl = previewRef.current;
+    const editorEl = editorScrollRef.current;
+    const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
+    ignoreEditorUntilRef.current = now + 400;
+    ignorePreviewUntilRef.current = now + 400;
+    lastFromEditorRef.current = index;
+    lastFromPreviewRef.current = index;
+
+    const target = editorEl?.querySelector<HTMLElement>(`[data-block-index="${index}"]`);
+    if (editorEl && target) {
+      const editorRect = editorEl.getBoundingClientRect();
+      const targetRect = target.getBoundingClientRect();
+      const nextTop = targetRect.top - editorRect.top + editorEl.scrollTop - editorEl.clientHeight * 0.2;
+      editorEl.scrollTo({ top: Math.max(0, nextTop), behavior: 'auto' });
+    }
+
+    if (previewEl && mode === 'visual') {
+      void scrollPreviewToIndex({
+        previewEl,
+        pageRefs: pageRefs.current,
+        meta: markerMetaRef.current,
+        index,
+        requestAnchor: setActiveAnchor,
+        clearAnchor: () => setActiveAnchor?.(null),
+      });
+    }
   };
 
-  return { suppressEditorSync };
+  return { suppressEditorSync, scrollToBlock };
 }
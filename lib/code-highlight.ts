@@ -0,0 +1,251 @@
+// Lightweight syntax highlighting for the code block editor. The exported PDF is
+// highlighted by Typst itself; this only needs to look close enough while typing.
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'function';
+
+export type CodeToken = { kind: CodeTokenKind; text: string };
+
+type LanguageRules = {
+  lineComment?: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  // Python-style ''' / """ strings.
+  tripleQuotes?: boolean;
+  // MATLAB uses ' both for strings and for the transpose operator.
+  transposeQuote?: boolean;
+  // SQL keywords match regardless of case.
+  caseInsensitive?: boolean;
+  keywords: string[];
+};
+
+const C_KEYWORDS = [
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+  'float', 'for', 'goto', 'if', 'int', 'long', 'register', 'return', 'short', 'signed', 'sizeof', 'static',
+  'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while', 'bool', 'true', 'false',
+  'NULL', '#include', '#define', '#ifdef', '#ifndef', '#endif', '#if', '#else', '#pragma',
+];
+
+const CPP_KEYWORDS = [
+  ...C_KEYWORDS, 'class', 'namespace', 'using', 'template', 'typename', 'public', 'private', 'protected',
+  'virtual', 'override', 'new', 'delete', 'this', 'nullptr', 'try', 'catch', 'throw', 'const_cast',
+  'std',
+];
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  python: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    tripleQuotes: true,
+    keywords: [
+      'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def',
+      'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda',
+      'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'self',
+    ],
+  },
+  c: { lineComment: ['//'], blockComment: ['/*', '*/'], quotes: ['"', "'"], keywords: C_KEYWORDS },
+  cpp: { lineComment: ['//'], blockComment: ['/*', '*/'], quotes: ['"', "'"], keywords: CPP_KEYWORDS },
+  cs: { lineComment: ['//'], blockComment: ['/*', '*/'], quotes: ['"', "'"], keywords: CPP_KEYWORDS },
+  java: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: [
+      ...C_KEYWORDS, 'class', 'interface', 'extends', 'implements', 'import', 'package', 'public', 'private',
+      'protected', 'final', 'new', 'this', 'super', 'null', 'try', 'catch', 'finally', 'throw', 'throws',
+      'boolean', 'String',
+    ],
+  },
+  js: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: [
+      'var', 'let', 'const', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'break', 'continue',
+      'switch', 'case', 'default', 'new', 'this', 'class', 'extends', 'import', 'export', 'from', 'async',
+      'await', 'try', 'catch', 'finally', 'throw', 'typeof', 'instanceof', 'of', 'in', 'null', 'undefined',
+      'true', 'false',
+    ],
+  },
+  rust: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: [
+      'as', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if', 'impl',
+      'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static',
+      'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while',
+    ],
+  },
+  go: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func',
+      'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'type', 'var', 'nil', 'true', 'false',
+    ],
+  },
+  matlab: {
+    lineComment: ['%'],
+    quotes: ['"', "'"],
+    transposeQuote: true,
+    keywords: [
+      'break', 'case', 'catch', 'continue', 'else', 'elseif', 'end', 'for', 'function', 'global', 'if',
+      'otherwise', 'parfor', 'persistent', 'return', 'switch', 'try', 'while', 'true', 'false',
+    ],
+  },
+  r: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    keywords: [
+      'if', 'else', 'repeat', 'while', 'function', 'for', 'in', 'next', 'break', 'TRUE', 'FALSE', 'NULL', 'NA',
+      'Inf', 'NaN', 'library', 'return',
+    ],
+  },
+  bash: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    keywords: [
+      'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'in', 'function',
+      'return', 'export', 'local', 'echo',
+    ],
+  },
+  sql: {
+    caseInsensitive: true,
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: [
+      'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE',
+      'DROP', 'ALTER', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'ON', 'AS', 'AND', 'OR', 'NOT', 'NULL',
+      'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'DISTINCT', 'PRIMARY', 'KEY',
+    ],
+  },
+  lua: {
+    lineComment: ['--'],
+    quotes: ['"', "'"],
+    keywords: [
+      'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'if', 'in', 'local', 'nil',
+      'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+    ],
+  },
+  latex: { lineComment: ['%'], quotes: [], keywords: [] },
+  typ: { lineComment: ['//'], blockComment: ['/*', '*/'], quotes: ['"'], keywords: ['let', 'set', 'show', 'if', 'else', 'for', 'while', 'import', 'include', 'return'] },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python',
+  h: 'c',
+  'c++': 'cpp',
+  cc: 'cpp',
+  hpp: 'cpp',
+  javascript: 'js',
+  ts: 'js',
+  typescript: 'js',
+  rs: 'rust',
+  m: 'matlab',
+  sh: 'bash',
+  shell: 'bash',
+  tex: 'latex',
+  typst: 'typ',
+};
+
+function rulesFor(language: string): LanguageRules | undefined {
+  const key = (language ?? '').trim().toLowerCase();
+  return LANGUAGE_RULES[LANGUAGE_ALIASES[key] ?? key];
+}
+
+const IDENT_RE = /#?[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_RE = /(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)[a-zA-Z]*/y;
+
+function matchAt(re: RegExp, code: string, index: number): string | undefined {
+  re.lastIndex = index;
+  return re.exec(code)?.[0];
+}
+
+/**
+ * Split source code into highlighted tokens. Concatenating the token texts always
+ * reproduces the input exactly, so the result can sit under a transparent textarea.
+ */
+export function tokenizeCode(code: string, language: string): CodeToken[] {
+  const rules = rulesFor(language);
+  const keywords = new Set(rules?.keywords ?? []);
+  const tokens: CodeToken[] = [];
+
+  const push = (kind: CodeTokenKind, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+  // Consume code[i, end) as one token; `end` of -1 means "to the end of the input".
+  let i = 0;
+  const take = (kind: CodeTokenKind, end: number) => {
+    const stop = end === -1 ? code.length : end;
+    push(kind, code.slice(i, stop));
+    i = stop;
+  };
+
+  while (i < code.length) {
+    if (rules?.lineComment?.some((c) => code.startsWith(c, i))) {
+      take('comment', code.indexOf('\n', i));
+      continue;
+    }
+
+    if (rules?.blockComment && code.startsWith(rules.blockComment[0], i)) {
+      const [open, close] = rules.blockComment;
+      const end = code.indexOf(close, i + open.length);
+      take('comment', end === -1 ? -1 : end + close.length);
+      continue;
+    }
+
+    const quote = rules?.quotes.find((q) => code.startsWith(q, i));
+    const isTranspose = quote === "'" && rules?.transposeQuote && i > 0 && /[A-Za-z0-9_)\].']/.test(code[i - 1]);
+    if (quote && !isTranspose) {
+      const delim = rules?.tripleQuotes && code.startsWith(quote.repeat(3), i) ? quote.repeat(3) : quote;
+      const multiline = delim.length === 3 || quote === '`';
+      let j = i + delim.length;
+      while (j < code.length) {
+        if (code[j] === '\\' && quote !== '`') {
+          j += 2;
+          continue;
+        }
+        if (code.startsWith(delim, j)) {
+          j += delim.length;
+          break;
+        }
+        // Ordinary strings end at the line break even when unterminated.
+        if (!multiline && code[j] === '\n') break;
+        j++;
+      }
+      take('string', Math.min(j, code.length));
+      continue;
+    }
+
+    const ident = matchAt(IDENT_RE, code, i);
+    if (ident && (ident[0] !== '#' || keywords.has(ident))) {
+      const isKeyword = keywords.has(ident) || (!!rules?.caseInsensitive && keywords.has(ident.toUpperCase()));
+      const isCall = !isKeyword && /^\s*\(/.test(code.slice(i + ident.length, i + ident.length + 8));
+      take(isKeyword ? 'keyword' : isCall ? 'function' : 'plain', i + ident.length);
+      continue;
+    }
+
+    const num = matchAt(NUMBER_RE, code, i);
+    take(num ? 'number' : 'plain', i + (num ? num.length : 1));
+  }
+
+  return tokens;
+}
+
+// Regroup tokens line by line (newlines dropped) so each source line can be styled on its own.
+export function splitTokenLines(tokens: CodeToken[]): CodeToken[][] {
+  const lines: CodeToken[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, idx) => {
+      if (idx > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}
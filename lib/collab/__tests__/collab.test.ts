@@ -0,0 +1,272 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { TypstBlock } from '@/lib/typst/types';
+import { blocksToTypst } from '@/lib/typst/serialize';
+import { useEditorStore } from '@/stores/useEditorStore';
+import { BlockListCrdt, CollabSession, LocalCollabServer, positionBetween, positionTag, type CollabClientMessage } from '../index';
+
+const para = (id: string, content: string): TypstBlock => ({ id, type: 'paragraph', content });
+
+function join(server: LocalCollabServer, name: string, initial: TypstBlock[]) {
+    const state = { blocks: initial, peers: [] as string[] };
+    const session = new CollabSession({
+        transport: server.createTransport(),
+        roomId: 'project-1',
+        clientId: name,
+        user: { name, color: '#000' },
+        onBlocks: (blocks) => { state.blocks = blocks; },
+        onPresence: (peers) => { state.peers = peers.map((p) => p.name); },
+    });
+    session.start(initial);
+    const edit = (fn: (blocks: TypstBlock[]) => TypstBlock[]) => {
+        state.blocks = fn(state.blocks);
+        session.applyLocalBlocks(state.blocks);
+    };
+    return { session, state, edit };
+}
+
+const contents = (blocks: TypstBlock[]) => blocks.map((b) => b.content);
+
+describe('positionBetween', () => {
+    it('generates keys that sort between their neighbours', () => {
+        const a = positionBetween();
+        const b = positionBetween(a);
+        const mid = positionBetween(a, b);
+        expect(a < mid && mid < b).toBe(true);
+        const before = positionBetween(undefined, a);
+        expect(before < a).toBe(true);
+
+        let hi = b;
+        for (let i = 0; i < 50; i++) hi = positionBetween(a, hi);
+        expect(a < hi && hi < b).toBe(true);
+    });
+
+    it('gives different clients distinct keys for the same gap', () => {
+        const a = positionBetween();
+        const b = positionBetween(a);
+        const x = positionBetween(a, b, positionTag('alice'));
+        const y = positionBetween(a, b, positionTag('bob'));
+        expect(x).not.toBe(y);
+        for (const p of [x, y]) expect(a < p && p < b).toBe(true);
+        const tight = positionBetween('1', '11', positionTag('alice'));
+        expect('1' < tight && tight < '11').toBe(true);
+    });
+});
+
+describe('CollabSession', () => {
+    it('lets a late joiner adopt the seeded document', () => {
+        const server = new LocalCollabServer();
+        const alice = join(server, 'alice', [para('a1', 'hello'), para('a2', 'world')]);
+        const bob = join(server, 'bob', [para('b1', 'stale copy')]);
+
+        expect(contents(bob.state.blocks)).toEqual(['hello', 'world']);
+        expect(bob.state.blocks.map((b) => b.id)).toEqual(['a1', 'a2']);
+        expect(alice.state.peers).toEqual(['bob']);
+        expect(bob.state.peers).toEqual(['alice']);
+    });
+
+    it('converges after concurrent edits to different blocks', () => {
+        const server = new LocalCollabServer({ manual: true });
+        const alice = join(server, 'alice', [para('p1', 'one'), para('p2', 'two')]);
+        server.flush();
+        const bob = join(server, 'bob', []);
+        server.flush();
+
+        alice.edit((blocks) => blocks.map((b) => (b.id === 'p1' ? { ...b, content: 'ONE' } : b)));
+        bob.edit((blocks) => [...blocks, para('p3', 'three')]);
+        bob.edit((blocks) => blocks.map((b) => (b.id === 'p2' ? { ...b, content: 'TWO' } : b)));
+        server.flush();
+
+        expect(contents(alice.state.blocks)).toEqual(['ONE', 'TWO', 'three']);
+        expect(bob.state.blocks).toEqual(alice.state.blocks);
+    });
+
+    it('resolves conflicting writes to the same field identically on every client', () => {
+        const server = new LocalCollabServer({ manual: true });
+        const alice = join(server, 'alice', [para('p1', 'base')]);
+        server.flush();
+        const bob = join(server, 'bob', []);
+        server.flush();
+
+        alice.edit((blocks) => [{ ...blocks[0], content: 'from alice' }]);
+        bob.edit((blocks) => [{ ...blocks[0], content: 'from bob' }]);
+        server.flush();
+
+        expect(alice.state.blocks).toEqual(bob.state.blocks);
+        expect(alice.state.blocks).toHaveLength(1);
+    });
+
+    it('keeps concurrent inserts at the same spot and handles move and delete', () => {
+        const server = new LocalCollabServer({ manual: true });
+        const alice = join(server, 'alice', [para('p1', 'first'), para('p2', 'last')]);
+        server.flush();
+        const bob = join(server, 'bob', []);
+        server.flush();
+
+        alice.edit((blocks) => [blocks[0], para('a', 'alice'), blocks[1]]);
+        bob.edit((blocks) => [blocks[0], para('b', 'bob'), blocks[1]]);
+        server.flush();
+        expect(alice.state.blocks).toEqual(bob.state.blocks);
+        expect(contents(alice.state.blocks)[0]).toBe('first');
+        expect(contents(alice.state.blocks)[3]).toBe('last');
+
+        alice.edit((blocks) => [blocks[3], ...blocks.slice(0, 3)]);
+        bob.edit((blocks) => blocks.filter((b) => b.id !== 'b'));
+        server.flush();
+        expect(contents(alice.state.blocks)).toEqual(['last', 'first', 'alice']);
+        expect(bob.state.blocks).toEqual(alice.state.blocks);
+    });
+
+    it('can insert between blocks appended concurrently at the end', () => {
+        const server = new LocalCollabServer({ manual: true });
+        const alice = join(server, 'alice', [para('p1', 'first')]);
+        server.flush();
+        const bob = join(server, 'bob', []);
+        server.flush();
+
+        alice.edit((blocks) => [...blocks, para('a', 'alice')]);
+        bob.edit((blocks) => [...blocks, para('b', 'bob')]);
+        server.flush();
+        expect(alice.state.blocks).toEqual(bob.state.blocks);
+
+        alice.edit((blocks) => [blocks[0], blocks[1], para('c', 'between'), blocks[2]]);
+        server.flush();
+        expect(contents(bob.state.blocks)[2]).toBe('between');
+        expect(bob.state.blocks).toEqual(alice.state.blocks);
+    });
+
+    it('repositions blocks that already share a position', () => {
+        const crdt = new BlockListCrdt();
+        const ts = (counter: number) => ({ counter, clientId: 'x' });
+        crdt.apply({ kind: 'insert', blockId: 'a', position: 'i', fields: { type: 'paragraph', content: 'a' }, ts: ts(1) });
+        crdt.apply({ kind: 'insert', blockId: 'b', position: 'i', fields: { type: 'paragraph', content: 'b' }, ts: ts(2) });
+        const [a, b] = crdt.toBlocks();
+
+        let counter = 2;
+        const ops = crdt.diff([a, para('c', 'c'), b], () => ts(++counter), 'x');
+        for (const op of ops) crdt.apply(op);
+        expect(contents(crdt.toBlocks())).toEqual(['a', 'c', 'b']);
+    });
+
+    it('restores a deleted block when an undo re-inserts it', () => {
+        const server = new LocalCollabServer();
+        const alice = join(server, 'alice', [para('p1', 'keep'), { id: 'p2', type: 'heading', content: 'gone', level: 2 }]);
+        const bob = join(server, 'bob', []);
+
+        const before = alice.state.blocks;
+        alice.edit((blocks) => blocks.slice(0, 1));
+        expect(contents(bob.state.blocks)).toEqual(['keep']);
+
+        alice.edit(() => before);
+        expect(bob.state.blocks).toEqual(before);
+    });
+
+    it('keeps local edits across a dropped connection and merges on rejoin', () => {
+        const server = new LocalCollabServer();
+        const alice = join(server, 'alice', [para('p1', 'one')]);
+
+        // Queues while down, like WebSocketTransport.
+        const inner = server.createTransport();
+        let online = false;
+        let queued: CollabClientMessage[] = [];
+        let reconnect = () => {};
+        let drop = () => {};
+        const statuses: string[] = [];
+        const state = { blocks: [] as TypstBlock[] };
+        const bob = new CollabSession({
+            transport: {
+                connect: (room, client, onMessage, onDrop) => {
+                    reconnect = () => {
+                        inner.connect(room, client, onMessage);
+                        online = true;
+                        for (const msg of queued) inner.send(msg);
+                        queued = [];
+                    };
+                    drop = () => { inner.disconnect(); online = false; onDrop?.(); };
+                    reconnect();
+                },
+                send: (msg) => (online ? inner.send(msg) : queued.push(msg)),
+                disconnect: () => inner.disconnect(),
+            },
+            roomId: 'project-1',
+            clientId: 'bob',
+            user: { name: 'bob', color: '#000' },
+            onBlocks: (blocks) => { state.blocks = blocks; },
+            onStatus: (status) => statuses.push(status),
+        });
+        bob.start([]);
+        expect(statuses).toEqual(['connecting', 'connected']);
+
+        drop();
+        alice.edit((blocks) => [...blocks, para('p2', 'two')]);
+        bob.applyLocalBlocks([{ ...state.blocks[0], content: 'ONE' }]);
+        reconnect();
+
+        expect(statuses).toEqual(['connecting', 'connected', 'connecting', 'connected']);
+        expect(contents(bob.getBlocks())).toEqual(['ONE', 'two']);
+        expect(contents(state.blocks)).toEqual(['ONE', 'two']);
+        expect(contents(alice.state.blocks)).toEqual(['ONE', 'two']);
+    });
+
+    it('drops presence of peers that leave', () => {
+        const server = new LocalCollabServer();
+        const alice = join(server, 'alice', []);
+        const bob = join(server, 'bob', []);
+        bob.session.setFocus('p1');
+        expect(alice.session.getPeers()[0].blockId).toBe('p1');
+
+        bob.session.stop();
+        expect(alice.state.peers).toEqual([]);
+    });
+});
+
+describe('editor store collaboration', () => {
+    const user = { name: 'alice', color: '#000' };
+
+    // Alice edits through the store, bob through a bare session.
+    function startStore(server: LocalCollabServer) {
+        const blocks = [para('p1', 'one'), para('p2', 'two'), para('p3', 'three')];
+        const store = useEditorStore.getState();
+        store.reset();
+        useEditorStore.setState({ projectId: 'project-1', blocks, code: blocksToTypst(blocks), history: [{ blocks, settings: store.docSettings }] });
+        store.startCollab(server.createTransport(), user);
+        return join(server, 'bob', []);
+    }
+
+    afterEach(() => useEditorStore.getState().stopCollab());
+
+    it('publishes only the source-mode edits when switching back to visual', () => {
+        const server = new LocalCollabServer();
+        const bob = startStore(server);
+        const store = useEditorStore.getState();
+
+        store.switchMode('source');
+        store.setCode(useEditorStore.getState().code.replace('three', 'THREE'));
+        bob.edit((blocks) => blocks.map((b) => (b.id === 'p1' ? { ...b, content: 'ONE' } : b)));
+        store.switchMode('visual');
+
+        const blocks = useEditorStore.getState().blocks;
+        expect(blocks.map((b) => b.id)).toEqual(['p1', 'p2', 'p3']);
+        expect(contents(blocks)).toEqual(['ONE', 'two', 'THREE']);
+        expect(contents(bob.state.blocks)).toEqual(['ONE', 'two', 'THREE']);
+    });
+
+    it('merges remote edits into unsaved source and keeps local undo', () => {
+        const server = new LocalCollabServer();
+        const bob = startStore(server);
+        const store = useEditorStore.getState();
+
+        store.setBlocks(useEditorStore.getState().blocks.map((b) => (b.id === 'p3' ? { ...b, content: 'mine' } : b)));
+        bob.edit((blocks) => blocks.map((b) => (b.id === 'p1' ? { ...b, content: 'ONE' } : b)));
+        store.undo();
+        expect(contents(useEditorStore.getState().blocks)).toEqual(['ONE', 'two', 'three']);
+        expect(contents(bob.state.blocks)).toEqual(['ONE', 'two', 'three']);
+
+        store.switchMode('source');
+        store.setCode(useEditorStore.getState().code.replace('two', 'TWO'));
+        bob.edit((blocks) => [...blocks, para('p4', 'four')]);
+        const { code, syncSource } = useEditorStore.getState();
+        expect(syncSource).toBe('code');
+        expect(code).toContain('TWO');
+        expect(code).toContain('four');
+    });
+});
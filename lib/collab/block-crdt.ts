@@ -0,0 +1,215 @@
+import type { TypstBlock } from '@/lib/typst/types';
+import { positionBetween, positionTag } from './position';
+import type { BlockOp, CollabBlockFields, CollabTimestamp } from './types';
+
+type Register<T> = { value: T; ts: CollabTimestamp };
+
+type BlockEntry = {
+    fields: Map<string, Register<unknown>>;
+    position: Register<string> | null;
+    // LWW tombstone: concurrent updates/moves never resurrect a deleted block, but a later
+    // insert with the same id (e.g. undo of a delete) does.
+    deleted: Register<boolean> | null;
+};
+
+export function compareTimestamps(a: CollabTimestamp, b: CollabTimestamp): number {
+    if (a.counter !== b.counter) return a.counter - b.counter;
+    return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function blockFields(block: TypstBlock): CollabBlockFields {
+    const out: CollabBlockFields = {};
+    for (const [key, value] of Object.entries(block)) {
+        if (key === 'id' || value === undefined) continue;
+        out[key] = value;
+    }
+    return out;
+}
+
+/**
+ * Block list CRDT: every block field is a last-writer-wins register, the block order is
+ * a fractional position register, and deletion is a tombstone. All ops commute, so replicas
+ * that have seen the same set of ops materialize the same block list.
+ */
+export class BlockListCrdt {
+    private entries = new Map<string, BlockEntry>();
+
+    reset() {
+        this.entries.clear();
+    }
+
+    private entry(blockId: string): BlockEntry {
+        let e = this.entries.get(blockId);
+        if (!e) {
+            e = { fields: new Map(), position: null, deleted: null };
+            this.entries.set(blockId, e);
+        }
+        return e;
+    }
+
+    private setFields(e: BlockEntry, fields: CollabBlockFields, ts: CollabTimestamp) {
+        for (const [key, value] of Object.entries(fields)) {
+            const current = e.fields.get(key);
+            if (!current || compareTimestamps(ts, current.ts) > 0) {
+                e.fields.set(key, { value, ts });
+            }
+        }
+    }
+
+    private setPosition(e: BlockEntry, position: string, ts: CollabTimestamp) {
+        if (!e.position || compareTimestamps(ts, e.position.ts) > 0) {
+            e.position = { value: position, ts };
+        }
+    }
+
+    private setDeleted(e: BlockEntry, deleted: boolean, ts: CollabTimestamp) {
+        if (!e.deleted || compareTimestamps(ts, e.deleted.ts) > 0) {
+            e.deleted = { value: deleted, ts };
+        }
+    }
+
+    apply(op: BlockOp) {
+        const e = this.entry(op.blockId);
+        switch (op.kind) {
+            case 'insert':
+                this.setFields(e, op.fields, op.ts);
+                this.setPosition(e, op.position, op.ts);
+                this.setDeleted(e, false, op.ts);
+                break;
+            case 'update':
+                this.setFields(e, op.fields, op.ts);
+                break;
+            case 'move':
+                this.setPosition(e, op.position, op.ts);
+                break;
+            case 'delete':
+                this.setDeleted(e, true, op.ts);
+                break;
+        }
+    }
+
+    private visibleEntries(): Array<[string, BlockEntry & { position: Register<string> }]> {
+        const list = Array.from(this.entries.entries()).filter(
+            (pair): pair is [string, BlockEntry & { position: Register<string> }] => !pair[1].deleted?.value && pair[1].position !== null
+        );
+        list.sort(([idA, a], [idB, b]) => {
+            if (a.position.value !== b.position.value) return a.position.value < b.position.value ? -1 : 1;
+            return idA < idB ? -1 : idA > idB ? 1 : 0;
+        });
+        return list;
+    }
+
+    toBlocks(): TypstBlock[] {
+        return this.visibleEntries().map(([id, e]) => {
+            const block: Record<string, unknown> = { id };
+            for (const [key, reg] of e.fields) {
+                if (reg.value !== null && reg.value !== undefined) block[key] = reg.value;
+            }
+            return block as unknown as TypstBlock;
+        });
+    }
+
+    /**
+     * Compute the ops that turn the current materialized list into `next`.
+     * `nextTs` is called once per op so each op gets its own Lamport tick; new positions are
+     * tagged with its client id so concurrent inserts into the same gap never collide.
+     */
+    diff(next: TypstBlock[], nextTs: () => CollabTimestamp, clientId = ''): BlockOp[] {
+        const current = this.visibleEntries();
+        const currentIndex = new Map(current.map(([id], i) => [id, i]));
+        const nextIds = new Set(next.map((b) => b.id));
+        const ops: BlockOp[] = [];
+
+        for (const [id] of current) {
+            if (!nextIds.has(id)) ops.push({ kind: 'delete', blockId: id, ts: nextTs() });
+        }
+
+        // Blocks on the longest increasing run of old indices keep their positions;
+        // everything else is (re)positioned between its new neighbours.
+        const survivors = next.filter((b) => currentIndex.has(b.id));
+        const stable = longestIncreasingSubset(survivors.map((b) => currentIndex.get(b.id) as number))
+            .map((i) => survivors[i].id);
+        const stableIds = new Set(stable);
+        const positionOf = (id: string) => current[currentIndex.get(id) as number][1].position.value;
+        const tag = clientId ? positionTag(clientId) : undefined;
+
+        let prevPosition: string | null = null;
+        // A stable block only anchors if it sorts strictly after the previous one; blocks that
+        // share a position (e.g. from older untagged ops) are repositioned instead.
+        const anchors = (id: string) => stableIds.has(id) && (prevPosition === null || positionOf(id) > prevPosition);
+        for (let i = 0; i < next.length; i++) {
+            const block = next[i];
+            if (anchors(block.id)) {
+                prevPosition = positionOf(block.id);
+                continue;
+            }
+
+            let nextStable: string | null = null;
+            for (let j = i + 1; j < next.length; j++) {
+                if (anchors(next[j].id)) {
+                    nextStable = positionOf(next[j].id);
+                    break;
+                }
+            }
+            const position = positionBetween(prevPosition, nextStable, tag);
+            prevPosition = position;
+
+            if (currentIndex.has(block.id)) {
+                ops.push({ kind: 'move', blockId: block.id, position, ts: nextTs() });
+            } else {
+                // Fields absent from the block are cleared, so a re-inserted id does not inherit stale values.
+                const fields = blockFields(block);
+                for (const key of this.entries.get(block.id)?.fields.keys() ?? []) {
+                    if (!(key in fields)) fields[key] = null;
+                }
+                ops.push({ kind: 'insert', blockId: block.id, position, fields, ts: nextTs() });
+            }
+        }
+
+        // Field updates for surviving blocks
+        for (const block of survivors) {
+            const e = this.entries.get(block.id) as BlockEntry;
+            const fields = blockFields(block);
+            const changed: CollabBlockFields = {};
+            let any = false;
+            const keys = new Set([...Object.keys(fields), ...e.fields.keys()]);
+            for (const key of keys) {
+                const before = e.fields.get(key)?.value;
+                const after = fields[key];
+                if (!sameValue(before, after)) {
+                    changed[key] = after === undefined ? null : after;
+                    any = true;
+                }
+            }
+            if (any) ops.push({ kind: 'update', blockId: block.id, fields: changed, ts: nextTs() });
+        }
+
+        return ops;
+    }
+}
+
+// Indices (into `values`) of one longest strictly increasing subsequence.
+function longestIncreasingSubset(values: number[]): number[] {
+    const tails: number[] = [];
+    const prev: number[] = new Array(values.length).fill(-1);
+    for (let i = 0; i < values.length; i++) {
+        let lo = 0;
+        let hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (values[tails[mid]] < values[i]) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0) prev[i] = tails[lo - 1];
+        tails[lo] = i;
+    }
+    const out: number[] = [];
+    let k = tails.length > 0 ? tails[tails.length - 1] : -1;
+    while (k >= 0) {
+        out.push(k);
+        k = prev[k];
+    }
+    return out.reverse();
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export { positionBetween, positionTag } from './position';
+export { BlockListCrdt, compareTimestamps } from './block-crdt';
+export { LocalCollabServer, WebSocketTransport } from './transport';
+export { CollabSession, generateClientId, collabUserFromToken, type CollabSessionOptions } from './session';
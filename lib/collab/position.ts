@@ -0,0 +1,57 @@
+// Fractional positions: base-36 strings compared lexicographically.
+// A new position can always be generated between any two existing ones, so moves and
+// inserts never need to renumber other blocks.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+const digitValue = (ch: string) => DIGITS.indexOf(ch);
+
+function midpoint(a: string, b: string | null): string {
+    // Invariant: a < b (b === null means "+infinity"), and neither ends with '0'.
+    if (b !== null) {
+        let n = 0;
+        while ((a[n] ?? '0') === b[n]) n++;
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+
+    const da = a ? digitValue(a[0]) : 0;
+    const db = b !== null ? digitValue(b[0]) : DIGITS.length;
+    if (db - da > 1) {
+        return DIGITS[Math.round((da + db) / 2)];
+    }
+
+    // Adjacent digits: either take b's first digit (if b continues) or descend into a.
+    if (b !== null && b.length > 1) {
+        return b[0];
+    }
+    return DIGITS[da] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Short per-client suffix for `positionBetween`, so two clients filling the same gap at the
+ * same time still get distinct positions.
+ */
+export function positionTag(clientId: string): string {
+    let hash = 0;
+    for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) >>> 0;
+    const tag = hash.toString(36).replace(/0+$/, '');
+    return tag || '1';
+}
+
+/**
+ * Returns a position strictly between `before` and `after`.
+ * Omit `before` for the start of the list and `after` for the end.
+ * With a `tag` (see `positionTag`) the result ends in it.
+ */
+export function positionBetween(before?: string | null, after?: string | null, tag?: string): string {
+    const a = before ?? '';
+    const b = after ?? null;
+    if (b !== null && a >= b) {
+        throw new Error(`Invalid position range: ${a} >= ${b}`);
+    }
+    let p = midpoint(a, b);
+    if (!tag) return p;
+    // Anything appended to a prefix of `after` could overshoot it; step closer first.
+    while (b !== null && b.startsWith(p)) p = midpoint(p, b);
+    return p + tag;
+}
@@ -0,0 +1,163 @@
+import type { TypstBlock } from '@/lib/typst/types';
+import { BlockListCrdt } from './block-crdt';
+import type {
+    BlockOp,
+    CollabBlocksListener,
+    CollabPresence,
+    CollabPresenceListener,
+    CollabServerMessage,
+    CollabStatusListener,
+    CollabTimestamp,
+    CollabTransport,
+} from './types';
+
+export type CollabSessionOptions = {
+    transport: CollabTransport;
+    roomId: string;
+    clientId?: string;
+    user: { name: string; color: string };
+    // Called with the merged block list whenever remote ops change the document.
+    onBlocks: CollabBlocksListener;
+    onPresence?: CollabPresenceListener;
+    onStatus?: CollabStatusListener;
+};
+
+export function generateClientId(): string {
+    return `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const PRESENCE_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#0891b2', '#dc2626'];
+
+/**
+ * Presence identity for the signed-in user. The display name comes from the JWT subject
+ * when it can be decoded; the color is random per tab so two tabs of one user differ.
+ */
+export function collabUserFromToken(token: string | null): { name: string; color: string } {
+    let name = '协作者';
+    try {
+        const payload = token?.split('.')[1];
+        if (payload) {
+            const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) as Record<string, unknown>;
+            const sub = claims['email'] ?? claims['sub'];
+            if (typeof sub === 'string' && sub.trim()) name = sub.split('@')[0];
+        }
+    } catch {
+        // ignore malformed tokens
+    }
+    const color = PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)];
+    return { name, color };
+}
+
+/**
+ * One client's view of a shared project: turns local block-list changes into ops,
+ * merges remote ops through the CRDT and tracks peer presence.
+ */
+export class CollabSession {
+    readonly clientId: string;
+    private crdt = new BlockListCrdt();
+    private clock = 0;
+    private peers = new Map<string, CollabPresence>();
+    private presence: CollabPresence;
+    private joined = false;
+    private localBlocks: TypstBlock[] = [];
+
+    constructor(private opts: CollabSessionOptions) {
+        this.clientId = opts.clientId ?? generateClientId();
+        this.presence = { clientId: this.clientId, name: opts.user.name, color: opts.user.color, blockId: null };
+    }
+
+    start(initialBlocks: TypstBlock[]) {
+        this.localBlocks = initialBlocks;
+        this.opts.onStatus?.('connecting');
+        this.opts.transport.connect(this.opts.roomId, this.clientId, (msg) => this.handleMessage(msg), () => this.handleDrop());
+    }
+
+    stop() {
+        this.opts.transport.disconnect();
+        this.joined = false;
+        this.peers.clear();
+    }
+
+    getBlocks(): TypstBlock[] {
+        return this.crdt.toBlocks();
+    }
+
+    getPeers(): CollabPresence[] {
+        return Array.from(this.peers.values());
+    }
+
+    // Publish a local edit. Returns the ops that were sent (empty if nothing changed).
+    applyLocalBlocks(blocks: TypstBlock[]): BlockOp[] {
+        this.localBlocks = blocks;
+        if (!this.joined) return [];
+        const ops = this.crdt.diff(blocks, () => this.tick(), this.clientId);
+        if (ops.length === 0) return ops;
+        for (const op of ops) this.crdt.apply(op);
+        this.opts.transport.send({ type: 'ops', ops });
+        return ops;
+    }
+
+    setFocus(blockId: string | null) {
+        if (this.presence.blockId === blockId) return;
+        this.presence = { ...this.presence, blockId };
+        if (this.joined) this.opts.transport.send({ type: 'presence', presence: this.presence });
+    }
+
+    private tick(): CollabTimestamp {
+        this.clock += 1;
+        return { counter: this.clock, clientId: this.clientId };
+    }
+
+    private observe(ops: BlockOp[]) {
+        for (const op of ops) {
+            if (op.ts.counter > this.clock) this.clock = op.ts.counter;
+            this.crdt.apply(op);
+        }
+    }
+
+    // Keep editing through a dropped connection: local ops stay queued in the transport and
+    // the merged document is kept, so the next welcome only has to catch up.
+    private handleDrop() {
+        this.peers.clear();
+        this.opts.onPresence?.([]);
+        this.opts.onStatus?.('connecting');
+    }
+
+    private handleMessage(msg: CollabServerMessage) {
+        switch (msg.type) {
+            case 'welcome': {
+                // A rejoin merges the room's log into what we already have, unless the room
+                // came back empty and our copy has to seed it again.
+                if (!this.joined || msg.seed) this.crdt.reset();
+                this.joined = true;
+                this.peers = new Map(msg.peers.filter((p) => p.clientId !== this.clientId).map((p) => [p.clientId, p]));
+                this.opts.onPresence?.(this.getPeers());
+                this.opts.transport.send({ type: 'presence', presence: this.presence });
+
+                if (msg.seed) {
+                    // First one in: our copy of the project becomes the shared document.
+                    this.applyLocalBlocks(this.localBlocks);
+                } else {
+                    // Adopt the room's document (block ids are not stable across separate loads).
+                    this.observe(msg.ops);
+                    this.opts.onBlocks(this.crdt.toBlocks());
+                }
+                this.opts.onStatus?.('connected');
+                break;
+            }
+            case 'ops':
+                this.observe(msg.ops);
+                this.opts.onBlocks(this.crdt.toBlocks());
+                break;
+            case 'presence':
+                if (msg.presence.clientId === this.clientId) break;
+                this.peers.set(msg.presence.clientId, msg.presence);
+                this.opts.onPresence?.(this.getPeers());
+                break;
+            case 'leave':
+                this.peers.delete(msg.clientId);
+                this.opts.onPresence?.(this.getPeers());
+                break;
+        }
+    }
+}
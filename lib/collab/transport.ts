@@ -0,0 +1,178 @@
+import type {
+    BlockOp,
+    CollabClientMessage,
+    CollabPresence,
+    CollabServerMessage,
+    CollabTransport,
+} from './types';
+
+type Room = {
+    log: BlockOp[];
+    clients: Map<string, (msg: CollabServerMessage) => void>;
+    presence: Map<string, CollabPresence>;
+};
+
+/**
+ * In-process stand-in for the sync server. It relays messages between transports created
+ * from it and keeps each room's op log so late joiners can catch up.
+ *
+ * With `{ manual: true }`, deliveries are queued until `flush()` is called, which lets tests
+ * simulate concurrent edits made before either client has seen the other's ops.
+ */
+export class LocalCollabServer {
+    private rooms = new Map<string, Room>();
+    private queue: Array<() => void> = [];
+    private manual: boolean;
+
+    constructor(opts?: { manual?: boolean }) {
+        this.manual = !!opts?.manual;
+    }
+
+    createTransport(): CollabTransport {
+        let roomId: string | null = null;
+        let clientId: string | null = null;
+
+        return {
+            connect: (room, client, onMessage) => {
+                roomId = room;
+                clientId = client;
+                this.join(room, client, onMessage);
+            },
+            send: (msg) => {
+                if (roomId === null || clientId === null) return;
+                const r = roomId;
+                const c = clientId;
+                this.deliver(() => this.receive(r, c, msg));
+            },
+            disconnect: () => {
+                if (roomId === null || clientId === null) return;
+                this.leave(roomId, clientId);
+                roomId = null;
+                clientId = null;
+            },
+        };
+    }
+
+    // Deliver all queued messages (manual mode only).
+    flush() {
+        while (this.queue.length > 0) {
+            const next = this.queue.shift();
+            next?.();
+        }
+    }
+
+    private deliver(fn: () => void) {
+        if (this.manual) this.queue.push(fn);
+        else fn();
+    }
+
+    private room(roomId: string): Room {
+        let r = this.rooms.get(roomId);
+        if (!r) {
+            r = { log: [], clients: new Map(), presence: new Map() };
+            this.rooms.set(roomId, r);
+        }
+        return r;
+    }
+
+    private join(roomId: string, clientId: string, onMessage: (msg: CollabServerMessage) => void) {
+        const r = this.room(roomId);
+        const seed = r.log.length === 0 && r.clients.size === 0;
+        r.clients.set(clientId, onMessage);
+        onMessage({ type: 'welcome', ops: [...r.log], seed, peers: Array.from(r.presence.values()) });
+    }
+
+    private leave(roomId: string, clientId: string) {
+        const r = this.rooms.get(roomId);
+        if (!r) return;
+        r.clients.delete(clientId);
+        r.presence.delete(clientId);
+        this.broadcast(r, clientId, { type: 'leave', clientId });
+    }
+
+    private receive(roomId: string, clientId: string, msg: CollabClientMessage) {
+        const r = this.rooms.get(roomId);
+        if (!r || !r.clients.has(clientId)) return;
+        if (msg.type === 'ops') {
+            r.log.push(...msg.ops);
+            this.broadcast(r, clientId, { type: 'ops', ops: msg.ops });
+        } else if (msg.type === 'presence') {
+            r.presence.set(clientId, msg.presence);
+            this.broadcast(r, clientId, { type: 'presence', presence: msg.presence });
+        }
+    }
+
+    private broadcast(r: Room, fromClientId: string, msg: CollabServerMessage) {
+        for (const [id, handler] of r.clients) {
+            if (id !== fromClientId) handler(msg);
+        }
+    }
+}
+
+/**
+ * WebSocket transport. The server is expected to speak the same JSON protocol as
+ * LocalCollabServer, with the room and client passed as query parameters.
+ * A dropped socket is reopened with exponential backoff; messages sent while it is down
+ * are queued and flushed once it opens again.
+ */
+export class WebSocketTransport implements CollabTransport {
+    private socket: WebSocket | null = null;
+    private pending: CollabClientMessage[] = [];
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private retries = 0;
+
+    constructor(private url: string, private token?: string | null) { }
+
+    connect(roomId: string, clientId: string, onMessage: (msg: CollabServerMessage) => void, onDrop?: () => void) {
+        const u = new URL(this.url, typeof window !== 'undefined' ? window.location.href : undefined);
+        u.searchParams.set('room', roomId);
+        u.searchParams.set('client', clientId);
+        if (this.token) u.searchParams.set('token', this.token);
+
+        const socket = new WebSocket(u.toString());
+        this.socket = socket;
+        socket.onopen = () => {
+            this.retries = 0;
+            for (const msg of this.pending) socket.send(JSON.stringify(msg));
+            this.pending = [];
+        };
+        socket.onmessage = (evt) => {
+            try {
+                onMessage(JSON.parse(String(evt.data)) as CollabServerMessage);
+            } catch (err) {
+                console.warn('Ignoring malformed collab message', err);
+            }
+        };
+        // Errors are always followed by a close event, which does the reconnecting.
+        socket.onerror = () => console.warn('Collab connection error');
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            onDrop?.();
+            const delay = Math.min(30000, 1000 * 2 ** this.retries);
+            this.retries += 1;
+            this.retryTimer = setTimeout(() => {
+                this.retryTimer = null;
+                this.connect(roomId, clientId, onMessage, onDrop);
+            }, delay);
+        };
+    }
+
+    send(msg: CollabClientMessage) {
+        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(msg));
+        } else {
+            this.pending.push(msg);
+        }
+    }
+
+    disconnect() {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+        this.retries = 0;
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+        this.pending = [];
+    }
+}
@@ -0,0 +1,54 @@
+import type { TypstBlock } from '@/lib/typst/types';
+
+// Lamport timestamp; ties are broken by clientId so every replica orders ops identically.
+export type CollabTimestamp = {
+    counter: number;
+    clientId: string;
+};
+
+// All block fields except the id. `null` means "field removed" (JSON cannot carry undefined).
+export type CollabBlockFields = Record<string, unknown>;
+
+export type BlockOp =
+    | { kind: 'insert'; blockId: string; position: string; fields: CollabBlockFields; ts: CollabTimestamp }
+    | { kind: 'update'; blockId: string; fields: CollabBlockFields; ts: CollabTimestamp }
+    | { kind: 'move'; blockId: string; position: string; ts: CollabTimestamp }
+    | { kind: 'delete'; blockId: string; ts: CollabTimestamp };
+
+export type CollabPresence = {
+    clientId: string;
+    name: string;
+    color: string;
+    // Block the user is currently editing, if any.
+    blockId: string | null;
+};
+
+export type CollabClientMessage =
+    | { type: 'ops'; ops: BlockOp[] }
+    | { type: 'presence'; presence: CollabPresence };
+
+export type CollabServerMessage =
+    // `seed` is true for the first client in an empty room: it publishes its local blocks.
+    | { type: 'welcome'; ops: BlockOp[]; seed: boolean; peers: CollabPresence[] }
+    | { type: 'ops'; ops: BlockOp[] }
+    | { type: 'presence'; presence: CollabPresence }
+    | { type: 'leave'; clientId: string };
+
+/**
+ * Pluggable transport between a CollabSession and the sync server.
+ * The server relays ops to other clients and keeps the room's op log for late joiners.
+ * A transport that loses its connection calls `onDrop` and reconnects by itself; the server
+ * greets every (re)connection with a `welcome`, and messages sent meanwhile are queued.
+ */
+export interface CollabTransport {
+    connect(roomId: string, clientId: string, onMessage: (msg: CollabServerMessage) => void, onDrop?: () => void): void;
+    send(msg: CollabClientMessage): void;
+    disconnect(): void;
+}
+
+// 'connecting' until the server's welcome arrives, and again while a dropped connection is retried.
+export type CollabConnectionStatus = 'connecting' | 'connected';
+
+export type CollabBlocksListener = (blocks: TypstBlock[]) => void;
+export type CollabPresenceListener = (peers: CollabPresence[]) => void;
+export type CollabStatusListener = (status: CollabConnectionStatus) => void;
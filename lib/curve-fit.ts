@@ -0,0 +1,227 @@
+// Least-squares trendlines for scatter series, computed client-side.
+
+export type FitKind = 'linear' | 'polynomial' | 'exponential' | 'logarithmic';
+
+export const FIT_KINDS: Array<{ id: FitKind; name: string }> = [
+  { id: 'linear', name: '线性' },
+  { id: 'polynomial', name: '多项式' },
+  { id: 'exponential', name: '指数' },
+  { id: 'logarithmic', name: '对数' },
+];
+
+export const MAX_POLYNOMIAL_DEGREE = 6;
+
+export type FitPoint = { x: number; y: number };
+
+/**
+ * Coefficients are in the scaled coordinate t = (u - mean) / scale, where u is x (ln x for
+ * logarithmic fits), so the fit stays accurate far from the origin. `rawCoefficients` gives
+ * them in powers of x for display.
+ * - linear / polynomial: coefficients[i] multiplies t^i
+ * - exponential: y = a·e^(b·t), coefficients = [a, b]
+ * - logarithmic: y = a + b·t, coefficients = [a, b]
+ */
+export type CurveFit = {
+  kind: FitKind;
+  coefficients: number[];
+  mean: number;
+  scale: number;
+  r2: number;
+  xMin: number;
+  xMax: number;
+};
+
+export type FitModel = Pick<CurveFit, 'kind' | 'coefficients' | 'mean' | 'scale'>;
+
+export class CurveFitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurveFitError';
+  }
+}
+
+// Solve A·x = b by Gaussian elimination with partial pivoting; null when (numerically) singular.
+function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  // Pivots are compared against the size of A, so the check does not depend on the units of x.
+  const tolerance = 1e-12 * Math.max(...a.flat().map(Math.abs));
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (!(Math.abs(m[pivot][col]) > tolerance)) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = m[r][n];
+    for (let c = r + 1; c < n; c++) s -= m[r][c] * x[c];
+    x[r] = s / m[r][r];
+  }
+  return x;
+}
+
+// Polynomial least squares via the normal equations; x is centred and scaled to [-1, 1]
+// for conditioning, so tiny (1e-7) or large (ms timestamps) x values fit alike. The
+// coefficients are returned in the scaled coordinate.
+function polynomialFit(xs: number[], ys: number[], degree: number): Pick<CurveFit, 'coefficients' | 'mean' | 'scale'> {
+  const mean = xs.reduce((s, x) => s + x, 0) / xs.length;
+  const scale = Math.max(...xs.map((x) => Math.abs(x - mean)));
+  if (!(scale > 0)) throw new CurveFitError('数据点不足以确定拟合参数');
+  const size = degree + 1;
+  const a = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const b = new Array<number>(size).fill(0);
+  xs.forEach((x0, k) => {
+    const x = (x0 - mean) / scale;
+    const powers = Array.from({ length: 2 * degree + 1 }, (_, p) => x ** p);
+    for (let i = 0; i < size; i++) {
+      b[i] += ys[k] * powers[i];
+      for (let j = 0; j < size; j++) a[i][j] += powers[i + j];
+    }
+  });
+  const coefficients = solveLinearSystem(a, b);
+  if (!coefficients) throw new CurveFitError('数据点不足以确定拟合参数');
+  return { coefficients, mean, scale };
+}
+
+export function evaluateFit(fit: FitModel, x: number): number {
+  const [a, b] = fit.coefficients;
+  const t = ((fit.kind === 'logarithmic' ? Math.log(x) : x) - fit.mean) / fit.scale;
+  switch (fit.kind) {
+    case 'exponential':
+      return a * Math.exp(b * t);
+    case 'logarithmic':
+      return a + b * t;
+    default:
+      return fit.coefficients.reduceRight((acc, c) => acc * t + c, 0);
+  }
+}
+
+/**
+ * Coefficients in powers of x (ln x for logarithmic fits), in the layout `fitEquation` prints:
+ * polynomials expand Σ c_i·((x - mean) / scale)^i. Only for display; far from the origin the
+ * expanded terms cancel and lose precision, which `evaluateFit` avoids.
+ */
+export function rawCoefficients(fit: FitModel): number[] {
+  const { mean, scale } = fit;
+  const [a, b] = fit.coefficients;
+  if (fit.kind === 'exponential') return [a * Math.exp((-b * mean) / scale), b / scale];
+  if (fit.kind === 'logarithmic') return [a - (b * mean) / scale, b / scale];
+
+  const centred = fit.coefficients.map((c, i) => c / scale ** i);
+  const coefficients = new Array<number>(centred.length).fill(0);
+  let binomial = [1];
+  for (let i = 0; i < centred.length; i++) {
+    if (i > 0) binomial = [...binomial.map((v, j) => v + (binomial[j - 1] ?? 0)), 1];
+    for (let j = 0; j <= i; j++) coefficients[j] += centred[i] * binomial[j] * (-mean) ** (i - j);
+  }
+  return coefficients;
+}
+
+/**
+ * Least-squares fit of `points`. Exponential fits are linearised on ln(y) and need y > 0;
+ * logarithmic fits need x > 0. R² is always measured against the original y values.
+ */
+export function fitCurve(points: FitPoint[], kind: FitKind, degree = 2): CurveFit {
+  const pts = points.filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+  const order = kind === 'polynomial' ? Math.max(1, Math.min(MAX_POLYNOMIAL_DEGREE, Math.round(degree))) : 1;
+  if (pts.length < order + 1) throw new CurveFitError(`至少需要 ${order + 1} 个数据点`);
+  const xs = pts.map((p) => p.x);
+  const ys = pts.map((p) => p.y);
+
+  let model: FitModel;
+  if (kind === 'exponential') {
+    if (ys.some((y) => y <= 0)) throw new CurveFitError('指数拟合要求所有 y > 0');
+    const linear = polynomialFit(xs, ys.map(Math.log), 1);
+    const [lnA, b] = linear.coefficients;
+    model = { kind, ...linear, coefficients: [Math.exp(lnA), b] };
+  } else if (kind === 'logarithmic') {
+    if (xs.some((x) => x <= 0)) throw new CurveFitError('对数拟合要求所有 x > 0');
+    model = { kind, ...polynomialFit(xs.map(Math.log), ys, 1) };
+  } else {
+    model = { kind, ...polynomialFit(xs, ys, order) };
+  }
+
+  const mean = ys.reduce((s, y) => s + y, 0) / ys.length;
+  let ssRes = 0;
+  let ssTot = 0;
+  pts.forEach((p) => {
+    ssRes += (p.y - evaluateFit(model, p.x)) ** 2;
+    ssTot += (p.y - mean) ** 2;
+  });
+  const r2 = ssTot === 0 ? (ssRes === 0 ? 1 : 0) : 1 - ssRes / ssTot;
+  return { ...model, r2, xMin: Math.min(...xs), xMax: Math.max(...xs) };
+}
+
+// Points along the fitted curve over the data's x range, for drawing the trendline.
+export function sampleFit(fit: CurveFit, count = 50): FitPoint[] {
+  if (fit.kind !== 'exponential' && fit.kind !== 'logarithmic' && fit.coefficients.length <= 2) {
+    return [fit.xMin, fit.xMax].map((x) => ({ x, y: evaluateFit(fit, x) }));
+  }
+  const step = (fit.xMax - fit.xMin) / Math.max(1, count - 1);
+  return Array.from({ length: count }, (_, i) => {
+    const x = i === count - 1 ? fit.xMax : fit.xMin + i * step;
+    return { x, y: evaluateFit(fit, x) };
+  });
+}
+
+type EquationStyle = 'latex' | 'text';
+
+function formatNumber(value: number, digits: number, style: EquationStyle): string {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  if (exponent < -3 || exponent >= 5) {
+    const mantissa = String(Number((value / 10 ** exponent).toPrecision(digits)));
+    return style === 'latex' ? `${mantissa} \\times 10^{${exponent}}` : `${mantissa}e${exponent}`;
+  }
+  return String(Number(value.toPrecision(digits)));
+}
+
+function formatPower(variable: string, power: number, style: EquationStyle): string {
+  if (power === 0) return '';
+  if (power === 1) return variable;
+  return style === 'latex' ? `${variable}^{${power}}` : `${variable}^${power}`;
+}
+
+// Join signed terms as "a + b - c", dropping zero terms.
+function joinTerms(terms: Array<{ coef: number; suffix: string }>, digits: number, style: EquationStyle): string {
+  const sep = style === 'latex' ? ' ' : '';
+  const parts: string[] = [];
+  for (const { coef, suffix } of terms) {
+    if (Number(coef.toPrecision(digits)) === 0) continue;
+    const abs = formatNumber(Math.abs(coef), digits, style);
+    const body = suffix ? (abs === '1' ? suffix : `${abs}${sep}${suffix}`) : abs;
+    if (parts.length === 0) parts.push(coef < 0 ? `-${body}` : body);
+    else parts.push(coef < 0 ? `- ${body}` : `+ ${body}`);
+  }
+  return parts.length ? parts.join(' ') : '0';
+}
+
+/**
+ * The fitted equation, e.g. `y = 2.5 x + 1` (LaTeX, for a math block) or `y = 2.5x + 1`
+ * (plain text, for the chart annotation).
+ */
+export function fitEquation(fit: FitModel, style: EquationStyle = 'latex', digits = 4): string {
+  const coefficients = rawCoefficients(fit);
+  const [a, b] = coefficients;
+  let rhs: string;
+  if (fit.kind === 'exponential') {
+    const exponent = joinTerms([{ coef: b, suffix: 'x' }], digits, style);
+    const head = formatNumber(a, digits, style);
+    rhs = style === 'latex' ? `${head} e^{${exponent}}` : `${head}e^(${exponent})`;
+  } else if (fit.kind === 'logarithmic') {
+    rhs = joinTerms([{ coef: a, suffix: '' }, { coef: b, suffix: style === 'latex' ? '\\ln x' : 'ln(x)' }], digits, style);
+  } else {
+    const terms = coefficients.map((coef, i) => ({ coef, suffix: formatPower('x', i, style) })).reverse();
+    rhs = joinTerms(terms, digits, style);
+  }
+  return `y = ${rhs}`;
+}
+
+export function formatR2(r2: number, style: EquationStyle = 'latex'): string {
+  return `${style === 'latex' ? 'R^{2}' : 'R²'} = ${r2.toFixed(4)}`;
+}
@@ -0,0 +1,477 @@
+// Structural model behind the visual equation editor. Formulas are edited as a tree of
+// rows and slots and always stored as LaTeX, which latexToTypstMath turns into Typst.
+
+export type MathRow = MathNode[];
+
+export type MatrixEnv = 'pmatrix' | 'bmatrix' | 'vmatrix' | 'Bmatrix' | 'Vmatrix' | 'matrix' | 'cases';
+
+export type MathNode =
+  // A symbol, number, operator or command that takes no editable argument ("x", "+", "\alpha").
+  // Constructs the editor cannot restructure (e.g. "\text{kg}") are kept verbatim as atoms too.
+  | { type: 'atom'; latex: string }
+  | { type: 'group'; slots: MathRow[] }
+  | { type: 'frac'; slots: MathRow[] } // [numerator, denominator]
+  | { type: 'sqrt'; slots: MathRow[] }
+  | { type: 'root'; slots: MathRow[] } // [index, radicand]
+  // Scripts attach to whatever precedes them, like ^ and _ in LaTeX.
+  | { type: 'sup'; slots: MathRow[] }
+  | { type: 'sub'; slots: MathRow[] }
+  | { type: 'subsup'; slots: MathRow[] } // [subscript, superscript]
+  | { type: 'delim'; left: string; right: string; slots: MathRow[] }
+  | { type: 'accent'; command: string; slots: MathRow[] }
+  // Cells in row-major order.
+  | { type: 'matrix'; env: MatrixEnv; cols: number; slots: MathRow[] };
+
+export type MathStructNode = Exclude<MathNode, { type: 'atom' }>;
+
+// Each step enters slot `slot` of the node at index `node` in the current row.
+export type MathSlotPath = Array<{ node: number; slot: number }>;
+
+export type MathCursor = { path: MathSlotPath; index: number };
+
+export type MathSymbol = { latex: string; display: string };
+
+export const MATRIX_ENVS: MatrixEnv[] = ['pmatrix', 'bmatrix', 'vmatrix', 'Bmatrix', 'Vmatrix', 'matrix', 'cases'];
+
+export const MATH_SYMBOL_GROUPS: Array<{ name: string; symbols: MathSymbol[] }> = [
+  {
+    name: '希腊字母',
+    symbols: [
+      ['alpha', 'α'], ['beta', 'β'], ['gamma', 'γ'], ['delta', 'δ'], ['epsilon', 'ϵ'], ['varepsilon', 'ε'],
+      ['zeta', 'ζ'], ['eta', 'η'], ['theta', 'θ'], ['lambda', 'λ'], ['mu', 'μ'], ['nu', 'ν'], ['xi', 'ξ'],
+      ['pi', 'π'], ['rho', 'ρ'], ['sigma', 'σ'], ['tau', 'τ'], ['phi', 'ϕ'], ['varphi', 'φ'], ['chi', 'χ'],
+      ['psi', 'ψ'], ['omega', 'ω'], ['Gamma', 'Γ'], ['Delta', 'Δ'], ['Theta', 'Θ'], ['Lambda', 'Λ'],
+      ['Sigma', 'Σ'], ['Phi', 'Φ'], ['Psi', 'Ψ'], ['Omega', 'Ω'],
+    ].map(([name, display]) => ({ latex: `\\${name}`, display })),
+  },
+  {
+    name: '运算符',
+    symbols: [
+      ['\\pm', '±'], ['\\mp', '∓'], ['\\times', '×'], ['\\div', '÷'], ['\\cdot', '·'], ['\\circ', '∘'],
+      ['\\partial', '∂'], ['\\nabla', '∇'], ['\\infty', '∞'], ['\\sum', '∑'], ['\\prod', '∏'], ['\\int', '∫'],
+      ['\\iint', '∬'], ['\\oint', '∮'], ['\\lim', 'lim'], ['\\sin', 'sin'], ['\\cos', 'cos'], ['\\tan', 'tan'],
+      ['\\ln', 'ln'], ['\\log', 'log'], ['\\exp', 'exp'], ['\\degree', '°'],
+    ].map(([latex, display]) => ({ latex, display })),
+  },
+  {
+    name: '关系',
+    symbols: [
+      ['=', '='], ['\\neq', '≠'], ['\\approx', '≈'], ['\\equiv', '≡'], ['\\propto', '∝'], ['\\sim', '∼'],
+      ['<', '<'], ['>', '>'], ['\\leq', '≤'], ['\\geq', '≥'], ['\\ll', '≪'], ['\\gg', '≫'],
+      ['\\in', '∈'], ['\\notin', '∉'], ['\\subset', '⊂'], ['\\subseteq', '⊆'], ['\\cup', '∪'], ['\\cap', '∩'],
+      ['\\to', '→'], ['\\Rightarrow', '⇒'], ['\\Leftrightarrow', '⇔'], ['\\forall', '∀'], ['\\exists', '∃'],
+    ].map(([latex, display]) => ({ latex, display })),
+  },
+];
+
+const SYMBOL_DISPLAY = new Map<string, string>([
+  ...MATH_SYMBOL_GROUPS.flatMap((g) => g.symbols.map((s) => [s.latex, s.display] as [string, string])),
+  ['\\le', '≤'], ['\\ge', '≥'], ['\\ne', '≠'], ['\\cdots', '⋯'], ['\\ldots', '…'], ['\\dots', '…'],
+  ['\\rightarrow', '→'], ['\\leftarrow', '←'], ['\\{', '{'], ['\\}', '}'], ['\\|', '‖'], ['\\langle', '⟨'],
+  ['\\rangle', '⟩'], ['\\%', '%'], ['\\,', ' '], ['\\;', ' '], ['\\quad', '  '], ['\\qquad', '    '],
+  ['\\\\', '↵'], ['\\max', 'max'], ['\\min', 'min'], ['\\det', 'det'],
+]);
+
+const FRAC_COMMANDS = new Set(['\\frac', '\\dfrac', '\\tfrac', '\\cfrac']);
+const ACCENT_COMMANDS = new Set(['\\vec', '\\hat', '\\bar', '\\dot', '\\ddot', '\\tilde', '\\overline', '\\underline', '\\widehat', '\\widetilde']);
+// Single-argument commands kept verbatim (their argument is text or a font switch, not structure).
+const VERBATIM_ARG_COMMANDS = new Set(['\\text', '\\mathrm', '\\textrm', '\\mathbf', '\\mathit', '\\mathbb', '\\mathcal', '\\operatorname', '\\boldsymbol', '\\mathsf']);
+
+export const SLOT_COUNT: Record<MathStructNode['type'], number> = {
+  group: 1,
+  frac: 2,
+  sqrt: 1,
+  root: 2,
+  sup: 1,
+  sub: 1,
+  subsup: 2,
+  delim: 1,
+  accent: 1,
+  matrix: 0, // rows * cols
+};
+
+// Display text for an atom and whether it is an upright (non-italic) glyph.
+export function mathAtomDisplay(latex: string): { text: string; upright: boolean } {
+  const known = SYMBOL_DISPLAY.get(latex);
+  // Lowercase Greek is italic like Latin letters; capitals and operators stay upright.
+  if (known !== undefined) return { text: known, upright: !/^[\u03B1-\u03C9\u03D1\u03D5\u03F5]$/.test(known) };
+  const verbatim = latex.match(/^\\[A-Za-z]+\{(.*)\}$/);
+  if (verbatim) return { text: verbatim[1], upright: true };
+  if (/^\\[A-Za-z]+$/.test(latex)) return { text: latex.slice(1), upright: true };
+  return { text: latex, upright: !/^[A-Za-z]$/.test(latex) };
+}
+
+// ============================================================================
+// LaTeX -> tree
+// ============================================================================
+
+type Token = { value: string; start: number; end: number };
+
+function tokenizeLatex(latex: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /\\[A-Za-z]+\*?|\\[^A-Za-z]|\s+|[\s\S]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(latex)) !== null) {
+    if (/^\s+$/.test(m[0])) continue;
+    tokens.push({ value: m[0], start: m.index, end: m.index + m[0].length });
+  }
+  return tokens;
+}
+
+class LatexTreeParser {
+  private pos = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): MathRow {
+    const row: MathRow = [];
+    while (this.pos < this.tokens.length) {
+      row.push(...this.parseRow(new Set()));
+      // A stray closing token at top level is kept as a literal atom.
+      if (this.pos < this.tokens.length) row.push({ type: 'atom', latex: this.tokens[this.pos++].value });
+    }
+    return row;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.pos]?.value;
+  }
+
+  private parseRow(stops: Set<string>): MathRow {
+    const row: MathRow = [];
+    while (this.pos < this.tokens.length) {
+      const tok = this.peek()!;
+      if (tok === '}' || stops.has(tok)) break;
+      const node = this.parseItem();
+      if (node) row.push(node);
+    }
+    return row;
+  }
+
+  // Contents of a `{...}` group (consuming both braces), or a single item as a row.
+  private parseArg(): MathRow {
+    const tok = this.peek();
+    if (tok === undefined) return [];
+    if (tok === '{') {
+      this.pos++;
+      const row = this.parseRow(new Set());
+      if (this.peek() === '}') this.pos++;
+      return row;
+    }
+    const node = this.parseItem();
+    return node ? [node] : [];
+  }
+
+  private slice(startPos: number): string {
+    const start = this.tokens[startPos].start;
+    const end = this.tokens[this.pos - 1]?.end ?? start;
+    return this.source.slice(start, end);
+  }
+
+  private parseItem(): MathNode | null {
+    const startPos = this.pos;
+    const tok = this.tokens[this.pos++].value;
+
+    if (tok === '{') {
+      const row = this.parseRow(new Set());
+      if (this.peek() === '}') this.pos++;
+      return { type: 'group', slots: [row] };
+    }
+    if (tok === '^' || tok === '_') {
+      const first = this.parseArg();
+      const other = tok === '^' ? '_' : '^';
+      if (this.peek() === other) {
+        this.pos++;
+        const second = this.parseArg();
+        return { type: 'subsup', slots: tok === '_' ? [first, second] : [second, first] };
+      }
+      return { type: tok === '^' ? 'sup' : 'sub', slots: [first] };
+    }
+    if (FRAC_COMMANDS.has(tok)) {
+      const num = this.parseArg();
+      return { type: 'frac', slots: [num, this.parseArg()] };
+    }
+    if (tok === '\\sqrt') {
+      if (this.peek() === '[') {
+        this.pos++;
+        const index = this.parseRow(new Set([']']));
+        if (this.peek() === ']') this.pos++;
+        return { type: 'root', slots: [index, this.parseArg()] };
+      }
+      return { type: 'sqrt', slots: [this.parseArg()] };
+    }
+    if (ACCENT_COMMANDS.has(tok)) {
+      return { type: 'accent', command: tok, slots: [this.parseArg()] };
+    }
+    if (VERBATIM_ARG_COMMANDS.has(tok)) {
+      this.parseArg();
+      return { type: 'atom', latex: this.slice(startPos) };
+    }
+    if (tok === '\\left') {
+      const left = this.tokens[this.pos] ? this.tokens[this.pos++].value : '.';
+      const body = this.parseRow(new Set(['\\right']));
+      let right = '.';
+      if (this.peek() === '\\right') {
+        this.pos++;
+        right = this.tokens[this.pos] ? this.tokens[this.pos++].value : '.';
+      }
+      return { type: 'delim', left, right, slots: [body] };
+    }
+    if (tok === '\\begin') {
+      const env = this.readEnvName();
+      if ((MATRIX_ENVS as string[]).includes(env)) return this.parseMatrix(env as MatrixEnv);
+      // Unknown environments are kept verbatim up to the matching \end.
+      let depth = 1;
+      while (this.pos < this.tokens.length && depth > 0) {
+        const t = this.tokens[this.pos++].value;
+        if (t === '\\begin') depth++;
+        else if (t === '\\end') depth--;
+      }
+      this.readEnvName();
+      return { type: 'atom', latex: this.slice(startPos) };
+    }
+    return { type: 'atom', latex: tok };
+  }
+
+  private readEnvName(): string {
+    if (this.peek() !== '{') return '';
+    this.pos++;
+    let name = '';
+    while (this.pos < this.tokens.length && this.peek() !== '}') name += this.tokens[this.pos++].value;
+    if (this.peek() === '}') this.pos++;
+    return name;
+  }
+
+  private parseMatrix(env: MatrixEnv): MathNode {
+    const rows: MathRow[][] = [];
+    let cells: MathRow[] = [];
+    const stops = new Set(['&', '\\\\', '\\end']);
+    while (this.pos < this.tokens.length) {
+      cells.push(this.parseRow(stops));
+      const tok = this.peek();
+      if (tok === '&') {
+        this.pos++;
+      } else if (tok === '\\\\') {
+        this.pos++;
+        rows.push(cells);
+        cells = [];
+      } else {
+        if (tok === '\\end') {
+          this.pos++;
+          this.readEnvName();
+        } else if (tok === '}') {
+          this.pos++;
+        }
+        break;
+      }
+    }
+    // A trailing "\\" leaves one empty cell behind; drop it.
+    if (cells.length > 1 || (cells.length === 1 && cells[0].length > 0)) rows.push(cells);
+    if (rows.length === 0) rows.push([[]]);
+    const cols = Math.max(1, ...rows.map((r) => r.length));
+    return { type: 'matrix', env, cols, slots: rows.flatMap((r) => Array.from({ length: cols }, (_, c) => r[c] ?? [])) };
+  }
+}
+
+export function parseLatexMath(latex: string): MathRow {
+  const source = latex ?? '';
+  return new LatexTreeParser(source, tokenizeLatex(source)).parse();
+}
+
+// ============================================================================
+// tree -> LaTeX
+// ============================================================================
+
+function joinLatex(pieces: string[]): string {
+  let out = '';
+  for (const piece of pieces) {
+    if (!piece) continue;
+    // "\alpha x" must keep its space, "\alphax" would be a different command.
+    if (/\\[A-Za-z]+$/.test(out) && /^[A-Za-z0-9]/.test(piece)) out += ' ';
+    out += piece;
+  }
+  return out;
+}
+
+function nodeToLatex(node: MathNode): string {
+  switch (node.type) {
+    case 'atom':
+      return node.latex;
+    case 'group':
+      return `{${mathRowToLatex(node.slots[0])}}`;
+    case 'frac':
+      return `\\frac{${mathRowToLatex(node.slots[0])}}{${mathRowToLatex(node.slots[1])}}`;
+    case 'sqrt':
+      return `\\sqrt{${mathRowToLatex(node.slots[0])}}`;
+    case 'root':
+      return `\\sqrt[${mathRowToLatex(node.slots[0])}]{${mathRowToLatex(node.slots[1])}}`;
+    case 'sup':
+      return `^{${mathRowToLatex(node.slots[0])}}`;
+    case 'sub':
+      return `_{${mathRowToLatex(node.slots[0])}}`;
+    case 'subsup':
+      return `_{${mathRowToLatex(node.slots[0])}}^{${mathRowToLatex(node.slots[1])}}`;
+    case 'delim':
+      return joinLatex([`\\left${node.left}`, mathRowToLatex(node.slots[0]), `\\right${node.right}`]);
+    case 'accent':
+      return `${node.command}{${mathRowToLatex(node.slots[0])}}`;
+    case 'matrix': {
+      const rows: string[] = [];
+      for (let r = 0; r * node.cols < node.slots.length; r++) {
+        rows.push(node.slots.slice(r * node.cols, (r + 1) * node.cols).map(mathRowToLatex).join(' & '));
+      }
+      return `\\begin{${node.env}} ${rows.join(' \\\\ ')} \\end{${node.env}}`;
+    }
+  }
+}
+
+export function mathRowToLatex(row: MathRow): string {
+  return joinLatex(row.map(nodeToLatex));
+}
+
+// ============================================================================
+// Templates and cursor operations
+// ============================================================================
+
+export function createMathNode(type: MathStructNode['type'], opts: { env?: MatrixEnv; rows?: number; cols?: number; command?: string; left?: string; right?: string } = {}): MathStructNode {
+  const empty = (n: number): MathRow[] => Array.from({ length: n }, () => []);
+  switch (type) {
+    case 'matrix': {
+      const rows = Math.max(1, opts.rows ?? 2);
+      const cols = Math.max(1, opts.cols ?? 2);
+      return { type, env: opts.env ?? 'pmatrix', cols, slots: empty(rows * cols) };
+    }
+    case 'accent':
+      return { type, command: opts.command ?? '\\vec', slots: empty(1) };
+    case 'delim':
+      return { type, left: opts.left ?? '(', right: opts.right ?? ')', slots: empty(1) };
+    default:
+      return { type, slots: empty(SLOT_COUNT[type]) } as MathStructNode;
+  }
+}
+
+export function isMathStruct(node: MathNode | undefined): node is MathStructNode {
+  return !!node && node.type !== 'atom';
+}
+
+export function getMathRow(root: MathRow, path: MathSlotPath): MathRow {
+  let row = root;
+  for (const step of path) {
+    const node = row[step.node];
+    if (!isMathStruct(node)) return [];
+    row = node.slots[step.slot] ?? [];
+  }
+  return row;
+}
+
+// Immutably replace the row at `path`.
+export function updateMathRow(root: MathRow, path: MathSlotPath, fn: (row: MathRow) => MathRow): MathRow {
+  if (path.length === 0) return fn(root);
+  const [step, ...rest] = path;
+  return root.map((node, i) => {
+    if (i !== step.node || !isMathStruct(node)) return node;
+    const slots = node.slots.map((slot, s) => (s === step.slot ? updateMathRow(slot, rest, fn) : slot));
+    return { ...node, slots } as MathStructNode;
+  });
+}
+
+// Insert a node at the cursor; structures receive the cursor in their first slot.
+export function insertMathNode(root: MathRow, cursor: MathCursor, node: MathNode): { root: MathRow; cursor: MathCursor } {
+  const next = updateMathRow(root, cursor.path, (row) => [...row.slice(0, cursor.index), node, ...row.slice(cursor.index)]);
+  if (isMathStruct(node) && node.slots.length > 0) {
+    return { root: next, cursor: { path: [...cursor.path, { node: cursor.index, slot: 0 }], index: 0 } };
+  }
+  return { root: next, cursor: { path: cursor.path, index: cursor.index + 1 } };
+}
+
+export function deleteMathBackward(root: MathRow, cursor: MathCursor): { root: MathRow; cursor: MathCursor } {
+  if (cursor.index > 0) {
+    const next = updateMathRow(root, cursor.path, (row) => row.filter((_, i) => i !== cursor.index - 1));
+    return { root: next, cursor: { path: cursor.path, index: cursor.index - 1 } };
+  }
+  if (cursor.path.length === 0) return { root, cursor };
+  // At the start of a slot: remove the enclosing structure when it is empty, else step out of it.
+  const parentPath = cursor.path.slice(0, -1);
+  const { node: nodeIndex } = cursor.path[cursor.path.length - 1];
+  const parent = getMathRow(root, parentPath)[nodeIndex];
+  const outside = { path: parentPath, index: nodeIndex };
+  if (isMathStruct(parent) && parent.slots.every((slot) => slot.length === 0)) {
+    return { root: updateMathRow(root, parentPath, (row) => row.filter((_, i) => i !== nodeIndex)), cursor: outside };
+  }
+  return { root, cursor: outside };
+}
+
+export function moveMathCursor(root: MathRow, cursor: MathCursor, dir: 'left' | 'right'): MathCursor {
+  const row = getMathRow(root, cursor.path);
+  if (dir === 'right') {
+    const node = row[cursor.index];
+    if (isMathStruct(node) && node.slots.length > 0) return { path: [...cursor.path, { node: cursor.index, slot: 0 }], index: 0 };
+    if (cursor.index < row.length) return { path: cursor.path, index: cursor.index + 1 };
+  } else {
+    const node = row[cursor.index - 1];
+    if (isMathStruct(node) && node.slots.length > 0) {
+      const slot = node.slots.length - 1;
+      return { path: [...cursor.path, { node: cursor.index - 1, slot }], index: node.slots[slot].length };
+    }
+    if (cursor.index > 0) return { path: cursor.path, index: cursor.index - 1 };
+  }
+  if (cursor.path.length === 0) return cursor;
+
+  // Leaving a slot: go to the neighbouring slot of the same structure, else step out.
+  const parentPath = cursor.path.slice(0, -1);
+  const step = cursor.path[cursor.path.length - 1];
+  const parent = getMathRow(root, parentPath)[step.node];
+  const slotCount = isMathStruct(parent) ? parent.slots.length : 0;
+  const nextSlot = dir === 'right' ? step.slot + 1 : step.slot - 1;
+  if (nextSlot >= 0 && nextSlot < slotCount && isMathStruct(parent)) {
+    return { path: [...parentPath, { node: step.node, slot: nextSlot }], index: dir === 'right' ? 0 : parent.slots[nextSlot].length };
+  }
+  return { path: parentPath, index: dir === 'right' ? step.node + 1 : step.node };
+}
+
+// Jump between vertically stacked slots (numerator/denominator, matrix rows, sub/superscript).
+export function moveMathCursorVertical(root: MathRow, cursor: MathCursor, dir: 'up' | 'down'): MathCursor {
+  for (let depth = cursor.path.length - 1; depth >= 0; depth--) {
+    const parentPath = cursor.path.slice(0, depth);
+    const step = cursor.path[depth];
+    const parent = getMathRow(root, parentPath)[step.node];
+    if (!isMathStruct(parent)) continue;
+    let target = -1;
+    if (parent.type === 'frac') target = dir === 'down' ? 1 : 0;
+    else if (parent.type === 'subsup') target = dir === 'down' ? 0 : 1;
+    else if (parent.type === 'matrix') target = step.slot + (dir === 'down' ? parent.cols : -parent.cols);
+    if (target >= 0 && target < parent.slots.length && target !== step.slot) {
+      return { path: [...parentPath, { node: step.node, slot: target }], index: parent.slots[target].length };
+    }
+  }
+  return cursor;
+}
+
+// Grow the innermost matrix around the cursor by one row or column.
+export function extendMathMatrix(root: MathRow, cursor: MathCursor, what: 'row' | 'col'): MathRow {
+  for (let depth = cursor.path.length - 1; depth >= 0; depth--) {
+    const parentPath = cursor.path.slice(0, depth);
+    const step = cursor.path[depth];
+    const parent = getMathRow(root, parentPath)[step.node];
+    if (parent?.type !== 'matrix') continue;
+    return updateMathRow(root, parentPath, (row) => row.map((node, i) => {
+      if (i !== step.node || node.type !== 'matrix') return node;
+      if (what === 'row') return { ...node, slots: [...node.slots, ...Array.from({ length: node.cols }, () => [])] };
+      const slots: MathRow[] = [];
+      node.slots.forEach((cell, idx) => {
+        slots.push(cell);
+        if (idx % node.cols === node.cols - 1) slots.push([]);
+      });
+      return { ...node, cols: node.cols + 1, slots };
+    }));
+  }
+  return root;
+}
+
+export function findEnclosingMatrix(root: MathRow, cursor: MathCursor): Extract<MathNode, { type: 'matrix' }> | undefined {
+  for (let depth = cursor.path.length - 1; depth >= 0; depth--) {
+    const parent = getMathRow(root, cursor.path.slice(0, depth))[cursor.path[depth].node];
+    if (parent?.type === 'matrix') return parent;
+  }
+  return undefined;
+}
@@ -0,0 +1,115 @@
+import { ApiError, type Project } from './api';
+
+// Local copy of projects and pending saves, so the editor keeps working while the backend is unreachable.
+const DB_NAME = 'labflow_offline';
+const PROJECTS_STORE = 'projects';
+const QUEUE_STORE = 'sync_queue';
+
+export type QueuedProjectUpdate = {
+  projectId: string;
+  title: string;
+  typst_code: string;
+  // Server revision the offline edits were based on (see updateProject).
+  base_updated_at?: string;
+  queuedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        // One entry per project: a newer offline save replaces the pending one.
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'projectId' });
+      }
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isOfflineCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * True when a request failed because the backend could not be reached
+ * (as opposed to an HTTP error response).
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (err instanceof ApiError) return false;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return err instanceof TypeError;
+}
+
+export async function cacheProject(project: Project): Promise<void> {
+  if (!isOfflineCacheAvailable()) return;
+  await withStore<IDBValidKey>(PROJECTS_STORE, 'readwrite', (store) => store.put(project));
+}
+
+export async function getCachedProject(id: string): Promise<Project | null> {
+  if (!isOfflineCacheAvailable()) return null;
+  return (await withStore<Project | undefined>(PROJECTS_STORE, 'readonly', (store) => store.get(id))) ?? null;
+}
+
+export async function queueProjectUpdate(update: Omit<QueuedProjectUpdate, 'queuedAt'>): Promise<void> {
+  if (!isOfflineCacheAvailable()) throw new Error('当前浏览器不支持离线保存');
+  const entry: QueuedProjectUpdate = { ...update, queuedAt: Date.now() };
+  await withStore<IDBValidKey>(QUEUE_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+export async function getQueuedUpdate(projectId: string): Promise<QueuedProjectUpdate | null> {
+  if (!isOfflineCacheAvailable()) return null;
+  return (await withStore<QueuedProjectUpdate | undefined>(QUEUE_STORE, 'readonly', (store) => store.get(projectId))) ?? null;
+}
+
+export async function listQueuedUpdates(): Promise<QueuedProjectUpdate[]> {
+  if (!isOfflineCacheAvailable()) return [];
+  const all = await withStore<QueuedProjectUpdate[]>(QUEUE_STORE, 'readonly', (store) => store.getAll());
+  return all.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * Drop a project's pending update. With `queuedAt`, only that exact entry is removed, so a newer
+ * offline save made while the old one was being replayed stays queued.
+ */
+export async function removeQueuedUpdate(projectId: string, queuedAt?: number): Promise<void> {
+  if (!isOfflineCacheAvailable()) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = tx.objectStore(QUEUE_STORE);
+    const request = store.get(projectId);
+    request.onsuccess = () => {
+      const entry = request.result as QueuedProjectUpdate | undefined;
+      if (entry && (queuedAt === undefined || entry.queuedAt === queuedAt)) store.delete(projectId);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,394 @@
+import JSZip from 'jszip';
+import {
+  PersistedTablePayload,
+  PersistedTableCell,
+  applyTableFormulas,
+  escapeTypstMarkup,
+  isSupportedTableFormula,
+  parseTableCellRef,
+  tableColumnLabel,
+} from './typst';
+
+// CSV / TSV / XLSX import and export for table blocks.
+
+export type SheetRange = { r1: number; c1: number; r2: number; c2: number }; // 0-based, inclusive
+
+export type SpreadsheetCell = {
+  value: string;
+  formula?: string; // without the leading "="
+};
+
+export type SpreadsheetSheet = {
+  name: string;
+  rows: SpreadsheetCell[][];
+  merges: SheetRange[];
+};
+
+export const TABLE_IMPORT_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+// ---------------------------------------------------------------------------
+// Delimited text
+// ---------------------------------------------------------------------------
+
+// Pick the delimiter that splits the first line into the most fields (quotes respected).
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+  for (const d of ['\t', ',', ';']) {
+    let count = 0;
+    let quoted = false;
+    for (const ch of firstLine) {
+      if (ch === '"') quoted = !quoted;
+      else if (ch === d && !quoted) count++;
+    }
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV/TSV (RFC 4180 quoting, CRLF or LF). The delimiter is detected when omitted.
+ */
+export function parseDelimitedText(text: string, delimiter?: string): string[][] {
+  const src = (text ?? '').replace(/^\uFEFF/, '');
+  const d = delimiter ?? detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === d) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop trailing blank lines.
+  while (rows.length > 0 && rows[rows.length - 1].every((f) => f === '')) rows.pop();
+  return rows;
+}
+
+export function toDelimitedText(rows: string[][], delimiter = ','): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map((row) => row.map(quote).join(delimiter)).join('\r\n');
+}
+
+// ---------------------------------------------------------------------------
+// Ranges and payload mapping
+// ---------------------------------------------------------------------------
+
+export function formatSheetRange(range: SheetRange): string {
+  return `${tableColumnLabel(range.c1)}${range.r1 + 1}:${tableColumnLabel(range.c2)}${range.r2 + 1}`;
+}
+
+// "B2:D10" or a single cell "B2".
+export function parseSheetRange(text: string): SheetRange | null {
+  const [from, to = from] = (text ?? '').trim().split(':');
+  const a = parseTableCellRef(from ?? '');
+  const b = parseTableCellRef(to ?? '');
+  if (!a || !b || a.r < 0 || a.c < 0 || b.r < 0 || b.c < 0) return null;
+  return { r1: Math.min(a.r, b.r), c1: Math.min(a.c, b.c), r2: Math.max(a.r, b.r), c2: Math.max(a.c, b.c) };
+}
+
+// Smallest range holding every non-empty cell and merge; null for an empty sheet.
+export function sheetUsedRange(sheet: SpreadsheetSheet): SheetRange | null {
+  let range: SheetRange | null = null;
+  const include = (r: number, c: number) => {
+    range = range
+      ? { r1: Math.min(range.r1, r), c1: Math.min(range.c1, c), r2: Math.max(range.r2, r), c2: Math.max(range.c2, c) }
+      : { r1: r, c1: c, r2: r, c2: c };
+  };
+  sheet.rows.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell.value !== '' || cell.formula) include(r, c);
+  }));
+  for (const m of sheet.merges) {
+    include(m.r1, m.c1);
+    include(m.r2, m.c2);
+  }
+  return range;
+}
+
+/**
+ * Table payload for `range` of a sheet. Merges are clipped to the range. Formulas are only
+ * kept when the range starts at A1, since their references are not rewritten, and when the
+ * table evaluator supports them; other formula cells import their cached value as text.
+ * Cell text is escaped for Typst markup, so "$5" or "a@b.org" stay literal.
+ */
+export function sheetToTablePayload(sheet: SpreadsheetSheet, range: SheetRange): PersistedTablePayload {
+  const rows = range.r2 - range.r1 + 1;
+  const cols = range.c2 - range.c1 + 1;
+  const keepFormulas = range.r1 === 0 && range.c1 === 0;
+  const cells: PersistedTableCell[][] = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => {
+      const src = sheet.rows[range.r1 + r]?.[range.c1 + c];
+      return src?.formula && keepFormulas && isSupportedTableFormula(src.formula, rows, cols)
+        ? { content: src.value, formula: `=${src.formula}` }
+        : { content: escapeTypstMarkup(src?.value ?? '') };
+    })
+  );
+
+  for (const m of sheet.merges) {
+    const top = Math.max(m.r1, range.r1) - range.r1;
+    const left = Math.max(m.c1, range.c1) - range.c1;
+    const bottom = Math.min(m.r2, range.r2) - range.r1;
+    const right = Math.min(m.c2, range.c2) - range.c1;
+    if (top > bottom || left > right || (top === bottom && left === right)) continue;
+
+    const master = cells[top][left];
+    const value = sheet.rows[m.r1]?.[m.c1]?.value;
+    if (value !== undefined) master.content = escapeTypstMarkup(value);
+    if (bottom > top) master.rowspan = bottom - top + 1;
+    if (right > left) master.colspan = right - left + 1;
+    for (let r = top; r <= bottom; r++) {
+      for (let c = left; c <= right; c++) {
+        if (r !== top || c !== left) cells[r][c] = { content: '', hidden: true };
+      }
+    }
+  }
+
+  return applyTableFormulas({ caption: '', style: 'normal', rows, cols, cells });
+}
+
+/**
+ * Sheet for a table payload: formula cells carry their computed value plus the formula, and
+ * rowspan/colspan become merges. `toPlainText` turns inline Typst markup into cell text.
+ */
+export function tablePayloadToSheet(
+  payload: PersistedTablePayload,
+  name: string,
+  toPlainText: (content: string) => string = (s) => s
+): SpreadsheetSheet {
+  const computed = applyTableFormulas(payload);
+  const merges: SheetRange[] = [];
+  const rows = Array.from({ length: computed.rows }, (_, r) =>
+    Array.from({ length: computed.cols }, (_, c): SpreadsheetCell => {
+      const cell = computed.cells[r]?.[c];
+      if (!cell || cell.hidden) return { value: '' };
+      const rs = Math.max(1, Number(cell.rowspan || 1));
+      const cs = Math.max(1, Number(cell.colspan || 1));
+      if (rs > 1 || cs > 1) merges.push({ r1: r, c1: c, r2: r + rs - 1, c2: c + cs - 1 });
+      if (cell.formula) return { value: cell.content, formula: cell.formula.trim().replace(/^=\s*/, '') };
+      return { value: toPlainText(cell.content ?? '') };
+    })
+  );
+  return { name, rows, merges };
+}
+
+// ---------------------------------------------------------------------------
+// XLSX (Office Open XML spreadsheet)
+// ---------------------------------------------------------------------------
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const escapeXml = (s: string) =>
+  s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Elements by local name, ignoring namespace prefixes.
+const byTag = (root: Document | Element, tag: string) => Array.from(root.getElementsByTagNameNS('*', tag));
+
+const childByTag = (el: Element, tag: string) => Array.from(el.children).find((child) => child.localName === tag);
+
+// Text of an <si>/<is> rich-text node, skipping phonetic runs.
+const richText = (el: Element) =>
+  byTag(el, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+
+const formatXlsxNumber = (raw: string) => {
+  const n = Number(raw);
+  return Number.isFinite(n) ? String(Number(n.toPrecision(15))) : raw;
+};
+
+function resolveZipPath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export async function readXlsxWorkbook(data: ArrayBuffer | Uint8Array): Promise<SpreadsheetSheet[]> {
+  const zip = await JSZip.loadAsync(data);
+  const readText = async (path: string) => (await zip.file(path)?.async('string')) ?? null;
+
+  const workbookXml = await readText('xl/workbook.xml');
+  if (!workbookXml) throw new Error('不是有效的 XLSX 文件');
+
+  const sharedXml = await readText('xl/sharedStrings.xml');
+  const shared = sharedXml ? byTag(parseXml(sharedXml), 'si').map(richText) : [];
+
+  const relsXml = (await readText('xl/_rels/workbook.xml.rels')) ?? '';
+  const targets = new Map(
+    byTag(parseXml(relsXml), 'Relationship').map((rel) => [
+      rel.getAttribute('Id') ?? '',
+      resolveZipPath('xl/workbook.xml', rel.getAttribute('Target') ?? ''),
+    ])
+  );
+
+  const sheets: SpreadsheetSheet[] = [];
+  const sheetEls = byTag(parseXml(workbookXml), 'sheet');
+  for (let index = 0; index < sheetEls.length; index++) {
+    const sheetEl = sheetEls[index];
+    const relId = sheetEl.getAttributeNS(REL_NS, 'id') ?? sheetEl.getAttribute('r:id') ?? '';
+    const xml = await readText(targets.get(relId) ?? `xl/worksheets/sheet${index + 1}.xml`);
+    if (!xml) continue;
+    const doc = parseXml(xml);
+
+    const rows: SpreadsheetCell[][] = [];
+    byTag(doc, 'row').forEach((rowEl, rowIndex) => {
+      const r = Number(rowEl.getAttribute('r') || rowIndex + 1) - 1;
+      const row = (rows[r] = rows[r] ?? []);
+      let nextCol = 0;
+      for (const cellEl of Array.from(rowEl.children).filter((el) => el.localName === 'c')) {
+        const c = parseTableCellRef(cellEl.getAttribute('r') ?? '')?.c ?? nextCol;
+        nextCol = c + 1;
+        const type = cellEl.getAttribute('t') ?? 'n';
+        const v = childByTag(cellEl, 'v')?.textContent ?? '';
+        const f = childByTag(cellEl, 'f')?.textContent ?? '';
+        let value: string;
+        if (type === 's') value = shared[Number(v)] ?? '';
+        else if (type === 'inlineStr') value = richText(childByTag(cellEl, 'is') ?? cellEl);
+        else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+        else if (type === 'n' && v !== '') value = formatXlsxNumber(v);
+        else value = v;
+        row[c] = f ? { value, formula: f } : { value };
+      }
+    });
+
+    // Fill holes left by sparse rows/cells.
+    const width = Math.max(0, ...rows.map((row) => row?.length ?? 0));
+    const dense = Array.from({ length: rows.length }, (_, r) =>
+      Array.from({ length: width }, (_, c) => rows[r]?.[c] ?? { value: '' })
+    );
+
+    const merges = byTag(doc, 'mergeCell')
+      .map((el) => parseSheetRange(el.getAttribute('ref') ?? ''))
+      .filter((m): m is SheetRange => m !== null);
+
+    sheets.push({ name: sheetEl.getAttribute('name') || `Sheet${index + 1}`, rows: dense, merges });
+  }
+  return sheets;
+}
+
+const isPlainNumber = (s: string) => /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(s);
+
+function worksheetXml(sheet: SpreadsheetSheet): string {
+  const rowsXml = sheet.rows
+    .map((row, r) => {
+      const cellsXml = row
+        .map((cell, c) => {
+          const ref = `${tableColumnLabel(c)}${r + 1}`;
+          const numeric = isPlainNumber(cell.value);
+          if (cell.formula) {
+            const type = numeric ? '' : ' t="str"';
+            return `<c r="${ref}"${type}><f>${escapeXml(cell.formula)}</f><v>${escapeXml(cell.value)}</v></c>`;
+          }
+          if (cell.value === '') return '';
+          if (numeric) return `<c r="${ref}"><v>${cell.value}</v></c>`;
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cellsXml}</row>`;
+    })
+    .join('');
+  const mergesXml = sheet.merges.length
+    ? `<mergeCells count="${sheet.merges.length}">${sheet.merges
+      .map((m) => `<mergeCell ref="${formatSheetRange(m)}"/>`)
+      .join('')}</mergeCells>`
+    : '';
+  return `${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><sheetData>${rowsXml}</sheetData>${mergesXml}</worksheet>`;
+}
+
+// Excel sheet names: at most 31 characters, none of []:*?/\
+const sanitizeSheetName = (name: string, index: number) =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+
+export async function writeXlsxWorkbook(sheets: SpreadsheetSheet[]): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const sheetOverrides = sheets
+    .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+    .join('');
+  zip.file(
+    '[Content_Types].xml',
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    `${sheetOverrides}</Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+  );
+  zip.file(
+    'xl/workbook.xml',
+    `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>${sheets
+      .map((s, i) => `<sheet name="${escapeXml(sanitizeSheetName(s.name, i))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join('')}</sheets></workbook>`
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+      .join('')}</Relationships>`
+  );
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet)));
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+export async function readTableFile(file: File): Promise<SpreadsheetSheet[]> {
+  const name = file.name.replace(/\.[^.]+$/, '') || 'Sheet1';
+  if (/\.xlsx$/i.test(file.name)) return readXlsxWorkbook(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error('暂不支持旧版 .xls，请另存为 .xlsx 或 CSV');
+  const delimiter = /\.tsv$/i.test(file.name) ? '\t' : undefined;
+  const rows = parseDelimitedText(await file.text(), delimiter);
+  return [{ name, rows: rows.map((row) => row.map((value) => ({ value }))), merges: [] }];
+}
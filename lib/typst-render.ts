@@ -0,0 +1,225 @@
+import { getToken } from './auth';
+import { parseTypstDiagnostics, type TypstDiagnostic } from './typst';
+
+// In production/Docker we typically proxy /api/* through the same origin.
+// For local dev, set NEXT_PUBLIC_BACKEND_URL=http://localhost:8000.
+const BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? '';
+
+// Where the compiler/renderer .wasm files and the Latin + CJK fonts are served from. Both default
+// to the copies scripts/copy-typst-assets.mjs puts in public/typst before `dev` and `build`.
+const WASM_ASSET_BASE = process.env.NEXT_PUBLIC_TYPST_WASM_BASE || '/typst';
+const FONT_ASSET_BASE = process.env.NEXT_PUBLIC_TYPST_FONT_BASE || '/typst/fonts';
+
+const RENDER_BACKEND_KEY = 'labflow_render_backend';
+
+// 'wasm': compile in a browser worker, falling back to the server if the worker cannot start.
+// 'server': always POST to /api/render-typst.
+export type RenderBackend = 'wasm' | 'server';
+
+export type TypstWorkerRequest =
+  | {
+    id: number;
+    kind: 'svg' | 'pdf';
+    code: string;
+    baseUrl: string;
+    token: string | null;
+    assetBase: string;
+    fontAssetBase: string;
+  }
+  // Drop a queued request that has not started compiling yet.
+  | { id: number; kind: 'cancel' };
+
+export type TypstWorkerResponse =
+  | { id: number; ok: true; kind: 'svg'; pages: string[]; diagnostics: TypstDiagnostic[] }
+  | { id: number; ok: true; kind: 'pdf'; pdf: Uint8Array }
+  // `fatal`: the compiler itself failed to load (as opposed to a document error).
+  | { id: number; ok: false; error: string; fatal?: boolean; diagnostics?: TypstDiagnostic[] };
+
+export type TypstRenderResult = {
+  pages: string[];
+  // Warnings of a successful compile.
+  diagnostics: TypstDiagnostic[];
+};
+
+// A document that failed to compile, with the compiler's diagnostics.
+export class TypstCompileError extends Error {
+  diagnostics: TypstDiagnostic[];
+
+  constructor(message: string, diagnostics: TypstDiagnostic[]) {
+    super(message);
+    this.name = 'TypstCompileError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export function getRenderBackend(): RenderBackend {
+  if (typeof window === 'undefined') return 'server';
+  return localStorage.getItem(RENDER_BACKEND_KEY) === 'server' ? 'server' : 'wasm';
+}
+
+export function setRenderBackend(backend: RenderBackend): void {
+  localStorage.setItem(RENDER_BACKEND_KEY, backend);
+}
+
+// ---------------------------------------------------------------------------
+// Server rendering
+// ---------------------------------------------------------------------------
+
+async function postRender(path: string, code: string, signal?: AbortSignal): Promise<Response> {
+  const token = getToken();
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ code }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const detail: string = typeof errorData?.detail === 'string' ? errorData.detail : '';
+    const message = detail || (path.endsWith('/pdf') ? 'PDF 生成失败' : 'Rendering failed');
+    // 4xx/5xx with a compiler message is a document error; anything else is a transport failure.
+    if (detail) throw new TypstCompileError(message, parseTypstDiagnostics(detail));
+    throw new Error(message);
+  }
+  return response;
+}
+
+async function renderPagesOnServer(code: string, signal?: AbortSignal): Promise<TypstRenderResult> {
+  const data = await (await postRender('/api/render-typst', code, signal)).json();
+  // The endpoint does not report warnings for successful compiles.
+  return { pages: data.pages || [], diagnostics: [] };
+}
+
+async function renderPdfOnServer(code: string): Promise<Blob> {
+  return (await postRender('/api/render-typst/pdf', code)).blob();
+}
+
+// ---------------------------------------------------------------------------
+// WASM worker
+// ---------------------------------------------------------------------------
+
+// Thrown when the in-browser compiler is unavailable, so callers fall back to the server.
+class WorkerUnavailableError extends Error { }
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextRequestId = 1;
+const pending = new Map<number, (res: TypstWorkerResponse) => void>();
+
+function getWorker(): Worker {
+  if (workerBroken || typeof Worker === 'undefined') throw new WorkerUnavailableError('WASM 渲染不可用');
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./typst-render.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<TypstWorkerResponse>) => {
+    const resolve = pending.get(e.data.id);
+    pending.delete(e.data.id);
+    resolve?.(e.data);
+  };
+  worker.onerror = (e) => {
+    console.warn('Typst worker crashed, falling back to server rendering', e.message);
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    for (const [id, resolve] of pending) resolve({ id, ok: false, error: e.message, fatal: true });
+    pending.clear();
+  };
+  return worker;
+}
+
+async function runInWorker(
+  kind: 'svg' | 'pdf',
+  code: string,
+  signal?: AbortSignal
+): Promise<TypstWorkerResponse & { ok: true }> {
+  signal?.throwIfAborted();
+  const w = getWorker();
+  const id = nextRequestId++;
+  const res = await new Promise<TypstWorkerResponse>((resolve, reject) => {
+    pending.set(id, resolve);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        if (!pending.delete(id)) return;
+        w.postMessage({ id, kind: 'cancel' } satisfies TypstWorkerRequest);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+    const req: TypstWorkerRequest = {
+      id,
+      kind,
+      code,
+      baseUrl: BASE_URL || window.location.origin,
+      token: getToken(),
+      assetBase: WASM_ASSET_BASE,
+      fontAssetBase: FONT_ASSET_BASE,
+    };
+    w.postMessage(req);
+  });
+
+  if (!res.ok) {
+    if (res.fatal) {
+      workerBroken = true;
+      throw new WorkerUnavailableError(res.error);
+    }
+    throw new TypstCompileError(res.error, res.diagnostics ?? parseTypstDiagnostics(res.error));
+  }
+  return res;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Compile Typst source to one SVG string per page, using the configured backend.
+ * Document errors reject with a TypstCompileError.
+ * Aborting `signal` rejects with the abort reason and drops the request if it is still queued.
+ */
+export async function renderTypstPages(
+  code: string,
+  backend: RenderBackend = getRenderBackend(),
+  signal?: AbortSignal
+): Promise<TypstRenderResult> {
+  if (backend === 'wasm') {
+    try {
+      const res = await runInWorker('svg', code, signal);
+      if (res.kind === 'svg') return { pages: res.pages, diagnostics: res.diagnostics };
+    } catch (err) {
+      if (!(err instanceof WorkerUnavailableError)) throw err;
+    }
+  }
+  return renderPagesOnServer(code, signal);
+}
+
+/**
+ * Compare a fresh render with the pages currently shown. `pages` is `prev` itself when
+ * nothing changed, so consumers can skip updates by identity; `changed` lists the page
+ * indices whose SVG differs (pages beyond the shorter list count as changed).
+ */
+export function diffSvgPages(prev: string[], next: string[]): { pages: string[]; changed: number[] } {
+  const changed: number[] = [];
+  for (let i = 0; i < Math.max(prev.length, next.length); i++) {
+    if (prev[i] !== next[i]) changed.push(i);
+  }
+  return { pages: changed.length === 0 ? prev : next, changed };
+}
+
+/**
+ * Compile Typst source to a PDF, using the configured backend.
+ */
+export async function renderTypstPdf(code: string, backend: RenderBackend = getRenderBackend()): Promise<Blob> {
+  if (backend === 'wasm') {
+    try {
+      const res = await runInWorker('pdf', code);
+      if (res.kind === 'pdf') return new Blob([res.pdf as BlobPart], { type: 'application/pdf' });
+    } catch (err) {
+      if (!(err instanceof WorkerUnavailableError)) throw err;
+    }
+  }
+  return renderPdfOnServer(code);
+}
@@ -0,0 +1,173 @@
+/// <reference lib="webworker" />
+// In-browser Typst compiler. Compiles the same source the backend would and returns
+// per-page SVG strings (preview) or PDF bytes (export).
+
+import {
+  createTypstCompiler,
+  createTypstRenderer,
+  initOptions,
+  FetchPackageRegistry,
+  MemoryAccessModel,
+  type TypstCompiler,
+  type TypstRenderer,
+} from '@myriaddreamin/typst.ts';
+import type { TypstWorkerRequest, TypstWorkerResponse } from './typst-render';
+import type { TypstDiagnostic } from './typst/diagnostics';
+import fontFiles from './typst-fonts.json';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const MAIN_FILE = '/main.typ';
+
+let ready: Promise<{ compiler: TypstCompiler; renderer: TypstRenderer }> | null = null;
+// Images already mapped into the compiler, keyed by the path used in the source, with the validators
+// they were fetched with: every compile revalidates them, so a re-upload to the same path shows up.
+const mappedImages = new Map<string, { etag: string | null; lastModified: string | null }>();
+
+function init(assetBase: string, fontAssetBase: string) {
+  if (ready) return ready;
+  ready = (async () => {
+    const compiler = createTypstCompiler();
+    const accessModel = new MemoryAccessModel();
+    await compiler.init({
+      getModule: () => `${assetBase}/typst-ts-web-compiler/pkg/typst_ts_web_compiler_bg.wasm`,
+      beforeBuild: [
+        // Latin, math and CJK fonts served next to the wasm (see scripts/copy-typst-assets.mjs);
+        // `assets: false` keeps typst.ts from adding its CDN defaults.
+        initOptions.loadFonts(
+          fontFiles.map(([, file]) => `${fontAssetBase}/${file.split('/').pop()}`),
+          { assets: false }
+        ),
+        initOptions.withAccessModel(accessModel),
+        initOptions.withPackageRegistry(new FetchPackageRegistry(accessModel)),
+      ],
+    });
+
+    const renderer = createTypstRenderer();
+    await renderer.init({
+      getModule: () => `${assetBase}/typst-ts-renderer/pkg/typst_ts_renderer_bg.wasm`,
+    });
+    return { compiler, renderer };
+  })();
+  ready.catch(() => {
+    ready = null;
+  });
+  return ready;
+}
+
+// Images are referenced by backend URLs (e.g. /static/...); fetch them and map them into the virtual fs.
+async function mapImages(compiler: TypstCompiler, code: string, baseUrl: string, token: string | null) {
+  const paths = new Set<string>();
+  for (const m of code.matchAll(/image\("([^"]+)"/g)) paths.add(m[1]);
+
+  await Promise.all(
+    Array.from(paths).map(async (path) => {
+      const url = /^https?:\/\//.test(path) ? path : `${baseUrl}${path.startsWith('/') ? '' : '/'}${path}`;
+      const mapped = mappedImages.get(path);
+      const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+      if (mapped?.etag) headers['If-None-Match'] = mapped.etag;
+      else if (mapped?.lastModified) headers['If-Modified-Since'] = mapped.lastModified;
+      try {
+        const res = await fetch(url, { headers, cache: 'no-store' });
+        if (res.status === 304 || !res.ok) return;
+        const data = new Uint8Array(await res.arrayBuffer());
+        mappedImages.set(path, { etag: res.headers.get('ETag'), lastModified: res.headers.get('Last-Modified') });
+        compiler.mapShadow(path.startsWith('/') ? path : `/${path}`, data);
+      } catch {
+        // Missing images surface as compile diagnostics.
+      }
+    })
+  );
+}
+
+// typst.ts reports positions as a 0-based "line:col-line:col" range.
+function toDiagnostics(raw: unknown[] | undefined): TypstDiagnostic[] {
+  return (raw ?? []).map((d) => {
+    if (typeof d === 'string') return { severity: 'error', message: d, hints: [] };
+    const msg = d as { severity?: string; range?: string; message?: string; hints?: string[] };
+    const pos = msg.range?.match(/^(\d+):(\d+)/);
+    return {
+      severity: msg.severity?.toLowerCase() === 'warning' ? 'warning' : 'error',
+      message: msg.message ?? '',
+      ...(pos ? { line: Number(pos[1]) + 1, column: Number(pos[2]) + 1 } : {}),
+      hints: Array.isArray(msg.hints) ? msg.hints : [],
+    };
+  });
+}
+
+function failure(id: number, diagnostics: TypstDiagnostic[]): TypstWorkerResponse {
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  const error = errors.length
+    ? errors.map((d) => `error${d.line ? ` (${d.line}:${d.column})` : ''}: ${d.message}`).join('\n')
+    : 'Typst 编译失败';
+  return { id, ok: false, error, diagnostics };
+}
+
+// Rewrite the root <svg> of a windowed render so it shows exactly one page.
+function cropToPage(svg: string, offset: number, width: number, height: number): string {
+  return svg.replace(/<svg\b[^>]*>/, (tag) =>
+    tag
+      .replace(/\sviewBox="[^"]*"/, '')
+      .replace(/\swidth="[^"]*"/, '')
+      .replace(/\sheight="[^"]*"/, '')
+      .replace(/<svg\b/, `<svg viewBox="0 ${offset} ${width} ${height}" width="${width}" height="${height}"`)
+  );
+}
+
+type CompileRequest = Exclude<TypstWorkerRequest, { kind: 'cancel' }>;
+
+// Requests run one at a time (the compiler keeps a single main file); cancelled ids are skipped.
+let queue: Promise<void> = Promise.resolve();
+const cancelled = new Set<number>();
+
+async function handle(req: CompileRequest): Promise<TypstWorkerResponse> {
+  const { compiler, renderer } = await init(req.assetBase, req.fontAssetBase);
+  await mapImages(compiler, req.code, req.baseUrl, req.token);
+  compiler.addSource(MAIN_FILE, req.code);
+
+  if (req.kind === 'pdf') {
+    const out = await compiler.compile({ mainFilePath: MAIN_FILE, format: 1 /* CompileFormatEnum.pdf */, diagnostics: 'full' });
+    if (!out.result) return failure(req.id, toDiagnostics(out.diagnostics));
+    return { id: req.id, ok: true, kind: 'pdf', pdf: out.result };
+  }
+
+  const out = await compiler.compile({ mainFilePath: MAIN_FILE, format: 0 /* CompileFormatEnum.vector */, diagnostics: 'full' });
+  const diagnostics = toDiagnostics(out.diagnostics);
+  if (!out.result) return failure(req.id, diagnostics);
+  const artifact = out.result;
+
+  const pages = await renderer.runWithSession({ format: 'vector', artifactContent: artifact }, async (session) => {
+    const info = renderer.retrievePagesInfoFromSession(session);
+    const result: string[] = [];
+    for (const page of info) {
+      const svg = await renderer.renderSvg({
+        renderSession: session,
+        window: { lo: { x: 0, y: page.pageOffset }, hi: { x: page.width, y: page.pageOffset + page.height } },
+      });
+      result.push(cropToPage(svg, page.pageOffset, page.width, page.height));
+    }
+    return result;
+  });
+  return { id: req.id, ok: true, kind: 'svg', pages, diagnostics };
+}
+
+self.onmessage = (e: MessageEvent<TypstWorkerRequest>) => {
+  const req = e.data;
+  if (req.kind === 'cancel') {
+    cancelled.add(req.id);
+    return;
+  }
+
+  queue = queue.then(async () => {
+    if (cancelled.delete(req.id)) return;
+    let res: TypstWorkerResponse;
+    try {
+      res = await handle(req);
+    } catch (err) {
+      res = { id: req.id, ok: false, error: err instanceof Error ? err.message : String(err), fatal: !ready };
+    }
+    if (cancelled.delete(req.id)) return;
+    if (res.ok && res.kind === 'pdf') self.postMessage(res, [res.pdf.buffer]);
+    else self.postMessage(res);
+  });
+};
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { typstToBlocks } from '../parse';
+import { PersistedChartPlot, TypstBlock } from '../types';
+import { safeParseChartPlot } from '../utils';
+import { useEditorStore } from '@/stores/useEditorStore';
+// Registers the chart data conversion the store redraws charts with.
+import '@/components/editor/BlockEditors/ChartBlockEditors/chartDataConverter';
+
+// Editor fields of a scatter chart without a data source; cases add `plot` and overrides.
+const scatter = {
+    chartType: 'scatter',
+    title: '自由落体 "t-h"',
+    xLabel: 't / s',
+    yLabel: '',
+    legend: true,
+    dataSource: 'manual',
+    manualText: '',
+};
+
+const scatterPlot: PersistedChartPlot = {
+    series: [{
+        name: '测量',
+        points: [{ x: 0, y: 0 }, { x: 1, y: 4.9 }, { x: 2, y: 19.6 }],
+        fit: { points: [{ x: 0, y: 0 }, { x: 1, y: 4.9 }, { x: 2, y: 19.6 }], label: 'y = 4.9x^2' },
+    }],
+};
+
+describe('Native chart rendering', () => {
+    it('draws scatter points, the fitted curve and labels as Typst graphics', () => {
+        const code = blocksToTypst([{ id: 'c', type: 'chart', content: JSON.stringify({ ...scatter, plot: scatterPlot }) }]);
+        expect(code.startsWith('#align(center, box(width: 50%, layout(size => box(width: size.width, height: size.width * 0.62, {')).toBe(true);
+        expect(code.match(/circle\(radius: 1\.6pt/g)).toHaveLength(3);
+        expect(code.match(/stroke: 1pt \+ rgb\("#4e79a7"\)/g)).toHaveLength(2);
+        expect(code).toContain('"自由落体 \\"t-h\\""');
+        expect(code).toContain('"y = 4.9x^2"');
+        expect(code).toContain('"t / s"');
+        expect(code).not.toContain('image(');
+        expect(code.split('\n')).toHaveLength(1);
+    });
+
+    it('draws grouped bars, horizontal bars and pie slices', () => {
+        const bars: PersistedChartPlot = { categories: ['a', 'b'], bars: [{ name: 'S1', values: [1, -2] }, { name: 'S2', values: [3, null] }] };
+        const bar = blocksToTypst([{ id: 'c', type: 'chart', content: JSON.stringify({ ...scatter, chartType: 'bar', plot: bars }) }]);
+        expect(bar.match(/rect\(width:/g)).toHaveLength(3);
+        const hbar = blocksToTypst([{ id: 'c', type: 'chart', content: JSON.stringify({ ...scatter, chartType: 'hbar', plot: bars }) }]);
+        expect(hbar.match(/rect\(width:/g)).toHaveLength(3);
+        const slices = [{ label: 'x', value: 1 }, { label: 'y', value: 3 }];
+        const pie = blocksToTypst([{ id: 'c', type: 'chart', content: JSON.stringify({ ...scatter, chartType: 'pie', plot: { slices } }) }]);
+        expect(pie.match(/polygon\(/g)).toHaveLength(2);
+        expect(pie).toContain('"y (75.0%)"');
+    });
+
+    it('wraps labelled charts in a figure and keeps alignment and width', () => {
+        const content = JSON.stringify({ ...scatter, plot: scatterPlot });
+        const code = blocksToTypst([{ id: 'c', type: 'chart', content, label: 'fig:fall', align: 'left', width: '80%' }]);
+        expect(code).toMatch(/^#align\(left\)\[#figure\(box\(width: 80%, .*, kind: image, supplement: "图"\) <fig:fall>\]/);
+    });
+
+    it('falls back to the image or a placeholder', () => {
+        const imageChart = JSON.stringify({ ...scatter, plot: scatterPlot, renderer: 'image', imageUrl: '/static/c.png' });
+        expect(blocksToTypst([{ id: 'c', type: 'chart', content: imageChart }]))
+            .toMatch(/^#align\(center, image\("\/static\/c\.png", width: 50%, height: auto\)\)/);
+        const legacy = JSON.stringify({ ...scatter, imageUrl: '/static/c.png' });
+        expect(blocksToTypst([{ id: 'c', type: 'chart', content: legacy }])).toContain('image("/static/c.png"');
+        const empty = JSON.stringify({ ...scatter, plot: { series: [] } });
+        expect(blocksToTypst([{ id: 'c', type: 'chart', content: empty }])).toMatch(/^#align\(center\)\[\(未生成图表\)\]/);
+    });
+
+    it('round-trips the plot and the editor data sources', () => {
+        const source: TypstBlock = {
+            id: 'c',
+            type: 'chart',
+            content: JSON.stringify({ ...scatter, plot: scatterPlot, scatterSeries: [{ name: '测量', xRow: '0\t1\t2', yRow: '0\t4.9\t19.6' }] }),
+            align: 'right',
+            width: '60%',
+        };
+        const [parsed] = typstToBlocks(blocksToTypst([source]));
+        expect(parsed.type).toBe('chart');
+        expect(parsed.align).toBe('right');
+        expect(parsed.width).toBe('60%');
+        const content = JSON.parse(parsed.content);
+        expect(content.plot).toEqual(scatterPlot);
+        expect(content.scatterSeries[0].yRow).toBe('0\t4.9\t19.6');
+    });
+});
+
+describe('Chart data refresh', () => {
+    it('redraws charts from their table whenever the editor blocks change', () => {
+        const tableBlock = (ys: string[]): TypstBlock => ({
+            id: 't',
+            type: 'table',
+            content: JSON.stringify({ rows: 2, cols: 3, cells: [['1', '2', '3'], ys].map((row) => row.map((content) => ({ content }))) }),
+        });
+        const sel = (r: number) => ({ blockId: 't', r1: r, c1: 0, r2: r, c2: 2 });
+        const series = [{ name: 'S', xSource: 'table', ySource: 'table', xTableSelection: sel(0), yTableSelection: sel(1) }];
+        const chartBlock: TypstBlock = { id: 'c', type: 'chart', content: JSON.stringify({ ...scatter, scatterSeries: series }) };
+        const plotted = () => {
+            const block = useEditorStore.getState().blocks.find((b) => b.type === 'chart')!;
+            return JSON.parse(block.content).plot.series.flatMap((s: { points: Array<{ y: number }> }) => s.points.map((p) => p.y));
+        };
+
+        const store = useEditorStore.getState();
+        store.setBlocks([tableBlock(['2', '4', '6']), chartBlock]);
+        expect(plotted()).toEqual([2, 4, 6]);
+
+        // Edits made in source mode reach the chart when switching back.
+        useEditorStore.setState({ mode: 'source', code: blocksToTypst([tableBlock(['3', '5', '7']), useEditorStore.getState().blocks[1]]) });
+        store.switchMode('visual');
+        expect(plotted()).toEqual([3, 5, 7]);
+
+        store.setBlocks(useEditorStore.getState().blocks.filter((b) => b.type !== 'table'));
+        expect(plotted()).toEqual([]);
+    });
+
+    it('redraws only charts selecting from a table whose content changed', () => {
+        const table: TypstBlock = { id: 't', type: 'table', content: JSON.stringify({ rows: 1, cols: 2, cells: [[{ content: '1' }, { content: '2' }]] }) };
+        // The title mentions the table id, but the chart has no table selection.
+        const manual: TypstBlock = { id: 'm', type: 'chart', content: JSON.stringify({ ...scatter, plot: scatterPlot }) };
+        const series = [{ name: 'S', xSource: 'table', ySource: 'table', xTableSelection: { blockId: 't', r1: 0, c1: 0, r2: 0, c2: 1 }, yTableSelection: { blockId: 't', r1: 0, c1: 0, r2: 0, c2: 1 } }];
+        const linked: TypstBlock = { id: 'l', type: 'chart', content: JSON.stringify({ ...scatter, scatterSeries: series, plot: scatterPlot }) };
+
+        const store = useEditorStore.getState();
+        store.setBlocks([table, manual, linked]);
+        const [, keptManual, redrawn] = useEditorStore.getState().blocks;
+        expect(keptManual).toBe(manual);
+        expect(JSON.parse(redrawn.content).plot.series[0].points).toEqual([{ x: 1, y: 1 }, { x: 2, y: 2 }]);
+
+        // An edit elsewhere leaves stored plots alone, even stale ones.
+        store.setBlocks([table, manual, linked, { id: 'p', type: 'paragraph', content: 'note' }]);
+        expect(useEditorStore.getState().blocks[2]).toBe(linked);
+    });
+});
+
+describe('safeParseChartPlot', () => {
+    it('drops invalid points and aligns bar values with the categories', () => {
+        expect(safeParseChartPlot({
+            series: [{ name: 'a', points: [{ x: 1, y: 2 }, { x: 'n', y: 1 }], fit: { points: [{ x: 1, y: 1 }] } }],
+            categories: ['p', 'q'],
+            bars: [{ name: 'b', values: [1] }],
+            slices: [{ label: 'z', value: 0 }, { label: 'w', value: 2 }],
+        })).toEqual({
+            series: [{ name: 'a', points: [{ x: 1, y: 2 }] }],
+            categories: ['p', 'q'],
+            bars: [{ name: 'b', values: [1, null] }],
+            slices: [{ label: 'w', value: 2 }],
+        });
+        expect(safeParseChartPlot('nope')).toBeUndefined();
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { typstToBlocks } from '../parse';
+import { TypstBlock } from '../types';
+import { codeLanguageFromFileName, normalizeCodeLineRanges, parseCodeLineRanges } from '../utils';
+
+const script = 'x = linspace(0, 1, 10);\ny = x.^2;\nplot(x, y)';
+
+describe('Code block serialization', () => {
+    it('keeps plain blocks as a bare fence', () => {
+        expect(blocksToTypst([{ id: 'k', type: 'code', content: script, language: 'matlab' }])).toBe('```matlab\nx = linspace(0, 1, 10);\ny = x.^2;\nplot(x, y)\n```');
+    });
+
+    it('wraps captioned listings in a numbered raw figure with line rules', () => {
+        const block: TypstBlock = {
+            id: 'k',
+            type: 'code',
+            content: script,
+            language: 'matlab',
+            caption: '绘图脚本',
+            label: 'code:plot',
+            codeLineNumbers: true,
+            codeHighlight: '3, 1-2',
+        };
+        const out = blocksToTypst([block]);
+        const lines = out.split('\n');
+        expect(lines[0]).toMatch(/^#\[#show figure: set block\(breakable: true\);#figure\(kind: raw, supplement: "代码", caption: \[绘图脚本\]\)\[\/\*LF_CODE:[A-Za-z0-9+/=]+\*\/$/);
+        expect(out).toContain('#show raw.line: it => box(width: 100%, fill: if it.number in (1, 2, 3,) { rgb("#fff3bf") }');
+        expect(out).toContain('str(it.number)');
+        expect(lines[lines.length - 1]).toBe('] <code:plot>]');
+    });
+
+    it('keeps labelled listings without a caption numbered so references resolve', () => {
+        const out = blocksToTypst([{ id: 'k', type: 'code', content: script, language: 'matlab', label: 'code:plot' }]);
+        expect(out.split('\n')[0]).toMatch(/#figure\(kind: raw, supplement: "代码"\)\[/);
+        expect(out).not.toContain('numbering: none');
+        expect(out.endsWith('] <code:plot>]')).toBe(true);
+
+        const unlabelled = blocksToTypst([{ id: 'k', type: 'code', content: script, language: 'matlab', codeLineNumbers: true }]);
+        expect(unlabelled).toContain('supplement: "代码", numbering: none)');
+    });
+
+    it('round-trips caption, label, line numbers and highlighted ranges', () => {
+        const source: TypstBlock = {
+            id: 'k',
+            type: 'code',
+            content: script,
+            language: 'matlab',
+            caption: '绘图脚本',
+            label: 'code:plot',
+            codeLineNumbers: true,
+            codeHighlight: '2-3',
+        };
+        const parsed = typstToBlocks(`${blocksToTypst([source])}\n\n后文`);
+        expect(parsed).toHaveLength(2);
+        expect(parsed[0]).toMatchObject({
+            type: 'code',
+            content: source.content,
+            language: 'matlab',
+            caption: '绘图脚本',
+            label: 'code:plot',
+            codeLineNumbers: true,
+            codeHighlight: '2-3',
+        });
+        expect(parsed[1].type).toBe('paragraph');
+    });
+
+    it('lengthens the fence when the code contains backticks', () => {
+        const source: TypstBlock = { id: 'k', type: 'code', content: 'echo ```\nls', language: 'bash', codeLineNumbers: true };
+        const out = blocksToTypst([source]);
+        expect(out).toContain('````bash\necho ```\nls\n````');
+        expect(typstToBlocks(out)[0].content).toBe('echo ```\nls');
+    });
+});
+
+describe('Code helpers', () => {
+    it('parses and normalizes highlighted line ranges', () => {
+        expect(parseCodeLineRanges('7, 2 - 4，3')).toEqual([2, 3, 4, 7]);
+        expect(parseCodeLineRanges('2-4', 3)).toEqual([2, 3]);
+        expect(parseCodeLineRanges('')).toEqual([]);
+        expect(parseCodeLineRanges('4-2')).toBeNull();
+        expect(parseCodeLineRanges('a')).toBeNull();
+        expect(normalizeCodeLineRanges('7,2-4,3,5')).toBe('2-5, 7');
+    });
+
+    it('detects the language of imported source files', () => {
+        expect(codeLanguageFromFileName('fit.py')).toBe('python');
+        expect(codeLanguageFromFileName('C:\\lab\\main.C')).toBe('c');
+        expect(codeLanguageFromFileName('plot_data.m')).toBe('matlab');
+        expect(codeLanguageFromFileName('Makefile')).toBe('makefile');
+        expect(codeLanguageFromFileName('notes')).toBeUndefined();
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { mapDiagnosticsToBlocks, parseTypstDiagnostics, shiftDiagnosticLines } from '../diagnostics';
+
+const CLI_OUTPUT = `error: unknown variable: foo
+  ┌─ /main.typ:7:2
+  │
+7 │ #foo
+  │  ^^^
+  = hint: if you meant to display multiple letters as is, try adding spaces
+
+warning: unknown font family: simsun
+  ┌─ /main.typ:1:17
+  │
+1 │ #set text(font: "simsun")
+  │                 ^^^^^^^^
+`;
+
+describe('parseTypstDiagnostics', () => {
+    it('parses severity, position, message and hints from CLI output', () => {
+        expect(parseTypstDiagnostics(CLI_OUTPUT)).toEqual([
+            {
+                severity: 'error',
+                message: 'unknown variable: foo',
+                line: 7,
+                column: 2,
+                hints: ['if you meant to display multiple letters as is, try adding spaces'],
+            },
+            { severity: 'warning', message: 'unknown font family: simsun', line: 1, column: 17, hints: [] },
+        ]);
+    });
+
+    it('falls back to a single error for unstructured text', () => {
+        expect(parseTypstDiagnostics('Rendering failed')).toEqual([{ severity: 'error', message: 'Rendering failed', hints: [] }]);
+    });
+});
+
+describe('mapDiagnosticsToBlocks', () => {
+    const M = '#marker()';
+    const code = ['#set text(size: 11pt)', '', `${M}first`, '', `#block[${M}second`, 'continued]', '', M].join('\n');
+
+    it('attributes lines to the block whose marker precedes them', () => {
+        const mapped = mapDiagnosticsToBlocks(
+            [
+                { severity: 'error', message: 'a', line: 6, column: 1, hints: [] },
+                { severity: 'error', message: 'b', line: 3, column: 1, hints: [] },
+                { severity: 'warning', message: 'c', line: 1, column: 1, hints: [] },
+                { severity: 'error', message: 'd', hints: [] },
+            ],
+            code,
+            M
+        );
+        expect(mapped.map((d) => d.blockIndex)).toEqual([1, 0, null, null]);
+    });
+});
+
+describe('shiftDiagnosticLines', () => {
+    it('re-bases positions after the preamble and drops those inside it', () => {
+        const shifted = shiftDiagnosticLines(
+            [
+                { severity: 'error', message: 'a', line: 5, column: 3, hints: [] },
+                { severity: 'warning', message: 'b', line: 2, column: 1, hints: [] },
+                { severity: 'error', message: 'c', hints: [] },
+            ],
+            3
+        );
+        expect(shifted).toEqual([
+            { severity: 'error', message: 'a', line: 2, column: 3, hints: [] },
+            { severity: 'warning', message: 'b', line: undefined, column: undefined, hints: [] },
+            { severity: 'error', message: 'c', hints: [] },
+        ]);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { NodeCompiler } from '@myriaddreamin/typst-ts-node-compiler';
+import { blocksToTypst } from '../serialize';
+import { typstToBlocks } from '../parse';
+import { DocumentSettings, TypstBlock, defaultDocumentSettings } from '../types';
+import { insertMathAlignPoint, serializeEquationNumberingRule, splitMathAlignPoint } from '../utils';
+
+const numberedDoc: DocumentSettings = { ...defaultDocumentSettings, equationNumbering: '(1.1)' };
+
+const mathLines = [
+    { latex: 'F = m a', typst: 'F = m a' },
+    { latex: 'a = \\frac{v}{t}', typst: 'a = v / t' },
+    { latex: 'v \\approx 3', typst: 'v approx 3' },
+];
+
+const stripMarker = (typst: string) => typst.replace(/\/\*LF_MATH:[A-Za-z0-9+/=]+\*\/$/, '');
+
+describe('Equation numbering', () => {
+    it('emits the document-level rule, restarting chapter numbers at level-1 headings', () => {
+        expect(serializeEquationNumberingRule('none')).toBe('');
+        expect(serializeEquationNumberingRule('(1)')).toBe('#set math.equation(numbering: "(1)")');
+        expect(serializeEquationNumberingRule('(1-1)')).toContain('numbering("(1-1)", counter(heading).get().first(), n)');
+        expect(serializeEquationNumberingRule('(1.1)')).toContain('counter(math.equation).update(0)');
+
+        const blocks: TypstBlock[] = [{ id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines }];
+        const exported = blocksToTypst(blocks, { settings: numberedDoc, preamble: true });
+        expect(exported).toContain('#show heading.where(level: 1): it => { counter(math.equation).update(0); it }');
+        expect(blocksToTypst(blocks, { settings: defaultDocumentSettings, preamble: true })).not.toContain('math.equation');
+    });
+
+    it('numbers whole blocks under a document scheme and scopes the exceptions', () => {
+        const labelled: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines, label: 'eq:motion' };
+        expect(stripMarker(blocksToTypst([labelled], { settings: numberedDoc })))
+            .toBe('$ F = m a \\ a = v / t \\ v approx 3 $ <eq:motion>');
+        const unnumbered: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines, mathNumbering: 'none' };
+        expect(stripMarker(blocksToTypst([unnumbered], { settings: numberedDoc })))
+            .toBe('#[#set math.equation(numbering: none); $ F = m a \\ a = v / t \\ v approx 3 $]');
+        const numbered: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines, mathNumbering: 'block' };
+        expect(stripMarker(blocksToTypst([numbered])))
+            .toBe('#[#set math.equation(numbering: "(1)"); $ F = m a \\ a = v / t \\ v approx 3 $]');
+        expect(stripMarker(blocksToTypst([{ id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines }])))
+            .toBe('$ F = m a \\ a = v / t \\ v approx 3 $');
+    });
+
+    it('aligns rows at their first relation', () => {
+        const aligned: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines, mathAlign: true };
+        expect(stripMarker(blocksToTypst([aligned]))).toBe('$ F &= m a \\ a &= v / t \\ v &approx 3 $');
+        expect(stripMarker(blocksToTypst([{ ...aligned, mathBrace: true }])))
+            .toBe('$ cases(F &= m a, a &= v / t, v &approx 3) $');
+    });
+
+    it('numbers rows one by one and skips rows marked noNumber', () => {
+        const lines = mathLines.map((l, i) => (i === 0 ? { ...l, noNumber: true } : l));
+        const perLine: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines: lines, mathNumbering: 'line' };
+        const out = stripMarker(blocksToTypst([{ ...perLine, label: 'eq:a' }], { settings: numberedDoc }));
+        expect(out).toBe(
+            '#[#show math.equation.where(block: true): set block(spacing: 0.8em); ' +
+            '#[#set math.equation(numbering: none); $ F = m a $] $ a = v / t $ <eq:a> $ v approx 3 $]',
+        );
+
+        const aligned = stripMarker(blocksToTypst([{ ...perLine, mathAlign: true }]));
+        expect(aligned).toMatch(/^#\[#set math\.equation\(numbering: "\(1\)"\); #show .*#context \{/);
+        expect(aligned).toContain('let l = ($display(F)$, $display(a)$, $display(v)$,)');
+        expect(aligned).toContain('let r = ($display(zws = m a)$, $display(zws = v / t)$, $display(zws approx 3)$,)');
+        expect(aligned).toContain('[#math.equation(block: true, numbering: none, row(0))]; [#math.equation(block: true, row(1))];');
+    });
+
+    it('compiles per-row numbered systems with aligned rows and resolvable labels', () => {
+        const compiler = NodeCompiler.create();
+        const lines = mathLines.map((l, i) => (i === 0 ? { ...l, noNumber: true } : l));
+        for (const mathAlign of [false, true]) {
+            const blocks: TypstBlock[] = [
+                { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines: lines, mathNumbering: 'line', mathAlign, label: 'eq:a' },
+                { id: 'p', type: 'paragraph', content: '见 @eq:a' },
+            ];
+            const mainFileContent = blocksToTypst(blocks, { settings: numberedDoc, preamble: true });
+            const result = compiler.compile({ mainFileContent });
+            expect(result.takeDiagnostics()?.shortDiagnostics.map((d) => d.message) ?? []).toEqual([]);
+
+            type Equation = { numbering: unknown; body: { children?: Array<{ width: string }> } };
+            const equations: Equation[] = compiler.query(result.result!, { selector: 'math.equation.where(block: true)' });
+            expect(equations.map((eq) => eq.numbering !== null)).toEqual([false, true, true]);
+            if (mathAlign) {
+                // Every row is laid out as the same two measured columns.
+                const widths = equations.map((eq) => eq.body.children!.map((box) => box.width).join(' '));
+                expect(new Set(widths).size).toBe(1);
+            }
+        }
+    });
+
+    it('round-trips numbering mode, alignment, per-row flags and labels', () => {
+        const lines = mathLines.map((l, i) => (i === 2 ? { ...l, noNumber: true } : l));
+        const cases: Array<[Partial<TypstBlock>, DocumentSettings]> = [
+            [{ mathNumbering: 'line', mathAlign: true, mathLines: lines, label: 'eq:sys' }, numberedDoc],
+            [{ mathNumbering: 'line', mathLines: lines, label: 'eq:sys' }, defaultDocumentSettings],
+            [{ mathNumbering: 'none', label: 'eq:hidden' }, numberedDoc],
+            [{ mathAlign: true, label: 'eq:sys' }, numberedDoc],
+        ];
+        for (const [extra, settings] of cases) {
+            const source: TypstBlock = { id: 'm', type: 'math', content: '', mathFormat: 'latex', mathLines, ...extra };
+            const parsed = typstToBlocks(`${blocksToTypst([source], { settings })}\n\n后文`);
+            expect(parsed).toHaveLength(2);
+            expect(parsed[0]).toMatchObject({
+                type: 'math',
+                mathLines: source.mathLines,
+                mathNumbering: source.mathNumbering,
+                mathAlign: source.mathAlign,
+                label: source.label,
+            });
+        }
+    });
+
+    it('parses hand-written numbered equations', () => {
+        expect(typstToBlocks('$ E = m c^2 $ <eq:e>')[0]).toMatchObject({ type: 'math', mathTypst: 'E = m c^2', label: 'eq:e' });
+        expect(typstToBlocks('#[#set math.equation(numbering: "(1)") $ x $ <eq:x>]')[0]).toMatchObject({ mathTypst: 'x', label: 'eq:x' });
+    });
+});
+
+describe('Equation alignment helpers', () => {
+    it('inserts the alignment point before the first top-level relation', () => {
+        expect(insertMathAlignPoint('f(x = 1) <= 2')).toBe('f(x = 1) &<= 2');
+        expect(insertMathAlignPoint('x -> oo')).toBe('x &-> oo');
+        expect(insertMathAlignPoint('"a=b" eq c')).toBe('"a=b" &eq c');
+        expect(insertMathAlignPoint('x &= 1')).toBe('x &= 1');
+        expect(insertMathAlignPoint('sum_i x_i')).toBe('sum_i x_i');
+        expect(splitMathAlignPoint('y = k x + b')).toEqual(['y', '= k x + b']);
+        expect(splitMathAlignPoint('k x + b')).toEqual(['', 'k x + b']);
+    });
+});
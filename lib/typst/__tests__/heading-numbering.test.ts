@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { NodeCompiler } from '@myriaddreamin/typst-ts-node-compiler';
+import { typstToBlocks } from '../parse';
+import { defaultDocumentSettings } from '../types';
+import {
+    HEADING_NUMBERING_PRESETS,
+    expandNumberingPattern,
+    injectDocumentSettings,
+    parseHeadingNumberingRule,
+    serializeHeadingNumberingRule,
+    stripDocumentSettings,
+} from '../utils';
+
+describe('Heading numbering rule', () => {
+    it('emits nothing when numbering is off', () => {
+        expect(serializeHeadingNumberingRule({ preset: 'none', levels: [] })).toBe('');
+        expect(serializeHeadingNumberingRule({ preset: 'custom', levels: ['', ' '] })).toBe('');
+    });
+
+    it('round-trips presets and custom levels through the rule', () => {
+        for (const levels of [HEADING_NUMBERING_PRESETS.chinese, HEADING_NUMBERING_PRESETS.decimal, ['第一章', '', '(a)']]) {
+            const rule = serializeHeadingNumberingRule({ preset: 'custom', levels });
+            expect(rule.startsWith('#set heading(numbering: ')).toBe(true);
+            expect(parseHeadingNumberingRule(rule)?.levels).toEqual(levels);
+        }
+        expect(parseHeadingNumberingRule(serializeHeadingNumberingRule({ preset: 'chinese', levels: HEADING_NUMBERING_PRESETS.chinese }))?.preset).toBe('chinese');
+    });
+
+    it('counts the numbers each level consumes', () => {
+        const rule = serializeHeadingNumberingRule({ preset: 'custom', levels: ['一、', '1.1'] });
+        expect(rule).toContain('let levels = (("一、", 1), ("1.1", 2),);');
+    });
+
+    it('accepts hand-written rules', () => {
+        expect(parseHeadingNumberingRule('#set heading(numbering: "1.1")')?.levels.slice(0, 3)).toEqual(['1.1', '1.1', '1.1.1']);
+        expect(parseHeadingNumberingRule('#set heading(numbering: "1.")')?.levels.slice(0, 3)).toEqual(['1.', '1.1.', '1.1.1.']);
+        expect(expandNumberingPattern('(1)', 2)).toBe('(1(1)');
+        expect(expandNumberingPattern('1.a', 3)).toBe('1.a.a');
+        expect(expandNumberingPattern('第一章', 3)).toBe('第一第一第一章');
+        expect(parseHeadingNumberingRule('#set heading(numbering: none)')).toEqual({ preset: 'none', levels: [] });
+        expect(parseHeadingNumberingRule('#set heading(outlined: false)')).toBeNull();
+    });
+
+    it('moves a rule found in source into the document settings', () => {
+        const code = injectDocumentSettings('#set heading(numbering: "1.1")\n= Intro', defaultDocumentSettings);
+        const { code: body, settings } = stripDocumentSettings(code);
+        expect(body).toBe('= Intro');
+        expect(settings.headingNumbering.levels[0]).toBe('1.1');
+        expect(typstToBlocks('#set heading(numbering: none)\n= Intro')).toHaveLength(1);
+    });
+
+    it('numbers nested headings like Typst does after taking over a plain rule', () => {
+        const compiler = NodeCompiler.create();
+        const body = [
+            '= A', '== B', '=== C', '=== D', '== E', '= F', '== G',
+            '#context [#metadata(query(heading).map(h => numbering(h.numbering, ..counter(heading).at(h.location())))) <nums>]',
+        ].join('\n');
+        const numbers = (rule: string): string[] => {
+            const result = compiler.compile({ mainFileContent: `${rule}\n${body}` });
+            expect(result.takeDiagnostics()?.shortDiagnostics.map((d) => d.message) ?? []).toEqual([]);
+            return compiler.query(result.result!, { selector: '<nums>' })[0].value;
+        };
+
+        for (const pattern of ['1.', '1.1', '1.a', 'I.', '(1)', '一、', '第一章']) {
+            const native = `#set heading(numbering: "${pattern}")`;
+            const ours = serializeHeadingNumberingRule(parseHeadingNumberingRule(native)!);
+            expect(numbers(ours)).toEqual(numbers(native));
+        }
+        expect(numbers('#set heading(numbering: "1.")')).toEqual(['1.', '1.1.', '1.1.1.', '1.1.2.', '1.2.', '2.', '2.1.']);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { TypstBlock } from '../types';
+import { diffBlockLists } from '../diff';
+import { countMergeConflicts, mergeBlockLists, mergeTypstSources, resolveBlockMerge } from '../merge';
+
+let nextId = 1;
+const p = (content: string): TypstBlock => ({ id: `b${nextId++}`, type: 'paragraph', content });
+const contents = (blocks: TypstBlock[]) => blocks.map((b) => b.content);
+
+describe('mergeBlockLists', () => {
+    it('combines edits made to different blocks on each side', () => {
+        const base = [p('a'), p('b'), p('c')];
+        const mine = [p('a'), p('B (mine)'), p('c')];
+        const theirs = [p('a'), p('b'), p('c'), p('d (theirs)')];
+
+        const hunks = mergeBlockLists(base, mine, theirs);
+        expect(countMergeConflicts(hunks)).toBe(0);
+        expect(contents(resolveBlockMerge(hunks))).toEqual(['a', 'B (mine)', 'c', 'd (theirs)']);
+    });
+
+    it('keeps deletions from either side', () => {
+        const base = [p('a'), p('b'), p('c'), p('d')];
+        const mine = [p('a'), p('c'), p('d')];
+        const theirs = [p('a'), p('b'), p('c'), p('d (edited)')];
+
+        const hunks = mergeBlockLists(base, mine, theirs);
+        expect(countMergeConflicts(hunks)).toBe(0);
+        expect(contents(resolveBlockMerge(hunks))).toEqual(['a', 'c', 'd (edited)']);
+    });
+
+    it('reports a conflict when both sides change the same block', () => {
+        const base = [p('a'), p('b'), p('c')];
+        const mine = [p('a'), p('b1'), p('c')];
+        const theirs = [p('a'), p('b2'), p('c')];
+
+        const hunks = mergeBlockLists(base, mine, theirs);
+        expect(countMergeConflicts(hunks)).toBe(1);
+        const conflict = hunks.find((h) => h.kind === 'conflict');
+        expect(conflict && contents(conflict.base)).toEqual(['b']);
+
+        expect(contents(resolveBlockMerge(hunks, ['mine']))).toEqual(['a', 'b1', 'c']);
+        expect(contents(resolveBlockMerge(hunks, ['theirs']))).toEqual(['a', 'b2', 'c']);
+        expect(contents(resolveBlockMerge(hunks, ['both']))).toEqual(['a', 'b1', 'b2', 'c']);
+    });
+
+    it('treats identical changes on both sides as clean', () => {
+        const base = [p('a')];
+        const hunks = mergeBlockLists(base, [p('a'), p('same')], [p('a'), p('same')]);
+        expect(countMergeConflicts(hunks)).toBe(0);
+        expect(contents(resolveBlockMerge(hunks))).toEqual(['a', 'same']);
+    });
+});
+
+describe('mergeTypstSources', () => {
+    it('merges parsed Typst documents block by block', () => {
+        const base = '= 标题\n\n第一段\n\n第二段';
+        const mine = '= 标题\n\n第一段（修改）\n\n第二段';
+        const theirs = '= 标题\n\n第一段\n\n第二段\n\n第三段';
+
+        const hunks = mergeTypstSources(base, mine, theirs);
+        expect(countMergeConflicts(hunks)).toBe(0);
+        expect(contents(resolveBlockMerge(hunks))).toEqual(['标题', '第一段（修改）', '第二段', '第三段']);
+    });
+});
+
+describe('diffBlockLists', () => {
+    it('aligns unchanged, changed, removed and added blocks', () => {
+        const left = [p('a'), p('b'), { id: 'h', type: 'heading', content: 'H', level: 1 } as TypstBlock, p('d')];
+        const right = [p('a'), p('b (edited)'), p('d'), p('e')];
+
+        const rows = diffBlockLists(left, right);
+        expect(rows.map((r) => r.kind)).toEqual(['same', 'changed', 'removed', 'same', 'added']);
+    });
+});
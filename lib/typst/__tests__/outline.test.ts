@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { TypstBlock } from '../types';
+import { buildDocumentOutline, getSectionRange, moveSection } from '../utils-outline';
+
+let nextId = 1;
+const h = (level: number, content: string): TypstBlock => ({ id: `b${nextId++}`, type: 'heading', level, content });
+const p = (content: string): TypstBlock => ({ id: `b${nextId++}`, type: 'paragraph', content });
+const contents = (blocks: TypstBlock[]) => blocks.map((b) => b.content);
+
+describe('buildDocumentOutline', () => {
+    it('lists headings, figures and tables with their nesting level', () => {
+        const blocks: TypstBlock[] = [
+            h(1, '实验目的'),
+            p('text'),
+            h(2, '*原理*'),
+            { id: 'img', type: 'image', content: '/static/a.png', caption: '装置图' },
+            { id: 'tbl', type: 'table', content: JSON.stringify({ caption: '数据', rows: 1, cols: 1, cells: [[{ content: '' }]] }) },
+        ];
+        expect(buildDocumentOutline(blocks).map((e) => [e.kind, e.level, e.title, e.blockIndex])).toEqual([
+            ['heading', 1, '实验目的', 0],
+            ['heading', 2, '原理', 2],
+            ['figure', 3, '装置图', 3],
+            ['table', 3, '数据', 4],
+        ]);
+    });
+});
+
+describe('moveSection', () => {
+    const doc = [h(1, 'A'), p('a1'), h(2, 'A.1'), p('a11'), h(1, 'B'), p('b1'), h(1, 'C')];
+
+    it('treats a heading and its subsections as one section', () => {
+        expect(getSectionRange(doc, 0)).toEqual([0, 4]);
+        expect(getSectionRange(doc, 2)).toEqual([2, 4]);
+        expect(getSectionRange(doc, 1)).toEqual([1, 2]);
+    });
+
+    it('moves a whole section forwards and backwards', () => {
+        expect(contents(moveSection(doc, 0, 6))).toEqual(['B', 'b1', 'A', 'a1', 'A.1', 'a11', 'C']);
+        expect(contents(moveSection(doc, 4, 0))).toEqual(['B', 'b1', 'A', 'a1', 'A.1', 'a11', 'C']);
+        expect(contents(moveSection(doc, 2, doc.length))).toEqual(['A', 'a1', 'B', 'b1', 'C', 'A.1', 'a11']);
+    });
+
+    it('ignores drops inside the moved section', () => {
+        expect(moveSection(doc, 0, 2)).toBe(doc);
+    });
+});
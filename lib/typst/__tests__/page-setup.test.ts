@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { generatePageSetupPreamble } from '../serializers/preamble';
+import { injectDocumentSettings, stripDocumentSettings } from '../utils';
+import { defaultDocumentSettings, DocumentSettings, TypstBlock } from '../types';
+
+const withPage = (page: Partial<DocumentSettings['page']>): DocumentSettings => ({
+    ...defaultDocumentSettings,
+    page: { ...defaultDocumentSettings.page, ...page },
+});
+
+const cover: TypstBlock = { id: 'c', type: 'cover', content: '', children: [], coverFixedOnePage: true };
+const para: TypstBlock = { id: 'p', type: 'paragraph', content: 'Hello' };
+
+describe('Page setup preamble', () => {
+    it('emits paper, orientation and margins', () => {
+        const out = generatePageSetupPreamble(withPage({ paper: 'a5', orientation: 'landscape', marginLeft: '3cm' }));
+        expect(out).toContain('#set page(paper: "a5", flipped: true, margin: (top: 2.5cm, bottom: 2.5cm, left: 3cm, right: 2.5cm))');
+        expect(out).not.toContain('footer:');
+    });
+
+    it('puts footer text and page number on the same line', () => {
+        const out = generatePageSetupPreamble(withPage({ footer: '实验报告', pageNumberFormat: '第 1 页' }), [para]);
+        expect(out).toContain('footer: context { set text(size: 9pt); text("实验报告"); h(1fr); numbering("第 1 页", counter(page).get().first()) }');
+    });
+
+    it('skips a one-page cover and starts numbering after it', () => {
+        const out = generatePageSetupPreamble(withPage({ header: 'H', pageNumberFormat: '1', pageNumberStart: 1 }), [cover, para]);
+        expect(out).toContain('header: context { if here().page() > 1 { set text(size: 9pt); align(center, text("H")) } }');
+        expect(out).toContain('numbering("1", counter(page).get().first() - (1))');
+
+        const numberedCover = generatePageSetupPreamble(
+            withPage({ pageNumberFormat: '1', coverWithoutNumber: false }),
+            [cover, para]
+        );
+        expect(numberedCover).not.toContain('here().page() >');
+    });
+
+    it('persists page settings through the document settings marker', () => {
+        const settings = withPage({ paper: 'us-letter', header: 'Lab 3', pageNumberFormat: '1 / 1', pageNumberStart: 2 });
+        const { settings: restored } = stripDocumentSettings(injectDocumentSettings('= Title', settings));
+        expect(restored.page).toEqual(settings.page);
+    });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { typstToBlocks } from '../parse';
 import { blocksToTypst } from '../serialize';
-import { TypstBlock } from '../types';
+import { TypstBlock, defaultDocumentSettings } from '../types';
+import { countBibliographyBlocks, parseBibtexEntries } from '../utils';
 
 // Helper to remove IDs and undefined values for comparison
 function cleanIds<T>(obj: T): T {
@@ -60,6 +61,16 @@ describe('Typst Parser/Serializer Roundtrip', () => {
         assertRoundtrip(blocks);
     });
 
+    it('handles unnumbered and aligned headings', () => {
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'heading', content: '摘要', level: 1, unnumbered: true },
+            { id: '2', type: 'heading', content: '附录', level: 2, unnumbered: true, align: 'center', font: 'SimHei' },
+            { id: '3', type: 'heading', content: '结论', level: 1, align: 'right' },
+        ];
+        assertRoundtrip(blocks);
+        expect(blocksToTypst(blocks)).toContain('#heading(level: 1, numbering: none)[#text(font: "SimSun")[摘要]]');
+    });
+
     it('handles paragraphs', () => {
         const blocks: TypstBlock[] = [
             { id: '1', type: 'paragraph', content: 'Hello World' },
@@ -145,4 +156,95 @@ describe('Typst Parser/Serializer Roundtrip', () => {
         ];
         assertRoundtrip(blocks);
     });
+
+    it('handles cross-reference labels on figures, tables and equations', () => {
+        const payload = {
+            rows: 1, cols: 2,
+            cells: [[{ content: "A" }, { content: "B" }]]
+        };
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'image', content: 'test.png', width: '50%', caption: 'Setup', label: 'fig-setup' },
+            { id: '2', type: 'table', content: JSON.stringify(payload), width: '50%', label: 'tab-data' },
+            { id: '3', type: 'math', content: 'E = m c^2', mathTypst: 'E = m c^2', mathFormat: 'typst', label: 'eq-energy' },
+            { id: '4', type: 'paragraph', content: '见 @fig-setup 与 @tab-data 。' },
+        ];
+        assertRoundtrip(blocks);
+
+        const typst = blocksToTypst(blocks);
+        expect(typst).toContain('<fig-setup>]');
+        expect(typst).toContain('#figure(kind: table, supplement: "表", numbering: (..nums) => "1")');
+        expect(typst).toContain('#[#set math.equation(numbering: "(1)"); $ E = m c^2 $ <eq-energy>]');
+    });
+
+    it('keeps labelled images numbered so references resolve', () => {
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'image', content: 'a.png', width: '50%', label: 'fig-bare' },
+            { id: '2', type: 'image', content: 'b.png', width: '50%', caption: 'Setup', label: 'fig-setup' },
+        ];
+        assertRoundtrip(blocks);
+
+        const settings = { ...defaultDocumentSettings, imageCaptionNumbering: false };
+        const typst = blocksToTypst(blocks, { settings });
+        expect(typst).toContain('#figure(image("a.png", width: 50%, height: auto), supplement: "图") <fig-bare>]');
+        expect(typst).toContain('caption: [#text(font: "SimSun")[Setup]], supplement: "图") <fig-setup>]');
+        expect(typst).not.toContain('numbering: none');
+    });
+
+    it('handles bibliography blocks and citations', () => {
+        const bibtex = '@article{smith2020,\n  title = {On \\"Quoted\\" Things},\n  author = {Smith, J.},\n  year = {2020}\n}';
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'paragraph', content: '如文献 @smith2020 所述。' },
+            {
+                id: '2',
+                type: 'bibliography',
+                content: JSON.stringify({ title: '参考文献', style: 'ieee', full: false, bibtex }),
+            },
+            {
+                id: '3',
+                type: 'bibliography',
+                content: JSON.stringify({ title: '参考文献', style: 'apa', full: true, bibtex: '' }),
+            },
+        ];
+        assertRoundtrip(blocks);
+
+        const typst = blocksToTypst(blocks);
+        expect(typst).toContain('#bibliography(bytes("@article{smith2020,\\n');
+        expect(typst).toContain('style: "ieee"');
+
+        expect(parseBibtexEntries(bibtex)).toEqual([
+            { key: 'smith2020', entryType: 'article', title: 'On \\"Quoted\\" Things', author: 'Smith, J.', year: '2020' },
+        ]);
+        expect(countBibliographyBlocks(blocks)).toBe(2);
+        expect(countBibliographyBlocks([{ id: 'c', type: 'cover', content: '', children: blocks }])).toBe(2);
+    });
+
+    it('handles table of contents blocks', () => {
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'toc', content: JSON.stringify({ title: '目录', depth: 2, indent: 'auto' }) },
+            { id: '2', type: 'toc', content: JSON.stringify({ title: '', depth: 3, indent: '1.5em' }) },
+            { id: '3', type: 'heading', content: '实验目的', level: 1 },
+        ];
+        assertRoundtrip(blocks);
+
+        const typst = blocksToTypst(blocks);
+        expect(typst).toContain('#outline(title: [目录], depth: 2, indent: auto)');
+        expect(typst).toContain('#outline(title: none, depth: 3, indent: 1.5em)');
+
+        const [parsed] = typstToBlocks('#outline(title: [Contents], depth: 4)');
+        expect(parsed.type).toBe('toc');
+        expect(JSON.parse(parsed.content)).toEqual({ title: 'Contents', depth: 4, indent: 'auto' });
+
+        // Outlines with arguments the block cannot represent stay as written.
+        for (const raw of [
+            '#outline()',
+            '#outline(title: [目录])',
+            '#outline(target: figure.where(kind: image))',
+            '#outline(title: [目录], indent: n => n * 1em)',
+            '#outline(depth: 8)',
+        ]) {
+            const [kept] = typstToBlocks(raw);
+            expect(kept.type).not.toBe('toc');
+            expect(blocksToTypst([kept])).toContain(raw);
+        }
+    });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { typstToBlocks } from '../parse';
+import { PersistedTablePayload, TypstBlock } from '../types';
+import { evaluateTableFormulas, formatSignificant, safeParseTablePayload, tableColumnLabel } from '../utils';
+
+const table = (grid: string[][], columnPrecision?: (number | null)[]): PersistedTablePayload => ({
+    caption: '',
+    style: 'normal',
+    rows: grid.length,
+    cols: grid[0].length,
+    cells: grid.map((row) => row.map((text) => (text.startsWith('=') ? { content: '', formula: text } : { content: text }))),
+    columnPrecision,
+});
+
+describe('Table formulas', () => {
+    it('evaluates ranges, arithmetic and functions', () => {
+        const values = evaluateTableFormulas(
+            table([
+                ['x', 'y', 'xy'],
+                ['1', '2', '=A2*B2'],
+                ['3', '$4$', '=A3*B3'],
+                ['=SUM(A2:A3)', '=AVERAGE(B2:B3)', '=SUM(C2:C3) / 2 + 2^2'],
+                ['=STDEV(A2:A3)', '=ROUND(1.2345, 2)', '=-SQRT(16)'],
+            ])
+        );
+        expect(values[1][2]).toBe('2');
+        expect(values[2][2]).toBe('12');
+        expect(values[3]).toEqual(['4', '3', '11']);
+        expect(values[4]).toEqual(['1.41421', '1.23', '-4']);
+        expect(values[0][0]).toBe('x');
+    });
+
+    it('calls functions whose names look like cell references', () => {
+        const values = evaluateTableFormulas(table([['100', '=LOG10(A1)', '=log10 (A1) + 1', '=LOG10']]));
+        expect(values[0].slice(1)).toEqual(['2', '3', '#REF!']);
+    });
+
+    it('reports errors instead of throwing', () => {
+        const values = evaluateTableFormulas(
+            table([
+                ['0', '=1/A1', '=FOO(A1)'],
+                ['=A2', '=Z9', '=A1 +'],
+            ])
+        );
+        expect(values[0][1]).toBe('#DIV/0!');
+        expect(values[0][2]).toBe('#NAME?');
+        expect(values[1][0]).toBe('#CYCLE!');
+        expect(values[1][1]).toBe('#REF!');
+        expect(values[1][2]).toBe('#ERROR!');
+    });
+
+    it('formats results with per-column significant digits', () => {
+        expect(formatSignificant(2 / 3)).toBe('0.666667');
+        expect(formatSignificant(2.5, 3)).toBe('2.50');
+        expect(formatSignificant(12345, 2)).toBe('12000');
+        expect(formatSignificant(0.000123456, 3)).toBe('0.000123');
+        expect(tableColumnLabel(27)).toBe('AB');
+
+        const values = evaluateTableFormulas(table([['2', '3', '=A1/B1']], [null, null, 3]));
+        expect(values[0][2]).toBe('0.667');
+    });
+
+    it('serializes the computed value and keeps the formula in the marker', () => {
+        const payload = table([['1.5', '2', '=A1*B1']], [null, null, 2]);
+        const blocks: TypstBlock[] = [{ id: 't', type: 'table', content: JSON.stringify(payload) }];
+        const code = blocksToTypst(blocks);
+        expect(code).toContain('[3.0]');
+        expect(code).not.toContain('A1*B1');
+
+        const parsed = safeParseTablePayload(typstToBlocks(code).find((b) => b.type === 'table')!.content);
+        expect(parsed.cells[0][2]).toMatchObject({ formula: '=A1*B1', content: '3.0' });
+        expect(parsed.columnPrecision).toEqual([null, null, 2]);
+    });
+});
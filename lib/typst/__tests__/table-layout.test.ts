@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { typstToBlocks } from '../parse';
+import { PersistedTablePayload, TypstBlock } from '../types';
+import { normalizeTableColumnWidth, safeParseTablePayload } from '../utils';
+
+const payload: PersistedTablePayload = {
+    caption: '',
+    style: 'normal',
+    rows: 3,
+    cols: 2,
+    columns: [{ width: 'auto' }, { width: '30pt', align: 'right' }],
+    headerRows: 1,
+    cells: [
+        [{ content: '项目', rowspan: 2, fill: '#D9D9D9' }, { content: '值', valign: 'top' }],
+        [{ content: '', hidden: true }, { content: '1.0' }],
+        [{ content: 'a', align: 'center' }, { content: '2.0' }],
+    ],
+};
+
+describe('Table layout', () => {
+    it('serializes column widths, alignment, fills and repeated header rows', () => {
+        const code = blocksToTypst([{ id: 't', type: 'table', content: JSON.stringify(payload) }]);
+        expect(code).toContain('columns: (auto, 30pt)');
+        expect(code).toContain('align: (left + horizon, right + horizon)');
+        // The rowspan in the first row pulls the second row into the header.
+        expect(code).toContain('table.header(repeat: true, table.cell(rowspan: 2, fill: rgb("#d9d9d9"))[项目], table.cell(align: right + top)[值], [1.0])');
+        expect(code).toContain('table.cell(align: center + horizon)[a]');
+    });
+
+    it('keeps the layout through a parse round-trip', () => {
+        const code = blocksToTypst([{ id: 't', type: 'table', content: JSON.stringify(payload) }]);
+        const table = typstToBlocks(code).find((b: TypstBlock) => b.type === 'table')!;
+        const parsed = safeParseTablePayload(table.content);
+        expect(parsed.columns).toEqual([
+            { width: 'auto', align: undefined, valign: undefined },
+            { width: '30pt', align: 'right', valign: undefined },
+        ]);
+        expect(parsed.headerRows).toBe(1);
+        expect(parsed.cells[0][0].fill).toBe('#d9d9d9');
+        expect(parsed.cells[2][0].align).toBe('center');
+    });
+
+    it('accepts only Typst track sizes as column widths', () => {
+        expect(normalizeTableColumnWidth('2fr')).toBe('2fr');
+        expect(normalizeTableColumnWidth('25%')).toBe('25%');
+        expect(normalizeTableColumnWidth('12mm')).toBe('12mm');
+        expect(normalizeTableColumnWidth('wide')).toBeNull();
+    });
+
+    it('keeps the plain defaults for tables without layout settings', () => {
+        const code = blocksToTypst([{ id: 't', type: 'table', content: JSON.stringify({ rows: 1, cols: 2, cells: [[{ content: 'x' }, { content: 'y' }]] }) }]);
+        expect(code).toContain('#table(columns: (1fr, 1fr), align: left + horizon, stroke: 0.8pt, [x], [y])');
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { DocumentSettings, PersistedTablePayload, TypstBlock, UserTableStyle, defaultDocumentSettings } from '../types';
+import { injectDocumentSettings, serializeTableStrokeArgs, stripDocumentSettings, TABLE_STYLE_PRESETS } from '../utils';
+
+const cells = [[{ content: 'a' }, { content: 'b' }], [{ content: '1' }, { content: '2' }], [{ content: '3' }, { content: '4' }]];
+
+const spec = (id: string) => TABLE_STYLE_PRESETS.find((p) => p.id === id)!.spec;
+
+const userStyle: UserTableStyle = {
+    id: 'lab',
+    name: '实验表',
+    spec: { top: 2, bottom: 2, left: 0, right: 0, header: 1, rows: 0, cols: 0.5 },
+};
+
+describe('Table styles', () => {
+    it('draws booktabs with outer hlines and a header rule only', () => {
+        expect(serializeTableStrokeArgs(spec('booktabs'), 3, 2, 1)).toEqual([
+            'stroke: none',
+            'table.hline(y: 0, stroke: 1pt)',
+            'table.hline(y: 1, stroke: 0.5pt)',
+            'table.hline(y: 3, stroke: 1pt)',
+        ]);
+    });
+
+    it('draws inner lines per cell, skipping the header rule position', () => {
+        const args = serializeTableStrokeArgs(spec('booktabs-rows'), 4, 2, 2);
+        expect(args[0]).toBe('stroke: (x, y) => (top: if y > 0 and y != 2 { 0.25pt })');
+        expect(args).toContain('table.hline(y: 2, stroke: 0.5pt)');
+    });
+
+    it('fills the header and every other body row for zebra tables', () => {
+        const blocks: TypstBlock[] = [{ id: 't', type: 'table', content: JSON.stringify({ style: 'zebra', rows: 3, cols: 2, cells }) }];
+        const code = blocksToTypst(blocks);
+        expect(code).toContain('fill: (x, y) => if y < 1 { rgb("#d9d9d9") } else if y >= 1 and calc.odd(y - 1) { rgb("#f2f2f2") }');
+    });
+
+    it('keeps the original output of the normal and three-line styles', () => {
+        const styled = (style: string) => blocksToTypst([{ id: 't', type: 'table', content: JSON.stringify({ style, rows: 3, cols: 2, cells }) }]);
+        expect(styled('normal')).toContain('stroke: 0.8pt,');
+        expect(styled('three-line')).toContain('stroke: (x: 0pt, y: 0pt), table.hline(y: 0, stroke: 1.6pt)');
+        expect(styled('plain')).toContain('stroke: none, [a]');
+    });
+
+    it('resolves document styles and falls back to the saved copy once deleted', () => {
+        const settings: DocumentSettings = { ...defaultDocumentSettings, tableStyles: [userStyle] };
+        const payload: PersistedTablePayload = { style: 'custom', userStyle: 'lab', stroke: spec('header-rule'), rows: 3, cols: 2, cells };
+        const blocks: TypstBlock[] = [{ id: 't', type: 'table', content: JSON.stringify(payload) }];
+        const code = blocksToTypst(blocks, { settings });
+        expect(code).toContain('stroke: (x, y) => (left: if x > 0 { 0.5pt })');
+        expect(code).toContain('table.hline(y: 0, stroke: 2pt)');
+
+        const orphan = blocksToTypst(blocks, { settings: defaultDocumentSettings });
+        expect(orphan).toContain('stroke: none, table.hline(y: 1, stroke: 0.8pt)');
+    });
+
+    it('persists document styles with the settings', () => {
+        const settings: DocumentSettings = { ...defaultDocumentSettings, tableStyles: [userStyle] };
+        const { settings: back } = stripDocumentSettings(injectDocumentSettings('Hello', settings));
+        expect(back.tableStyles).toEqual([userStyle]);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { blocksToTypst } from '../serialize';
+import { resolveTemplateSource, typstToBlocks } from '../parse';
+import { DocumentSettings, TemplateVariable, TypstBlock, defaultDocumentSettings } from '../types';
+import {
+    fillTemplateVariables,
+    injectDocumentSettings,
+    normalizeTemplateVariables,
+    resolveTemplateText,
+    stripDocumentSettings,
+} from '../utils';
+
+const variables: TemplateVariable[] = [
+    { key: 'name', label: '姓名', type: 'text', value: '张三' },
+    { key: 'studentId', label: '学号', type: 'number', value: '2023_01' },
+    { key: 'date', label: '日期', type: 'date', value: '2026-03-05' },
+];
+
+const settings: DocumentSettings = {
+    ...defaultDocumentSettings,
+    page: { ...defaultDocumentSettings.page, header: '{{name}} 的实验报告' },
+    templateVariables: variables,
+};
+
+const cover: TypstBlock = {
+    id: 'c',
+    type: 'cover',
+    content: '',
+    children: [
+        { id: 't', type: 'heading', level: 1, content: '{{name}}的报告' },
+        {
+            id: 'f',
+            type: 'input_field',
+            content: '',
+            inputLines: [
+                { label: '姓名', value: '{{name}}' },
+                { label: '学号', value: '{{ studentId }}' },
+                { label: '日期', value: '{{date}}' },
+            ],
+        },
+    ],
+};
+
+describe('Template variables', () => {
+    it('resolves declared placeholders and leaves unknown ones as typed', () => {
+        expect(resolveTemplateText('{{name}}，{{ date }}，{{other}}', variables)).toBe('张三，2026年3月5日，{{other}}');
+        expect(resolveTemplateText('学号 {{studentId}}', variables, true)).toBe('学号 2023\\_01');
+        expect(resolveTemplateText('{{name}}', [])).toBe('{{name}}');
+    });
+
+    it('keeps placeholders in storage and substitutes them when rendering', () => {
+        const stored = blocksToTypst([cover], { settings });
+        expect(stored).toContain('{{name}}的报告');
+
+        const rendered = blocksToTypst([cover], { settings, target: 'export', preamble: true });
+        expect(rendered).toContain('= #text(font: "SimSun")[张三的报告]');
+        expect(rendered).toContain('[#align(center + horizon)[2023\\_01]]');
+        expect(rendered).toContain('[#align(center + horizon)[2026年3月5日]]');
+        expect(rendered).toContain('text("张三 的实验报告")');
+        expect(rendered).not.toContain('{{');
+
+        // Source mode renders the stored code as written, resolving its placeholders the same way.
+        const source = resolveTemplateSource(stored, variables);
+        expect(source).toContain('= #text(font: "SimSun")[张三的报告]');
+        expect(source).toContain('[#align(center + horizon)[2023\\_01]]');
+        expect(source).not.toContain('{{');
+
+        const parsed = typstToBlocks(stored);
+        expect(parsed[0].children?.[0].content).toBe('{{name}}的报告');
+        expect(parsed[0].children?.[1].inputLines?.[1].value).toBe('{{ studentId }}');
+    });
+
+    it('resolves source-mode placeholders only in the blocks the visual preview resolves', () => {
+        const blocks: TypstBlock[] = [
+            { id: 'p', type: 'paragraph', content: '报告人 {{name}}' },
+            { id: 'k', type: 'code', content: 'print("{{name}}")', language: 'python' },
+            { id: 'i', type: 'image', content: 'a.png', caption: '{{name}} 的装置' },
+            { id: 't', type: 'table', content: JSON.stringify({ rows: 1, cols: 1, cells: [[{ content: '{{name}}' }]] }) },
+        ];
+        const stored = blocksToTypst(blocks, { settings });
+        const source = resolveTemplateSource(stored, variables);
+        expect(source.split('\n')).toHaveLength(stored.split('\n').length);
+        expect(source).toContain('报告人 张三');
+        expect(source).toContain('print("{{name}}")');
+        expect(source).toContain('{{name}} 的装置');
+        expect(source).toContain('[{{name}}]');
+
+        const visual = blocksToTypst(blocks, { settings, target: 'export' });
+        expect(visual).toContain('print("{{name}}")');
+        expect(visual).toContain('{{name}} 的装置');
+        expect(visual).toContain('[{{name}}]');
+    });
+
+    it('stores entered values with the project settings', () => {
+        const template = injectDocumentSettings('= {{name}}', { ...defaultDocumentSettings, templateVariables: variables.map((v) => ({ ...v, value: '' })) });
+        const filled = fillTemplateVariables(template, { name: '李四', date: '2026-10-19', unknown: 'x' });
+        const { code, settings: loaded } = stripDocumentSettings(filled);
+        expect(code).toBe('= {{name}}');
+        expect(loaded.templateVariables.map((v) => [v.key, v.value])).toEqual([
+            ['name', '李四'],
+            ['studentId', ''],
+            ['date', '2026-10-19'],
+        ]);
+    });
+
+    it('drops malformed and repeated declarations', () => {
+        expect(normalizeTemplateVariables([
+            { key: 'course', label: '课程', type: 'text', value: '物理实验' },
+            { key: 'course', label: '重复' },
+            { key: '1bad', label: '无效' },
+            { key: 'teacher', type: 'weird' },
+            'nope',
+        ])).toEqual([
+            { key: 'course', label: '课程', type: 'text', value: '物理实验' },
+            { key: 'teacher', label: 'teacher', type: 'text', value: '' },
+        ]);
+        expect(normalizeTemplateVariables(undefined)).toEqual([]);
+    });
+});
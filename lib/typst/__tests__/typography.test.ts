@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { generateTypographyPreamble } from '../serializers/preamble';
+import { blocksToTypst } from '../serialize';
+import { defaultDocumentSettings, DocumentSettings, TypstBlock } from '../types';
+import { typstToBlocks } from '../parse';
+import { useEditorStore } from '@/stores/useEditorStore';
+import { TYPOGRAPHY_PRESETS, clearStyleOverrides, countStyleOverrides, dropInheritedFonts, normalizeTypographyStyles } from '../utils';
+
+const report = TYPOGRAPHY_PRESETS.find((p) => p.id === 'report')!.styles;
+const withStyles = (typography: DocumentSettings['typography']): DocumentSettings => ({ ...defaultDocumentSettings, typography });
+
+describe('Document styles', () => {
+    it('emits set/show rules for configured styles only', () => {
+        const out = generateTypographyPreamble(withStyles(report));
+        expect(out).toContain('#set text(font: "SimSun", size: 12pt)');
+        expect(out).toContain('#set par(leading: 1.2em)');
+        expect(out).toContain('#show heading.where(level: 1): set text(font: "SimHei", size: 16pt)');
+        expect(out).toContain('#show figure.caption: set text(font: "KaiTi", size: 10.5pt)');
+        expect(out).toContain('#show raw: set text(size: 9pt)');
+
+        const defaults = generateTypographyPreamble(defaultDocumentSettings);
+        expect(defaults).not.toContain('heading.where');
+        expect(defaults).not.toContain('#set par');
+    });
+
+    it('restores the body leading after a paragraph with its own line spacing when rendering', () => {
+        const blocks: TypstBlock[] = [{ id: '1', type: 'paragraph', content: 'Loose', lineSpacing: 2 }];
+        expect(blocksToTypst(blocks, { settings: withStyles(report), target: 'export' })).toMatch(/#set par\(leading: 1\.2em\)$/);
+        // Storage keeps the fixed reset so the paragraph parser reads it back as "no override".
+        expect(blocksToTypst(blocks, { settings: withStyles(report) })).toMatch(/#set par\(leading: 0\.8em\)$/);
+    });
+
+    it('writes style fonts into stored source and reads them back as inherited', () => {
+        const blocks: TypstBlock[] = [
+            { id: '1', type: 'heading', content: '原理', level: 1 },
+            { id: '2', type: 'paragraph', content: 'Body' },
+            { id: '3', type: 'paragraph', content: 'Own', font: 'KaiTi' },
+            { id: '4', type: 'image', content: 'a.png', caption: 'Setup' },
+        ];
+        const code = blocksToTypst(blocks, { settings: withStyles(report) });
+        expect(code).toContain('= #text(font: "SimHei")[原理]');
+        expect(code).toContain('#text(font: "SimSun")[Body]');
+        expect(code).toContain('caption: [#text(font: "KaiTi")[Setup]]');
+
+        const parsed = dropInheritedFonts(typstToBlocks(code), report);
+        expect(parsed.map((b) => b.font)).toEqual([undefined, undefined, 'KaiTi', undefined]);
+        expect(parsed[3].captionFont).toBeUndefined();
+        expect(countStyleOverrides(parsed)).toBe(1);
+    });
+
+    it('rewrites style fonts in source-mode code when the styles change', () => {
+        useEditorStore.setState({ mode: 'source', docSettings: withStyles(report), blocks: [] });
+        const { setCode, setDocSettings, switchMode } = useEditorStore.getState();
+        setCode(blocksToTypst([
+            { id: '1', type: 'paragraph', content: 'Body' },
+            { id: '2', type: 'paragraph', content: 'Own', font: 'KaiTi' },
+        ], { settings: withStyles(report) }));
+
+        setDocSettings(withStyles({ ...report, body: { ...report.body, font: 'FangSong' } }));
+        const { code } = useEditorStore.getState();
+        expect(code).toContain('#text(font: "FangSong")[Body]');
+        expect(code).toContain('#text(font: "KaiTi")[Own]');
+        expect(code).not.toContain('SimSun');
+
+        switchMode('visual');
+        expect(useEditorStore.getState().blocks.map((b) => b.font)).toEqual([undefined, 'KaiTi']);
+    });
+
+    it('clears per-block overrides, including inside composite rows but not covers', () => {
+        const cover: TypstBlock = { id: 'c', type: 'cover', content: '', children: [{ id: 'cp', type: 'paragraph', content: 'x', font: 'SimHei' }] };
+        const blocks: TypstBlock[] = [
+            cover,
+            { id: '1', type: 'paragraph', content: 'a', font: 'KaiTi', fontSize: '14pt', lineSpacing: 1.5, align: 'center' },
+            { id: '2', type: 'composite_row', content: '', children: [{ id: '3', type: 'image', content: 'u', captionFont: 'SimHei' }] },
+            { id: '4', type: 'heading', content: 'h', level: 1 },
+        ];
+        expect(countStyleOverrides(blocks)).toBe(2);
+
+        const cleared = clearStyleOverrides(blocks);
+        expect(countStyleOverrides(cleared)).toBe(0);
+        expect(cleared[0]).toBe(cover);
+        expect(cleared[1]).toMatchObject({ align: 'center', font: undefined, fontSize: undefined, lineSpacing: undefined });
+        expect(cleared[3]).toBe(blocks[3]);
+    });
+
+    it('normalizes stored styles', () => {
+        const styles = normalizeTypographyStyles({ body: { font: 'KaiTi', size: 'huge', lineSpacing: 1.48 }, code: { size: '9pt' } });
+        expect(styles.body).toEqual({ font: 'KaiTi', size: '', lineSpacing: 1.5 });
+        expect(styles.code).toEqual({ font: '', size: '9pt' });
+        expect(styles.caption).toEqual(defaultDocumentSettings.typography.caption);
+    });
+});
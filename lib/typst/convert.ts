@@ -3,7 +3,7 @@ import { generateId } from './utils';
 
 // 重新导出序列化和解析函数
 export { blocksToTypst } from './serialize';
-export { typstToBlocks } from './parse';
+export { resolveTemplateSource, typstToBlocks } from './parse';
 
 // 默认块
 export function getDefaultBlocks(): TypstBlock[] {
@@ -7,6 +7,7 @@ export interface BlockParser {
      * @param lines All lines of the Typst source code.
      * @param index Current line index.
      * @returns The parsed block and the next line index (endIndex), or null if this parser cannot handle the line.
+     * A null block consumes the lines without producing a block.
      */
-    parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null;
+    parse(lines: string[], index: number): { block: TypstBlock | null; endIndex: number } | null;
 }
@@ -9,6 +9,8 @@ import { CompositeRowParser } from '../parsers/composite-row';
 import { VerticalSpaceParser } from '../parsers/vertical-space';
 import { InputFieldParser } from '../parsers/input-field';
 import { MediaParser } from '../parsers/media';
+import { BibliographyParser } from '../parsers/bibliography';
+import { TocParser } from '../parsers/toc';
 import { ParagraphParser } from '../parsers/paragraph';
 
 export class ParserRegistry {
@@ -36,5 +38,7 @@ globalRegistry.register(new CompositeRowParser());
 globalRegistry.register(new VerticalSpaceParser());
 globalRegistry.register(new InputFieldParser());
 globalRegistry.register(new MediaParser());
+globalRegistry.register(new BibliographyParser());
+globalRegistry.register(new TocParser());
 // ParagraphParser is the catch-all for text and -/+, so it goes last
 globalRegistry.register(new ParagraphParser());
@@ -0,0 +1,99 @@
+// ---------------------------------------------------------------------------
+// Compile diagnostics (render errors/warnings mapped back to editor positions)
+// ---------------------------------------------------------------------------
+
+export type TypstDiagnosticSeverity = 'error' | 'warning';
+
+export type TypstDiagnostic = {
+    severity: TypstDiagnosticSeverity;
+    message: string;
+    // 1-based position in the compiled source; absent when the compiler gave none.
+    line?: number;
+    column?: number;
+    hints: string[];
+};
+
+export type BlockDiagnostic = TypstDiagnostic & {
+    // Index of the top-level block the position falls in; null for the preamble or unknown positions.
+    blockIndex: number | null;
+};
+
+const HEADER_RE = /^(error|warning):\s*(.*)$/;
+// Typst CLI span line, e.g. "  ┌─ /main.typ:3:5" (older versions print "--> main.typ:3:5").
+const SPAN_RE = /(?:┌─|-->)\s*(\S+?):(\d+):(\d+)/;
+const HINT_RE = /^\s*=\s*hint:\s*(.*)$/;
+
+/**
+ * Parse the compiler's human-readable output (as returned by the render endpoint) into
+ * structured diagnostics. Text without any recognizable header becomes a single error.
+ */
+export function parseTypstDiagnostics(text: string): TypstDiagnostic[] {
+    const out: TypstDiagnostic[] = [];
+    let current: TypstDiagnostic | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+        const header = line.match(HEADER_RE);
+        if (header) {
+            current = { severity: header[1] as TypstDiagnosticSeverity, message: header[2].trim(), hints: [] };
+            out.push(current);
+            continue;
+        }
+        if (!current) continue;
+
+        const span = line.match(SPAN_RE);
+        if (span && current.line === undefined) {
+            current.line = Number(span[2]);
+            current.column = Number(span[3]);
+            continue;
+        }
+        const hint = line.match(HINT_RE);
+        if (hint) current.hints.push(hint[1].trim());
+    }
+
+    if (out.length === 0 && text.trim()) {
+        out.push({ severity: 'error', message: text.trim(), hints: [] });
+    }
+    return out;
+}
+
+// 1-based line numbers of every line containing `marker`.
+function markerLines(code: string, marker: string): number[] {
+    const lines: number[] = [];
+    code.split('\n').forEach((text, i) => {
+        if (text.includes(marker)) lines.push(i + 1);
+    });
+    return lines;
+}
+
+/**
+ * Attribute diagnostics of the preview source to blocks. Every block is preceded by `marker`
+ * and a sentinel marker follows the last block, so a line belongs to the nearest marker above it.
+ */
+export function mapDiagnosticsToBlocks(
+    diagnostics: TypstDiagnostic[],
+    renderCode: string,
+    marker: string
+): BlockDiagnostic[] {
+    const starts = markerLines(renderCode, marker);
+    const blockCount = Math.max(0, starts.length - 1);
+
+    return diagnostics.map((d) => {
+        if (d.line === undefined) return { ...d, blockIndex: null };
+        let index = -1;
+        while (index + 1 < starts.length && starts[index + 1] <= d.line) index++;
+        return { ...d, blockIndex: index >= 0 && index < blockCount ? index : null };
+    });
+}
+
+/**
+ * Re-base diagnostics of a source rendered after `offset` lines of preamble onto the source
+ * itself. Positions inside the preamble are dropped, leaving just the message.
+ */
+export function shiftDiagnosticLines(diagnostics: TypstDiagnostic[], offset: number): TypstDiagnostic[] {
+    if (offset === 0) return diagnostics;
+    return diagnostics.map((d) => {
+        if (d.line === undefined) return d;
+        if (d.line <= offset) return { ...d, line: undefined, column: undefined };
+        return { ...d, line: d.line - offset };
+    });
+}
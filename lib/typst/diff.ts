@@ -0,0 +1,110 @@
+import { TypstBlock } from './types';
+
+// ---------------------------------------------------------------------------
+// Block-level diff (version history view, three-way merge)
+// ---------------------------------------------------------------------------
+
+/**
+ * Identity of a block's content, ignoring ids (which are regenerated on every parse)
+ * and editor-only UI state.
+ */
+export function blockFingerprint(block: TypstBlock): string {
+    const strip = (b: TypstBlock): Record<string, unknown> => {
+        const rest: Record<string, unknown> = { ...b };
+        delete rest.id;
+        delete rest.uiCollapsed;
+        if (Array.isArray(b.children)) rest.children = b.children.map(strip);
+        return rest;
+    };
+    return JSON.stringify(strip(block));
+}
+
+// Matched index pairs of the longest common subsequence of two key lists.
+export function lcsPairs(a: string[], b: string[]): Array<[number, number]> {
+    const n = a.length;
+    const m = b.length;
+    const dp: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            dp[i][j] = a[i] === b[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+export type BlockDiffRow =
+    | { kind: 'same'; left: TypstBlock; right: TypstBlock }
+    | { kind: 'changed'; left: TypstBlock; right: TypstBlock }
+    | { kind: 'removed'; left: TypstBlock }
+    | { kind: 'added'; right: TypstBlock };
+
+/**
+ * Align two block lists for a side-by-side view. Unmatched blocks between two matches are
+ * paired up as 'changed' when they have the same type, otherwise shown as removed/added.
+ */
+export function diffBlockLists(left: TypstBlock[], right: TypstBlock[]): BlockDiffRow[] {
+    const pairs = lcsPairs(left.map(blockFingerprint), right.map(blockFingerprint));
+    const rows: BlockDiffRow[] = [];
+
+    const emitGap = (l0: number, l1: number, r0: number, r1: number) => {
+        let i = l0;
+        let j = r0;
+        while (i < l1 && j < r1 && left[i].type === right[j].type) {
+            rows.push({ kind: 'changed', left: left[i++], right: right[j++] });
+        }
+        while (i < l1) rows.push({ kind: 'removed', left: left[i++] });
+        while (j < r1) rows.push({ kind: 'added', right: right[j++] });
+    };
+
+    let l = 0;
+    let r = 0;
+    for (const [li, ri] of pairs) {
+        emitGap(l, li, r, ri);
+        rows.push({ kind: 'same', left: left[li], right: right[ri] });
+        l = li + 1;
+        r = ri + 1;
+    }
+    emitGap(l, left.length, r, right.length);
+    return rows;
+}
+
+/**
+ * Carry ids over from `previous` to a freshly parsed `next`, so re-parsing the same document
+ * keeps block identities (collaboration ops, selections). Unchanged blocks are kept as they
+ * were; edited blocks of the same type take the old id and their children are matched in turn.
+ */
+export function reuseBlockIds(previous: TypstBlock[], next: TypstBlock[]): TypstBlock[] {
+    return diffBlockLists(previous, next).flatMap((row): TypstBlock[] => {
+        switch (row.kind) {
+            case 'same':
+                return [row.left];
+            case 'changed':
+                return [{
+                    ...row.right,
+                    id: row.left.id,
+                    ...(row.left.children && row.right.children
+                        ? { children: reuseBlockIds(row.left.children, row.right.children) }
+                        : {}),
+                }];
+            case 'added':
+                return [row.right];
+            case 'removed':
+                return [];
+        }
+    });
+}
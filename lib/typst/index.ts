@@ -1,4 +1,7 @@
 export * from './types';
 export * from './utils';
 export * from './convert';
-export { generateCjkStylePreamble } from './serialize';
+export { generateCjkStylePreamble, generateDocumentPreamble, generatePageSetupPreamble, generateTypographyPreamble } from './serialize';
+export * from './diff';
+export * from './merge';
+export * from './diagnostics';
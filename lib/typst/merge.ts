@@ -0,0 +1,101 @@
+import { TypstBlock } from './types';
+import { typstToBlocks } from './parse';
+import { blockFingerprint, lcsPairs } from './diff';
+
+// ---------------------------------------------------------------------------
+// Block-level three-way merge (used when a save conflicts with a newer revision)
+// ---------------------------------------------------------------------------
+
+export type BlockMergeHunk =
+    | { kind: 'clean'; blocks: TypstBlock[] }
+    | { kind: 'conflict'; base: TypstBlock[]; mine: TypstBlock[]; theirs: TypstBlock[] };
+
+export type BlockConflictChoice = 'mine' | 'theirs' | 'both';
+
+const sameKeys = (a: string[], b: string[]) => a.length === b.length && a.every((k, i) => k === b[i]);
+
+/**
+ * diff3 over block lists: regions where base, mine and theirs all agree are stable; in between,
+ * a region changed on only one side (or identically on both) merges cleanly, otherwise it is a conflict.
+ */
+export function mergeBlockLists(base: TypstBlock[], mine: TypstBlock[], theirs: TypstBlock[]): BlockMergeHunk[] {
+    const baseKeys = base.map(blockFingerprint);
+    const mineKeys = mine.map(blockFingerprint);
+    const theirKeys = theirs.map(blockFingerprint);
+
+    const toMine = new Map(lcsPairs(baseKeys, mineKeys));
+    const toTheirs = new Map(lcsPairs(baseKeys, theirKeys));
+
+    const hunks: BlockMergeHunk[] = [];
+    const pushClean = (blocks: TypstBlock[]) => {
+        if (blocks.length === 0) return;
+        const last = hunks[hunks.length - 1];
+        if (last?.kind === 'clean') last.blocks.push(...blocks);
+        else hunks.push({ kind: 'clean', blocks: [...blocks] });
+    };
+
+    const emitRegion = (b0: number, b1: number, m0: number, m1: number, t0: number, t1: number) => {
+        const bk = baseKeys.slice(b0, b1);
+        const mk = mineKeys.slice(m0, m1);
+        const tk = theirKeys.slice(t0, t1);
+        if (bk.length === 0 && mk.length === 0 && tk.length === 0) return;
+
+        if (sameKeys(mk, bk)) pushClean(theirs.slice(t0, t1));
+        else if (sameKeys(tk, bk) || sameKeys(mk, tk)) pushClean(mine.slice(m0, m1));
+        else hunks.push({ kind: 'conflict', base: base.slice(b0, b1), mine: mine.slice(m0, m1), theirs: theirs.slice(t0, t1) });
+    };
+
+    let b = 0;
+    let m = 0;
+    let t = 0;
+    for (let k = 0; k < base.length; k++) {
+        const mk = toMine.get(k);
+        const tk = toTheirs.get(k);
+        if (mk === undefined || tk === undefined || mk < m || tk < t) continue;
+
+        emitRegion(b, k, m, mk, t, tk);
+        pushClean([mine[mk]]);
+        b = k + 1;
+        m = mk + 1;
+        t = tk + 1;
+    }
+    emitRegion(b, base.length, m, mine.length, t, theirs.length);
+
+    return hunks;
+}
+
+export function countMergeConflicts(hunks: BlockMergeHunk[]): number {
+    return hunks.filter((h) => h.kind === 'conflict').length;
+}
+
+/**
+ * Build the merged block list. `choices[i]` resolves the i-th conflict hunk (defaults to 'mine').
+ */
+export function resolveBlockMerge(hunks: BlockMergeHunk[], choices: BlockConflictChoice[] = []): TypstBlock[] {
+    const out: TypstBlock[] = [];
+    let conflictIndex = 0;
+    for (const hunk of hunks) {
+        if (hunk.kind === 'clean') {
+            out.push(...hunk.blocks);
+            continue;
+        }
+        const choice = choices[conflictIndex++] ?? 'mine';
+        if (choice === 'mine' || choice === 'both') out.push(...hunk.mine);
+        if (choice === 'theirs' || choice === 'both') out.push(...hunk.theirs);
+    }
+    return out;
+}
+
+// Three-way merge of Typst sources (document settings already stripped) at block granularity.
+export function mergeTypstSources(baseCode: string, mineCode: string, theirsCode: string): BlockMergeHunk[] {
+    return mergeBlockLists(typstToBlocks(baseCode), typstToBlocks(mineCode), typstToBlocks(theirsCode));
+}
+
+/**
+ * Replay the change from `base` to `updated` onto `blocks` (another version derived from `base`).
+ * Where both touched the same region, `updated` wins.
+ */
+export function rebaseBlockList(blocks: TypstBlock[], base: TypstBlock[], updated: TypstBlock[]): TypstBlock[] {
+    const hunks = mergeBlockLists(base, blocks, updated);
+    return resolveBlockMerge(hunks, new Array<BlockConflictChoice>(countMergeConflicts(hunks)).fill('theirs'));
+}
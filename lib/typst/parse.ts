@@ -4,15 +4,15 @@
  * Delegates actual parsing to modular files in ./parsers/
  */
 
-import { TypstBlock } from './types';
+import { BlockType, TemplateVariable, TypstBlock } from './types';
 import { cleanupMalformedTypst } from './cleanup';
-import { unwrapBlockDecorators } from './utils';
+import { LF_COVER_END_MARKER, resolveTemplateText, unwrapBlockDecorators } from './utils';
 import { globalRegistry } from './core/parser-registry';
 
 // Note: Specific parser imports are now handled in parser-registry.ts
 // We keep types import.
 
-export { typstToBlocks };
+export { typstToBlocks, resolveTemplateSource };
 
 /**
  * 将 Typst 源代码解析为块列表
@@ -23,7 +23,32 @@ function typstToBlocks(code: string): TypstBlock[] {
   if (!cleaned.trim()) return [];
 
   const blocks: TypstBlock[] = [];
-  const lines = cleaned.split('\n');
+  scanBlocks(cleaned.split('\n'), (block) => blocks.push(block));
+
+  // Final pass to unwrap decorators (align, font, etc.)
+  return blocks.map(b => {
+    if (b.type === 'paragraph' || b.type === 'heading' || b.type === 'list') {
+      // Note: list type might also need unwrapping if it was wrapped in #text?
+      // ParseInlineEnumOrList handles local wrapper. 
+      // Logic in original parse.ts applied to 'paragraph' and 'heading'.
+      const unwrapped = unwrapBlockDecorators(b.content);
+      return {
+        ...b,
+        content: unwrapped.content,
+        align: unwrapped.align ?? b.align,
+        fontSize: unwrapped.fontSize ?? b.fontSize,
+        font: unwrapped.font ?? b.font,
+      };
+    }
+    return b;
+  });
+}
+
+/**
+ * Run the block parsers over `lines`, calling `visit` with each block and the range of lines
+ * [start, end) it was parsed from.
+ */
+function scanBlocks(lines: string[], visit: (block: TypstBlock, start: number, end: number) => void): void {
   const parsers = globalRegistry.getParsers();
 
   let i = 0;
@@ -53,7 +78,7 @@ function typstToBlocks(code: string): TypstBlock[] {
       const result = parser.parse(lines, i);
       if (result) {
         if (result.block) {
-          blocks.push(result.block);
+          visit(result.block, i, result.endIndex);
         }
         i = result.endIndex;
         match = true;
@@ -76,23 +101,33 @@ function typstToBlocks(code: string): TypstBlock[] {
       i++;
     }
   }
-
-  // Final pass to unwrap decorators (align, font, etc.)
-  return blocks.map(b => {
-    if (b.type === 'paragraph' || b.type === 'heading' || b.type === 'list') {
-      // Note: list type might also need unwrapping if it was wrapped in #text?
-      // ParseInlineEnumOrList handles local wrapper. 
-      // Logic in original parse.ts applied to 'paragraph' and 'heading'.
-      const unwrapped = unwrapBlockDecorators(b.content);
-      return {
-        ...b,
-        content: unwrapped.content,
-        align: unwrapped.align ?? b.align,
-        fontSize: unwrapped.fontSize ?? b.fontSize,
-        font: unwrapped.font ?? b.font,
-      };
-    }
-    return b;
-  });
 }
 
+// Blocks whose text `applyTemplateVariables` resolves when rendering.
+const TEMPLATE_TEXT_TYPES: BlockType[] = ['paragraph', 'heading', 'list', 'input_field'];
+
+/**
+ * Source-mode counterpart of rendering with `applyTemplateVariables`: placeholders are resolved
+ * on the lines of paragraph, heading, list and input field blocks, including those in covers and
+ * composite rows, and left as typed in code, math, tables and other blocks. The line count is
+ * unchanged, so diagnostics still point into the editor.
+ */
+function resolveTemplateSource(code: string, variables: TemplateVariable[]): string {
+  if (variables.length === 0 || !code.includes('{{')) return code;
+  const lines = code.split('\n');
+  const resolveLines = (from: number, to: number): void =>
+    scanBlocks(lines.slice(from, to), (block, start, end) => {
+      const children = block.children ?? [];
+      const resolve = TEMPLATE_TEXT_TYPES.includes(block.type)
+        || (block.type === 'composite_row' && children.some((child) => TEMPLATE_TEXT_TYPES.includes(child.type)));
+      if (resolve) {
+        for (let k = from + start; k < from + end; k++) lines[k] = resolveTemplateText(lines[k], variables, true);
+      } else if (block.type === 'cover') {
+        // Children sit between the begin marker and the end marker.
+        const close = lines.findIndex((line, k) => k > from + start && line.trim() === LF_COVER_END_MARKER);
+        if (close !== -1) resolveLines(from + start + 1, close);
+      }
+    });
+  resolveLines(0, lines.length);
+  return lines.join('\n');
+}
@@ -0,0 +1,25 @@
+import { TypstBlock } from '../types';
+import { base64DecodeUtf8, generateId, safeParseBibliographyPayload } from '../utils';
+import { BlockParser } from '../core/block-parser';
+
+export class BibliographyParser implements BlockParser {
+    parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
+        const trimmed = lines[index].trim();
+        const m = trimmed.match(/\/\*LF_BIB:([A-Za-z0-9+/=]+)\*\/$/);
+        if (!m) return null;
+
+        try {
+            const payload = safeParseBibliographyPayload(base64DecodeUtf8(m[1]));
+            return {
+                block: {
+                    id: generateId(),
+                    type: 'bibliography',
+                    content: JSON.stringify(payload),
+                },
+                endIndex: index + 1,
+            };
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,34 +1,75 @@
-
 import { TypstBlock } from '../types';
-import { generateId } from '../utils';
+import { base64DecodeUtf8, extractTypstLabel, generateId, normalizeCodeLineRanges } from '../utils';
 import { BlockParser } from '../core/block-parser';
 
+type CodePayload = {
+    caption?: string;
+    label?: string;
+    lineNumbers?: boolean;
+    highlight?: string;
+};
+
+function decodeCodePayload(line: string): CodePayload | null {
+    const m = line.match(/\/\*LF_CODE:([A-Za-z0-9+/=]+)\*\//);
+    if (!m) return null;
+    try {
+        const parsed: unknown = JSON.parse(base64DecodeUtf8(m[1]));
+        return typeof parsed === 'object' && parsed !== null ? (parsed as CodePayload) : {};
+    } catch {
+        return {};
+    }
+}
+
 export class CodeParser implements BlockParser {
     parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
         const firstLine = lines[index].replace(/\r$/, '');
         const trimmed = firstLine.trim();
 
-        if (!trimmed.startsWith('```')) return null;
+        // Figure-wrapped listing: `#[...#figure(kind: raw, ...)[/*LF_CODE:...*/`, a few rule lines,
+        // the fenced block and a closing `] <label>]` line.
+        const payload = trimmed.startsWith('#') ? decodeCodePayload(trimmed) : null;
+        if (payload) {
+            let fenceIndex = index + 1;
+            while (fenceIndex < lines.length && !/^(```|\])/.test(lines[fenceIndex].trim())) fenceIndex++;
+            const fenced = this.parseFenced(lines, fenceIndex);
+            if (!fenced) return null;
 
-        const language = trimmed.substring(3).trim() || 'python';
-        const contentLines: string[] = [];
-        let i = index + 1;
+            let endIndex = fenced.endIndex;
+            let label = typeof payload.label === 'string' ? payload.label : undefined;
+            const closing = (lines[endIndex] ?? '').trim();
+            if (closing.startsWith(']')) {
+                label = extractTypstLabel(closing) ?? label;
+                endIndex++;
+            }
 
-        // Single line code block case: ```python print("hi") ``` ? 
-        // Typst usually separates valid code block with newlines if it's block-level.
-        // Assuming block level iteration.
+            const block: TypstBlock = fenced.block;
+            const caption = typeof payload.caption === 'string' ? payload.caption.trim() : '';
+            if (caption) block.caption = caption;
+            if (label) block.label = label;
+            if (payload.lineNumbers) block.codeLineNumbers = true;
+            const highlight = normalizeCodeLineRanges(typeof payload.highlight === 'string' ? payload.highlight : '');
+            if (highlight) block.codeHighlight = highlight;
+            return { block, endIndex };
+        }
 
-        // Actually, if the line ends with ``` it might be a single line block, 
-        // but the current parser logic (in parse.ts) assumed multi-line state machine.
-        // Let's handle generic case.
+        if (!trimmed.startsWith('```')) return null;
+        return this.parseFenced(lines, index);
+    }
 
+    private parseFenced(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
+        if (index >= lines.length) return null;
+        const trimmed = lines[index].replace(/\r$/, '').trim();
+        const fence = trimmed.match(/^`{3,}/)?.[0];
+        if (!fence) return null;
+
+        const language = trimmed.substring(fence.length).trim() || 'python';
+        const contentLines: string[] = [];
+        let i = index + 1;
 
-        // Let's implement the loop to find the closer
+        // Typst closes a raw block with a run of backticks at least as long as the opening fence.
         for (; i < lines.length; i++) {
             const line = lines[i].replace(/\r$/, '');
-            const lineTrimmed = line.trim();
-            if (lineTrimmed.startsWith('```')) {
-                // End of block
+            if (line.trim().startsWith(fence)) {
                 return {
                     block: {
                         id: generateId(),
@@ -42,7 +83,7 @@ export class CodeParser implements BlockParser {
             contentLines.push(line);
         }
 
-        // If we run out of lines without closing, return what we have (or fail pattern?)
+        // If we run out of lines without closing, return what we have.
         // The original parser would just consume until end.
         return {
             block: {
@@ -1,11 +1,41 @@
-
 import { TypstBlock } from '../types';
-import { generateId } from '../utils';
+import { generateId, parseHeadingNumberingRule } from '../utils';
 import { BlockParser } from '../core/block-parser';
 
 export class HeadingParser implements BlockParser {
-    parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
-        const trimmed = lines[index].trim();
+    parse(lines: string[], index: number): { block: TypstBlock | null; endIndex: number } | null {
+        let trimmed = lines[index].trim();
+
+        // The document-wide numbering rule lives in DocumentSettings (see extractHeadingNumberingRule);
+        // consume it here so it never turns into a paragraph.
+        if (parseHeadingNumberingRule(trimmed)) {
+            return { block: null, endIndex: index + 1 };
+        }
+
+        // `#align(center)[...]` wrapper emitted for aligned headings
+        let align: TypstBlock['align'];
+        const aligned = trimmed.match(/^#align\((left|center|right)\)\[(.*)\]$/);
+        if (aligned && (aligned[2].startsWith('=') || aligned[2].startsWith('#heading('))) {
+            align = aligned[1] as TypstBlock['align'];
+            trimmed = aligned[2];
+        }
+
+        // Unnumbered heading: #heading(level: 2, numbering: none)[...]
+        const unnumbered = trimmed.match(/^#heading\(level:\s*(\d+),\s*numbering:\s*none\)\[(.*)\]$/);
+        if (unnumbered) {
+            return {
+                block: {
+                    id: generateId(),
+                    type: 'heading',
+                    content: unnumbered[2],
+                    level: Number(unnumbered[1]),
+                    unnumbered: true,
+                    ...(align ? { align } : {}),
+                },
+                endIndex: index + 1
+            };
+        }
+
         if (!trimmed.startsWith('=')) return null;
 
         const match = trimmed.match(/^(=+)\s+(.+)$/);
@@ -16,6 +46,7 @@ export class HeadingParser implements BlockParser {
                     type: 'heading',
                     content: match[2],
                     level: match[1].length,
+                    ...(align ? { align } : {}),
                 },
                 endIndex: index + 1
             };
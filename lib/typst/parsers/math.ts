@@ -1,23 +1,45 @@
 import { TypstBlock, PersistedMathPayload } from '../types';
-import { base64DecodeUtf8, generateId } from '../utils';
+import { base64DecodeUtf8, extractTypstLabel, generateId } from '../utils';
 import { typstToLatexMath } from '../../math-convert';
 import { BlockParser } from '../core/block-parser';
 
 export class MathParser implements BlockParser {
     parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
         const trimmed = lines[index].trim();
-        if (!trimmed.startsWith('$')) return null;
 
-        const m = trimmed.match(/^\$\s*([\s\S]*?)\s*\$(?:\/\*LF_MATH:([A-Za-z0-9+/=]+)\*\/)?$/);
-        if (!m) return null;
+        const marker = trimmed.match(/\/\*LF_MATH:([A-Za-z0-9+/=]+)\*\/$/);
+        const source = marker ? trimmed.slice(0, -marker[0].length).trimEnd() : trimmed;
 
-        const typstMath = (m[1] ?? '').trim();
-        const payloadB64 = m[2];
+        let typstMath: string;
+        let label: string | undefined;
+        if (source.startsWith('$')) {
+            // $ ... $ or, under a document numbering rule, $ ... $ <label>
+            const m = source.match(/^\$\s*([\s\S]*?)\s*\$(?:\s*<([^>]+)>)?$/);
+            if (!m) return null;
+            typstMath = m[1] ?? '';
+            label = m[2];
+        } else if (source.startsWith('#[')) {
+            // Scoped numbering rule around a single equation:
+            // #[#set math.equation(numbering: "(1)"); $ ... $ <label>]
+            const scoped = source.match(/^#\[#set math\.equation\(numbering: (?:"[^"]*"|none)\);?\s*\$\s*([\s\S]*?)\s*\$(?:\s*<([^>]+)>)?\]$/);
+            if (scoped) {
+                typstMath = scoped[1] ?? '';
+                label = scoped[2];
+            } else if (marker) {
+                // Rows numbered one by one are rebuilt from the payload.
+                typstMath = '';
+                label = extractTypstLabel(source);
+            } else {
+                return null;
+            }
+        } else {
+            return null;
+        }
 
         let payload: PersistedMathPayload | null = null;
-        if (payloadB64) {
+        if (marker) {
             try {
-                payload = JSON.parse(base64DecodeUtf8(payloadB64)) as PersistedMathPayload;
+                payload = JSON.parse(base64DecodeUtf8(marker[1])) as PersistedMathPayload;
             } catch {
                 payload = null;
             }
@@ -35,12 +57,11 @@ export class MathParser implements BlockParser {
             mathLatex,
             mathLines: payload?.lines,
             mathBrace: payload?.brace,
+            mathNumbering: payload?.numbering,
+            mathAlign: payload?.align,
+            label: label ?? payload?.label,
         };
 
         return { block, endIndex: index + 1 };
     }
 }
-
-// Keep the function for verification/legacy if needed, or remove it.
-// For now, I'm replacing it with the class. The function parseMathBlock is removed.
-
@@ -1,5 +1,5 @@
 import { TypstBlock } from '../types';
-import { base64DecodeUtf8, generateId } from '../utils';
+import { base64DecodeUtf8, generateId, extractTypstLabel } from '../utils';
 import { BlockParser } from '../core/block-parser';
 
 export class MediaParser implements BlockParser {
@@ -68,8 +68,11 @@ export class MediaParser implements BlockParser {
             const decoded: unknown = JSON.parse(base64DecodeUtf8(markerB64));
             const payload = (decoded && typeof decoded === 'object') ? (decoded as Record<string, unknown>) : {};
 
-            const match = trimmed.match(/#align\(\s*(left|center|right)\s*,\s*image\("([^"]+)"/);
-            const align = (match?.[1] as 'left' | 'center' | 'right' | undefined) ?? 'center';
+            // Plain: #align(center, image("..."))  Labelled: #align(center)[#figure(image("..."), ...) <label>]
+            // Native charts draw a box instead of the image: #align(center, box(width: ..., ...))
+            const match = trimmed.match(/#align\(\s*(left|center|right)\s*(?:,|\)\s*\[#figure\()\s*image\("([^"]+)"/);
+            const alignMatch = trimmed.match(/^#align\(\s*(left|center|right)\b/);
+            const align = ((match?.[1] ?? alignMatch?.[1]) as 'left' | 'center' | 'right' | undefined) ?? 'center';
             const imageUrl = match?.[2] ?? '';
 
             const widthMatch = trimmed.match(/\bwidth\s*:\s*([^,\)\]]+)/);
@@ -86,6 +89,7 @@ export class MediaParser implements BlockParser {
                 content: JSON.stringify(merged),
                 align,
                 width: widthFromCode || '50%',
+                label: extractTypstLabel(trimmed),
             };
         } catch {
             return null;
@@ -104,6 +108,7 @@ export class MediaParser implements BlockParser {
                     width?: string;
                     height?: string;
                     src?: string;
+                    label?: string;
                 };
 
                 const widthMatch = trimmed.match(/width:\s*([^,)\s]+)/);
@@ -119,6 +124,7 @@ export class MediaParser implements BlockParser {
                     width: (payload.width ?? widthMatch?.[1] ?? '50%'),
                     height: 'auto',
                     caption: (payload.caption ?? '').toString(),
+                    label: payload.label || undefined,
                 };
             } catch {
                 // ignore
@@ -135,6 +141,7 @@ export class MediaParser implements BlockParser {
                     width?: string;
                     height?: string;
                     src?: string;
+                    label?: string;
                 };
                 return {
                     id: generateId(),
@@ -144,6 +151,7 @@ export class MediaParser implements BlockParser {
                     width: payload.width || '50%',
                     height: 'auto',
                     caption: payload.caption || '',
+                    label: payload.label || undefined,
                 };
             } catch {
                 // ignore
@@ -158,6 +166,7 @@ export class MediaParser implements BlockParser {
                     width?: string;
                     height?: string;
                     src?: string; // Support src in normal images too if present
+                    label?: string;
                 };
                 const match = trimmed.match(/#align\(\s*(left|center|right)\s*,\s*image\("([^"]+)"(?:,\s*width:\s*([^,}]+))?(?:,\s*height:\s*([^)]+))?\)\)/);
                 if (match) {
@@ -169,6 +178,7 @@ export class MediaParser implements BlockParser {
                         width: (payload.width ?? match[3]?.trim() ?? '50%'),
                         height: 'auto',
                         caption: (payload.caption ?? '').toString(),
+                        label: payload.label || extractTypstLabel(trimmed),
                     };
                 }
             } catch {
@@ -211,6 +221,7 @@ export class MediaParser implements BlockParser {
                 width: widthRaw || '50%',
                 height: 'auto',
                 caption: '',
+                label: extractTypstLabel(trimmed),
             };
         }
 
@@ -274,11 +285,22 @@ export class MediaParser implements BlockParser {
                     height: 'auto',
                     caption,
                     captionFont,
+                    label: this.readPayloadLabel(trimmed) ?? extractTypstLabel(trimmed),
                 };
             }
         }
 
         return null;
     }
-}
 
+    private readPayloadLabel(trimmed: string): string | undefined {
+        const imgMarker = trimmed.match(/\/\*LF_IMAGE:([A-Za-z0-9+/=]+)\*\//);
+        if (!imgMarker) return undefined;
+        try {
+            const payload = JSON.parse(base64DecodeUtf8(imgMarker[1])) as { label?: string };
+            return payload.label || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
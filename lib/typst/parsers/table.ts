@@ -1,5 +1,5 @@
 import { TypstBlock, PersistedTablePayload } from '../types';
-import { base64DecodeUtf8, generateId } from '../utils';
+import { base64DecodeUtf8, generateId, extractTypstLabel } from '../utils';
 import { BlockParser } from '../core/block-parser';
 
 export class TableParser implements BlockParser {
@@ -45,6 +45,7 @@ export class TableParser implements BlockParser {
                     type: 'table',
                     content: JSON.stringify(payload),
                     width: widthFromCode || '50%',
+                    label: extractTypstLabel(trimmed),
                 };
             }
         } catch {
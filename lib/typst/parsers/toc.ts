@@ -0,0 +1,90 @@
+import { PersistedTocPayload, TypstBlock } from '../types';
+import { base64DecodeUtf8, generateId, safeParseTocPayload, defaultTocPayload, normalizeTocIndent } from '../utils';
+import { BlockParser } from '../core/block-parser';
+
+// Split call arguments at top-level commas (commas inside brackets, parens or strings stay).
+function splitArgs(args: string): string[] {
+    const out: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+    for (let i = 0; i < args.length; i++) {
+        const ch = args[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') inString = true;
+        else if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') depth--;
+        else if (ch === ',' && depth === 0) {
+            out.push(args.slice(start, i));
+            start = i + 1;
+        }
+    }
+    out.push(args.slice(start));
+    return out.map((a) => a.trim()).filter(Boolean);
+}
+
+/**
+ * Read a hand-written `#outline(...)` call. Only calls whose arguments the TOC block can
+ * represent (plain title, depth 1-6, auto or length indent) are taken over; anything else
+ * (`target:`, function indents, styled titles...) returns null and stays raw Typst. So do calls
+ * without a title or depth: Typst's defaults there (localized title, every level) have no block form.
+ */
+function parsePlainOutline(line: string): PersistedTocPayload | null {
+    const m = line.match(/^#outline\((.*)\)$/);
+    if (!m) return null;
+    const payload = defaultTocPayload();
+    let hasTitle = false;
+    let hasDepth = false;
+
+    for (const arg of splitArgs(m[1])) {
+        const named = arg.match(/^([a-z-]+):\s*([\s\S]*)$/);
+        if (!named) return null;
+        const [, name, value] = named;
+        if (name === 'title') {
+            const title = value.match(/^(?:\[([^[\]#]*)\]|"([^"\\]*)"|(none))$/);
+            if (!title) return null;
+            payload.title = title[3] ? '' : (title[1] ?? title[2] ?? '').trim();
+            hasTitle = true;
+        } else if (name === 'depth') {
+            if (!/^[1-6]$/.test(value)) return null;
+            payload.depth = Number(value);
+            hasDepth = true;
+        } else if (name === 'indent') {
+            if (value !== 'auto' && normalizeTocIndent(value) !== value) return null;
+            payload.indent = value;
+        } else {
+            return null;
+        }
+    }
+    return hasTitle && hasDepth ? payload : null;
+}
+
+export class TocParser implements BlockParser {
+    parse(lines: string[], index: number): { block: TypstBlock; endIndex: number } | null {
+        const trimmed = lines[index].trim();
+        const m = trimmed.match(/\/\*LF_TOC:([A-Za-z0-9+/=]+)\*\/$/);
+
+        let payload: PersistedTocPayload | null;
+        if (m) {
+            try {
+                payload = safeParseTocPayload(base64DecodeUtf8(m[1]));
+            } catch {
+                return null;
+            }
+        } else {
+            payload = parsePlainOutline(trimmed);
+        }
+        if (!payload) return null;
+
+        return {
+            block: {
+                id: generateId(),
+                type: 'toc',
+                content: JSON.stringify(payload),
+            },
+            endIndex: index + 1,
+        };
+    }
+}
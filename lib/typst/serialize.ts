@@ -5,30 +5,53 @@
  */
 
 import { TypstBlock, DocumentSettings, defaultDocumentSettings } from './types';
+import { applyTemplateVariables, defaultParagraphLeadingEm, inheritedFont, leadingEmFromMultiplier } from './utils';
 
 // Import specialized serializers
 import { serializeCover, serializeCompositeRow, serializeVerticalSpace } from './serializers/layout';
 import { serializeHeading, serializeParagraph, serializeList } from './serializers/text';
 import { serializeCode } from './serializers/code';
 import { serializeMath } from './serializers/math';
-import { serializeImage, serializeChart } from './serializers/media';
+import { serializeImage } from './serializers/media';
+import { serializeChart } from './serializers/chart';
 import { serializeTable } from './serializers/table';
 import { serializeInputField } from './serializers/form';
+import { serializeBibliography } from './serializers/bibliography';
+import { serializeToc } from './serializers/toc';
+import { generateDocumentPreamble } from './serializers/preamble';
 
 // Re-export preamble utilities for consumers
-export { CJK_FONTS_NEED_FAKE_STYLE, generateCjkStylePreamble } from './serializers/preamble';
+export {
+  CJK_FONTS_NEED_FAKE_STYLE,
+  generateCjkStylePreamble,
+  generateDocumentPreamble,
+  generatePageSetupPreamble,
+  generateTypographyPreamble,
+} from './serializers/preamble';
 
 /**
  * 将块列表转换为 Typst 源代码
+ * `preamble: true` prepends the document rules (page setup, heading numbering); only for complete documents, never stored.
  */
-export function blocksToTypst(blocks: TypstBlock[], opts?: { settings?: DocumentSettings, target?: 'storage' | 'preview' | 'export' }): string {
+export function blocksToTypst(
+  blocks: TypstBlock[],
+  opts?: { settings?: DocumentSettings, target?: 'storage' | 'preview' | 'export', preamble?: boolean }
+): string {
   const settings = opts?.settings ?? defaultDocumentSettings;
   const target = opts?.target ?? 'storage';
+  if (opts?.preamble) {
+    return generateDocumentPreamble(settings, blocks) + blocksToTypst(blocks, { ...opts, preamble: false });
+  }
   let tableIndex = 0;
   let imageIndex = 0;
+  const bodyLineSpacing = settings.typography.body.lineSpacing;
+  const bodyLeadingEm = bodyLineSpacing === 1 ? defaultParagraphLeadingEm : leadingEmFromMultiplier(bodyLineSpacing);
+  const { typography } = settings;
 
   const out: string[] = [];
-  for (const block of blocks) {
+  for (const source of blocks) {
+    // Storage keeps `{{key}}` placeholders so template variables stay editable in one place.
+    const block = target === 'storage' ? source : applyTemplateVariables(source, settings.templateVariables);
     switch (block.type) {
       case 'cover':
         // Pass recursively blocksToTypst as the callback to handle nested children
@@ -36,11 +59,14 @@ export function blocksToTypst(blocks: TypstBlock[], opts?: { settings?: Document
         break;
 
       case 'heading':
-        out.push(serializeHeading(block));
+        out.push(serializeHeading(block, inheritedFont(block, typography)));
         break;
 
       case 'paragraph':
-        out.push(serializeParagraph(block));
+        // Storage keeps the fixed reset so parsing stays stable; rendering restores the body leading.
+        out.push(
+          serializeParagraph(block, target === 'storage' ? defaultParagraphLeadingEm : bodyLeadingEm, typography.body.font)
+        );
         break;
 
       case 'code':
@@ -48,7 +74,7 @@ export function blocksToTypst(blocks: TypstBlock[], opts?: { settings?: Document
         break;
 
       case 'math':
-        out.push(serializeMath(block));
+        out.push(serializeMath(block, settings));
         break;
 
       case 'image': {
@@ -66,7 +92,7 @@ export function blocksToTypst(blocks: TypstBlock[], opts?: { settings?: Document
         break;
 
       case 'list':
-        out.push(serializeList(block));
+        out.push(serializeList(block, typography.body.font));
         break;
 
       case 'table':
@@ -82,6 +108,14 @@ export function blocksToTypst(blocks: TypstBlock[], opts?: { settings?: Document
         out.push(serializeInputField(block));
         break;
 
+      case 'bibliography':
+        out.push(serializeBibliography(block));
+        break;
+
+      case 'toc':
+        out.push(serializeToc(block));
+        break;
+
       case 'composite_row':
         // Pass recursively blocksToTypst as the callback to handle nested children
         out.push(serializeCompositeRow(block, opts, blocksToTypst));
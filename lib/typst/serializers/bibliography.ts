@@ -0,0 +1,20 @@
+import { TypstBlock } from '../types';
+import { base64EncodeUtf8, safeParseBibliographyPayload, toTypstStringLiteral, LF_BIBLIOGRAPHY_MARKER } from '../utils';
+
+export function serializeBibliography(block: TypstBlock): string {
+    const payload = safeParseBibliographyPayload(block.content ?? '');
+    const encoded = `${LF_BIBLIOGRAPHY_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
+
+    if (!payload.bibtex.trim()) {
+        return `#align(center)[#text(fill: rgb("#9CA3AF"))[(参考文献为空)]]${encoded}`;
+    }
+
+    const args = [
+        `bytes("${toTypstStringLiteral(payload.bibtex)}")`,
+        `title: ${payload.title.trim() ? `[${payload.title.trim()}]` : 'none'}`,
+        `style: "${payload.style}"`,
+    ];
+    if (payload.full) args.push('full: true');
+
+    return `#bibliography(${args.join(', ')})${encoded}`;
+}
@@ -0,0 +1,227 @@
+import { TypstBlock, PersistedChartPayload, PersistedChartPlot, ChartPlotPoint } from '../types';
+import { base64EncodeUtf8, safeParseChartPayload, formatTypstLabel, LF_CHART_MARKER } from '../utils';
+
+// Native charts are drawn inside a box of the block width with this height/width ratio; all
+// coordinates below are percentages of that box so the chart scales with the width.
+const ASPECT = 0.62;
+const PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+const color = (i: number) => `rgb("${PALETTE[i % PALETTE.length]}")`;
+const pct = (n: number) => `${Math.round(n * 100) / 100}%`;
+const str = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s*\n\s*/g, ' ')}"`;
+
+type Frame = { left: number; right: number; top: number; bottom: number };
+type Axis = { min: number; max: number; ticks: number[]; decimals: number };
+
+// Round axis bounds outward to a 1/2/5 step.
+function niceAxis(lo: number, hi: number, target = 5): Axis {
+    if (!Number.isFinite(lo) || !Number.isFinite(hi)) return niceAxis(0, 1, target);
+    if (lo === hi) return niceAxis(lo - (Math.abs(lo) || 1) / 2, hi + (Math.abs(hi) || 1) / 2, target);
+    const raw = (hi - lo) / target;
+    const magnitude = 10 ** Math.floor(Math.log10(raw));
+    const step = ([1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10) * magnitude;
+    const min = Math.floor(lo / step + 1e-9) * step;
+    const max = Math.ceil(hi / step - 1e-9) * step;
+    const ticks: number[] = [];
+    for (let v = min; v <= max + step / 2; v += step) ticks.push(Math.abs(v) < step / 1e6 ? 0 : v);
+    return { min, max, ticks, decimals: Math.max(0, -Math.floor(Math.log10(step) + 1e-9)) };
+}
+
+const scale = (axis: Axis, v: number, from: number, to: number) => from + ((v - axis.min) / (axis.max - axis.min)) * (to - from);
+
+// Content centred on a point of the box.
+const placeAt = (x: number, y: number, body: string) => `place(center + horizon, dx: ${pct(x - 50)}, dy: ${pct(y - 50)}, ${body})`;
+const segment = (x1: number, y1: number, x2: number, y2: number, stroke: string) =>
+    `place(top + left, line(start: (${pct(x1)}, ${pct(y1)}), end: (${pct(x2)}, ${pct(y2)}), stroke: ${stroke}))`;
+const small = (s: string, size = '0.7em') => `text(size: ${size}, ${str(s)})`;
+
+function frameFor(payload: PersistedChartPayload): Frame {
+    return {
+        left: payload.yLabel.trim() ? 14 : 10,
+        right: 96,
+        top: payload.title.trim() ? 12 : 5,
+        bottom: payload.xLabel.trim() ? 80 : 87,
+    };
+}
+
+function chrome(payload: PersistedChartPayload, frame: Frame): string[] {
+    const out: string[] = [];
+    if (payload.title.trim()) out.push(`place(top + center, dy: 1%, text(weight: "bold", size: 0.85em, ${str(payload.title.trim())}))`);
+    if (payload.xLabel.trim()) out.push(`place(bottom + center, dx: ${pct((frame.left + frame.right) / 2 - 50)}, ${small(payload.xLabel.trim(), '0.75em')})`);
+    if (payload.yLabel.trim()) {
+        out.push(`place(left + horizon, dy: ${pct((frame.top + frame.bottom) / 2 - 50)}, rotate(-90deg, reflow: true, ${small(payload.yLabel.trim(), '0.75em')}))`);
+    }
+    return out;
+}
+
+function legend(entries: Array<{ name: string; index: number }>, x: number, y: number, alignRight: boolean): string {
+    const rows = entries.map((e) => `stack(dir: ltr, spacing: 3pt, box(width: 6pt, height: 6pt, fill: ${color(e.index)}), ${small(e.name)})`);
+    const box = `box(inset: 3pt, fill: white, stroke: 0.3pt + luma(200), stack(spacing: 2pt, ${rows.join(', ')}))`;
+    return alignRight
+        ? `place(top + right, dx: ${pct(x - 100)}, dy: ${pct(y)}, ${box})`
+        : `place(top + left, dx: ${pct(x)}, dy: ${pct(y)}, ${box})`;
+}
+
+// Value axis (gridlines + labels) along y, or along x when `horizontal`.
+function valueAxis(axis: Axis, frame: Frame, horizontal: boolean): string[] {
+    return axis.ticks.flatMap((t) => {
+        const label = small(t.toFixed(axis.decimals));
+        if (horizontal) {
+            const x = scale(axis, t, frame.left, frame.right);
+            return [segment(x, frame.top, x, frame.bottom, '0.3pt + luma(225)'), placeAt(x, frame.bottom + 4, label)];
+        }
+        const y = scale(axis, t, frame.bottom, frame.top);
+        return [segment(frame.left, y, frame.right, y, '0.3pt + luma(225)'), placeAt(frame.left - 4, y, label)];
+    });
+}
+
+function axesLines(frame: Frame): string[] {
+    return [
+        segment(frame.left, frame.bottom, frame.right, frame.bottom, '0.6pt'),
+        segment(frame.left, frame.top, frame.left, frame.bottom, '0.6pt'),
+    ];
+}
+
+function scatterElements(payload: PersistedChartPayload, plot: PersistedChartPlot): string[] {
+    const series = (plot.series ?? []).filter((s) => s.points.length > 0);
+    const all: ChartPlotPoint[] = series.flatMap((s) => [...s.points, ...(s.fit?.points ?? [])]);
+    if (all.length === 0) return [];
+    const frame = frameFor(payload);
+    const xAxis = niceAxis(Math.min(...all.map((p) => p.x)), Math.max(...all.map((p) => p.x)));
+    const yAxis = niceAxis(Math.min(...all.map((p) => p.y)), Math.max(...all.map((p) => p.y)));
+    const px = (p: ChartPlotPoint) => scale(xAxis, p.x, frame.left, frame.right);
+    const py = (p: ChartPlotPoint) => scale(yAxis, p.y, frame.bottom, frame.top);
+
+    // x ticks get labels only (every second element), no vertical gridlines
+    const xLabels = valueAxis(xAxis, frame, true).filter((_, i) => i % 2 === 1);
+    const out = [...valueAxis(yAxis, frame, false), ...xLabels, ...axesLines(frame)];
+    const labels: string[] = [];
+    series.forEach((s, i) => {
+        const fit = s.fit?.points ?? [];
+        for (let k = 1; k < fit.length; k++) out.push(segment(px(fit[k - 1]), py(fit[k - 1]), px(fit[k]), py(fit[k]), `1pt + ${color(i)}`));
+        for (const p of s.points) out.push(placeAt(px(p), py(p), `circle(radius: 1.6pt, fill: ${color(i)})`));
+        if (s.fit?.label) labels.push(`text(size: 0.65em, fill: ${color(i)}, ${str(s.fit.label)})`);
+    });
+    if (labels.length) out.push(`place(top + left, dx: ${pct(frame.left + 2)}, dy: ${pct(frame.top + 1)}, stack(spacing: 2pt, ${labels.join(', ')}))`);
+    if (payload.legend) out.push(legend(series.map((s, i) => ({ name: s.name, index: i })), frame.right - 1, frame.top + 1, true));
+    return [...out, ...chrome(payload, frame)];
+}
+
+function barElements(payload: PersistedChartPayload, plot: PersistedChartPlot, horizontal: boolean): string[] {
+    const categories = plot.categories ?? [];
+    const bars = plot.bars ?? [];
+    const values = bars.flatMap((b) => b.values.filter((v): v is number => v !== null));
+    if (categories.length === 0 || values.length === 0) return [];
+    const frame = frameFor(payload);
+    if (horizontal) frame.left = Math.max(frame.left, 18);
+    const axis = niceAxis(Math.min(0, ...values), Math.max(0, ...values));
+
+    const out = [...valueAxis(axis, frame, horizontal)];
+    const [catFrom, catTo] = horizontal ? [frame.top, frame.bottom] : [frame.left, frame.right];
+    const slot = (catTo - catFrom) / categories.length;
+    const barSize = (slot * 0.8) / Math.max(1, bars.length);
+    const [valFrom, valTo] = horizontal ? [frame.left, frame.right] : [frame.bottom, frame.top];
+    const zero = scale(axis, 0, valFrom, valTo);
+
+    categories.forEach((cat, c) => {
+        const center = catFrom + slot * (c + 0.5);
+        out.push(horizontal ? placeAt(frame.left - 8, center, small(cat)) : placeAt(center, frame.bottom + 4, small(cat)));
+        bars.forEach((b, i) => {
+            const v = b.values[c];
+            if (v === null || v === undefined) return;
+            const start = catFrom + slot * 0.1 + barSize * i;
+            const end = scale(axis, v, valFrom, valTo);
+            const [lo, hi] = [Math.min(zero, end), Math.max(zero, end)];
+            out.push(horizontal
+                ? `place(top + left, dx: ${pct(lo)}, dy: ${pct(start)}, rect(width: ${pct(hi - lo)}, height: ${pct(barSize)}, fill: ${color(i)}))`
+                : `place(top + left, dx: ${pct(start)}, dy: ${pct(lo)}, rect(width: ${pct(barSize)}, height: ${pct(hi - lo)}, fill: ${color(i)}))`);
+        });
+    });
+    out.push(...axesLines(frame));
+    if (payload.legend && bars.length > 1) out.push(legend(bars.map((b, i) => ({ name: b.name, index: i })), frame.right - 1, frame.top + 1, true));
+    return [...out, ...chrome(payload, frame)];
+}
+
+function pieElements(payload: PersistedChartPayload, plot: PersistedChartPlot): string[] {
+    const slices = plot.slices ?? [];
+    const total = slices.reduce((s, x) => s + x.value, 0);
+    if (slices.length === 0 || total <= 0) return [];
+    const top = payload.title.trim() ? 12 : 4;
+    const cy = (top + 96) / 2;
+    const rH = (96 - top) / 2;
+    const rW = rH * ASPECT;
+    const cx = payload.legend ? 35 : 50;
+
+    const out: string[] = [];
+    let angle = -Math.PI / 2;
+    slices.forEach((slice, i) => {
+        const sweep = (slice.value / total) * 2 * Math.PI;
+        const steps = Math.max(2, Math.ceil(sweep / (Math.PI / 36)));
+        const points = [`(${pct(cx)}, ${pct(cy)})`];
+        for (let k = 0; k <= steps; k++) {
+            const a = angle + (sweep * k) / steps;
+            points.push(`(${pct(cx + rW * Math.cos(a))}, ${pct(cy + rH * Math.sin(a))})`);
+        }
+        out.push(`place(top + left, polygon(fill: ${color(i)}, stroke: 0.5pt + white, ${points.join(', ')}))`);
+        angle += sweep;
+    });
+    if (payload.legend) {
+        const entries = slices.map((s, i) => ({ name: `${s.label} (${((s.value / total) * 100).toFixed(1)}%)`, index: i }));
+        out.push(legend(entries, cx + rW + 6, top + 2, false));
+    }
+    return [...out, ...chrome(payload, { left: 0, right: 100, top, bottom: 100 })];
+}
+
+/**
+  * Native Typst drawing of a resolved chart, or null when there is nothing to draw.
+  * Uses only built-in elements (place/line/rect/polygon) so no packages are needed.
+  */
+export function serializeChartPlot(payload: PersistedChartPayload, width: string): string | null {
+    const plot = payload.plot;
+    if (!plot) return null;
+    const elements = payload.chartType === 'scatter'
+        ? scatterElements(payload, plot)
+        : payload.chartType === 'pie'
+            ? pieElements(payload, plot)
+            : barElements(payload, plot, payload.chartType === 'hbar');
+    if (elements.length === 0) return null;
+    return `box(width: ${width}, layout(size => box(width: size.width, height: size.width * ${ASPECT}, { ${elements.join('; ')} })))`;
+}
+
+function parseRawRecord(content: string | undefined): Record<string, unknown> {
+    try {
+        const raw: unknown = JSON.parse(content || '{}');
+        return typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+    } catch {
+        return {};
+    }
+}
+
+export function serializeChart(block: TypstBlock): string {
+    const payload = safeParseChartPayload(block.content ?? '');
+    const imageUrl = (payload.imageUrl ?? '').trim();
+    // Keep the editor's data sources (series, table selections) next to the normalized fields,
+    // otherwise a reloaded chart could not be edited without losing its plot.
+    const encoded = `${LF_CHART_MARKER}${base64EncodeUtf8(JSON.stringify({ ...parseRawRecord(block.content), ...payload }))}*/`;
+    const align = block.align || 'center';
+    const alignValue = align === 'left' ? 'left' : align === 'right' ? 'right' : 'center';
+    const width = block.width || '50%';
+    const labelSuffix = formatTypstLabel(block.label);
+
+    const native = payload.renderer !== 'image' ? serializeChartPlot(payload, width) : null;
+    if (native) {
+        if (labelSuffix) return `#align(${alignValue})[#figure(${native}, kind: image, supplement: "图")${labelSuffix}]${encoded}`;
+        return `#align(${alignValue}, ${native})${encoded}`;
+    }
+
+    if (!imageUrl) {
+        return `#align(${alignValue})[(未生成图表)]${encoded}`;
+    }
+
+    if (labelSuffix) {
+        // Labelled charts become figures so that `@label` can reference them as "图 N".
+        return `#align(${alignValue})[#figure(image("${imageUrl}", width: ${width}, height: auto), supplement: "图")${labelSuffix}]${encoded}`;
+    }
+    const imageLine = `#align(${alignValue}, image("${imageUrl}", width: ${width}, height: auto))${encoded}`;
+    return imageLine;
+}
@@ -1,6 +1,58 @@
 import { TypstBlock } from '../types';
+import {
+    base64EncodeUtf8,
+    formatTypstLabel,
+    normalizeCodeLineRanges,
+    normalizeTypstLabel,
+    parseCodeLineRanges,
+    LF_CODE_MARKER,
+} from '../utils';
+
+// Fence long enough that no backtick run inside the code can close it early.
+function codeFence(content: string): string {
+    const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
+
+// Scoped rule drawing the line-number gutter and the highlighted-line background.
+function rawLineRule(lineNumbers: boolean, highlighted: number[]): string {
+    const fill = highlighted.length > 0 ? `, fill: if it.number in (${highlighted.join(', ')},) { rgb("#fff3bf") }` : '';
+    const gutter = lineNumbers ? '#box(width: 2em, align(right, text(fill: luma(140), str(it.number))))#h(0.8em)' : '';
+    return `#show raw.line: it => box(width: 100%${fill}, inset: (x: 2pt))[${gutter}#it.body]`;
+}
 
 export function serializeCode(block: TypstBlock): string {
     const lang = block.language || 'python';
-    return `\`\`\`${lang}\n${block.content}\n\`\`\``;
+    const content = block.content ?? '';
+    const fence = codeFence(content);
+    const fenced = `${fence}${lang}\n${content}\n${fence}`;
+
+    const caption = (block.caption ?? '').trim();
+    const label = normalizeTypstLabel(block.label ?? '') || undefined;
+    const lineNumbers = !!block.codeLineNumbers;
+    const highlight = normalizeCodeLineRanges(block.codeHighlight ?? '');
+    const highlighted = parseCodeLineRanges(highlight, content.split('\n').length) ?? [];
+
+    // Plain blocks keep the bare fence so hand-written Typst stays untouched.
+    if (!caption && !label && !lineNumbers && !highlight) return fenced;
+
+    const payload = {
+        caption,
+        label,
+        lineNumbers,
+        highlight,
+    };
+    const encoded = `${LF_CODE_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
+
+    // Numbered as "代码 n" in its own figure counter; uncaptioned listings stay unnumbered unless
+    // labelled, since only numbered figures can be referenced.
+    // The surrounding scope lets long listings break across pages like a bare fence does.
+    const captionArg = caption ? `, caption: [${caption}]` : label ? '' : ', numbering: none';
+    const lines = [
+        `#[#show figure: set block(breakable: true);#figure(kind: raw, supplement: "代码"${captionArg})[${encoded}`,
+        '#set align(left)',
+    ];
+    if (lineNumbers || highlighted.length > 0) lines.push(rawLineRule(lineNumbers, highlighted));
+    lines.push(fenced, `]${formatTypstLabel(label)}]`);
+    return lines.join('\n');
 }
@@ -1,28 +1,108 @@
-import { TypstBlock, PersistedMathPayload } from '../types';
-import { base64EncodeUtf8, sanitizeTypstMathSegment, LF_MATH_MARKER } from '../utils';
+import { TypstBlock, PersistedMathPayload, DocumentSettings, defaultDocumentSettings } from '../types';
+import {
+    base64EncodeUtf8,
+    sanitizeTypstMathSegment,
+    formatTypstLabel,
+    normalizeTypstLabel,
+    insertMathAlignPoint,
+    splitMathAlignPoint,
+    LF_MATH_MARKER,
+} from '../utils';
+
+type MathRow = { typst: string; numbered: boolean };
+
+// Rows numbered one by one: separate block equations, tightened so they read as one display.
+function serializeNumberedRows(rows: MathRow[], align: boolean, labelSuffix: string): string {
+    const firstNumbered = rows.findIndex((r) => r.numbered);
+    const spacing = '#show math.equation.where(block: true): set block(spacing: 0.8em)';
+
+    if (!align) {
+        const equations = rows.map((row, i) => {
+            const equation = `$ ${row.typst} $${i === firstNumbered ? labelSuffix : ''}`;
+            return row.numbered ? equation : `#[#set math.equation(numbering: none); ${equation}]`;
+        });
+        return `${spacing}; ${equations.join(' ')}`;
+    }
+
+    // Separate equations cannot share alignment points, so every row is laid out as the widest
+    // left side (right-aligned) next to the widest right side (left-aligned); equal widths keep
+    // the relations in one column once the equations are centred.
+    const lefts: string[] = [];
+    const rights: string[] = [];
+    rows.forEach((row) => {
+        const [lhs, rhs] = splitMathAlignPoint(row.typst);
+        lefts.push(lhs ? `$display(${lhs})$,` : '[],');
+        // The zero-width space gives a leading relation its usual spacing on the left.
+        rights.push(`$display(${lhs ? 'zws ' : ''}${rhs})$,`);
+    });
+    const equations = rows.map((row, i) => {
+        const numbering = row.numbered ? '' : ', numbering: none';
+        return `[#math.equation(block: true${numbering}, row(${i}))${i === firstNumbered ? labelSuffix : ''}];`;
+    });
+    return (
+        `${spacing}; #context { let l = (${lefts.join(' ')}); let r = (${rights.join(' ')}); ` +
+        'let wl = calc.max(..l.map(x => measure(x).width)); let wr = calc.max(..r.map(x => measure(x).width)); ' +
+        'let row(i) = box(width: wl, align(right, l.at(i))) + box(width: wr, align(left, r.at(i))); ' +
+        `${equations.join(' ')} }`
+    );
+}
+
+export function serializeMath(block: TypstBlock, settings: DocumentSettings = defaultDocumentSettings): string {
+    const label = normalizeTypstLabel(block.label ?? '') || undefined;
+    const docNumbered = settings.equationNumbering !== 'none';
+    // Without a document scheme only labelled or explicitly numbered blocks are numbered,
+    // since only numbered equations can be referenced.
+    const numbered = block.mathNumbering === 'none'
+        ? false
+        : !!block.mathNumbering || docNumbered || !!label;
+
+    const rows: MathRow[] = (block.mathLines ?? [])
+        .map((line) => ({ typst: sanitizeTypstMathSegment(line.typst.trim()), numbered: numbered && !line.noNumber }))
+        .filter((row) => row.typst);
+    if (block.mathLines && block.mathLines.length > 0 && rows.length === 0) {
+        return '';
+    }
+
+    const multiLine = !!block.mathLines && rows.length > 1;
+    const align = multiLine && !!block.mathAlign;
+    const perLine = multiLine && !block.mathBrace && block.mathNumbering === 'line';
+    const labelled = perLine ? rows.some((r) => r.numbered) : numbered;
 
-export function serializeMath(block: TypstBlock): string {
     const payload: PersistedMathPayload = {
         format: block.mathFormat ?? 'latex',
         latex: (block.mathLatex ?? '').trim(),
         typst: (block.mathTypst ?? block.content ?? '').trim(),
-        lines: block.mathLines?.map((l) => ({ latex: l.latex, typst: l.typst })) ?? undefined,
+        lines: block.mathLines?.map((l) => (l.noNumber ? { latex: l.latex, typst: l.typst, noNumber: true } : { latex: l.latex, typst: l.typst })) ?? undefined,
         brace: block.mathBrace ?? undefined,
+        numbering: block.mathNumbering,
+        align: block.mathAlign || undefined,
+        // An unnumbered equation cannot carry a referenceable label, so keep it in the payload only.
+        label: label && !labelled ? label : undefined,
     };
     const encoded = `${LF_MATH_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
+    const labelSuffix = labelled ? formatTypstLabel(label) : '';
+
+    // Without a document-level numbering rule (see generateDocumentPreamble) numbered blocks
+    // get a scoped one; with it, unnumbered blocks switch it off.
+    const scopeRule = numbered && !docNumbered
+        ? '#set math.equation(numbering: "(1)")'
+        : !numbered && docNumbered
+            ? '#set math.equation(numbering: none)'
+            : '';
+
+    if (perLine) {
+        const body = serializeNumberedRows(rows, align, labelSuffix);
+        return `#[${scopeRule ? `${scopeRule}; ` : ''}${body}]${encoded}`;
+    }
 
+    let equation: string;
     if (block.mathLines && block.mathLines.length > 0) {
-        // Sanitize each line to handle unknown variables like 'rad' -> "rad"
-        const lines = block.mathLines.map(line => sanitizeTypstMathSegment(line.typst.trim())).filter(l => l);
-        if (lines.length === 0) {
-            return '';
-        }
-        if (block.mathBrace) {
-            return `$ cases(${lines.join(', ')}) $${encoded}`;
-        } else {
-            return `$ ${lines.join(' \\ ')} $${encoded}`;
-        }
+        const lines = rows.map((row) => (align ? insertMathAlignPoint(row.typst) : row.typst));
+        equation = block.mathBrace ? `$ cases(${lines.join(', ')}) $` : `$ ${lines.join(' \\ ')} $`;
+    } else {
+        equation = `$ ${sanitizeTypstMathSegment((block.mathTypst ?? block.content).trim())} $`;
     }
+    equation += labelSuffix;
 
-    return `$ ${sanitizeTypstMathSegment((block.mathTypst ?? block.content).trim())} $${encoded}`;
+    return scopeRule ? `#[${scopeRule}; ${equation}]${encoded}` : `${equation}${encoded}`;
 }
@@ -1,5 +1,5 @@
 import { TypstBlock, DocumentSettings } from '../types';
-import { base64EncodeUtf8, safeParseChartPayload, LF_IMAGE_MARKER, LF_CHART_MARKER } from '../utils';
+import { base64EncodeUtf8, formatTypstLabel, normalizeTypstLabel, LF_IMAGE_MARKER } from '../utils';
 
 export function serializeImage(block: TypstBlock, imageIndex: number, settings: DocumentSettings): string {
     const width = block.width || '50%';
@@ -8,9 +8,11 @@ export function serializeImage(block: TypstBlock, imageIndex: number, settings:
     const captionRaw = (block.caption ?? '').trim();
     // Only show numbering if: numbering is enabled AND image has a caption AND imageIndex > 0
     const shouldNumber = settings.imageCaptionNumbering && captionRaw.length > 0 && imageIndex > 0;
-    const label = shouldNumber ? `图${imageIndex} ` : '';
-    const captionText = captionRaw ? (label + captionRaw).trim() : '';
+    const numberPrefix = shouldNumber ? `图${imageIndex} ` : '';
+    const captionText = captionRaw ? (numberPrefix + captionRaw).trim() : '';
     const alignValue = align === 'left' ? 'left' : align === 'right' ? 'right' : 'center';
+    const label = normalizeTypstLabel(block.label ?? '') || undefined;
+    const labelSuffix = formatTypstLabel(label);
 
     // Helper to strip #text(font:...) wrappers - needed for both payload and output
     const stripTextWrapper = (s: string): string | null => {
@@ -72,6 +74,7 @@ export function serializeImage(block: TypstBlock, imageIndex: number, settings:
         caption: cleanCaptionForPayload,
         width,
         height,
+        label,
     };
     const encoded = `${LF_IMAGE_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
 
@@ -91,7 +94,8 @@ export function serializeImage(block: TypstBlock, imageIndex: number, settings:
             caption: cleanCaptionForPayload,
             width,
             height,
-            src: '' // Empty src indicates it needs upload
+            src: '', // Empty src indicates it needs upload
+            label,
         };
         const emptyEncoded = `${LF_IMAGE_MARKER}${base64EncodeUtf8(JSON.stringify(emptyPayload))}*/`;
 
@@ -137,7 +141,8 @@ export function serializeImage(block: TypstBlock, imageIndex: number, settings:
             caption: block.caption,
             width: block.width,
             height: block.height,
-            src: block.content
+            src: block.content,
+            label,
         };
         const encoded = `/*LF_IMAGE:${base64EncodeUtf8(JSON.stringify(payload))}*/`;
 
@@ -159,46 +164,34 @@ export function serializeImage(block: TypstBlock, imageIndex: number, settings:
     // This resolves issues where manual counting logic falls out of sync
     const imageContent = `image("${imagePath}", width: ${width}, height: ${height})`;
 
-    // If no caption, just output the image
+    // If no caption, just output the image; a labelled one stays numbered so `@label` can resolve.
     if (!captionRaw) {
-        return `#align(${alignValue})[#figure(${imageContent}, numbering: none)]`; // numbering: none prevents "Figure 1" if no caption
+        const uncaptionedArgs = labelSuffix ? ', supplement: "图"' : ', numbering: none'; // numbering: none prevents "Figure 1" if no caption
+        return `#align(${alignValue})[#figure(${imageContent}${uncaptionedArgs})${labelSuffix}]`;
     }
 
-    const numberingArg = settings.imageCaptionNumbering ? '' : ', numbering: none';
+    // Only numbered figures can be referenced, so labelled images keep their number either way.
+    const numberingArg = settings.imageCaptionNumbering || labelSuffix ? '' : ', numbering: none';
     // supplement="图" ensures "Figure" becomes "图". 
     // Usually handled by set text(lang: "zh") but we can be explicit or rely on global settings.
     // For now, let's assume global settings or defaults handled by previous manual logic match user expectation.
     // Specifying supplement explicitly is safer for "图".
     const supplementArg = ', supplement: "图"';
 
-    const fontToCheck = block.captionFont || 'SimSun';
+    // Without a captionFont override the caption uses the document caption style font.
+    const fontToCheck = block.captionFont || settings.typography.caption.font;
     // Use the already-cleaned caption (cleanCaptionForPayload) for the Typst output
-    const captionContent = `#text(font: "${fontToCheck}")[${cleanCaptionForPayload}]`;
+    const captionContent = fontToCheck ? `#text(font: "${fontToCheck}")[${cleanCaptionForPayload}]` : cleanCaptionForPayload;
     const captionArg = `, caption: [${captionContent}]`;
 
     // Handle caption position via gap/local set if critical, but figure defaults to bottom. 
     // To support top caption, we'd need #show figure: set figure(caption-pos: top) in preamble or block scoped.
-    // Note: Figure caption font (SimSun) is now set globally in preamble.ts
+    // Note: the default caption font is set globally in preamble.ts (document caption style)
     let blockPrefix = '';
     if (settings.imageCaptionPosition === 'above') {
         blockPrefix = '#show figure: set figure(caption-pos: top)\n';
     }
 
-    return `${blockPrefix}#align(${alignValue})[#figure(${imageContent}${captionArg}${numberingArg}${supplementArg})]${encoded}`;
-}
-
-export function serializeChart(block: TypstBlock): string {
-    const payload = safeParseChartPayload(block.content ?? '');
-    const imageUrl = (payload.imageUrl ?? '').trim();
-    const encoded = `${LF_CHART_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
-    const align = block.align || 'center';
-    const alignValue = align === 'left' ? 'left' : align === 'right' ? 'right' : 'center';
-
-    if (!imageUrl) {
-        return `#align(${alignValue})[(未生成图表)]${encoded}`;
-    }
-
-    const width = block.width || '50%';
-    const imageLine = `#align(${alignValue}, image("${imageUrl}", width: ${width}, height: auto))${encoded}`;
-    return imageLine;
+    // The label goes inside #align so that it attaches to the figure (references to #align are invalid).
+    return `${blockPrefix}#align(${alignValue})[#figure(${imageContent}${captionArg}${numberingArg}${supplementArg})${labelSuffix}]${encoded}`;
 }
@@ -1,3 +1,12 @@
+import { DocumentSettings, TextStyle, TypstBlock } from '../types';
+import {
+    leadingEmFromMultiplier,
+    serializeEquationNumberingRule,
+    resolveTemplateText,
+    serializeHeadingNumberingRule,
+    toTypstStringLiteral,
+} from '../utils';
+
 
 // CJK fonts that lack native bold/italic variants - handled via global show rules in preamble
 export const CJK_FONTS_NEED_FAKE_STYLE = ['SimSun', 'SimHei', 'KaiTi', 'FangSong'];
@@ -11,3 +20,95 @@ export function generateCjkStylePreamble(): string {
 #show figure.caption: set text(font: "SimSun")
 `;
 }
+
+// Pages at the start of the document that carry no header/footer/number (a one-page cover).
+export function countUnnumberedCoverPages(blocks: TypstBlock[], settings: DocumentSettings): number {
+    const first = blocks[0];
+    return settings.page.coverWithoutNumber && first?.type === 'cover' && first.coverFixedOnePage ? 1 : 0;
+}
+
+/**
+ * `#set page(...)` rule for the document's page setup: paper, orientation, margins,
+ * running header/footer and page number.
+ */
+export function generatePageSetupPreamble(settings: DocumentSettings, blocks: TypstBlock[] = []): string {
+    const page = settings.page;
+    const skip = countUnnumberedCoverPages(blocks, settings);
+
+    // Header/footer content is hidden on skipped cover pages.
+    const onNumberedPages = (body: string) =>
+        skip > 0 ? `context { if here().page() > ${skip} { ${body} } }` : `context { ${body} }`;
+
+    // The first numbered page shows `pageNumberStart`; shifting the displayed value instead of
+    // updating the counter keeps the rule independent of where the cover ends.
+    const offset = skip - (page.pageNumberStart - 1);
+    const shifted = (expr: string) => (offset === 0 ? expr : `${expr} - (${offset})`);
+    const current = shifted('counter(page).get().first()');
+    const number =
+        page.pageNumberFormat === 'none'
+            ? ''
+            : page.pageNumberFormat === '1 / 1'
+                ? `numbering("1 / 1", ${current}, ${shifted('counter(page).final().first()')})`
+                : `numbering("${toTypstStringLiteral(page.pageNumberFormat)}", ${current})`;
+    const headerText = resolveTemplateText(page.header, settings.templateVariables).trim();
+    const footerText = resolveTemplateText(page.footer, settings.templateVariables).trim();
+    const header = headerText ? `text("${toTypstStringLiteral(headerText)}")` : '';
+    const footer = footerText ? `text("${toTypstStringLiteral(footerText)}")` : '';
+
+    const args = [
+        `paper: "${page.paper}"`,
+        `flipped: ${page.orientation === 'landscape'}`,
+        `margin: (top: ${page.marginTop}, bottom: ${page.marginBottom}, left: ${page.marginLeft}, right: ${page.marginRight})`,
+    ];
+    if (header) {
+        args.push(`header: ${onNumberedPages(`set text(size: 9pt); align(center, ${header})`)}`);
+    }
+    if (footer || number) {
+        const body = footer && number ? `${footer}; h(1fr); ${number}` : `align(center, ${footer || number})`;
+        args.push(`footer: ${onNumberedPages(`set text(size: 9pt); ${body}`)}`);
+    }
+
+    return `// Page setup\n#set page(${args.join(', ')})\n`;
+}
+
+// `set text(...)` arguments for a document style; empty when it keeps Typst's defaults.
+function textStyleArgs(style: TextStyle): string {
+    const args: string[] = [];
+    if (style.font) args.push(`font: "${toTypstStringLiteral(style.font)}"`);
+    if (style.size) args.push(`size: ${style.size}`);
+    return args.join(', ');
+}
+
+/**
+ * Set/show rules for the document styles (body, headings 1-3, caption, code). Emitted after
+ * generateCjkStylePreamble so the caption style wins over its SimSun default; blocks with
+ * their own font/size wrap themselves in `#text(...)` and override these.
+ */
+export function generateTypographyPreamble(settings: DocumentSettings): string {
+    const t = settings.typography;
+    const lines: string[] = [];
+    const body = textStyleArgs(t.body);
+    if (body) lines.push(`#set text(${body})`);
+    if (t.body.lineSpacing !== 1) lines.push(`#set par(leading: ${leadingEmFromMultiplier(t.body.lineSpacing)}em)`);
+    ([t.heading1, t.heading2, t.heading3] as const).forEach((style, i) => {
+        const args = textStyleArgs(style);
+        if (args) lines.push(`#show heading.where(level: ${i + 1}): set text(${args})`);
+    });
+    const caption = textStyleArgs(t.caption);
+    if (caption) lines.push(`#show figure.caption: set text(${caption})`);
+    const code = textStyleArgs(t.code);
+    if (code) lines.push(`#show raw: set text(${code})`);
+    return lines.length > 0 ? ['// Document styles', ...lines].join('\n') + '\n' : '';
+}
+
+// Document-level rules derived from DocumentSettings: page setup, styles, heading and equation numbering.
+export function generateDocumentPreamble(settings: DocumentSettings, blocks: TypstBlock[] = []): string {
+    const headingRule = serializeHeadingNumberingRule(settings.headingNumbering);
+    const equationRule = serializeEquationNumberingRule(settings.equationNumbering);
+    return (
+        generatePageSetupPreamble(settings, blocks) +
+        generateTypographyPreamble(settings) +
+        (headingRule ? `${headingRule}\n` : '') +
+        (equationRule ? `${equationRule}\n` : '')
+    );
+}
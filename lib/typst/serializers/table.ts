@@ -1,54 +1,109 @@
-import { TypstBlock, DocumentSettings, PersistedTableCell } from '../types';
-import { base64EncodeUtf8, safeParseTablePayload, inlineToSingleLine, LF_TABLE_MARKER } from '../utils';
+import { TypstBlock, DocumentSettings, PersistedTableCell, PersistedTablePayload } from '../types';
+import {
+    applyTableFormulas,
+    base64EncodeUtf8,
+    safeParseTablePayload,
+    inlineToSingleLine,
+    formatTypstLabel,
+    resolveTableStrokeSpec,
+    serializeTableStrokeArgs,
+    LF_TABLE_MARKER,
+} from '../utils';
 
 export function serializeTable(block: TypstBlock, tableIndex: number, settings: DocumentSettings): string {
-    const payload = safeParseTablePayload(block.content ?? '');
+    // Formula cells render their computed value; the formula itself rides along in the marker.
+    const payload = applyTableFormulas(safeParseTablePayload(block.content ?? ''));
     const rows = payload.rows;
     const cols = payload.cols;
     const style = payload.style ?? 'normal';
     const width = block.width || '50%';
 
-    // Evenly distribute column widths within the table width.
-    const columns = `(${Array.from({ length: Math.max(1, cols) }, () => '1fr').join(', ')})`;
+    // Columns share the table width evenly unless given their own track size.
+    const columnSpecs = Array.from({ length: Math.max(1, cols) }, (_, c) => payload.columns?.[c] ?? {});
+    const columns = `(${columnSpecs.map((col) => col.width || '1fr').join(', ')})`;
 
-    const stroke = style === 'three-line'
-        ? `stroke: (x: 0pt, y: 0pt), table.hline(y: 0, stroke: 1.6pt), table.hline(y: 1, stroke: 0.8pt), table.hline(y: ${rows}, stroke: 1.6pt)`
-        : 'stroke: 0.8pt';
+    // Header rows repeat on every page the table breaks across.
+    const headerEnd = tableHeaderEnd(payload);
+
+    // The two original styles keep their compact form; the rest are drawn from their stroke spec.
+    let stroke: string;
+    if (style === 'three-line' && !payload.userStyle) {
+        stroke = `stroke: (x: 0pt, y: 0pt), table.hline(y: 0, stroke: 1.6pt), table.hline(y: 1, stroke: 0.8pt), table.hline(y: ${rows}, stroke: 1.6pt)`;
+    } else if (style === 'normal' && !payload.userStyle) {
+        stroke = 'stroke: 0.8pt';
+    } else {
+        const spec = resolveTableStrokeSpec(payload, settings.tableStyles);
+        stroke = serializeTableStrokeArgs(spec, rows, cols, Math.max(1, headerEnd)).join(', ');
+    }
 
     // Default table cell alignment: left horizontally, centered vertically.
     // In Typst's alignment system, `center` is horizontal center, and `horizon` is vertical center.
-    const align = 'align: left + horizon';
-
-    const flatArgs: string[] = [];
-
-    for (let r = 0; r < rows; r++) {
-        for (let c = 0; c < cols; c++) {
-            const cell = payload.cells?.[r]?.[c] ?? ({ content: '' } as PersistedTableCell);
-            if (cell.hidden) continue;
-            const rs = Math.max(1, Number(cell.rowspan || 1));
-            const cs = Math.max(1, Number(cell.colspan || 1));
-            const body = inlineToSingleLine((cell.content ?? '').trim());
-
-            const cellArgs: string[] = [];
-            if (rs > 1) cellArgs.push(`rowspan: ${rs}`);
-            if (cs > 1) cellArgs.push(`colspan: ${cs}`);
-
-            if (cellArgs.length > 0) {
-                flatArgs.push(`table.cell(${cellArgs.join(', ')})[${body}]`);
-            } else {
-                flatArgs.push(`[${body}]`);
+    const columnAlign = (c: number) => `${columnSpecs[c]?.align ?? 'left'} + ${columnSpecs[c]?.valign ?? 'horizon'}`;
+    const align = columnSpecs.some((col) => col.align || col.valign)
+        ? `align: (${columnSpecs.map((_, c) => columnAlign(c)).join(', ')})`
+        : 'align: left + horizon';
+
+    const cellArg = (r: number, c: number): string | null => {
+        const cell = payload.cells?.[r]?.[c] ?? ({ content: '' } as PersistedTableCell);
+        if (cell.hidden) return null;
+        const rs = Math.max(1, Number(cell.rowspan || 1));
+        const cs = Math.max(1, Number(cell.colspan || 1));
+        const body = inlineToSingleLine((cell.content ?? '').trim());
+
+        const cellArgs: string[] = [];
+        if (rs > 1) cellArgs.push(`rowspan: ${rs}`);
+        if (cs > 1) cellArgs.push(`colspan: ${cs}`);
+        if (cell.align || cell.valign) {
+            cellArgs.push(`align: ${cell.align ?? columnSpecs[c]?.align ?? 'left'} + ${cell.valign ?? columnSpecs[c]?.valign ?? 'horizon'}`);
+        }
+        if (cell.fill) cellArgs.push(`fill: rgb("${cell.fill}")`);
+
+        return cellArgs.length > 0 ? `table.cell(${cellArgs.join(', ')})[${body}]` : `[${body}]`;
+    };
+
+    const rowArgs = (from: number, to: number) => {
+        const out: string[] = [];
+        for (let r = from; r < to; r++) {
+            for (let c = 0; c < cols; c++) {
+                const arg = cellArg(r, c);
+                if (arg) out.push(arg);
             }
         }
-    }
+        return out;
+    };
+
+    const flatArgs = headerEnd > 0
+        ? [`table.header(repeat: true, ${rowArgs(0, headerEnd).join(', ')})`, ...rowArgs(headerEnd, rows)]
+        : rowArgs(0, rows);
 
     const encoded = `${LF_TABLE_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
 
     const captionRaw = (payload.caption ?? '').trim();
-    const label = settings.tableCaptionNumbering ? `表${tableIndex} ` : '';
-    const captionText = (label + captionRaw).trim() ? (label + captionRaw) : '';
+    const numberPrefix = settings.tableCaptionNumbering ? `表${tableIndex} ` : '';
+    const captionText = (numberPrefix + captionRaw).trim() ? (numberPrefix + captionRaw) : '';
     const captionLine = captionText ? `#align(center)[${captionText}]\n` : '';
     // Use #table directly inside #align, with width on individual columns or wrap table in a box.
     // Correct Typst syntax: #align(center)[#block(width: ...)[#table(...)]]
-    const tableLine = `#align(center)[#block(width: ${width})[#table(columns: ${columns}, ${align}, ${stroke}, ${flatArgs.join(', ')})]]${encoded}`;
+    let tableExpr = `#table(columns: ${columns}, ${align}, ${stroke}, ${flatArgs.join(', ')})`;
+
+    // Labelled tables are wrapped in a figure so `@label` resolves to "表 N".
+    // The caption stays manual above, so the figure number is pinned to our own table index.
+    const labelSuffix = formatTypstLabel(block.label);
+    if (labelSuffix) {
+        tableExpr = `#figure(kind: table, supplement: "表", numbering: (..nums) => "${tableIndex}")[${tableExpr}]${labelSuffix}`;
+    }
+
+    const tableLine = `#align(center)[#block(width: ${width})[${tableExpr}]]${encoded}`;
     return `${captionLine}${tableLine}`;
 }
+
+// End row (exclusive) of the repeated header, extended so no rowspan crosses out of it.
+function tableHeaderEnd(payload: PersistedTablePayload): number {
+    let end = Math.min(payload.rows, Math.max(0, payload.headerRows ?? 0));
+    for (let r = 0; r < end; r++) {
+        for (const cell of payload.cells[r] ?? []) {
+            if (!cell.hidden) end = Math.min(payload.rows, Math.max(end, r + Math.max(1, Number(cell.rowspan || 1))));
+        }
+    }
+    return end;
+}
@@ -10,12 +10,16 @@ import {
 } from '../utils';
 
 // serializeHeading
-export function serializeHeading(block: TypstBlock): string {
+// `defaultFont` is the document's heading style font, written out so the stored source renders on its own.
+export function serializeHeading(block: TypstBlock, defaultFont: string = 'SimSun'): string {
     const level = block.level || 1;
-    let body = `${'='.repeat(level)} ${block.content}`;
+    // Unnumbered headings need the function form; `=` markup always follows the document numbering.
+    const heading = (content: string) =>
+        block.unnumbered ? `#heading(level: ${level}, numbering: none)[${content}]` : `${'='.repeat(level)} ${content}`;
+    let body = heading(block.content);
 
-    // Apply font if set (default is SimSun, don't output if default)
-    const font = (block.font ?? 'SimSun').trim();
+    // Apply font if set (falls back to the document heading style)
+    const font = (block.font ?? defaultFont).trim();
     const align = block.align;
 
     // Typst syntax for heading styling is a bit different.
@@ -28,7 +32,7 @@ export function serializeHeading(block: TypstBlock): string {
         // Actually `#text(font: "...")` around the heading content works but might be stripped by the heading structure parsing.
         // Safer way for inline heading style: `= #text(font: "...")[Heading Content]`
         // CJK bold/italic is handled via global show rules in preamble
-        body = `${'='.repeat(level)} #text(font: "${font}")[${block.content}]`;
+        body = heading(`#text(font: "${font}")[${block.content}]`);
     }
 
     // Apply alignment
@@ -40,7 +44,13 @@ export function serializeHeading(block: TypstBlock): string {
     return body;
 }
 
-export function serializeParagraph(block: TypstBlock): string {
+// `resetLeadingEm` restores the document's body leading after a paragraph with its own line spacing;
+// `defaultFont` is the body style font used when the paragraph has none of its own.
+export function serializeParagraph(
+    block: TypstBlock,
+    resetLeadingEm: number = defaultParagraphLeadingEm,
+    defaultFont: string = 'SimSun'
+): string {
     const raw = block.content ?? '';
     const isAnswerBlank = !!block.placeholder && raw.replace(/\u200B/g, '').trim().length === 0;
     let body = sanitizeTypstInlineMath(convertMixedParagraph(raw));
@@ -77,8 +87,8 @@ export function serializeParagraph(block: TypstBlock): string {
         : undefined;
     const multiplier = typeof multiplierRaw === 'number' ? snapLineSpacingMultiplier(multiplierRaw) : undefined;
 
-    // Apply font/size settings
-    const font = (block.font ?? 'SimSun').trim();
+    // Apply font/size settings (font falls back to the document body style)
+    const font = (block.font ?? defaultFont).trim();
     const size = block.fontSize ? block.fontSize.trim() : undefined;
 
     if (font || size) {
@@ -98,13 +108,13 @@ export function serializeParagraph(block: TypstBlock): string {
 
     if (typeof multiplier === 'number') {
         const leadingEm = leadingEmFromMultiplier(multiplier);
-        return `#set par(leading: ${leadingEm}em)\n${body}\n#set par(leading: ${defaultParagraphLeadingEm}em)`;
+        return `#set par(leading: ${leadingEm}em)\n${body}\n#set par(leading: ${resetLeadingEm}em)`;
     }
 
     return `${body}`;
 }
 
-export function serializeList(block: TypstBlock): string {
+export function serializeList(block: TypstBlock, defaultFont: string = 'SimSun'): string {
     const lines = (block.content ?? '').split('\n').map(l => l.trim()).filter(l => l.length > 0);
     if (lines.length === 0) return '';
 
@@ -151,8 +161,8 @@ export function serializeList(block: TypstBlock): string {
         listExpr = `#list(tight: true)${children}`;
     }
 
-    // Apply font if set (default to SimSun like paragraph for consistency)
-    const font = (block.font ?? 'SimSun').trim();
+    // Apply font if set (falls back to the body style font like paragraphs for consistency)
+    const font = (block.font ?? defaultFont).trim();
     if (font) {
         return `#text(font: "${font}")[${listExpr}]`;
     }
@@ -0,0 +1,15 @@
+import { TypstBlock } from '../types';
+import { base64EncodeUtf8, safeParseTocPayload, LF_TOC_MARKER } from '../utils';
+
+export function serializeToc(block: TypstBlock): string {
+    const payload = safeParseTocPayload(block.content ?? '');
+    const encoded = `${LF_TOC_MARKER}${base64EncodeUtf8(JSON.stringify(payload))}*/`;
+
+    const title = payload.title.trim();
+    const args = [
+        `title: ${title ? `[${title}]` : 'none'}`,
+        `depth: ${payload.depth}`,
+        `indent: ${payload.indent}`,
+    ];
+    return `#outline(${args.join(', ')})${encoded}`;
+}
@@ -1,10 +1,24 @@
-export type BlockType = 'heading' | 'paragraph' | 'code' | 'math' | 'image' | 'list' | 'table' | 'chart' | 'vertical_space' | 'input_field' | 'cover' | 'composite_row';
+export type BlockType = 'heading' | 'paragraph' | 'code' | 'math' | 'image' | 'list' | 'table' | 'chart' | 'vertical_space' | 'input_field' | 'cover' | 'composite_row' | 'bibliography' | 'toc';
 
 export type CompositeRowJustify = 'flex-start' | 'flex-end' | 'center' | 'space-between' | 'space-around' | 'space-evenly';
 export type CompositeRowVerticalAlign = 'top' | 'middle' | 'bottom';
 
 export type ChartType = 'scatter' | 'bar' | 'pie' | 'hbar';
 export type ChartDataSource = 'manual' | 'table';
+export type ChartRenderer = 'typst' | 'image';
+
+export type ChartPlotPoint = { x: number; y: number };
+
+// Chart data with table selections already resolved, so a chart serializes without its sources.
+export type PersistedChartPlot = {
+  // scatter
+  series?: Array<{ name: string; points: ChartPlotPoint[]; fit?: { points: ChartPlotPoint[]; label?: string } }>;
+  // bar / hbar: one value per category and series (null = missing)
+  categories?: string[];
+  bars?: Array<{ name: string; values: Array<number | null> }>;
+  // pie
+  slices?: Array<{ label: string; value: number }>;
+};
 
 export type PersistedChartSelection = {
   blockId: string;
@@ -30,6 +44,19 @@ export type PersistedChartPayload = {
 
   // Rendered image URL (served by backend static storage).
   imageUrl?: string;
+
+  // 'typst' (default) draws `plot` as native Typst graphics; 'image' embeds `imageUrl`.
+  renderer?: ChartRenderer;
+  plot?: PersistedChartPlot;
+};
+
+export type MathNumbering = 'block' | 'line' | 'none';
+
+export type MathLine = {
+  latex: string;
+  typst: string;
+  // Row left unnumbered when the block is numbered per line.
+  noNumber?: boolean;
 };
 
 export interface TypstBlock {
@@ -47,7 +74,10 @@ export interface TypstBlock {
   uiCollapsed?: boolean;
 
   level?: number; // 用于标题级别 (1-6)
+  unnumbered?: boolean; // 标题不参与文档编号 (heading numbering: none)
   language?: string; // 用于代码块语言
+  codeLineNumbers?: boolean; // 代码块显示行号
+  codeHighlight?: string; // 代码块高亮行 (e.g., "2-4, 7")
   width?: string; // 图片宽度 (e.g., "100%", "8cm")
   height?: string; // 图片高度 (e.g., "auto", "5cm")
   align?: 'left' | 'center' | 'right'; // 图片/段落对齐方式
@@ -59,11 +89,16 @@ export interface TypstBlock {
   // and users expect “1x” to mean the default rather than `1em`.
   lineSpacing?: number;
 
-  // Image caption text (global numbering/position is stored in DocumentSettings).
+  // Image/code caption text (global numbering/position is stored in DocumentSettings).
   caption?: string;
   captionFont?: string; // Caption font (e.g., "KaiTi")
 
+  // Cross-reference label for image/table/chart/math/code blocks, serialized as Typst `<label>`
+  // and referenced from text as `@label`.
+  label?: string;
+
   // Chart blocks store their editor state inside content (PersistedChartPayload JSON).
+  // Bibliography blocks store their editor state inside content (PersistedBibliographyPayload JSON).
 
   // Math block dual-format support.
   // - mathFormat: which editor the user is currently using
@@ -73,8 +108,12 @@ export interface TypstBlock {
   mathTypst?: string;
 
   // Multi-line math support
-  mathLines?: Array<{ latex: string; typst: string }>;
+  mathLines?: MathLine[];
   mathBrace?: boolean; // Whether to show left brace (like cases)
+  // Equation number: unset numbers the block when the document numbers equations or it has a label;
+  // 'line' numbers every multi-line row except those marked noNumber.
+  mathNumbering?: MathNumbering;
+  mathAlign?: boolean; // Align multi-line rows at their first relation (=, <, ≈ ...)
 
   // Input field properties (single-line mode, deprecated but kept for compatibility)
   inputLabel?: string;       // Left column: category name
@@ -95,6 +134,70 @@ export interface TypstBlock {
   compositeVerticalAlign?: CompositeRowVerticalAlign; // Vertical alignment (top/middle/bottom)
 }
 
+// Typst `paper` names offered in page setup.
+export type PaperSize = 'a4' | 'a5' | 'iso-b5' | 'us-letter';
+
+// Typst numbering patterns for the page number; 'none' hides it.
+export type PageNumberFormat = 'none' | '1' | '- 1 -' | '第 1 页' | '1 / 1' | 'i';
+
+export type PageSettings = {
+  paper: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  // Typst lengths, e.g. "2.5cm"
+  marginTop: string;
+  marginBottom: string;
+  marginLeft: string;
+  marginRight: string;
+  // Plain-text running header/footer (e.g. course name, student ID); empty hides it.
+  header: string;
+  footer: string;
+  pageNumberFormat: PageNumberFormat;
+  // Number shown on the first numbered page.
+  pageNumberStart: number;
+  // When the document starts with a one-page cover, hide header/footer/number there
+  // and start counting on the page after it.
+  coverWithoutNumber: boolean;
+};
+
+export type HeadingNumberingPreset = 'none' | 'chinese' | 'decimal' | 'custom';
+
+export type HeadingNumbering = {
+  preset: HeadingNumberingPreset;
+  // Typst numbering pattern per heading level (index 0 = level 1); '' leaves that level unnumbered,
+  // levels past the end are unnumbered too.
+  levels: string[];
+};
+
+// Empty font/size means "Typst default" for that style.
+export type TextStyle = {
+  font: string;
+  size: string;
+};
+
+// Named document styles; blocks without their own font/size/line spacing inherit these.
+export type TypographyStyles = {
+  body: TextStyle & { lineSpacing: number };
+  heading1: TextStyle;
+  heading2: TextStyle;
+  heading3: TextStyle;
+  caption: TextStyle;
+  code: TextStyle;
+};
+
+export type TemplateVariableType = 'text' | 'number' | 'date';
+
+// Declared by a template and filled in per report; paragraphs, headings, input fields and the
+// running header/footer reference it as `{{key}}`, which is replaced when rendering.
+export type TemplateVariable = {
+  key: string;
+  label: string;
+  type: TemplateVariableType;
+  value: string;
+};
+
+// Typst equation numbering patterns; chapter forms prefix the level-1 heading number.
+export type EquationNumbering = 'none' | '(1)' | '(1.1)' | '(1-1)';
+
 export type DocumentSettings = {
   tableCaptionNumbering: boolean;
   imageCaptionNumbering: boolean;
@@ -102,6 +205,37 @@ export type DocumentSettings = {
   // Global visibility for vertical space blocks (draft guides)
   verticalSpaceVisible: boolean;
   fontSize: string;
+  page: PageSettings;
+  headingNumbering: HeadingNumbering;
+  equationNumbering: EquationNumbering;
+  typography: TypographyStyles;
+  tableStyles: UserTableStyle[];
+  templateVariables: TemplateVariable[];
+};
+
+// Matches Typst's own defaults (A4, 2.5cm margins, no page numbers).
+export const defaultPageSettings: PageSettings = {
+  paper: 'a4',
+  orientation: 'portrait',
+  marginTop: '2.5cm',
+  marginBottom: '2.5cm',
+  marginLeft: '2.5cm',
+  marginRight: '2.5cm',
+  header: '',
+  footer: '',
+  pageNumberFormat: 'none',
+  pageNumberStart: 1,
+  coverWithoutNumber: true,
+};
+
+// Matches the editor's historical look: SimSun body and captions, Typst defaults elsewhere.
+export const defaultTypographyStyles: TypographyStyles = {
+  body: { font: 'SimSun', size: '', lineSpacing: 1 },
+  heading1: { font: '', size: '' },
+  heading2: { font: '', size: '' },
+  heading3: { font: '', size: '' },
+  caption: { font: 'SimSun', size: '' },
+  code: { font: '', size: '' },
 };
 
 export const defaultDocumentSettings: DocumentSettings = {
@@ -110,23 +244,75 @@ export const defaultDocumentSettings: DocumentSettings = {
   imageCaptionPosition: 'below',
   verticalSpaceVisible: false,
   fontSize: '10.5pt',
+  page: defaultPageSettings,
+  headingNumbering: { preset: 'none', levels: [] },
+  equationNumbering: 'none',
+  typography: defaultTypographyStyles,
+  tableStyles: [],
+  templateVariables: [],
 };
 
 export type PersistedMathPayload = {
   format?: 'latex' | 'typst';
   latex?: string;
   typst?: string;
-  lines?: Array<{ latex: string; typst: string }>;
+  lines?: MathLine[];
   brace?: boolean;
+  numbering?: MathNumbering;
+  align?: boolean;
+  // Only stored for unnumbered blocks, whose label cannot appear in the Typst source.
+  label?: string;
 };
 
-export type TableStyle = 'normal' | 'three-line';
+export type TableStyle =
+  | 'normal'
+  | 'three-line'
+  | 'booktabs'
+  | 'booktabs-rows'
+  | 'zebra'
+  | 'header-rule'
+  | 'plain'
+  | 'custom';
+
+// Rule widths in pt (0 = no line) plus optional row fills; every table style reduces to one.
+export type TableStrokeSpec = {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  header: number; // rule below the header rows (the first row when none are set)
+  rows: number; // inner horizontal lines
+  cols: number; // inner vertical lines
+  headerFill?: string; // "#rrggbb"
+  zebra?: string; // fill of every other body row, "#rrggbb"
+};
+
+// Table style saved with the document so several tables can share it.
+export type UserTableStyle = {
+  id: string;
+  name: string;
+  spec: TableStrokeSpec;
+};
+
+export type TableHAlign = 'left' | 'center' | 'right';
+export type TableVAlign = 'top' | 'horizon' | 'bottom';
 
 export type PersistedTableCell = {
   content: string; // Typst inline markup (same as paragraph inline)
   rowspan?: number;
   colspan?: number;
   hidden?: boolean; // covered by a merged cell
+  formula?: string; // e.g. "=AVERAGE(B2:B6)"; `content` then holds the computed value
+  // Overrides of the column alignment.
+  align?: TableHAlign;
+  valign?: TableVAlign;
+  fill?: string; // background, "#rrggbb"
+};
+
+export type PersistedTableColumn = {
+  width?: string; // "auto", "2fr" or a length such as "30pt"; default 1fr
+  align?: TableHAlign; // default left
+  valign?: TableVAlign; // default horizon (vertically centered)
 };
 
 export type PersistedTablePayload = {
@@ -135,4 +321,31 @@ export type PersistedTablePayload = {
   rows: number;
   cols: number;
   cells: PersistedTableCell[][];
+  // Significant digits for formula results per column (null = automatic).
+  columnPrecision?: (number | null)[];
+  columns?: PersistedTableColumn[];
+  // Leading rows repeated at the top of every page the table spans.
+  headerRows?: number;
+  stroke?: TableStrokeSpec; // style 'custom'
+  userStyle?: string; // id of a document table style; `stroke` keeps a copy as fallback
+};
+
+// Citation styles built into Typst's `#bibliography(style: ...)`.
+export type BibliographyStyle = 'gb-7714-2015-numeric' | 'ieee' | 'apa';
+
+export type PersistedBibliographyPayload = {
+  title: string;
+  style: BibliographyStyle;
+  // Also list entries that are never cited (`full: true`).
+  full: boolean;
+  bibtex: string;
+};
+
+export type PersistedTocPayload = {
+  // Empty title renders the outline without a heading (`title: none`).
+  title: string;
+  // Deepest heading level listed (1-6).
+  depth: number;
+  // Typst `indent` argument: "auto" or a length such as "1.5em"; "0em" disables indentation.
+  indent: string;
 };
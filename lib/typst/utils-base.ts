@@ -1,12 +1,24 @@
 import {
     DocumentSettings,
+    PageNumberFormat,
+    PageSettings,
+    PaperSize,
     defaultDocumentSettings,
+    defaultPageSettings,
 } from './types';
+import { extractHeadingNumberingRule, normalizeHeadingNumbering } from './utils-heading';
+import { normalizeTypographyStyles } from './utils-typography';
+import { normalizeEquationNumbering } from './utils-equation';
+import { normalizeTemplateVariables } from './utils-template';
+import { normalizeUserTableStyles } from './utils-table-style';
 
 export const LF_MATH_MARKER = '/*LF_MATH:';
 export const LF_TABLE_MARKER = '/*LF_TABLE:';
 export const LF_IMAGE_MARKER = '/*LF_IMAGE:';
 export const LF_CHART_MARKER = '/*LF_CHART:';
+export const LF_CODE_MARKER = '/*LF_CODE:';
+export const LF_BIBLIOGRAPHY_MARKER = '/*LF_BIB:';
+export const LF_TOC_MARKER = '/*LF_TOC:';
 export const LF_DOC_MARKER = '/*LF_DOC:';
 export const LF_ANSWER_MARKER = '/*LF_ANSWER*/';
 
@@ -34,10 +46,49 @@ export function base64DecodeUtf8(input: string): string {
     return decodeURIComponent(percent);
 }
 
+// Escape arbitrary text into a single-line Typst string literal body.
+export function toTypstStringLiteral(input: string): string {
+    return input
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\r?\n/g, '\\n')
+        .replace(/\t/g, '\\t');
+}
+
 export function generateId(): string {
     return `block-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+const PAPER_SIZES: PaperSize[] = ['a4', 'a5', 'iso-b5', 'us-letter'];
+const PAGE_NUMBER_FORMATS: PageNumberFormat[] = ['none', '1', '- 1 -', '第 1 页', '1 / 1', 'i'];
+
+// A Typst length such as "2.5cm" or "72pt"; anything else falls back to `fallback`.
+export function normalizeTypstLength(raw: unknown, fallback: string): string {
+    const v = typeof raw === 'string' ? raw.trim() : '';
+    return /^\d+(\.\d+)?(pt|mm|cm|in|em)$/.test(v) ? v : fallback;
+}
+
+export function normalizePageSettings(raw: unknown): PageSettings {
+    if (typeof raw !== 'object' || raw === null) return { ...defaultPageSettings };
+    const p = raw as Partial<Record<keyof PageSettings, unknown>>;
+    const start = Number(p.pageNumberStart);
+    return {
+        paper: PAPER_SIZES.includes(p.paper as PaperSize) ? (p.paper as PaperSize) : defaultPageSettings.paper,
+        orientation: p.orientation === 'landscape' ? 'landscape' : 'portrait',
+        marginTop: normalizeTypstLength(p.marginTop, defaultPageSettings.marginTop),
+        marginBottom: normalizeTypstLength(p.marginBottom, defaultPageSettings.marginBottom),
+        marginLeft: normalizeTypstLength(p.marginLeft, defaultPageSettings.marginLeft),
+        marginRight: normalizeTypstLength(p.marginRight, defaultPageSettings.marginRight),
+        header: typeof p.header === 'string' ? p.header : '',
+        footer: typeof p.footer === 'string' ? p.footer : '',
+        pageNumberFormat: PAGE_NUMBER_FORMATS.includes(p.pageNumberFormat as PageNumberFormat)
+            ? (p.pageNumberFormat as PageNumberFormat)
+            : defaultPageSettings.pageNumberFormat,
+        pageNumberStart: Number.isInteger(start) && start >= 1 ? start : 1,
+        coverWithoutNumber: typeof p.coverWithoutNumber === 'boolean' ? p.coverWithoutNumber : true,
+    };
+}
+
 export function stripDocumentSettings(code: string): { code: string; settings: DocumentSettings } {
     const input = code ?? '';
     const m = input.match(/\/\*LF_DOC:([A-Za-z0-9+/=]+)\*\//);
@@ -46,7 +97,11 @@ export function stripDocumentSettings(code: string): { code: string; settings: D
     const stripFontSize = (c: string) => c.replace(/^\s*#set\s+text\s*\(\s*size\s*:\s*[\d.]+(?:pt|em)\s*\)\s*\n?/gm, '');
 
     if (!m) {
-        return { code: stripFontSize(input), settings: { ...defaultDocumentSettings } };
+        const extracted = extractHeadingNumberingRule(stripFontSize(input));
+        const settings = extracted.numbering
+            ? { ...defaultDocumentSettings, headingNumbering: extracted.numbering }
+            : { ...defaultDocumentSettings };
+        return { code: extracted.code, settings };
     }
 
     let settings: DocumentSettings = { ...defaultDocumentSettings };
@@ -58,6 +113,12 @@ export function stripDocumentSettings(code: string): { code: string; settings: D
             imageCaptionPosition: decoded.imageCaptionPosition ?? 'below',
             verticalSpaceVisible: decoded.verticalSpaceVisible ?? false,
             fontSize: decoded.fontSize || '10.5pt',
+            page: normalizePageSettings(decoded.page),
+            headingNumbering: normalizeHeadingNumbering(decoded.headingNumbering),
+            equationNumbering: normalizeEquationNumbering(decoded.equationNumbering),
+            typography: normalizeTypographyStyles(decoded.typography),
+            tableStyles: normalizeUserTableStyles(decoded.tableStyles),
+            templateVariables: normalizeTemplateVariables(decoded.templateVariables),
         };
     } catch {
         settings = { ...defaultDocumentSettings };
@@ -66,15 +127,34 @@ export function stripDocumentSettings(code: string): { code: string; settings: D
     let without = input.replace(m[0], '').replace(/^\s*\n/, '');
     without = stripFontSize(without);
 
-    return { code: without, settings };
+    // A numbering rule left in the source (source mode) wins over the stored setting.
+    const extracted = extractHeadingNumberingRule(without);
+    if (extracted.numbering) settings = { ...settings, headingNumbering: extracted.numbering };
+
+    return { code: extracted.code, settings };
 }
 
 export function injectDocumentSettings(code: string, settings: DocumentSettings): string {
     const stripped = stripDocumentSettings(code).code;
-    const encoded = `${LF_DOC_MARKER}${base64EncodeUtf8(JSON.stringify(settings))}*/`;
+    // Keep a numbering rule written in source mode instead of silently dropping it.
+    const numbering = extractHeadingNumberingRule(code).numbering;
+    const persisted = numbering ? { ...settings, headingNumbering: numbering } : settings;
+    const encoded = `${LF_DOC_MARKER}${base64EncodeUtf8(JSON.stringify(persisted))}*/`;
     return `${encoded}\n${stripped}`;
 }
 
+/**
+ * Store values for a project's declared variables (by key) in its saved Typst source.
+ * Keys the project does not declare are ignored.
+ */
+export function fillTemplateVariables(code: string, values: Record<string, string>): string {
+    const { code: body, settings } = stripDocumentSettings(code);
+    const templateVariables = settings.templateVariables.map((v) => (
+        Object.prototype.hasOwnProperty.call(values, v.key) ? { ...v, value: values[v.key] } : v
+    ));
+    return injectDocumentSettings(body, { ...settings, templateVariables });
+}
+
 export function unwrapBlockDecorators(input: string): {
     content: string;
     align?: 'left' | 'center' | 'right';
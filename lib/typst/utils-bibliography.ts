@@ -0,0 +1,151 @@
+import {
+    BibliographyStyle,
+    PersistedBibliographyPayload,
+    TypstBlock,
+} from './types';
+
+export const BIBLIOGRAPHY_STYLES: Array<{ value: BibliographyStyle; label: string }> = [
+    { value: 'gb-7714-2015-numeric', label: 'GB/T 7714-2015 (顺序编码)' },
+    { value: 'ieee', label: 'IEEE' },
+    { value: 'apa', label: 'APA' },
+];
+
+export function defaultBibliographyPayload(): PersistedBibliographyPayload {
+    return {
+        title: '参考文献',
+        style: 'gb-7714-2015-numeric',
+        full: false,
+        bibtex: '',
+    };
+}
+
+export function safeParseBibliographyPayload(content: string): PersistedBibliographyPayload {
+    try {
+        const parsedUnknown: unknown = JSON.parse(content);
+        const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+        if (!isRecord(parsedUnknown)) return defaultBibliographyPayload();
+        const parsed = parsedUnknown;
+
+        const styleRaw = parsed['style'];
+        const style = BIBLIOGRAPHY_STYLES.some((s) => s.value === styleRaw)
+            ? (styleRaw as BibliographyStyle)
+            : 'gb-7714-2015-numeric';
+
+        return {
+            title: typeof parsed['title'] === 'string' ? (parsed['title'] as string) : '参考文献',
+            style,
+            full: !!parsed['full'],
+            bibtex: typeof parsed['bibtex'] === 'string' ? (parsed['bibtex'] as string) : '',
+        };
+    } catch {
+        return defaultBibliographyPayload();
+    }
+}
+
+export type BibtexEntry = {
+    key: string;
+    entryType: string;
+    title: string;
+    author: string;
+    year: string;
+};
+
+/**
+ * Lightweight BibTeX scanner: extracts entry keys and a few display fields.
+ * It is only used for pickers and previews; Typst (hayagriva) does the real parsing.
+ */
+export function parseBibtexEntries(bibtex: string): BibtexEntry[] {
+    const src = bibtex ?? '';
+    const entries: BibtexEntry[] = [];
+    const headerRe = /@(\w+)\s*\{\s*([^,\s{}]+)\s*,/g;
+    let m: RegExpExecArray | null;
+
+    while ((m = headerRe.exec(src)) !== null) {
+        const entryType = m[1].toLowerCase();
+        if (entryType === 'comment' || entryType === 'string' || entryType === 'preamble') continue;
+
+        // Find the end of this entry by brace matching from the opening "{".
+        const open = src.indexOf('{', m.index);
+        let depth = 0;
+        let end = src.length;
+        for (let i = open; i < src.length; i++) {
+            if (src[i] === '{') depth++;
+            else if (src[i] === '}') {
+                depth--;
+                if (depth === 0) {
+                    end = i;
+                    break;
+                }
+            }
+        }
+        const body = src.slice(headerRe.lastIndex, end);
+        headerRe.lastIndex = end;
+
+        entries.push({
+            key: m[2],
+            entryType,
+            title: readBibtexField(body, 'title'),
+            author: readBibtexField(body, 'author'),
+            year: readBibtexField(body, 'year'),
+        });
+    }
+
+    return entries;
+}
+
+function readBibtexField(body: string, name: string): string {
+    const m = body.match(new RegExp(`(?:^|[,\\s])${name}\\s*=\\s*`, 'i'));
+    if (!m || m.index === undefined) return '';
+    let i = m.index + m[0].length;
+    const first = body[i];
+
+    let value = '';
+    if (first === '{') {
+        let depth = 0;
+        for (; i < body.length; i++) {
+            const c = body[i];
+            if (c === '{') depth++;
+            else if (c === '}') depth--;
+            value += c;
+            if (depth === 0) break;
+        }
+        value = value.slice(1, -1);
+    } else if (first === '"') {
+        const close = body.indexOf('"', i + 1);
+        value = body.slice(i + 1, close === -1 ? undefined : close);
+    } else {
+        value = (body.slice(i).match(/^[^,}\s]+/) ?? [''])[0];
+    }
+
+    return value.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Typst accepts a single `#bibliography` per document; count the blocks (including nested containers).
+export function countBibliographyBlocks(blocks: TypstBlock[]): number {
+    return blocks.reduce(
+        (n, block) => n + (block.type === 'bibliography' ? 1 : 0) + (Array.isArray(block.children) ? countBibliographyBlocks(block.children) : 0),
+        0,
+    );
+}
+
+// Collect all BibTeX entries from every bibliography block (including nested containers).
+export function collectBibliographyEntries(blocks: TypstBlock[]): BibtexEntry[] {
+    const out: BibtexEntry[] = [];
+    const seen = new Set<string>();
+
+    const visit = (list: TypstBlock[]) => {
+        for (const block of list) {
+            if (Array.isArray(block.children)) visit(block.children);
+            if (block.type !== 'bibliography') continue;
+            const payload = safeParseBibliographyPayload(block.content ?? '');
+            for (const entry of parseBibtexEntries(payload.bibtex)) {
+                if (seen.has(entry.key)) continue;
+                seen.add(entry.key);
+                out.push(entry);
+            }
+        }
+    };
+
+    visit(blocks);
+    return out;
+}
@@ -1,7 +1,12 @@
 import {
+    ChartPlotPoint,
     PersistedChartPayload,
+    PersistedChartPlot,
+    TypstBlock,
 } from './types';
 
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
 export function defaultChartPayload(): PersistedChartPayload {
     return {
         chartType: 'scatter',
@@ -19,7 +24,6 @@ export function defaultChartPayload(): PersistedChartPayload {
 export function safeParseChartPayload(content: string): PersistedChartPayload {
     try {
         const parsedUnknown: unknown = JSON.parse(content);
-        const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
         if (!isRecord(parsedUnknown)) return defaultChartPayload();
         const parsed = parsedUnknown;
 
@@ -43,6 +47,9 @@ export function safeParseChartPayload(content: string): PersistedChartPayload {
             imageUrl: typeof parsed['imageUrl'] === 'string' ? (parsed['imageUrl'] as string) : undefined,
             tableSelection: undefined,
         };
+        if (parsed['renderer'] === 'image' || parsed['renderer'] === 'typst') payload.renderer = parsed['renderer'];
+        const plot = safeParseChartPlot(parsed['plot']);
+        if (plot) payload.plot = plot;
 
         const selUnknown = parsed['tableSelection'];
         if (isRecord(selUnknown)) {
@@ -61,3 +68,164 @@ export function safeParseChartPayload(content: string): PersistedChartPayload {
         return defaultChartPayload();
     }
 }
+
+function parsePlotPoints(raw: unknown): ChartPlotPoint[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((p) => {
+        if (!isRecord(p)) return [];
+        const x = Number(p.x);
+        const y = Number(p.y);
+        return Number.isFinite(x) && Number.isFinite(y) ? [{ x, y }] : [];
+    });
+}
+
+export function safeParseChartPlot(raw: unknown): PersistedChartPlot | undefined {
+    if (!isRecord(raw)) return undefined;
+    const plot: PersistedChartPlot = {};
+
+    if (Array.isArray(raw.series)) {
+        plot.series = raw.series.filter(isRecord).map((s, i) => {
+            const fit = isRecord(s.fit) ? { points: parsePlotPoints(s.fit.points), ...(typeof s.fit.label === 'string' && s.fit.label ? { label: s.fit.label } : {}) } : undefined;
+            return {
+                name: typeof s.name === 'string' ? s.name : `系列${i + 1}`,
+                points: parsePlotPoints(s.points),
+                ...(fit && fit.points.length > 1 ? { fit } : {}),
+            };
+        });
+    }
+    if (Array.isArray(raw.categories) && Array.isArray(raw.bars)) {
+        plot.categories = raw.categories.map((c) => String(c ?? ''));
+        plot.bars = raw.bars.filter(isRecord).map((b, i) => ({
+            name: typeof b.name === 'string' ? b.name : `系列${i + 1}`,
+            values: (plot.categories ?? []).map((_, j) => {
+                const v = Array.isArray(b.values) ? b.values[j] : null;
+                return v === null || v === undefined || !Number.isFinite(Number(v)) ? null : Number(v);
+            }),
+        }));
+    }
+    if (Array.isArray(raw.slices)) {
+        plot.slices = raw.slices.filter(isRecord).flatMap((s) => {
+            const value = Number(s.value);
+            return Number.isFinite(value) && value > 0 ? [{ label: String(s.label ?? ''), value }] : [];
+        });
+    }
+    return plot;
+}
+
+// ---------------------------------------------------------------------------
+// Charts reading from tables
+// ---------------------------------------------------------------------------
+
+// Ids of all table blocks, in document order, including children of covers and composite rows.
+export function collectTableIds(blocks: TypstBlock[]): string[] {
+    return blocks.flatMap((b) => [...(b.type === 'table' ? [b.id] : []), ...collectTableIds(b.children ?? [])]);
+}
+
+// Tables whose content differs between two versions of the document, including added and deleted ones.
+export function changedTableIds(previous: TypstBlock[], next: TypstBlock[]): string[] {
+    const contents = (blocks: TypstBlock[], out = new Map<string, string>()): Map<string, string> => {
+        for (const b of blocks) {
+            if (b.type === 'table') out.set(b.id, b.content);
+            if (b.children?.length) contents(b.children, out);
+        }
+        return out;
+    };
+    const before = contents(previous);
+    const after = contents(next);
+    const ids = new Set([...before.keys(), ...after.keys()]);
+    return [...ids].filter((id) => before.get(id) !== after.get(id));
+}
+
+// Table selections sit under `tableSelection` keys (`xTableSelection`, `pieTableSelection`, ...),
+// at the top level of the chart payload or inside its series.
+function mapTableSelections(value: unknown, visit: (blockId: string) => string, key = ''): unknown {
+    if (Array.isArray(value)) return value.map((v) => mapTableSelections(v, visit));
+    if (!isRecord(value)) return value;
+    if (/tableSelection$/i.test(key) && typeof value.blockId === 'string') {
+        const blockId = visit(value.blockId);
+        return blockId === value.blockId ? value : { ...value, blockId };
+    }
+    let changed = false;
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+        out[k] = mapTableSelections(v, visit, k);
+        if (out[k] !== v) changed = true;
+    }
+    return changed ? out : value;
+}
+
+function parseChartJson(content: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+// Ids of the tables a chart block's data selections point at.
+export function chartTableIds(content: string): string[] {
+    const ids: string[] = [];
+    mapTableSelections(parseChartJson(content), (blockId) => {
+        ids.push(blockId);
+        return blockId;
+    });
+    return ids;
+}
+
+let chartContentResolver: ((content: string, allBlocks: TypstBlock[]) => string) | null = null;
+
+/**
+ * Register the function that recomputes a chart block's stored plot from the document's tables.
+ * The chart editor owns the data conversion and registers it when loaded; until then
+ * `refreshChartPlots` leaves charts as they are.
+ */
+export function registerChartContentResolver(resolver: (content: string, allBlocks: TypstBlock[]) => string): void {
+    chartContentResolver = resolver;
+}
+
+/**
+ * Charts store their resolved data, so after `tableIds` changed (deleted tables included), the
+ * charts selecting from them are redrawn, including those in covers and composite rows.
+ */
+export function refreshChartPlots(blocks: TypstBlock[], tableIds: string[], allBlocks: TypstBlock[] = blocks): TypstBlock[] {
+    const resolve = chartContentResolver;
+    if (!resolve || tableIds.length === 0) return blocks;
+    let changed = false;
+    const next = blocks.map((b) => {
+        if (b.type === 'chart' && chartTableIds(b.content ?? '').some((id) => tableIds.includes(id))) {
+            const content = resolve(b.content ?? '', allBlocks);
+            if (content === b.content) return b;
+            changed = true;
+            return { ...b, content };
+        }
+        if (b.children?.length) {
+            const children = refreshChartPlots(b.children, tableIds, allBlocks);
+            if (children !== b.children) {
+                changed = true;
+                return { ...b, children };
+            }
+        }
+        return b;
+    });
+    return changed ? next : blocks;
+}
+
+/**
+ * Parsing source gives tables new ids. When the number of tables is unchanged, chart selections
+ * are pointed at the new ids in order; otherwise they cannot be matched and are left alone.
+ */
+export function relinkChartTables(blocks: TypstBlock[], previous: TypstBlock[]): TypstBlock[] {
+    const before = collectTableIds(previous);
+    const after = collectTableIds(blocks);
+    if (before.length !== after.length || before.every((id, i) => id === after[i])) return blocks;
+    const renamed = new Map(before.map((id, i) => [id, after[i]]));
+    const relink = (list: TypstBlock[]): TypstBlock[] => list.map((b) => {
+        if (b.type === 'chart') {
+            const parsed = parseChartJson(b.content ?? '');
+            const mapped = mapTableSelections(parsed, (id) => renamed.get(id) ?? id);
+            return mapped === parsed ? b : { ...b, content: JSON.stringify(mapped) };
+        }
+        return b.children?.length ? { ...b, children: relink(b.children) } : b;
+    });
+    return relink(blocks);
+}
@@ -0,0 +1,84 @@
+export type CodeLanguage = {
+    // Tag written after the opening fence (```python); Typst resolves it to a syntax definition.
+    id: string;
+    name: string;
+    // Source file extensions (lower case, without the dot) mapped to this language on import.
+    extensions: string[];
+};
+
+// Languages Typst highlights out of the box, most common lab-report choices first.
+export const TYPST_CODE_LANGUAGES: CodeLanguage[] = [
+    { id: 'python', name: 'Python', extensions: ['py', 'pyw'] },
+    { id: 'c', name: 'C', extensions: ['c', 'h'] },
+    { id: 'cpp', name: 'C++', extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx'] },
+    { id: 'matlab', name: 'MATLAB', extensions: ['m'] },
+    { id: 'java', name: 'Java', extensions: ['java'] },
+    { id: 'js', name: 'JavaScript', extensions: ['js', 'mjs', 'cjs'] },
+    { id: 'r', name: 'R', extensions: ['r'] },
+    { id: 'rust', name: 'Rust', extensions: ['rs'] },
+    { id: 'go', name: 'Go', extensions: ['go'] },
+    { id: 'cs', name: 'C#', extensions: ['cs'] },
+    { id: 'bash', name: 'Shell', extensions: ['sh', 'bash'] },
+    { id: 'sql', name: 'SQL', extensions: ['sql'] },
+    { id: 'html', name: 'HTML', extensions: ['html', 'htm'] },
+    { id: 'css', name: 'CSS', extensions: ['css'] },
+    { id: 'json', name: 'JSON', extensions: ['json'] },
+    { id: 'yaml', name: 'YAML', extensions: ['yaml', 'yml'] },
+    { id: 'xml', name: 'XML', extensions: ['xml'] },
+    { id: 'latex', name: 'LaTeX', extensions: ['tex'] },
+    { id: 'typ', name: 'Typst', extensions: ['typ'] },
+    { id: 'lua', name: 'Lua', extensions: ['lua'] },
+    { id: 'haskell', name: 'Haskell', extensions: ['hs'] },
+    { id: 'ruby', name: 'Ruby', extensions: ['rb'] },
+    { id: 'php', name: 'PHP', extensions: ['php'] },
+    { id: 'makefile', name: 'Makefile', extensions: ['mk'] },
+    { id: 'diff', name: 'Diff', extensions: ['diff', 'patch'] },
+    { id: 'txt', name: '纯文本', extensions: ['txt', 'dat', 'csv', 'log'] },
+];
+
+export function findCodeLanguage(id: string): CodeLanguage | undefined {
+    const key = (id ?? '').trim().toLowerCase();
+    return TYPST_CODE_LANGUAGES.find((l) => l.id === key || l.extensions.includes(key));
+}
+
+// Language for an imported source file, judged by its extension ("Makefile" by name).
+export function codeLanguageFromFileName(fileName: string): string | undefined {
+    const name = (fileName ?? '').trim().split(/[\\/]/).pop() ?? '';
+    if (/^(gnu)?makefile$/i.test(name)) return 'makefile';
+    const dot = name.lastIndexOf('.');
+    if (dot <= 0) return undefined;
+    const ext = name.slice(dot + 1).toLowerCase();
+    return TYPST_CODE_LANGUAGES.find((l) => l.extensions.includes(ext))?.id;
+}
+
+/**
+ * Parse a highlighted line spec such as "2-4, 7" into sorted, de-duplicated 1-based line numbers.
+ * Returns null when the spec is malformed; an empty spec yields [].
+ */
+export function parseCodeLineRanges(spec: string, maxLine = 10000): number[] | null {
+    const out = new Set<number>();
+    const parts = (spec ?? '').replace(/\s*[-~\u2013]\s*/g, '-').split(/[,\uFF0C\s]+/).filter(Boolean);
+    for (const part of parts) {
+        const m = part.match(/^(\d+)(?:-(\d+))?$/);
+        if (!m) return null;
+        const a = Number(m[1]);
+        const b = m[2] !== undefined ? Number(m[2]) : a;
+        if (a < 1 || b < a) return null;
+        for (let n = a; n <= Math.min(b, maxLine); n++) out.add(n);
+    }
+    return Array.from(out).sort((x, y) => x - y);
+}
+
+// Canonical spelling of a line spec ("7,2-4,3" -> "2-4, 7"); malformed specs are returned trimmed.
+export function normalizeCodeLineRanges(spec: string): string {
+    const lines = parseCodeLineRanges(spec);
+    if (!lines) return (spec ?? '').trim();
+    const ranges: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        let j = i;
+        while (j + 1 < lines.length && lines[j + 1] === lines[j] + 1) j++;
+        ranges.push(i === j ? String(lines[i]) : `${lines[i]}-${lines[j]}`);
+        i = j;
+    }
+    return ranges.join(', ');
+}
@@ -0,0 +1,75 @@
+import { EquationNumbering } from './types';
+
+export const EQUATION_NUMBERING_OPTIONS: Array<{ value: EquationNumbering; label: string }> = [
+    { value: 'none', label: '无' },
+    { value: '(1)', label: '(1)' },
+    { value: '(1.1)', label: '(1.1)' },
+    { value: '(1-1)', label: '(1-1)' },
+];
+
+export function normalizeEquationNumbering(raw: unknown): EquationNumbering {
+    return EQUATION_NUMBERING_OPTIONS.some((o) => o.value === raw) ? (raw as EquationNumbering) : 'none';
+}
+
+/**
+ * Document-level equation numbering rules; empty when numbering is off.
+ * Chapter schemes prefix the level-1 heading number and restart the count at every level-1 heading.
+ */
+export function serializeEquationNumberingRule(numbering: EquationNumbering): string {
+    if (numbering === 'none') return '';
+    if (numbering === '(1)') return '#set math.equation(numbering: "(1)")';
+    return [
+        `#set math.equation(numbering: n => numbering("${numbering}", counter(heading).get().first(), n))`,
+        '#show heading.where(level: 1): it => { counter(math.equation).update(0); it }',
+    ].join('\n');
+}
+
+// Relations and arrows an equation line is aligned at, longest first so `<=` wins over `<`.
+const MATH_RELATIONS = ['<==>', '==>', '<=>', '=>', '->', '<-', '!=', '<=', '>=', ':=', '=', '<', '>', '≈', '≤', '≥', '≠', '≡', '→', '⇒'];
+const MATH_RELATION_WORDS = ['approx', 'equiv', 'eq', 'lt', 'gt', 'leq', 'geq', 'neq', 'prop', 'arrow.r', 'arrow.r.double'];
+
+// Index of the first relation outside brackets and strings, or -1.
+function findAlignIndex(line: string): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+        else if (depth > 0) continue;
+        else if (MATH_RELATIONS.some((r) => line.startsWith(r, i))) return i;
+        else if (/[A-Za-z]/.test(ch) && !/[A-Za-z.]/.test(line[i - 1] ?? '')) {
+            const word = line.slice(i).match(/^[A-Za-z.]+/)![0];
+            if (MATH_RELATION_WORDS.includes(word)) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Insert an alignment point `&` before the first top-level relation of a Typst math line.
+ * Lines that already carry `&` or have no relation are returned unchanged.
+ */
+export function insertMathAlignPoint(line: string): string {
+    if (line.includes('&')) return line;
+    const idx = findAlignIndex(line);
+    if (idx < 0) return line;
+    return `${line.slice(0, idx).trimEnd()} &${line.slice(idx)}`;
+}
+
+/**
+ * Split a math line at its alignment point into the part left of the relation and the rest.
+ * Without an alignment point the whole line is the right-hand side.
+ */
+export function splitMathAlignPoint(line: string): [string, string] {
+    const aligned = insertMathAlignPoint(line);
+    const idx = aligned.indexOf('&');
+    if (idx < 0) return ['', aligned.trim()];
+    return [aligned.slice(0, idx).trim(), aligned.slice(idx + 1).trim()];
+}
@@ -0,0 +1,121 @@
+import { HeadingNumbering, HeadingNumberingPreset } from './types';
+import { toTypstStringLiteral } from './utils-base';
+
+export const HEADING_NUMBERING_PRESETS: Record<Exclude<HeadingNumberingPreset, 'custom'>, string[]> = {
+    none: [],
+    chinese: ['一、', '（一）', '1.', '(1)'],
+    decimal: ['1', '1.1', '1.1.1', '1.1.1.1'],
+};
+
+export const MAX_HEADING_NUMBERING_LEVELS = 6;
+
+// Typst counting symbols; a pattern like "1.1" consumes one number per symbol.
+const COUNTING_SYMBOLS = new Set(['1', 'a', 'A', 'i', 'I', 'α', 'Α', '一', '壹', 'あ', 'い', 'ア', 'イ', 'א', '가', 'ㄱ', '*', '①', '⓵']);
+
+export function countNumberingSymbols(pattern: string): number {
+    return Array.from(pattern).filter((ch) => COUNTING_SYMBOLS.has(ch)).length;
+}
+
+/**
+ * Pattern that formats `count` numbers the way Typst formats them with `pattern`. Typst repeats
+ * the last counting symbol for numbers past the pattern's own (with its prefix, or the suffix as
+ * separator), so "1." shows "1.1.1." for three numbers; the expanded pattern spells that out.
+ */
+export function expandNumberingPattern(pattern: string, count: number): string {
+    const chars = Array.from(pattern);
+    const symbols = chars.flatMap((ch, i) => (COUNTING_SYMBOLS.has(ch) ? [i] : []));
+    if (symbols.length === 0 || count <= symbols.length) return pattern;
+    const last = symbols[symbols.length - 1];
+    const prefix = chars.slice(symbols.length > 1 ? symbols[symbols.length - 2] + 1 : 0, last).join('');
+    const suffix = chars.slice(last + 1).join('');
+    const repeated = `${prefix || suffix}${chars[last]}`.repeat(count - symbols.length);
+    return `${chars.slice(0, last + 1).join('')}${repeated}${suffix}`;
+}
+
+// Preset whose levels equal `levels`, or 'custom'.
+export function detectHeadingNumberingPreset(levels: string[]): HeadingNumberingPreset {
+    for (const [preset, presetLevels] of Object.entries(HEADING_NUMBERING_PRESETS)) {
+        if (presetLevels.length === levels.length && presetLevels.every((p, i) => p === levels[i])) {
+            return preset as HeadingNumberingPreset;
+        }
+    }
+    return 'custom';
+}
+
+export function headingNumberingFromPreset(preset: HeadingNumberingPreset): HeadingNumbering {
+    return preset === 'custom'
+        ? { preset, levels: [...HEADING_NUMBERING_PRESETS.decimal] }
+        : { preset, levels: [...HEADING_NUMBERING_PRESETS[preset]] };
+}
+
+export function normalizeHeadingNumbering(raw: unknown): HeadingNumbering {
+    if (typeof raw !== 'object' || raw === null) return headingNumberingFromPreset('none');
+    const r = raw as Record<string, unknown>;
+    const levels = Array.isArray(r.levels)
+        ? r.levels.slice(0, MAX_HEADING_NUMBERING_LEVELS).map((v) => (typeof v === 'string' ? v : ''))
+        : [];
+    const preset = r.preset === 'custom' ? 'custom' : detectHeadingNumberingPreset(levels);
+    return { preset, levels };
+}
+
+// Drop trailing unnumbered levels; nothing left means numbering is off.
+function effectiveLevels(numbering: HeadingNumbering): string[] {
+    const levels = numbering.levels.map((p) => p.trim());
+    while (levels.length > 0 && !levels[levels.length - 1]) levels.pop();
+    return levels;
+}
+
+/**
+ * `#set heading(numbering: ...)` rule for the document; empty when numbering is off.
+ * Each level formats the last N heading numbers, N being the counting symbols in its pattern,
+ * so "（一）" shows only its own number while "1.1" shows the parent's as well.
+ */
+export function serializeHeadingNumberingRule(numbering: HeadingNumbering): string {
+    const levels = effectiveLevels(numbering);
+    if (levels.length === 0) return '';
+    const tuple = levels.map((p) => `("${toTypstStringLiteral(p)}", ${Math.max(1, countNumberingSymbols(p))})`).join(', ');
+    return (
+        `#set heading(numbering: (..nums) => { let n = nums.pos(); let levels = (${tuple},); ` +
+        `if n.len() <= levels.len() and levels.at(n.len() - 1).at(0) != "" { ` +
+        `let (p, k) = levels.at(n.len() - 1); numbering(p, ..n.slice(calc.max(0, n.len() - k))) } })`
+    );
+}
+
+/**
+ * Parse a `#set heading(numbering: ...)` line: our own per-level form, a plain pattern string
+ * (spelled out per level as Typst applies it, parents' numbers included) or `none`. Returns
+ * null for anything else.
+ */
+export function parseHeadingNumberingRule(line: string): HeadingNumbering | null {
+    const m = line.trim().match(/^#set\s+heading\s*\(\s*numbering\s*:\s*(.+)\)$/);
+    if (!m) return null;
+    const value = m[1].trim();
+
+    if (value === 'none') return headingNumberingFromPreset('none');
+
+    const plain = value.match(/^"((?:[^"\\]|\\.)*)"$/);
+    if (plain) {
+        const pattern = JSON.parse(`"${plain[1]}"`) as string;
+        const levels = Array.from({ length: MAX_HEADING_NUMBERING_LEVELS }, (_, i) => expandNumberingPattern(pattern, i + 1));
+        return { preset: detectHeadingNumberingPreset(levels), levels };
+    }
+
+    const tuple = value.match(/let levels = \((.*?),?\);/);
+    if (!tuple) return null;
+    const levels = Array.from(tuple[1].matchAll(/\("((?:[^"\\]|\\.)*)",\s*\d+\)/g), (e) => JSON.parse(`"${e[1]}"`) as string);
+    return { preset: detectHeadingNumberingPreset(levels), levels };
+}
+
+/**
+ * Remove `#set heading(numbering: ...)` lines from source code (e.g. typed in source mode)
+ * and return the last rule found, which callers store in DocumentSettings.
+ */
+export function extractHeadingNumberingRule(code: string): { code: string; numbering: HeadingNumbering | null } {
+    let numbering: HeadingNumbering | null = null;
+    const kept = code.split('\n').filter((line) => {
+        const parsed = parseHeadingNumberingRule(line);
+        if (parsed) numbering = parsed;
+        return !parsed;
+    });
+    return { code: numbering ? kept.join('\n') : code, numbering };
+}
@@ -0,0 +1,83 @@
+import {
+    BlockType,
+    TypstBlock,
+} from './types';
+import { safeParseTablePayload } from './utils-table';
+import { safeParseChartPayload } from './utils-chart';
+
+// Block types that can carry a Typst `<label>` and be cross-referenced with `@label`.
+export const LABELABLE_BLOCK_TYPES: BlockType[] = ['image', 'table', 'chart', 'math', 'code'];
+
+export function isLabelableBlock(block: TypstBlock): boolean {
+    return LABELABLE_BLOCK_TYPES.includes(block.type);
+}
+
+/**
+ * Normalize user input into a valid Typst label name.
+ * Accepts "<fig-1>", "@fig-1" or "fig 1" and returns "fig-1".
+ */
+export function normalizeTypstLabel(raw: string): string {
+    return (raw ?? '')
+        .trim()
+        .replace(/^[<@]+/, '')
+        .replace(/>+$/, '')
+        .replace(/\s+/g, '-')
+        .replace(/[^A-Za-z0-9_\-:.一-龥]/g, '');
+}
+
+// Serialized label suffix (with leading space), or empty string when the block has no label.
+export function formatTypstLabel(label?: string): string {
+    const normalized = normalizeTypstLabel(label ?? '');
+    return normalized ? ` <${normalized}>` : '';
+}
+
+// Find a `<label>` attached to a serialized block line.
+export function extractTypstLabel(line: string): string | undefined {
+    const m = (line ?? '').match(/[\])$]\s*<([A-Za-z_一-龥][A-Za-z0-9_\-:.一-龥]*)>/);
+    return m ? m[1] : undefined;
+}
+
+export type LabelledBlockRef = {
+    blockId: string;
+    label: string;
+    type: BlockType;
+    // Human-readable hint for pickers (caption, chart title, formula...)
+    description: string;
+};
+
+/**
+ * Collect every labelled block in document order, including blocks nested in
+ * cover containers and composite rows.
+ */
+export function collectLabelledBlocks(blocks: TypstBlock[]): LabelledBlockRef[] {
+    const out: LabelledBlockRef[] = [];
+
+    const describe = (block: TypstBlock): string => {
+        switch (block.type) {
+            case 'image':
+            case 'code':
+                return (block.caption ?? '').trim();
+            case 'table':
+                return (safeParseTablePayload(block.content ?? '').caption ?? '').trim();
+            case 'chart':
+                return safeParseChartPayload(block.content ?? '').title.trim();
+            case 'math':
+                return (block.mathLatex || block.mathTypst || block.content || '').trim();
+            default:
+                return '';
+        }
+    };
+
+    const visit = (list: TypstBlock[]) => {
+        for (const block of list) {
+            if (Array.isArray(block.children)) visit(block.children);
+            if (!isLabelableBlock(block)) continue;
+            const label = normalizeTypstLabel(block.label ?? '');
+            if (!label) continue;
+            out.push({ blockId: block.id, label, type: block.type, description: describe(block) });
+        }
+    };
+
+    visit(blocks);
+    return out;
+}
@@ -0,0 +1,101 @@
+import { TypstBlock } from './types';
+import { safeParseTablePayload } from './utils-table';
+import { safeParseChartPayload } from './utils-chart';
+
+export type OutlineEntryKind = 'heading' | 'figure' | 'table';
+
+export type OutlineEntry = {
+    kind: OutlineEntryKind;
+    blockId: string;
+    // Top-level block index (figures inside composite rows point at their row).
+    blockIndex: number;
+    // Heading level (1-6); figures and tables sit one level below the enclosing heading.
+    level: number;
+    title: string;
+};
+
+// Plain-text rendering of inline markup for outline labels.
+function plainText(content: string): string {
+    return (content ?? '')
+        .replace(/\u200B/g, '')
+        .replace(/#[a-z]+\([^)]*\)\[([^\]]*)\]/g, '$1')
+        .replace(/[*_`$]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Outline of the document in order: headings plus figures (images, charts) and tables.
+ */
+export function buildDocumentOutline(blocks: TypstBlock[]): OutlineEntry[] {
+    const out: OutlineEntry[] = [];
+    let headingLevel = 0;
+
+    const visit = (block: TypstBlock, blockIndex: number) => {
+        const level = Math.min(6, headingLevel + 1);
+        switch (block.type) {
+            case 'image':
+                out.push({ kind: 'figure', blockId: block.id, blockIndex, level, title: plainText(block.caption ?? '') || '图片' });
+                break;
+            case 'chart':
+                out.push({
+                    kind: 'figure',
+                    blockId: block.id,
+                    blockIndex,
+                    level,
+                    title: safeParseChartPayload(block.content ?? '').title.trim() || '图表',
+                });
+                break;
+            case 'table':
+                out.push({
+                    kind: 'table',
+                    blockId: block.id,
+                    blockIndex,
+                    level,
+                    title: plainText(safeParseTablePayload(block.content ?? '').caption ?? '') || '表格',
+                });
+                break;
+            case 'composite_row':
+                for (const child of block.children ?? []) visit(child, blockIndex);
+                break;
+        }
+    };
+
+    blocks.forEach((block, blockIndex) => {
+        if (block.type === 'heading') {
+            headingLevel = Math.min(6, Math.max(1, block.level ?? 1));
+            out.push({ kind: 'heading', blockId: block.id, blockIndex, level: headingLevel, title: plainText(block.content) || '(无标题)' });
+            return;
+        }
+        visit(block, blockIndex);
+    });
+    return out;
+}
+
+/**
+ * Block range [start, end) moved together with the block at `index`: a heading owns every
+ * following block until the next heading of equal or higher level; other blocks move alone.
+ */
+export function getSectionRange(blocks: TypstBlock[], index: number): [number, number] {
+    const head = blocks[index];
+    if (!head || head.type !== 'heading') return [index, index + 1];
+    const level = head.level ?? 1;
+    let end = index + 1;
+    while (end < blocks.length && !(blocks[end].type === 'heading' && (blocks[end].level ?? 1) <= level)) end++;
+    return [index, end];
+}
+
+/**
+ * Move the section starting at `fromIndex` so it lands before the block currently at
+ * `toIndex` (`blocks.length` appends). Returns `blocks` unchanged when the target lies
+ * inside the section itself.
+ */
+export function moveSection(blocks: TypstBlock[], fromIndex: number, toIndex: number): TypstBlock[] {
+    const [start, end] = getSectionRange(blocks, fromIndex);
+    if (toIndex >= start && toIndex <= end) return blocks;
+
+    const section = blocks.slice(start, end);
+    const rest = [...blocks.slice(0, start), ...blocks.slice(end)];
+    const insertAt = toIndex > end ? toIndex - section.length : toIndex;
+    return [...rest.slice(0, insertAt), ...section, ...rest.slice(insertAt)];
+}
@@ -0,0 +1,328 @@
+import { PersistedTablePayload } from './types';
+
+// Spreadsheet-style formulas in table cells, e.g. `=AVERAGE(B2:B6)` or `=B2*C2`.
+// References use A1 notation over the whole grid (row 1 is the first table row).
+
+export type FormulaError = '#REF!' | '#DIV/0!' | '#NAME?' | '#VALUE!' | '#CYCLE!' | '#ERROR!';
+
+type Value = number | number[];
+
+class FormulaFailure extends Error {
+    constructor(readonly code: FormulaError) {
+        super(code);
+    }
+}
+
+export function isTableFormula(text: string): boolean {
+    return /^=\s*\S/.test((text ?? '').trim());
+}
+
+// 0 -> "A", 25 -> "Z", 26 -> "AA"
+export function tableColumnLabel(col: number): string {
+    let n = col + 1;
+    let out = '';
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        out = String.fromCharCode(65 + rem) + out;
+        n = Math.floor((n - 1) / 26);
+    }
+    return out;
+}
+
+export function parseTableCellRef(ref: string): { r: number; c: number } | null {
+    const m = ref.toUpperCase().match(/^\$?([A-Z]+)\$?(\d+)$/);
+    if (!m) return null;
+    let c = 0;
+    for (const ch of m[1]) c = c * 26 + (ch.charCodeAt(0) - 64);
+    return { r: Number(m[2]) - 1, c: c - 1 };
+}
+
+// Numeric value of a plain cell; strips inline math/markup delimiters ("$1.5$", "*2*").
+export function parseTableNumber(content: string): number | null {
+    const text = (content ?? '').replace(/[$*_\s\u200B]/g, '').replace(/,/g, '').replace(/\u2212/g, '-');
+    if (!text || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?%?$/i.test(text)) return null;
+    const n = Number(text.replace('%', ''));
+    if (!Number.isFinite(n)) return null;
+    return text.endsWith('%') ? n / 100 : n;
+}
+
+/**
+ * Format with `digits` significant figures, keeping trailing zeros ("2.50"); without
+ * `digits`, up to 6 significant figures with trailing zeros dropped.
+ */
+export function formatSignificant(value: number, digits?: number | null): string {
+    if (!Number.isFinite(value)) return '#VALUE!';
+    if (value === 0) return digits && digits > 1 ? (0).toFixed(digits - 1) : '0';
+    if (!digits) return String(Number(value.toPrecision(6)));
+    const d = Math.min(15, Math.max(1, Math.round(digits)));
+    const rounded = Number(value.toPrecision(d));
+    const magnitude = Math.floor(Math.log10(Math.abs(rounded)));
+    if (magnitude >= 15 || magnitude < -6) return value.toPrecision(d);
+    return rounded.toFixed(Math.max(0, d - 1 - magnitude));
+}
+
+type Token = { kind: 'num'; value: number } | { kind: 'ref'; text: string } | { kind: 'name'; text: string } | { kind: 'op'; text: string };
+
+function tokenize(src: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < src.length) {
+        const ch = src[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        const num = src.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+        if (num) {
+            tokens.push({ kind: 'num', value: Number(num[0]) });
+            i += num[0].length;
+            continue;
+        }
+        const word = src.slice(i).match(/^\$?[A-Za-z]+\$?\d*/);
+        if (word) {
+            const text = word[0];
+            // Function names such as LOG10 also look like cell references; a call takes precedence.
+            const isCall = text.toUpperCase() in FUNCTIONS && /^\s*\(/.test(src.slice(i + text.length));
+            tokens.push(!isCall && parseTableCellRef(text) ? { kind: 'ref', text } : { kind: 'name', text: text.toUpperCase() });
+            i += text.length;
+            continue;
+        }
+        if ('+-*/^(),:;%'.includes(ch)) {
+            tokens.push({ kind: 'op', text: ch === ';' ? ',' : ch });
+            i++;
+            continue;
+        }
+        throw new FormulaFailure('#ERROR!');
+    }
+    return tokens;
+}
+
+const flatten = (values: Value[]): number[] => values.flatMap((v) => (Array.isArray(v) ? v : [v]));
+
+const scalar = (v: Value): number => {
+    if (Array.isArray(v)) {
+        if (v.length !== 1) throw new FormulaFailure('#VALUE!');
+        return v[0];
+    }
+    return v;
+};
+
+const nonEmpty = (nums: number[]): number[] => {
+    if (nums.length === 0) throw new FormulaFailure('#DIV/0!');
+    return nums;
+};
+
+const mean = (nums: number[]) => nonEmpty(nums).reduce((a, b) => a + b, 0) / nums.length;
+
+const stdev = (nums: number[], sample: boolean) => {
+    const m = mean(nums);
+    const n = sample ? nums.length - 1 : nums.length;
+    if (n <= 0) throw new FormulaFailure('#DIV/0!');
+    return Math.sqrt(nums.reduce((acc, x) => acc + (x - m) ** 2, 0) / n);
+};
+
+const FUNCTIONS: Record<string, (args: Value[]) => number> = {
+    SUM: (a) => flatten(a).reduce((x, y) => x + y, 0),
+    AVERAGE: (a) => mean(flatten(a)),
+    MIN: (a) => Math.min(...nonEmpty(flatten(a))),
+    MAX: (a) => Math.max(...nonEmpty(flatten(a))),
+    COUNT: (a) => flatten(a).length,
+    STDEV: (a) => stdev(flatten(a), true),
+    STDEVP: (a) => stdev(flatten(a), false),
+    SQRT: (a) => Math.sqrt(scalar(a[0])),
+    ABS: (a) => Math.abs(scalar(a[0])),
+    POWER: (a) => scalar(a[0]) ** scalar(a[1]),
+    EXP: (a) => Math.exp(scalar(a[0])),
+    LN: (a) => Math.log(scalar(a[0])),
+    LOG10: (a) => Math.log10(scalar(a[0])),
+    ROUND: (a) => {
+        const f = 10 ** scalar(a[1] ?? 0);
+        return Math.round(scalar(a[0]) * f) / f;
+    },
+    PI: () => Math.PI,
+};
+FUNCTIONS.AVG = FUNCTIONS.AVERAGE;
+FUNCTIONS.STD = FUNCTIONS.STDEV;
+
+// Parse and evaluate one formula; `cellValue` resolves references (null for empty/non-numeric cells).
+function evaluateFormula(formula: string, cellValue: (r: number, c: number) => number | null): number {
+    const tokens = tokenize(formula.trim().replace(/^=/, ''));
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const isOp = (text: string) => peek()?.kind === 'op' && (peek() as { text: string }).text === text;
+    const expectOp = (text: string) => {
+        if (!isOp(text)) throw new FormulaFailure('#ERROR!');
+        pos++;
+    };
+
+    const range = (from: string, to: string): number[] => {
+        const a = parseTableCellRef(from)!;
+        const b = parseTableCellRef(to);
+        if (!b) throw new FormulaFailure('#REF!');
+        const out: number[] = [];
+        for (let r = Math.min(a.r, b.r); r <= Math.max(a.r, b.r); r++) {
+            for (let c = Math.min(a.c, b.c); c <= Math.max(a.c, b.c); c++) {
+                const v = cellValue(r, c);
+                if (v !== null) out.push(v);
+            }
+        }
+        return out;
+    };
+
+    const primary = (): Value => {
+        const t = peek();
+        if (!t) throw new FormulaFailure('#ERROR!');
+        pos++;
+        if (t.kind === 'num') return t.value;
+        if (t.kind === 'ref') {
+            if (isOp(':')) {
+                pos++;
+                const end = peek();
+                if (end?.kind !== 'ref') throw new FormulaFailure('#REF!');
+                pos++;
+                return range(t.text, end.text);
+            }
+            const { r, c } = parseTableCellRef(t.text)!;
+            return cellValue(r, c) ?? 0;
+        }
+        if (t.kind === 'name') {
+            const fn = FUNCTIONS[t.text];
+            if (!fn) throw new FormulaFailure('#NAME?');
+            expectOp('(');
+            const args: Value[] = [];
+            if (!isOp(')')) {
+                args.push(expr());
+                while (isOp(',')) {
+                    pos++;
+                    args.push(expr());
+                }
+            }
+            expectOp(')');
+            return fn(args);
+        }
+        if (t.text === '(') {
+            const v = expr();
+            expectOp(')');
+            return v;
+        }
+        if (t.text === '-') return -scalar(unary());
+        if (t.text === '+') return scalar(unary());
+        throw new FormulaFailure('#ERROR!');
+    };
+
+    const unary = (): Value => {
+        let v = primary();
+        while (isOp('%')) {
+            pos++;
+            v = scalar(v) / 100;
+        }
+        return v;
+    };
+
+    const power = (): Value => {
+        const base = unary();
+        if (!isOp('^')) return base;
+        pos++;
+        return scalar(base) ** scalar(power());
+    };
+
+    const term = (): Value => {
+        let v = power();
+        while (isOp('*') || isOp('/')) {
+            const op = (tokens[pos++] as { text: string }).text;
+            const rhs = scalar(power());
+            if (op === '/' && rhs === 0) throw new FormulaFailure('#DIV/0!');
+            v = op === '*' ? scalar(v) * rhs : scalar(v) / rhs;
+        }
+        return v;
+    };
+
+    const expr = (): Value => {
+        let v = term();
+        while (isOp('+') || isOp('-')) {
+            const op = (tokens[pos++] as { text: string }).text;
+            const rhs = scalar(term());
+            v = op === '+' ? scalar(v) + rhs : scalar(v) - rhs;
+        }
+        return v;
+    };
+
+    const result = scalar(expr());
+    if (pos !== tokens.length) throw new FormulaFailure('#ERROR!');
+    if (!Number.isFinite(result)) throw new FormulaFailure('#VALUE!');
+    return result;
+}
+
+/**
+ * Whether the formula only uses syntax, functions and references the evaluator supports
+ * within a `rows` x `cols` table, e.g. to decide if an imported spreadsheet formula can be kept.
+ */
+export function isSupportedTableFormula(formula: string, rows: number, cols: number): boolean {
+    try {
+        evaluateFormula(formula, (r, c) => {
+            if (r < 0 || c < 0 || r >= rows || c >= cols) throw new FormulaFailure('#REF!');
+            return 1;
+        });
+        return true;
+    } catch (e) {
+        return e instanceof FormulaFailure && !['#NAME?', '#ERROR!', '#REF!'].includes(e.code);
+    }
+}
+
+/**
+ * Evaluate every cell of the table. Formula cells become their formatted result (or an error
+ * code such as "#REF!"), using the column's significant digits; other cells keep their content.
+ */
+export function evaluateTableFormulas(payload: PersistedTablePayload): string[][] {
+    const { rows, cols, cells } = payload;
+    const state = new Map<string, 'visiting' | number | FormulaError | null>();
+
+    // Numeric value of a cell, or null for empty/non-numeric text.
+    const cellValue = (r: number, c: number): number | null => {
+        if (r < 0 || c < 0 || r >= rows || c >= cols) throw new FormulaFailure('#REF!');
+        const cell = cells[r]?.[c];
+        if (!cell) return null;
+        if (!cell.formula || !isTableFormula(cell.formula)) return parseTableNumber(cell.content);
+        const key = `${r}:${c}`;
+        const cached = state.get(key);
+        if (cached === 'visiting') throw new FormulaFailure('#CYCLE!');
+        if (typeof cached === 'string') throw new FormulaFailure(cached);
+        if (cached !== undefined) return cached;
+        state.set(key, 'visiting');
+        try {
+            const v = evaluateFormula(cell.formula, cellValue);
+            state.set(key, v);
+            return v;
+        } catch (e) {
+            const code = e instanceof FormulaFailure ? e.code : '#ERROR!';
+            state.set(key, code);
+            throw new FormulaFailure(code);
+        }
+    };
+
+    return Array.from({ length: rows }, (_, r) =>
+        Array.from({ length: cols }, (_, c) => {
+            const cell = cells[r]?.[c];
+            if (!cell) return '';
+            if (!cell.formula || !isTableFormula(cell.formula) || cell.hidden) return cell.content ?? '';
+            try {
+                const v = cellValue(r, c);
+                return v === null ? '' : formatSignificant(v, payload.columnPrecision?.[c]);
+            } catch (e) {
+                return e instanceof FormulaFailure ? e.code : '#ERROR!';
+            }
+        })
+    );
+}
+
+// Copy of the payload whose formula cells carry their current result as `content`.
+export function applyTableFormulas(payload: PersistedTablePayload): PersistedTablePayload {
+    if (!payload.cells.some((row) => row.some((cell) => cell.formula))) return payload;
+    const values = evaluateTableFormulas(payload);
+    return {
+        ...payload,
+        cells: payload.cells.map((row, r) =>
+            row.map((cell, c) => (cell.formula ? { ...cell, content: values[r][c] } : cell))
+        ),
+    };
+}
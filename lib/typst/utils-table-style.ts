@@ -0,0 +1,95 @@
+import { PersistedTablePayload, TableStrokeSpec, TableStyle, UserTableStyle } from './types';
+import { normalizeTableFill } from './utils-table';
+
+const NO_LINES: TableStrokeSpec = { top: 0, bottom: 0, left: 0, right: 0, header: 0, rows: 0, cols: 0 };
+
+export const TABLE_STYLE_PRESETS: Array<{ id: Exclude<TableStyle, 'custom'>; name: string; spec: TableStrokeSpec }> = [
+    { id: 'normal', name: '普通表格', spec: { top: 0.8, bottom: 0.8, left: 0.8, right: 0.8, header: 0.8, rows: 0.8, cols: 0.8 } },
+    { id: 'three-line', name: '三线表', spec: { ...NO_LINES, top: 1.6, bottom: 1.6, header: 0.8 } },
+    { id: 'booktabs', name: 'Booktabs', spec: { ...NO_LINES, top: 1, bottom: 1, header: 0.5 } },
+    { id: 'booktabs-rows', name: 'Booktabs（行细线）', spec: { ...NO_LINES, top: 1, bottom: 1, header: 0.5, rows: 0.25 } },
+    { id: 'zebra', name: '斑马纹', spec: { ...NO_LINES, top: 0.8, bottom: 0.8, header: 0.8, headerFill: '#d9d9d9', zebra: '#f2f2f2' } },
+    { id: 'header-rule', name: '仅表头线', spec: { ...NO_LINES, header: 0.8 } },
+    { id: 'plain', name: '无边框', spec: NO_LINES },
+];
+
+const TABLE_STYLE_IDS: TableStyle[] = [...TABLE_STYLE_PRESETS.map((p) => p.id), 'custom'];
+
+export function normalizeTableStyle(raw: unknown): TableStyle {
+    return TABLE_STYLE_IDS.find((id) => id === raw) ?? 'normal';
+}
+
+const clampWidth = (raw: unknown, fallback: number) => {
+    const n = Number(raw);
+    return Number.isFinite(n) && n >= 0 ? Math.min(5, Math.round(n * 100) / 100) : fallback;
+};
+
+export function normalizeTableStrokeSpec(raw: unknown, fallback: TableStrokeSpec = TABLE_STYLE_PRESETS[0].spec): TableStrokeSpec {
+    const r = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+    const spec: TableStrokeSpec = {
+        top: clampWidth(r.top, fallback.top),
+        bottom: clampWidth(r.bottom, fallback.bottom),
+        left: clampWidth(r.left, fallback.left),
+        right: clampWidth(r.right, fallback.right),
+        header: clampWidth(r.header, fallback.header),
+        rows: clampWidth(r.rows, fallback.rows),
+        cols: clampWidth(r.cols, fallback.cols),
+    };
+    const headerFill = normalizeTableFill(r.headerFill);
+    const zebra = normalizeTableFill(r.zebra);
+    if (headerFill) spec.headerFill = headerFill;
+    if (zebra) spec.zebra = zebra;
+    return spec;
+}
+
+export function normalizeUserTableStyles(raw: unknown): UserTableStyle[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((item) => {
+        if (typeof item !== 'object' || item === null) return [];
+        const r = item as Record<string, unknown>;
+        if (typeof r.id !== 'string' || !r.id) return [];
+        return [{ id: r.id, name: typeof r.name === 'string' && r.name.trim() ? r.name.trim() : '自定义样式', spec: normalizeTableStrokeSpec(r.spec) }];
+    });
+}
+
+/**
+ * Rules and fills a table is drawn with: a document style it refers to, else its own custom
+ * spec, else the preset of its style.
+ */
+export function resolveTableStrokeSpec(
+    payload: PersistedTablePayload,
+    userStyles: UserTableStyle[] = []
+): TableStrokeSpec {
+    const user = payload.userStyle ? userStyles.find((s) => s.id === payload.userStyle) : undefined;
+    if (user) return user.spec;
+    if (payload.style === 'custom' || payload.userStyle) return normalizeTableStrokeSpec(payload.stroke);
+    return (TABLE_STYLE_PRESETS.find((p) => p.id === payload.style) ?? TABLE_STYLE_PRESETS[0]).spec;
+}
+
+const pt = (width: number) => `${width}pt`;
+
+/**
+ * `#table` arguments drawing `spec`: a per-cell stroke for inner lines (so merged cells are
+ * not crossed), explicit hlines/vlines for the outer edges and header rule, and a fill function.
+ * `headerEnd` is the first body row.
+ */
+export function serializeTableStrokeArgs(spec: TableStrokeSpec, rows: number, cols: number, headerEnd: number): string[] {
+    const headerRule = spec.header > 0 && headerEnd < rows;
+
+    const inner: string[] = [];
+    if (spec.cols > 0) inner.push(`left: if x > 0 { ${pt(spec.cols)} }`);
+    if (spec.rows > 0) inner.push(`top: if y > 0${headerRule ? ` and y != ${headerEnd}` : ''} { ${pt(spec.rows)} }`);
+    const args = [inner.length ? `stroke: (x, y) => (${inner.join(', ')})` : 'stroke: none'];
+
+    const fills: string[] = [];
+    if (spec.headerFill) fills.push(`if y < ${headerEnd} { rgb("${spec.headerFill}") }`);
+    if (spec.zebra) fills.push(`if y >= ${headerEnd} and calc.odd(y - ${headerEnd}) { rgb("${spec.zebra}") }`);
+    if (fills.length) args.push(`fill: (x, y) => ${fills.join(' else ')}`);
+
+    if (spec.top > 0) args.push(`table.hline(y: 0, stroke: ${pt(spec.top)})`);
+    if (headerRule) args.push(`table.hline(y: ${headerEnd}, stroke: ${pt(spec.header)})`);
+    if (spec.bottom > 0) args.push(`table.hline(y: ${rows}, stroke: ${pt(spec.bottom)})`);
+    if (spec.left > 0) args.push(`table.vline(x: 0, stroke: ${pt(spec.left)})`);
+    if (spec.right > 0) args.push(`table.vline(x: ${cols}, stroke: ${pt(spec.right)})`);
+    return args;
+}
@@ -1,8 +1,33 @@
 import {
     PersistedTablePayload,
     PersistedTableCell,
-    TableStyle,
+    PersistedTableColumn,
+    TableHAlign,
+    TableVAlign,
 } from './types';
+import { normalizeTypstLength } from './utils-base';
+import { normalizeTableStrokeSpec, normalizeTableStyle } from './utils-table-style';
+
+const TABLE_H_ALIGNS: TableHAlign[] = ['left', 'center', 'right'];
+const TABLE_V_ALIGNS: TableVAlign[] = ['top', 'horizon', 'bottom'];
+
+const asHAlign = (v: unknown): TableHAlign | undefined => TABLE_H_ALIGNS.find((a) => a === v);
+const asVAlign = (v: unknown): TableVAlign | undefined => TABLE_V_ALIGNS.find((a) => a === v);
+
+/**
+ * Typst track size for a column: "auto", a fraction ("2fr"), a length ("30pt") or a
+ * percentage ("25%"). Returns null for anything else.
+ */
+export function normalizeTableColumnWidth(raw: unknown): string | null {
+    const v = typeof raw === 'string' ? raw.trim() : '';
+    if (v === 'auto') return v;
+    if (/^\d+(\.\d+)?(fr|%)$/.test(v)) return v;
+    return normalizeTypstLength(v, '') || null;
+}
+
+export function normalizeTableFill(raw: unknown): string | undefined {
+    return typeof raw === 'string' && /^#[0-9a-fA-F]{6}$/.test(raw) ? raw.toLowerCase() : undefined;
+}
 
 export function defaultTablePayload(rows = 2, cols = 2): PersistedTablePayload {
     return {
@@ -129,7 +154,7 @@ export function safeParseTablePayload(content: string): PersistedTablePayload {
         const rows = Math.max(1, Number(parsed['rows']) || (cellsValue as unknown[]).length || 1);
         const firstRow = (cellsValue as unknown[])[0];
         const cols = Math.max(1, Number(parsed['cols']) || (Array.isArray(firstRow) ? firstRow.length : 1));
-        const style: TableStyle = parsed['style'] === 'three-line' ? 'three-line' : 'normal';
+        const style = normalizeTableStyle(parsed['style']);
         const caption = typeof parsed['caption'] === 'string' ? (parsed['caption'] as string) : '';
 
         const cells: PersistedTableCell[][] = Array.from({ length: rows }, (_, r) => {
@@ -143,6 +168,10 @@ export function safeParseTablePayload(content: string): PersistedTablePayload {
                         rowspan: cellRec['rowspan'] ? Number(cellRec['rowspan']) : undefined,
                         colspan: cellRec['colspan'] ? Number(cellRec['colspan']) : undefined,
                         hidden: !!cellRec['hidden'],
+                        formula: typeof cellRec['formula'] === 'string' && cellRec['formula'] ? (cellRec['formula'] as string) : undefined,
+                        align: asHAlign(cellRec['align']),
+                        valign: asVAlign(cellRec['valign']),
+                        fill: normalizeTableFill(cellRec['fill']),
                     };
                 }
                 return { content: (cellIn ?? '').toString() };
@@ -153,7 +182,40 @@ export function safeParseTablePayload(content: string): PersistedTablePayload {
         // AI often marks cells as `hidden: true` but forgets to set colspan/rowspan on the master cell.
         inferMissingSpans(cells, rows, cols);
 
-        return { caption, style, rows, cols, cells };
+        const precisionValue = parsed['columnPrecision'];
+        const columnPrecision = Array.isArray(precisionValue)
+            ? Array.from({ length: cols }, (_, c) => {
+                const d = Number(precisionValue[c]);
+                return Number.isInteger(d) && d >= 1 && d <= 15 ? d : null;
+            })
+            : undefined;
+
+        const columnsValue = parsed['columns'];
+        const columns: PersistedTableColumn[] | undefined = Array.isArray(columnsValue)
+            ? Array.from({ length: cols }, (_, c) => {
+                const col: Record<string, unknown> = isRecord(columnsValue[c]) ? columnsValue[c] : {};
+                return {
+                    width: normalizeTableColumnWidth(col['width']) ?? undefined,
+                    align: asHAlign(col['align']),
+                    valign: asVAlign(col['valign']),
+                };
+            })
+            : undefined;
+
+        const headerRows = Math.min(rows, Math.max(0, Math.floor(Number(parsed['headerRows']) || 0)));
+
+        return {
+            caption,
+            style,
+            rows,
+            cols,
+            cells,
+            ...(columnPrecision ? { columnPrecision } : {}),
+            ...(columns ? { columns } : {}),
+            ...(headerRows ? { headerRows } : {}),
+            ...(isRecord(parsed['stroke']) ? { stroke: normalizeTableStrokeSpec(parsed['stroke']) } : {}),
+            ...(typeof parsed['userStyle'] === 'string' && parsed['userStyle'] ? { userStyle: parsed['userStyle'] as string } : {}),
+        };
     } catch {
         return defaultTablePayload();
     }
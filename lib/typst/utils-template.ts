@@ -0,0 +1,95 @@
+import { TemplateVariable, TemplateVariableType, TypstBlock } from './types';
+import { escapeTypstMarkup } from './utils-text';
+
+// Common report fields offered when a template declares its variables.
+export const TEMPLATE_VARIABLE_PRESETS: TemplateVariable[] = [
+    { key: 'name', label: '姓名', type: 'text', value: '' },
+    { key: 'studentId', label: '学号', type: 'number', value: '' },
+    { key: 'course', label: '课程', type: 'text', value: '' },
+    { key: 'date', label: '日期', type: 'date', value: '' },
+    { key: 'instructor', label: '指导教师', type: 'text', value: '' },
+];
+
+const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['text', 'number', 'date'];
+
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export function isValidTemplateVariableKey(key: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key);
+}
+
+// `{{key}}` placeholder text for a variable.
+export function templatePlaceholder(key: string): string {
+    return `{{${key}}}`;
+}
+
+// Drop malformed entries and repeated keys; the first declaration of a key wins.
+export function normalizeTemplateVariables(raw: unknown): TemplateVariable[] {
+    if (!Array.isArray(raw)) return [];
+    const seen = new Set<string>();
+    const out: TemplateVariable[] = [];
+    for (const item of raw) {
+        if (typeof item !== 'object' || item === null) continue;
+        const r = item as Record<string, unknown>;
+        const key = typeof r.key === 'string' ? r.key.trim() : '';
+        if (!isValidTemplateVariableKey(key) || seen.has(key)) continue;
+        seen.add(key);
+        out.push({
+            key,
+            label: typeof r.label === 'string' && r.label.trim() ? r.label.trim() : key,
+            type: TEMPLATE_VARIABLE_TYPES.includes(r.type as TemplateVariableType) ? (r.type as TemplateVariableType) : 'text',
+            value: typeof r.value === 'string' ? r.value : '',
+        });
+    }
+    return out;
+}
+
+// Display form of a value; ISO dates from the date picker read as "2026年3月5日".
+export function formatTemplateVariableValue(variable: TemplateVariable): string {
+    const value = variable.value.trim();
+    if (variable.type === 'date') {
+        const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        if (m) return `${m[1]}年${Number(m[2])}月${Number(m[3])}日`;
+    }
+    return value;
+}
+
+/**
+ * Replace `{{key}}` placeholders of declared variables with their values. `markup` escapes the
+ * values for Typst markup; plain strings (e.g. the running header) take them verbatim.
+ * Placeholders without a declared variable are left as typed.
+ */
+export function resolveTemplateText(text: string, variables: TemplateVariable[], markup = false): string {
+    if (!text || variables.length === 0 || !text.includes('{{')) return text;
+    return text.replace(PLACEHOLDER_RE, (whole, key: string) => {
+        const variable = variables.find((v) => v.key === key);
+        if (!variable) return whole;
+        const value = formatTemplateVariableValue(variable);
+        return markup ? escapeTypstMarkup(value) : value;
+    });
+}
+
+/**
+ * Copy of a block with placeholders resolved in its text: paragraph, heading and list content
+ * and input field labels/values. Children are left alone; they are serialized (and resolved)
+ * on their own.
+ */
+export function applyTemplateVariables(block: TypstBlock, variables: TemplateVariable[]): TypstBlock {
+    if (variables.length === 0) return block;
+    const resolve = (text: string) => resolveTemplateText(text, variables, true);
+    switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+        case 'list':
+            return { ...block, content: resolve(block.content ?? '') };
+        case 'input_field':
+            return {
+                ...block,
+                inputLabel: block.inputLabel === undefined ? undefined : resolve(block.inputLabel),
+                inputValue: block.inputValue === undefined ? undefined : resolve(block.inputValue),
+                inputLines: block.inputLines?.map((line) => ({ label: resolve(line.label), value: resolve(line.value) })),
+            };
+        default:
+            return block;
+    }
+}
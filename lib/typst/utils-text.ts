@@ -2,6 +2,15 @@
 export * from './utils/tokenizer';
 export * from './utils/sanitizer';
 
+// Backslash-escape characters that would otherwise start Typst markup (or a `//` comment), so
+// plain text (template values, imported spreadsheet cells) reads back verbatim.
+export const escapeTypstMarkup = (text: string): string =>
+    text.replace(/[\\#*_$@<>[\]`~]|\/(?=[/*])/g, (ch) => `\\${ch}`);
+
+// Inverse of `escapeTypstMarkup` for markup turned into plain text.
+export const unescapeTypstMarkup = (text: string): string =>
+    text.replace(/\\([\\#*_$@<>[\]`~/])/g, '$1');
+
 // Spacing Utilities
 export const defaultParagraphLeadingEm = 0.8;
 export const supportedLineSpacingMultipliers = [0.8, 0.9, 1, 1.2, 1.5, 2] as const;
@@ -0,0 +1,33 @@
+import { PersistedTocPayload } from './types';
+
+export function defaultTocPayload(): PersistedTocPayload {
+    return {
+        title: '目录',
+        depth: 3,
+        indent: 'auto',
+    };
+}
+
+// "auto" or a Typst length (pt/em/mm/cm/in); anything else falls back to "auto".
+export function normalizeTocIndent(raw: string): string {
+    const v = (raw ?? '').trim();
+    return /^\d+(\.\d+)?(pt|em|mm|cm|in)$/.test(v) ? v : 'auto';
+}
+
+export function safeParseTocPayload(content: string): PersistedTocPayload {
+    try {
+        const parsedUnknown: unknown = JSON.parse(content);
+        const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+        if (!isRecord(parsedUnknown)) return defaultTocPayload();
+        const parsed = parsedUnknown;
+
+        const depthRaw = Number(parsed['depth']);
+        return {
+            title: typeof parsed['title'] === 'string' ? (parsed['title'] as string) : '目录',
+            depth: Number.isFinite(depthRaw) ? Math.min(6, Math.max(1, Math.round(depthRaw))) : 3,
+            indent: normalizeTocIndent(typeof parsed['indent'] === 'string' ? (parsed['indent'] as string) : 'auto'),
+        };
+    } catch {
+        return defaultTocPayload();
+    }
+}
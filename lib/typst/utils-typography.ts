@@ -0,0 +1,113 @@
+import { TextStyle, TypographyStyles, TypstBlock, defaultTypographyStyles } from './types';
+import { normalizeTypstLength } from './utils-base';
+import { snapLineSpacingMultiplier } from './utils-text';
+
+export const TYPOGRAPHY_STYLE_KEYS = ['body', 'heading1', 'heading2', 'heading3', 'caption', 'code'] as const;
+export type TypographyStyleKey = (typeof TYPOGRAPHY_STYLE_KEYS)[number];
+
+export const TYPOGRAPHY_PRESETS: Array<{ id: string; name: string; styles: TypographyStyles }> = [
+    { id: 'default', name: '默认', styles: defaultTypographyStyles },
+    {
+        id: 'report',
+        name: '实验报告（小四宋体）',
+        styles: {
+            body: { font: 'SimSun', size: '12pt', lineSpacing: 1.5 },
+            heading1: { font: 'SimHei', size: '16pt' },
+            heading2: { font: 'SimHei', size: '14pt' },
+            heading3: { font: 'SimHei', size: '12pt' },
+            caption: { font: 'KaiTi', size: '10.5pt' },
+            code: { font: '', size: '9pt' },
+        },
+    },
+    {
+        id: 'compact',
+        name: '紧凑（五号）',
+        styles: {
+            body: { font: 'SimSun', size: '10.5pt', lineSpacing: 1 },
+            heading1: { font: 'SimHei', size: '14pt' },
+            heading2: { font: 'SimHei', size: '12pt' },
+            heading3: { font: 'SimHei', size: '10.5pt' },
+            caption: { font: 'SimSun', size: '9pt' },
+            code: { font: '', size: '8pt' },
+        },
+    },
+];
+
+function normalizeTextStyle(raw: unknown, fallback: TextStyle): TextStyle {
+    if (typeof raw !== 'object' || raw === null) return { ...fallback };
+    const r = raw as Record<string, unknown>;
+    return {
+        font: typeof r.font === 'string' ? r.font.trim() : fallback.font,
+        size: typeof r.size === 'string' && r.size.trim() ? normalizeTypstLength(r.size, fallback.size) : '',
+    };
+}
+
+export function normalizeTypographyStyles(raw: unknown): TypographyStyles {
+    const r = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {};
+    const body = r.body as Record<string, unknown> | undefined;
+    const lineSpacing = Number(body?.lineSpacing);
+    return {
+        body: {
+            ...normalizeTextStyle(r.body, defaultTypographyStyles.body),
+            lineSpacing: Number.isFinite(lineSpacing) && lineSpacing > 0 ? snapLineSpacingMultiplier(lineSpacing) ?? 1 : 1,
+        },
+        heading1: normalizeTextStyle(r.heading1, defaultTypographyStyles.heading1),
+        heading2: normalizeTextStyle(r.heading2, defaultTypographyStyles.heading2),
+        heading3: normalizeTextStyle(r.heading3, defaultTypographyStyles.heading3),
+        caption: normalizeTextStyle(r.caption, defaultTypographyStyles.caption),
+        code: normalizeTextStyle(r.code, defaultTypographyStyles.code),
+    };
+}
+
+// Font a block gets from the document styles when it has none of its own.
+export function inheritedFont(block: TypstBlock, typography: TypographyStyles): string {
+    if (block.type === 'image') return typography.caption.font;
+    const level = block.level || 1;
+    if (block.type === 'heading' && level <= 3) return typography[`heading${level as 1 | 2 | 3}`].font || typography.body.font;
+    return typography.body.font;
+}
+
+// Whether the block sets its own font, size or line spacing instead of inheriting the document style.
+export function hasStyleOverrides(block: TypstBlock): boolean {
+    if (block.type === 'image') return !!block.captionFont;
+    if (block.type === 'paragraph' || block.type === 'heading' || block.type === 'list') {
+        return !!block.font || !!block.fontSize || block.lineSpacing !== undefined;
+    }
+    if (block.type === 'composite_row') return (block.children ?? []).some(hasStyleOverrides);
+    return false;
+}
+
+export function countStyleOverrides(blocks: TypstBlock[]): number {
+    return blocks.reduce(
+        (n, b) => n + (b.type === 'composite_row' ? countStyleOverrides(b.children ?? []) : hasStyleOverrides(b) ? 1 : 0),
+        0
+    );
+}
+
+/**
+ * Drop per-block font/size/line spacing so every block follows the document styles.
+ * Cover contents keep their deliberate layout and are left alone.
+ */
+export function clearStyleOverrides(blocks: TypstBlock[]): TypstBlock[] {
+    return blocks.map((block) => {
+        if (!hasStyleOverrides(block)) return block;
+        if (block.type === 'composite_row') return { ...block, children: clearStyleOverrides(block.children ?? []) };
+        if (block.type === 'image') return { ...block, captionFont: undefined };
+        return { ...block, font: undefined, fontSize: undefined, lineSpacing: undefined };
+    });
+}
+
+/**
+ * The serializer writes inherited fonts out as `#text(font: …)` so stored source renders on its own;
+ * parsing reads them back as block fonts. Drop those that match the document styles so the blocks
+ * keep following them. Covers are left alone, as in clearStyleOverrides.
+ */
+export function dropInheritedFonts(blocks: TypstBlock[], typography: TypographyStyles): TypstBlock[] {
+    return blocks.map((block) => {
+        if (block.type === 'composite_row') return { ...block, children: dropInheritedFonts(block.children ?? [], typography) };
+        const font = inheritedFont(block, typography);
+        if (block.type === 'image') return block.captionFont && block.captionFont === font ? { ...block, captionFont: undefined } : block;
+        if (block.type !== 'paragraph' && block.type !== 'heading' && block.type !== 'list') return block;
+        return block.font !== undefined && block.font.trim() === font ? { ...block, font: undefined } : block;
+    });
+}
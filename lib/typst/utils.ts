@@ -2,3 +2,14 @@ export * from './utils-base';
 export * from './utils-table';
 export * from './utils-chart';
 export * from './utils-text';
+export * from './utils-label';
+export * from './utils-bibliography';
+export * from './utils-toc';
+export * from './utils-outline';
+export * from './utils-heading';
+export * from './utils-typography';
+export * from './utils-table-formula';
+export * from './utils-table-style';
+export * from './utils-code';
+export * from './utils-equation';
+export * from './utils-template';
@@ -0,0 +1,329 @@
+// Propagation of uncertainty for derived quantities in lab reports:
+// u_y = sqrt( Σ (∂y/∂x_i · u_{x_i})² ) for independent measured values x_i.
+
+export class UncertaintyFormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UncertaintyFormulaError';
+  }
+}
+
+export type UncertaintyExpr =
+  | { kind: 'num'; value: number; text: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'const'; name: 'pi' | 'e' }
+  | { kind: 'neg'; arg: UncertaintyExpr }
+  | { kind: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: UncertaintyExpr; right: UncertaintyExpr }
+  | { kind: 'call'; fn: string; arg: UncertaintyExpr };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  abs: Math.abs,
+};
+
+const CONSTANTS = new Set(['pi', 'e']);
+
+type Token = { type: 'num' | 'name' | 'op'; text: string };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /\s*(?:(\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?)|([A-Za-z_\u0370-\u03FF][A-Za-z0-9_\u0370-\u03FF]*)|(\*\*|[-+*/^()]))/y;
+  let pos = 0;
+  const text = src.trim();
+  while (pos < text.length) {
+    re.lastIndex = pos;
+    const m = re.exec(text);
+    if (!m) throw new UncertaintyFormulaError(`无法识别的字符「${text[pos]}」`);
+    pos = re.lastIndex;
+    if (m[1] !== undefined) tokens.push({ type: 'num', text: m[1] });
+    else if (m[2] !== undefined) tokens.push({ type: 'name', text: m[2] });
+    else tokens.push({ type: 'op', text: m[3] === '**' ? '^' : m[3] });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a formula such as `m / (pi * r^2 * h)`. Supports + - * / ^ (or **), parentheses,
+ * implicit multiplication (`2pi r`), pi / e and sqrt, exp, ln, log, trig and abs.
+ */
+export function parseUncertaintyFormula(src: string): UncertaintyExpr {
+  const tokens = tokenize(src);
+  if (tokens.length === 0) throw new UncertaintyFormulaError('公式为空');
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (op: string) => peek()?.type === 'op' && peek().text === op;
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new UncertaintyFormulaError(`缺少「${op}」`);
+    pos++;
+  };
+
+  const primary = (): UncertaintyExpr => {
+    const t = peek();
+    if (!t) throw new UncertaintyFormulaError('公式不完整');
+    pos++;
+    if (t.type === 'num') return { kind: 'num', value: Number(t.text), text: t.text };
+    if (t.type === 'name') {
+      if (FUNCTIONS[t.text] && isOp('(')) {
+        pos++;
+        const arg = sum();
+        expect(')');
+        return { kind: 'call', fn: t.text, arg };
+      }
+      if (CONSTANTS.has(t.text)) return { kind: 'const', name: t.text as 'pi' | 'e' };
+      return { kind: 'var', name: t.text };
+    }
+    if (t.text === '(') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    throw new UncertaintyFormulaError(`意外的「${t.text}」`);
+  };
+
+  const power = (): UncertaintyExpr => {
+    const base = primary();
+    if (!isOp('^')) return base;
+    pos++;
+    return { kind: 'bin', op: '^', left: base, right: unary() };
+  };
+
+  const unary = (): UncertaintyExpr => {
+    if (isOp('-')) {
+      pos++;
+      return { kind: 'neg', arg: unary() };
+    }
+    if (isOp('+')) {
+      pos++;
+      return unary();
+    }
+    return power();
+  };
+
+  const startsOperand = () => {
+    const t = peek();
+    return !!t && (t.type !== 'op' || t.text === '(');
+  };
+
+  const product = (): UncertaintyExpr => {
+    let left = unary();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = tokens[pos++].text as '*' | '/';
+        left = { kind: 'bin', op, left, right: unary() };
+      } else if (startsOperand()) {
+        left = { kind: 'bin', op: '*', left, right: power() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const sum = (): UncertaintyExpr => {
+    let left = product();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].text as '+' | '-';
+      left = { kind: 'bin', op, left, right: product() };
+    }
+    return left;
+  };
+
+  const expr = sum();
+  if (pos < tokens.length) throw new UncertaintyFormulaError(`意外的「${tokens[pos].text}」`);
+  return expr;
+}
+
+// Variable names in order of first appearance.
+export function formulaVariables(expr: UncertaintyExpr): string[] {
+  const out: string[] = [];
+  const visit = (e: UncertaintyExpr) => {
+    switch (e.kind) {
+      case 'var':
+        if (!out.includes(e.name)) out.push(e.name);
+        break;
+      case 'neg':
+      case 'call':
+        visit(e.arg);
+        break;
+      case 'bin':
+        visit(e.left);
+        visit(e.right);
+        break;
+    }
+  };
+  visit(expr);
+  return out;
+}
+
+export function evaluateFormula(expr: UncertaintyExpr, values: Record<string, number>): number {
+  switch (expr.kind) {
+    case 'num':
+      return expr.value;
+    case 'const':
+      return expr.name === 'pi' ? Math.PI : Math.E;
+    case 'var': {
+      const v = values[expr.name];
+      if (v === undefined) throw new UncertaintyFormulaError(`变量 ${expr.name} 没有数据`);
+      return v;
+    }
+    case 'neg':
+      return -evaluateFormula(expr.arg, values);
+    case 'call':
+      return FUNCTIONS[expr.fn](evaluateFormula(expr.arg, values));
+    case 'bin': {
+      const a = evaluateFormula(expr.left, values);
+      const b = evaluateFormula(expr.right, values);
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '^': return a ** b;
+      }
+    }
+  }
+}
+
+export type PropagationResult = {
+  value: number;
+  uncertainty: number;
+  // ∂y/∂x_i at the measured values
+  partials: Record<string, number>;
+};
+
+/**
+ * Value and propagated standard uncertainty of `expr`, with partial derivatives taken
+ * numerically (central differences) at the measured values.
+ */
+export function propagateUncertainty(
+  expr: UncertaintyExpr,
+  values: Record<string, number>,
+  uncertainties: Record<string, number>
+): PropagationResult {
+  const value = evaluateFormula(expr, values);
+  const partials: Record<string, number> = {};
+  let variance = 0;
+  for (const name of formulaVariables(expr)) {
+    const x = values[name];
+    const h = Math.max(Math.abs(x), 1e-3) * 1e-6;
+    const partial = (evaluateFormula(expr, { ...values, [name]: x + h }) - evaluateFormula(expr, { ...values, [name]: x - h })) / (2 * h);
+    partials[name] = partial;
+    // Exact variables add nothing, even where the derivative is undefined.
+    const u = uncertainties[name] ?? 0;
+    if (u !== 0) variance += (partial * u) ** 2;
+  }
+  return { value, uncertainty: Math.sqrt(variance), partials };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Round the uncertainty to `digits` significant figures and the value to the same decimal
+ * place, e.g. (12.3456, 0.0234) -> { value: "12.346", uncertainty: "0.023" }. A value or
+ * uncertainty that could not be computed (NaN / infinite) is shown as "—".
+ */
+export function formatMeasurement(value: number, uncertainty: number, digits = 2): { value: string; uncertainty: string } {
+  if (!Number.isFinite(value)) return { value: '—', uncertainty: '—' };
+  if (!Number.isFinite(uncertainty)) return { value: String(Number(value.toPrecision(6))), uncertainty: '—' };
+  if (uncertainty <= 0) return { value: String(Number(value.toPrecision(6))), uncertainty: '0' };
+  const exponent = Math.floor(Math.log10(Number(uncertainty.toPrecision(digits))));
+  const decimals = digits - 1 - exponent;
+  if (decimals >= 0) {
+    return { value: value.toFixed(decimals), uncertainty: uncertainty.toFixed(decimals) };
+  }
+  const scale = 10 ** -decimals;
+  return {
+    value: String(Math.round(value / scale) * scale),
+    uncertainty: String(Math.round(uncertainty / scale) * scale),
+  };
+}
+
+const GREEK = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu',
+  'nu', 'xi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Sigma', 'Phi', 'Psi', 'Omega',
+]);
+
+// `rho` -> `\rho`, `m1` / `m_1` -> `m_{1}`, `v0x` -> `v_{0x}`
+export function variableLatex(name: string): string {
+  const m = name.match(/^([A-Za-z]+?)_?(\d.*|_.+)?$/);
+  const base = m?.[1] ?? name;
+  const sub = (m?.[2] ?? '').replace(/^_/, '');
+  const head = GREEK.has(base) ? `\\${base}` : base.length > 1 ? `\\mathrm{${base}}` : base;
+  return sub ? `${head}_{${sub}}` : head;
+}
+
+const PRECEDENCE: Record<string, number> = { '+': 1, '-': 1, '*': 2, '/': 2, neg: 3, '^': 4 };
+
+function precedence(e: UncertaintyExpr): number {
+  if (e.kind === 'bin') return PRECEDENCE[e.op];
+  if (e.kind === 'neg') return PRECEDENCE.neg;
+  return 5;
+}
+
+export function formulaToLatex(expr: UncertaintyExpr): string {
+  const wrap = (e: UncertaintyExpr, min: number) =>
+    precedence(e) < min ? `\\left(${formulaToLatex(e)}\\right)` : formulaToLatex(e);
+
+  switch (expr.kind) {
+    case 'num':
+      return expr.text;
+    case 'const':
+      return expr.name === 'pi' ? '\\pi' : 'e';
+    case 'var':
+      return variableLatex(expr.name);
+    case 'neg':
+      return `-${wrap(expr.arg, PRECEDENCE.neg)}`;
+    case 'call': {
+      const arg = formulaToLatex(expr.arg);
+      if (expr.fn === 'sqrt') return `\\sqrt{${arg}}`;
+      if (expr.fn === 'abs') return `\\left|${arg}\\right|`;
+      if (expr.fn === 'exp') return `e^{${arg}}`;
+      if (expr.fn === 'log') return `\\lg\\left(${arg}\\right)`;
+      return `\\${expr.fn}\\left(${arg}\\right)`;
+    }
+    case 'bin':
+      switch (expr.op) {
+        case '/':
+          return `\\frac{${formulaToLatex(expr.left)}}{${formulaToLatex(expr.right)}}`;
+        case '^':
+          return `${wrap(expr.left, PRECEDENCE['^'] + 1)}^{${formulaToLatex(expr.right)}}`;
+        case '*': {
+          const left = wrap(expr.left, PRECEDENCE['*']);
+          const right = wrap(expr.right, PRECEDENCE['*'] + 1);
+          // Keep × between numerals so "2 3" is not read as 23.
+          const numeric = /\d$/.test(left) && /^\d/.test(right);
+          return numeric ? `${left} \\times ${right}` : `${left} ${right}`;
+        }
+        case '-':
+          return `${wrap(expr.left, PRECEDENCE['-'])} - ${wrap(expr.right, PRECEDENCE['-'] + 1)}`;
+        default:
+          return `${wrap(expr.left, PRECEDENCE['+'])} + ${wrap(expr.right, PRECEDENCE['+'])}`;
+      }
+  }
+}
+
+/**
+ * LaTeX lines for the math block: the defining formula and its propagation formula
+ * `u_{y} = \sqrt{(\frac{\partial y}{\partial x} u_{x})^{2} + ...}` over the uncertain inputs.
+ */
+export function propagationLatex(resultName: string, expr: UncertaintyExpr, uncertainVariables: string[]): string[] {
+  const y = variableLatex(resultName);
+  const terms = uncertainVariables.map((name) => {
+    const x = variableLatex(name);
+    return `\\left(\\frac{\\partial ${y}}{\\partial ${x}} u_{${x}}\\right)^{2}`;
+  });
+  const lines = [`${y} = ${formulaToLatex(expr)}`];
+  if (terms.length > 0) lines.push(`u_{${y}} = \\sqrt{${terms.join(' + ')}}`);
+  return lines;
+}
@@ -0,0 +1,106 @@
+// Per-project version timeline, kept in IndexedDB so it survives reloads. It is local to this
+// browser: nothing is uploaded, so other devices and cleared site data start with no history.
+const DB_NAME = 'labflow_versions';
+const VERSIONS_STORE = 'versions';
+
+// Automatic snapshots kept per project; named checkpoints are never pruned.
+const MAX_AUTO_VERSIONS = 100;
+
+export type ProjectVersionKind = 'auto' | 'checkpoint' | 'restore';
+
+export type ProjectVersion = {
+  id: string;
+  projectId: string;
+  kind: ProjectVersionKind;
+  // User-given name for checkpoints, description for restores.
+  name: string;
+  title: string;
+  // Full document source, document settings included.
+  typst_code: string;
+  createdAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        const store = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('projectId', 'projectId', { unique: false });
+      }
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * All versions of a project, newest first.
+ */
+export async function listProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const db = await openDb();
+  const all = await new Promise<ProjectVersion[]>((resolve, reject) => {
+    const tx = db.transaction(VERSIONS_STORE, 'readonly');
+    const request = tx.objectStore(VERSIONS_STORE).index('projectId').getAll(projectId);
+    request.onsuccess = () => resolve(request.result as ProjectVersion[]);
+    request.onerror = () => reject(request.error);
+  });
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Append a version. Automatic snapshots identical to the latest version are skipped
+ * (returns null), and old automatic snapshots are pruned.
+ */
+export async function recordProjectVersion(
+  version: Omit<ProjectVersion, 'id' | 'createdAt'>
+): Promise<ProjectVersion | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  const existing = await listProjectVersions(version.projectId);
+  if (version.kind === 'auto' && existing[0] && existing[0].typst_code === version.typst_code && existing[0].title === version.title) {
+    return null;
+  }
+
+  const entry: ProjectVersion = {
+    ...version,
+    id: `ver-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+  };
+  const staleAuto = existing.filter((v) => v.kind === 'auto').slice(MAX_AUTO_VERSIONS - 1);
+
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(VERSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(VERSIONS_STORE);
+    store.put(entry);
+    for (const v of staleAuto) store.delete(v.id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  return entry;
+}
+
+export async function renameProjectVersion(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(VERSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(VERSIONS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const v = request.result as ProjectVersion | undefined;
+      // Naming an automatic snapshot turns it into a checkpoint so it is kept.
+      if (v) store.put({ ...v, name, kind: v.kind === 'auto' ? 'checkpoint' : v.kind });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,51 @@
+// Copies the typst.ts compiler/renderer .wasm files into public/typst and the fonts the
+// in-browser compiler loads into public/typst/fonts, so the WASM preview is served from the
+// app itself instead of a public CDN. Runs before `dev` and `build`. Every file comes from an
+// installed npm package; a missing one fails the script (and with it the build).
+
+import { copyFile, mkdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.join(root, 'public', 'typst');
+const require = createRequire(import.meta.url);
+
+// Same layout as the npm packages, so NEXT_PUBLIC_TYPST_WASM_BASE can also point at a package mirror.
+const WASM_FILES = [
+    ['@myriaddreamin/typst-ts-web-compiler', 'pkg/typst_ts_web_compiler_bg.wasm'],
+    ['@myriaddreamin/typst-ts-renderer', 'pkg/typst_ts_renderer_bg.wasm'],
+];
+
+// Latin, monospace, math and CJK fonts; the worker loads the same list (lib/typst-render.worker.ts).
+const FONT_FILES = require('../lib/typst-fonts.json');
+
+function packageFile(pkg, file) {
+    let pkgDir;
+    try {
+        pkgDir = path.dirname(require.resolve(`${pkg}/package.json`));
+    } catch {
+        throw new Error(`[typst-assets] ${pkg} is not installed; run npm install`);
+    }
+    return path.join(pkgDir, file);
+}
+
+async function copyWasm() {
+    for (const [pkg, file] of WASM_FILES) {
+        const dest = path.join(outDir, pkg.split('/')[1], file);
+        await mkdir(path.dirname(dest), { recursive: true });
+        await copyFile(packageFile(pkg, file), dest);
+    }
+}
+
+async function copyFonts() {
+    const fontDir = path.join(outDir, 'fonts');
+    await mkdir(fontDir, { recursive: true });
+    for (const [pkg, file] of FONT_FILES) {
+        await copyFile(packageFile(pkg, file), path.join(fontDir, path.basename(file)));
+    }
+}
+
+await copyWasm();
+await copyFonts();
@@ -9,10 +9,36 @@ import {
 import {
     blocksToTypst,
     typstToBlocks,
+    changedTableIds,
+    collectTableIds,
+    refreshChartPlots,
+    relinkChartTables,
+    dropInheritedFonts,
     stripDocumentSettings,
     injectDocumentSettings,
+    extractHeadingNumberingRule,
+    serializeHeadingNumberingRule,
+    mergeTypstSources,
+    rebaseBlockList,
+    resolveBlockMerge,
+    reuseBlockIds,
+    type BlockConflictChoice,
+    type BlockDiagnostic,
+    type BlockMergeHunk,
 } from '@/lib/typst';
-import { getProject, updateProject, listProjects, type Project } from '@/lib/api';
+import { getProject, updateProject, listProjects, ProjectConflictError, type Project } from '@/lib/api';
+import {
+    cacheProject,
+    getCachedProject,
+    getQueuedUpdate,
+    isNetworkError,
+    listQueuedUpdates,
+    queueProjectUpdate,
+    removeQueuedUpdate,
+} from '@/lib/offline-cache';
+import { recordProjectVersion, type ProjectVersion } from '@/lib/version-history';
+import { diffSvgPages } from '@/lib/typst-render';
+import { CollabSession, type CollabPresence, type CollabTransport } from '@/lib/collab';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -21,6 +47,21 @@ import { getProject, updateProject, listProjects, type Project } from '@/lib/api
 export type EditorMode = 'visual' | 'source';
 export type SyncSource = 'code' | 'blocks';
 export type SaveStatus = 'saved' | 'saving' | null;
+export type CollabStatus = 'off' | 'connecting' | 'connected';
+// 'offline': backend unreachable, saves go to the local queue; 'syncing': replaying the queue.
+export type SyncStatus = 'online' | 'offline' | 'syncing';
+
+// Server revision the editor content is based on (for optimistic concurrency on save).
+type SavedRevision = {
+    updatedAt: string;
+    // Document body at that revision (settings stripped); base of the three-way merge.
+    code: string;
+};
+
+export type SaveConflict = {
+    hunks: BlockMergeHunk[];
+    latest: Project;
+};
 
 type HistorySnapshot = {
     blocks: TypstBlock[];
@@ -52,15 +93,27 @@ interface EditorState {
     loadingCovers: boolean;
     error: string | null;
     saveStatus: SaveStatus;
+    savedRevision: SavedRevision | null;
+    saveConflict: SaveConflict | null;
+    syncStatus: SyncStatus;
+    pendingSyncCount: number;
 
     // Preview state
     svgPages: string[];
     isRendering: boolean;
+    // Errors/warnings of the latest preview compile; blockIndex refers to `blocks` in visual mode.
+    diagnostics: BlockDiagnostic[];
+    // Last diagnostic picked from the jump list; the nonce re-triggers jumps to the same entry.
+    focusedDiagnostic: { diagnostic: BlockDiagnostic; nonce: number } | null;
 
     // History (undo/redo)
     history: HistorySnapshot[];
     historyIndex: number;
     isRestoring: boolean;
+
+    // Real-time collaboration
+    collabStatus: CollabStatus;
+    collabPeers: CollabPresence[];
 }
 
 interface EditorActions {
@@ -93,9 +146,22 @@ interface EditorActions {
     // Preview
     setSvgPages: (pages: string[]) => void;
     setIsRendering: (rendering: boolean) => void;
+    setDiagnostics: (diagnostics: BlockDiagnostic[]) => void;
+    focusDiagnostic: (diagnostic: BlockDiagnostic) => void;
 
     // Save
     saveProject: () => Promise<void>;
+    resolveSaveConflict: (choices: BlockConflictChoice[]) => Promise<void>;
+    dismissSaveConflict: () => void;
+
+    // Version history
+    createCheckpoint: (name: string) => Promise<void>;
+    restoreVersion: (version: ProjectVersion) => Promise<void>;
+
+    // Offline queue
+    saveLocalDraft: () => Promise<void>;
+    syncPendingSaves: () => Promise<void>;
+    setSyncStatus: (status: SyncStatus) => void;
 
     // History
     pushHistory: () => void;
@@ -103,6 +169,11 @@ interface EditorActions {
     redo: () => void;
     canUndo: () => boolean;
     canRedo: () => boolean;
+
+    // Collaboration
+    startCollab: (transport: CollabTransport, user: { name: string; color: string }) => void;
+    stopCollab: () => void;
+    setCollabFocus: (blockId: string | null) => void;
 }
 
 type EditorStore = EditorState & EditorActions;
@@ -150,20 +221,37 @@ const initialState: EditorState = {
     loadingCovers: false,
     error: null,
     saveStatus: null,
+    savedRevision: null,
+    saveConflict: null,
+    syncStatus: 'online',
+    pendingSyncCount: 0,
 
     svgPages: [],
     isRendering: false,
+    diagnostics: [],
+    focusedDiagnostic: null,
 
     history: [],
     historyIndex: 0,
     isRestoring: false,
+
+    collabStatus: 'off',
+    collabPeers: [],
 };
 
 // ---------------------------------------------------------------------------
-// Store
+// Collaboration session (one per open project, outside React state)
 // ---------------------------------------------------------------------------
 
+let collabSession: CollabSession | null = null;
 
+function publishBlocks(blocks: TypstBlock[]) {
+    collabSession?.applyLocalBlocks(blocks);
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
 
 export const useEditorStore = create<EditorStore>((set, get) => ({
     ...initialState,
@@ -174,18 +262,32 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
 
     loadProject: async (id: string) => {
         try {
-            const project = await getProject(id);
+            // The cached copy is the last revision this browser synced; unsynced offline edits are queued.
+            const cached = await getCachedProject(id).catch(() => null);
+            const queued = await getQueuedUpdate(id).catch(() => null);
+
+            let project: Project;
+            let offline = false;
+            try {
+                project = await getProject(id);
+                if (!queued) void cacheProject(project).catch(() => undefined);
+            } catch (err) {
+                if (!isNetworkError(err) || !cached) throw err;
+                project = cached;
+                offline = true;
+            }
             const type = project.type as 'report' | 'cover' | 'template';
 
-            const rawCode = (project.typst_code ?? '').trim()
-                ? (project.typst_code ?? '')
+            const sourceCode = queued ? queued.typst_code : project.typst_code;
+            const rawCode = (sourceCode ?? '').trim()
+                ? (sourceCode ?? '')
                 : DEFAULT_TYPST_CODE;
 
             // Strip legacy AI debug info if present, but don't store it
             const rest = stripAiDebug(rawCode);
             const { code: initialCode, settings } = stripDocumentSettings(rest);
 
-            const blocks = typstToBlocks(initialCode);
+            const blocks = dropInheritedFonts(typstToBlocks(initialCode), settings.typography);
 
             // For covers, disable numbering by default
             const docSettings =
@@ -193,9 +295,19 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
                     ? { ...settings, tableCaptionNumbering: false, imageCaptionNumbering: false }
                     : settings;
 
+            // With queued edits, the revision they were based on is the merge base for the replay.
+            const baseProject = queued ? cached : project;
+            const baseUpdatedAt = queued ? queued.base_updated_at : project.updated_at;
+            const savedRevision = baseUpdatedAt
+                ? {
+                    updatedAt: baseUpdatedAt,
+                    code: stripDocumentSettings(stripAiDebug(baseProject?.typst_code ?? '')).code,
+                }
+                : null;
+
             set({
                 projectId: id,
-                title: project.title,
+                title: queued ? queued.title : project.title,
                 projectType: type,
                 code: initialCode,
                 blocks,
@@ -204,7 +316,14 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
                 history: [{ blocks, settings: docSettings }],
                 historyIndex: 0,
                 error: null,
+                savedRevision,
+                saveConflict: null,
+                syncStatus: offline ? 'offline' : 'online',
             });
+
+            const pending = await listQueuedUpdates().catch(() => []);
+            set({ pendingSyncCount: pending.length });
+            if (!offline && pending.length > 0) void get().syncPendingSaves();
         } catch (err) {
             const msg = err instanceof Error ? err.message : '加载项目失败';
             set({ error: msg });
@@ -212,7 +331,10 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
         }
     },
 
-    reset: () => set(initialState),
+    reset: () => {
+        get().stopCollab();
+        set(initialState);
+    },
 
     // -------------------------------------------------------------------------
     // Document mutations
@@ -220,8 +342,10 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
 
     setTitle: (title) => set({ title }),
 
-    setBlocks: (blocks) => {
+    setBlocks: (edited) => {
         const state = get();
+        // Charts store their resolved data, so redraw the ones reading from edited or deleted tables.
+        const blocks = refreshChartPlots(edited, changedTableIds(state.blocks, edited));
         set({ blocks, syncSource: 'blocks' });
 
         // Auto-sync code when blocks change
@@ -230,6 +354,7 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
             set({ code });
             // Push to history
             get().pushHistory();
+            publishBlocks(blocks);
         }
     },
 
@@ -238,6 +363,7 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
     },
 
     setDocSettings: (docSettings) => {
+        const previous = get().docSettings;
         set({ docSettings });
         // Re-sync code if blocks are the source
         const state = get();
@@ -245,6 +371,14 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
             const code = blocksToTypst(state.blocks, { settings: docSettings });
             set({ code });
             get().pushHistory();
+        } else if (state.syncSource === 'code' && JSON.stringify(previous.typography) !== JSON.stringify(docSettings.typography)) {
+            // The code spells inherited style fonts out as #text wrappers; rewrite them for the new
+            // styles, or they would read back as overrides of the old fonts. Parsing drops a heading
+            // numbering rule typed in the source, so it is written back in front.
+            const { code, numbering } = extractHeadingNumberingRule(state.code);
+            const blocks = dropInheritedFonts(typstToBlocks(code), previous.typography);
+            const rule = numbering ? serializeHeadingNumberingRule(numbering) : '';
+            set({ code: (rule ? `${rule}\n` : '') + blocksToTypst(blocks, { settings: docSettings }) });
         }
     },
 
@@ -261,9 +395,22 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
         if (newMode === state.mode) return;
 
         if (newMode === 'visual') {
-            // Switching to visual: parse code into blocks
-            const blocks = typstToBlocks(state.code);
-            set({ blocks, syncSource: 'code', mode: newMode });
+            // Switching to visual: parse code into blocks. A heading numbering rule typed in
+            // source mode moves into the document settings.
+            const { code, numbering } = extractHeadingNumberingRule(state.code);
+            // Parsing gives every block a new id; unchanged and edited blocks take their old ids back
+            // so collaborators only receive the source-mode edits, and charts follow their tables.
+            const reparsed = dropInheritedFonts(typstToBlocks(code), state.docSettings.typography);
+            const parsed = relinkChartTables(reuseBlockIds(state.blocks, reparsed), state.blocks);
+            const blocks = refreshChartPlots(parsed, changedTableIds(state.blocks, parsed));
+            set({
+                blocks,
+                code,
+                syncSource: 'code',
+                mode: newMode,
+                ...(numbering ? { docSettings: { ...state.docSettings, headingNumbering: numbering } } : {}),
+            });
+            publishBlocks(blocks);
         } else {
             // Switching to source: serialize blocks to code
             const code = blocksToTypst(state.blocks, { settings: state.docSettings });
@@ -330,6 +477,7 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
             const code = blocksToTypst(newBlocks, { settings: state.docSettings });
             set({ code });
             get().pushHistory();
+            publishBlocks(newBlocks);
         } catch (err) {
             set({ error: err instanceof Error ? err.message : '插入封面失败' });
         }
@@ -339,8 +487,13 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
     // Preview
     // -------------------------------------------------------------------------
 
-    setSvgPages: (svgPages) => set({ svgPages }),
+    // Keep the previous array when the render is identical, so page components and scroll sync
+    // do not refresh; otherwise React only re-injects the pages whose SVG string changed.
+    setSvgPages: (pages) => set((s) => ({ svgPages: diffSvgPages(s.svgPages, pages).pages })),
     setIsRendering: (isRendering) => set({ isRendering }),
+    setDiagnostics: (diagnostics) => set((s) => (diagnostics.length === 0 && s.diagnostics.length === 0 ? {} : { diagnostics })),
+    focusDiagnostic: (diagnostic) =>
+        set((s) => ({ focusedDiagnostic: { diagnostic, nonce: (s.focusedDiagnostic?.nonce ?? 0) + 1 } })),
 
     // -------------------------------------------------------------------------
     // Save
@@ -348,17 +501,184 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
 
     saveProject: async () => {
         const state = get();
+        if (state.saveConflict) return;
         try {
             set({ saveStatus: 'saving' });
             const saveCode = injectDocumentSettings(state.code, state.docSettings);
-            await updateProject(state.projectId, { title: state.title, typst_code: saveCode });
-            set({ saveStatus: 'saved' });
+            const saved = await updateProject(state.projectId, {
+                title: state.title,
+                typst_code: saveCode,
+                base_updated_at: state.savedRevision?.updatedAt,
+            });
+            set({
+                saveStatus: 'saved',
+                savedRevision: saved?.updated_at ? { updatedAt: saved.updated_at, code: state.code } : null,
+                syncStatus: 'online',
+            });
             setTimeout(() => set({ saveStatus: null }), 2000);
+            void recordProjectVersion({
+                projectId: state.projectId,
+                kind: 'auto',
+                name: '',
+                title: state.title,
+                typst_code: saveCode,
+            }).catch(() => undefined);
+
+            // This save supersedes any offline edits queued for the project.
+            await removeQueuedUpdate(state.projectId).catch(() => undefined);
+            if (saved) await cacheProject(saved).catch(() => undefined);
+            const pending = await listQueuedUpdates().catch(() => []);
+            set({ pendingSyncCount: pending.length });
         } catch (err) {
+            if (isNetworkError(err)) {
+                set({ saveStatus: null, syncStatus: 'offline' });
+                await get().saveLocalDraft();
+                return;
+            }
+            if (err instanceof ProjectConflictError) {
+                const current = get();
+                if (!current.savedRevision) {
+                    // Without the revision this copy started from there is no merge base; keep the
+                    // local copy in the version history and reload the server's.
+                    await recordProjectVersion({
+                        projectId: current.projectId,
+                        kind: 'checkpoint',
+                        name: '冲突前的本地版本',
+                        title: current.title,
+                        typst_code: injectDocumentSettings(current.code, current.docSettings),
+                    }).catch(() => undefined);
+                    await removeQueuedUpdate(current.projectId).catch(() => undefined);
+                    set({ saveStatus: null });
+                    await get().loadProject(current.projectId);
+                    return;
+                }
+                // Someone else saved in between: merge base / mine / theirs block by block.
+                const base = current.savedRevision.code;
+                const { code: theirs } = stripDocumentSettings(stripAiDebug(err.latest.typst_code ?? ''));
+                const hunks = mergeTypstSources(base, get().code, theirs);
+                set({ saveStatus: null, saveConflict: { hunks, latest: err.latest } });
+                return;
+            }
             set({ saveStatus: null, error: err instanceof Error ? err.message : '保存失败' });
         }
     },
 
+    resolveSaveConflict: async (choices) => {
+        const conflict = get().saveConflict;
+        if (!conflict) return;
+
+        const merged = resolveBlockMerge(conflict.hunks, choices);
+        const { code: latestCode } = stripDocumentSettings(stripAiDebug(conflict.latest.typst_code ?? ''));
+        // The merged result is now based on the latest server revision.
+        set({
+            saveConflict: null,
+            savedRevision: { updatedAt: conflict.latest.updated_at, code: latestCode },
+        });
+        get().setBlocks(merged);
+        await get().saveProject();
+    },
+
+    dismissSaveConflict: () => set({ saveConflict: null }),
+
+    // -------------------------------------------------------------------------
+    // Version history
+    // -------------------------------------------------------------------------
+
+    createCheckpoint: async (name) => {
+        const state = get();
+        await recordProjectVersion({
+            projectId: state.projectId,
+            kind: 'checkpoint',
+            name: name.trim(),
+            title: state.title,
+            typst_code: injectDocumentSettings(state.code, state.docSettings),
+        });
+    },
+
+    restoreVersion: async (version) => {
+        const { code, settings } = stripDocumentSettings(stripAiDebug(version.typst_code));
+        const blocks = dropInheritedFonts(typstToBlocks(code), settings.typography);
+
+        // Restoring is itself a new entry on the timeline; older versions stay available.
+        const label = version.name || new Date(version.createdAt).toLocaleString();
+        await recordProjectVersion({
+            projectId: get().projectId,
+            kind: 'restore',
+            name: `恢复自「${label}」`,
+            title: version.title,
+            typst_code: injectDocumentSettings(code, settings),
+        });
+
+        set({ title: version.title, code, blocks, docSettings: settings, syncSource: 'code' });
+        get().pushHistory();
+        publishBlocks(blocks);
+        await get().saveProject();
+    },
+
+    // -------------------------------------------------------------------------
+    // Offline queue
+    // -------------------------------------------------------------------------
+
+    saveLocalDraft: async () => {
+        const state = get();
+        if (!state.projectId) return;
+        try {
+            await queueProjectUpdate({
+                projectId: state.projectId,
+                title: state.title,
+                typst_code: injectDocumentSettings(state.code, state.docSettings),
+                base_updated_at: state.savedRevision?.updatedAt,
+            });
+            const pending = await listQueuedUpdates();
+            set({ pendingSyncCount: pending.length });
+        } catch (err) {
+            set({ error: err instanceof Error ? err.message : '本地保存失败' });
+        }
+    },
+
+    syncPendingSaves: async () => {
+        if (get().syncStatus === 'syncing') return;
+        const pending = await listQueuedUpdates().catch(() => []);
+        if (pending.length === 0) {
+            set({ syncStatus: 'online', pendingSyncCount: 0 });
+            return;
+        }
+
+        set({ syncStatus: 'syncing' });
+        for (const entry of pending) {
+            // The open project replays through saveProject so conflicts reach the merge dialog.
+            if (entry.projectId === get().projectId) {
+                set({ syncStatus: 'online' });
+                await get().saveProject();
+                if (get().syncStatus === 'offline') return;
+                set({ syncStatus: 'syncing' });
+                continue;
+            }
+
+            try {
+                const saved = await updateProject(entry.projectId, {
+                    title: entry.title,
+                    typst_code: entry.typst_code,
+                    base_updated_at: entry.base_updated_at,
+                });
+                await removeQueuedUpdate(entry.projectId, entry.queuedAt);
+                if (saved) await cacheProject(saved);
+            } catch (err) {
+                if (isNetworkError(err)) {
+                    set({ syncStatus: 'offline' });
+                    return;
+                }
+                // Conflicts in other projects stay queued and are merged when that project is opened.
+                console.warn('Failed to sync offline edits for project', entry.projectId, err);
+            }
+        }
+
+        const left = await listQueuedUpdates().catch(() => []);
+        set({ syncStatus: 'online', pendingSyncCount: left.length });
+    },
+
+    setSyncStatus: (syncStatus) => set({ syncStatus }),
+
     // -------------------------------------------------------------------------
     // History (undo/redo)
     // -------------------------------------------------------------------------
@@ -397,6 +717,7 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
             historyIndex: nextIndex,
             code: blocksToTypst(snap.blocks, { settings: snap.settings }),
         });
+        publishBlocks(snap.blocks);
         // Use queueMicrotask to reset after current update cycle
         queueMicrotask(() => set({ isRestoring: false }));
     },
@@ -417,9 +738,66 @@ export const useEditorStore = create<EditorStore>((set, get) => ({
             historyIndex: nextIndex,
             code: blocksToTypst(snap.blocks, { settings: snap.settings }),
         });
+        publishBlocks(snap.blocks);
         queueMicrotask(() => set({ isRestoring: false }));
     },
 
     canUndo: () => get().historyIndex > 0,
     canRedo: () => get().historyIndex < get().history.length - 1,
+
+    // -------------------------------------------------------------------------
+    // Collaboration
+    // -------------------------------------------------------------------------
+
+    startCollab: (transport, user) => {
+        get().stopCollab();
+        const state = get();
+        if (!state.projectId) return;
+
+        const session = new CollabSession({
+            transport,
+            roomId: state.projectId,
+            user,
+            onBlocks: (merged) => {
+                // Concurrent table and chart edits merge into stale plots; each peer redraws them.
+                const current = get();
+                const settings = current.docSettings;
+                const blocks = refreshChartPlots(merged, [...collectTableIds(current.blocks), ...collectTableIds(merged)]);
+                // Replay the remote edit onto the undo snapshots, so local undo keeps working
+                // without ever reverting collaborators' work.
+                const history = current.history.map((snap) => ({
+                    ...snap,
+                    blocks: rebaseBlockList(snap.blocks, current.blocks, blocks),
+                }));
+                const remoteCode = blocksToTypst(blocks, { settings });
+                if (current.mode !== 'source') {
+                    set({ blocks, history, syncSource: 'blocks', code: remoteCode });
+                    return;
+                }
+                // Source mode: unsaved source edits are merged with the remote edit (a conflict keeps
+                // the local text) instead of being overwritten.
+                const baseCode = blocksToTypst(current.blocks, { settings });
+                const code = current.code === baseCode
+                    ? remoteCode
+                    : blocksToTypst(resolveBlockMerge(mergeTypstSources(baseCode, current.code, remoteCode)), { settings });
+                set({ blocks, history, code });
+            },
+            onPresence: (collabPeers) => set({ collabPeers }),
+            onStatus: (collabStatus) => set({ collabStatus }),
+        });
+        collabSession = session;
+        set({ collabPeers: [] });
+        session.start(state.blocks);
+    },
+
+    stopCollab: () => {
+        if (!collabSession) return;
+        collabSession.stop();
+        collabSession = null;
+        set({ collabStatus: 'off', collabPeers: [] });
+    },
+
+    setCollabFocus: (blockId) => {
+        collabSession?.setFocus(blockId);
+    },
 }));